@@ -5,6 +5,7 @@
 
 const CACHE_NAME = 'ledger-pro-v1';
 const RUNTIME_CACHE = 'ledger-runtime-v1';
+const SYNC_CACHE = 'ledger-sync-v1';  // Lot de synchronisation en attente (conservé)
 
 // Ressources à mettre en cache lors de l'installation
 const PRECACHE_ASSETS = [
@@ -37,7 +38,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME && cacheName !== RUNTIME_CACHE) {
+          if (cacheName !== CACHE_NAME && cacheName !== RUNTIME_CACHE && cacheName !== SYNC_CACHE) {
             console.log('[SW] Deleting old cache:', cacheName);
             return caches.delete(cacheName);
           }
@@ -125,10 +126,73 @@ self.addEventListener('sync', (event) => {
   }
 });
 
+// Synchronisation (voir src/utils/sync.ts)
+const PENDING_PUSH_URL = '/__sync/pending-push';
+const PUSH_RECEIPT_URL = '/__sync/push-receipt';
+const CLIENT_SYNC_TIMEOUT = 60000;
+
+/**
+ * Retour du réseau : l'application ouverte synchronise elle-même ;
+ * application fermée, le lot confié avant la coupure est envoyé au serveur.
+ * Une erreur relance la synchronisation plus tard (background sync).
+ */
 async function syncTransactions() {
-  // Implementation for syncing offline transactions
   console.log('[SW] Syncing transactions...');
-  // This would connect to your backend if you add one later
+
+  const windows = await self.clients.matchAll({ type: 'window' });
+  for (const client of windows) {
+    if (await requestClientSync(client)) return;
+  }
+
+  await sendPendingPush();
+}
+
+/**
+ * Demande à une fenêtre ouverte de synchroniser (réponse via MessageChannel)
+ * false : pas de réponse (synchronisation non configurée dans cette fenêtre)
+ */
+function requestClientSync(client) {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(false), CLIENT_SYNC_TIMEOUT);
+
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      if (event.data && event.data.ok) {
+        resolve(true);
+      } else {
+        reject(new Error((event.data && event.data.error) || 'Sync failed'));
+      }
+    };
+
+    client.postMessage({ type: 'SYNC_REQUEST' }, [channel.port2]);
+  });
+}
+
+/**
+ * Envoie le lot en attente ; le reçu permet à l'application de le retirer de son journal
+ */
+async function sendPendingPush() {
+  const cache = await caches.open(SYNC_CACHE);
+  const pending = await cache.match(PENDING_PUSH_URL);
+  if (!pending) return;
+
+  const { url, authorization, body, seqs } = await pending.json();
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: authorization },
+    body
+  });
+  if (!response.ok) {
+    throw new Error(`Sync server error ${response.status}`);
+  }
+
+  const previous = await cache.match(PUSH_RECEIPT_URL);
+  const receipt = previous ? await previous.json() : { seqs: [] };
+  await cache.put(PUSH_RECEIPT_URL, new Response(JSON.stringify({ seqs: [...receipt.seqs, ...seqs] }), {
+    headers: { 'Content-Type': 'application/json' }
+  }));
+  await cache.delete(PENDING_PUSH_URL);
 }
 
 // Push notifications (optional)
@@ -0,0 +1,208 @@
+/**
+ * Serveur de synchronisation de référence (Node.js, sans dépendance)
+ *
+ * Usage : npm run sync-server
+ *   PORT          port d'écoute (défaut 8787)
+ *   SYNC_DATA_DIR dossier des journaux (défaut server/data)
+ *
+ * RÈGLES :
+ * 1. Une boutique = un code secret (Authorization: Bearer <code>), partagé par ses appareils ;
+ *    le journal est stocké sous l'empreinte SHA-256 du code, jamais le code lui-même
+ * 2. Le serveur n'interprète pas les données : il attribue à chaque modification reçue
+ *    une version globale croissante et la conserve dans un journal (ajout uniquement)
+ * 3. Les conflits sont résolus par les appareils (stamp le plus grand, voir utils/sync) :
+ *    le journal peut contenir des versions dépassées, elles sont ignorées à la réception
+ * 4. Rejouer un envoi est sans effet sur le résultat (une modification déjà connue est écartée)
+ *
+ * API :
+ *   GET  /api/sync/status                          → { ok, version }
+ *   POST /api/sync/push  { deviceId, changes[] }   → { version }
+ *   GET  /api/sync/pull?since=&device=&limit=      → { changes[], version, hasMore }
+ *        (modifications des autres appareils après la version `since`)
+ */
+
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = process.env.SYNC_DATA_DIR
+  ?? path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_PULL_LIMIT = 1000;
+const MIN_SHOP_CODE_LENGTH = 8;
+
+const TABLES = ['accounts', 'products', 'partners', 'transactions', 'payments', 'stockMovements', 'transfers', 'closings'];
+const STAMP_PATTERN = /^\d{15}-\d{6}-[a-z0-9]+$/;
+
+// Journaux chargés : empreinte du code → { changes, writing }
+const shops = new Map();
+
+// ==================== STOCKAGE ====================
+
+function shopFile(shopId) {
+  return path.join(DATA_DIR, `${shopId}.json`);
+}
+
+async function loadShop(shopId) {
+  if (!shops.has(shopId)) {
+    const loading = readFile(shopFile(shopId), 'utf8')
+      .then(content => JSON.parse(content).changes)
+      .catch(err => {
+        if (err.code === 'ENOENT') return [];
+        throw err;
+      })
+      .then(changes => ({ changes, writing: Promise.resolve() }));
+    shops.set(shopId, loading);
+  }
+  return shops.get(shopId);
+}
+
+/**
+ * Écrit le journal (fichier temporaire puis renommage : jamais de fichier à moitié écrit)
+ * Les écritures d'une même boutique se suivent
+ */
+function saveShop(shopId, shop) {
+  shop.writing = shop.writing.then(async () => {
+    await mkdir(DATA_DIR, { recursive: true });
+    const file = shopFile(shopId);
+    await writeFile(`${file}.tmp`, JSON.stringify({ changes: shop.changes }));
+    await rename(`${file}.tmp`, file);
+  });
+  return shop.writing;
+}
+
+// ==================== VALIDATION ====================
+
+function isChange(change) {
+  return typeof change === 'object' && change !== null
+    && TABLES.includes(change.table)
+    && typeof change.syncId === 'string' && change.syncId.length > 0 && change.syncId.length <= 64
+    && typeof change.stamp === 'string' && STAMP_PATTERN.test(change.stamp)
+    && (change.op === 'DELETE'
+      || (change.op === 'PUT' && typeof change.data === 'object' && change.data !== null));
+}
+
+// ==================== HTTP ====================
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function getShopId(req) {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  if (!match || match[1].length < MIN_SHOP_CODE_LENGTH) return null;
+  return createHash('sha256').update(match[1]).digest('hex');
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Requête trop volumineuse'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(Object.assign(new Error('JSON invalide'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function handlePush(req, res, shopId) {
+  const body = await readBody(req);
+  const { deviceId, changes } = body ?? {};
+  if (typeof deviceId !== 'string' || !deviceId || !Array.isArray(changes) || !changes.every(isChange)) {
+    return send(res, 400, { error: 'Modifications invalides' });
+  }
+
+  const shop = await loadShop(shopId);
+  const receivedAt = Date.now();
+  changes.forEach(change => {
+    shop.changes.push({
+      version: shop.changes.length + 1,
+      table: change.table,
+      syncId: change.syncId,
+      op: change.op,
+      stamp: change.stamp,
+      deviceId,
+      ...(change.op === 'PUT' && { data: change.data }),
+      receivedAt
+    });
+  });
+  await saveShop(shopId, shop);
+
+  send(res, 200, { version: shop.changes.length });
+}
+
+async function handlePull(url, res, shopId) {
+  const since = Math.max(0, Number(url.searchParams.get('since')) || 0);
+  const device = url.searchParams.get('device') ?? '';
+  const limit = Math.min(MAX_PULL_LIMIT, Math.max(1, Number(url.searchParams.get('limit')) || MAX_PULL_LIMIT));
+
+  const shop = await loadShop(shopId);
+  const changes = [];
+  let version = Math.min(since, shop.changes.length);
+
+  // Versions consécutives : la version n est à l'index n - 1
+  while (version < shop.changes.length && changes.length < limit) {
+    const change = shop.changes[version];
+    version++;
+    if (change.deviceId !== device) {
+      const { receivedAt: _receivedAt, ...rest } = change;
+      changes.push(rest);
+    }
+  }
+
+  send(res, 200, { changes, version, hasMore: version < shop.changes.length });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const shopId = getShopId(req);
+    if (!shopId) return send(res, 401, { error: 'Code boutique manquant ou trop court' });
+
+    if (req.method === 'GET' && url.pathname === '/api/sync/status') {
+      const shop = await loadShop(shopId);
+      return send(res, 200, { ok: true, version: shop.changes.length });
+    }
+    if (req.method === 'POST' && url.pathname === '/api/sync/push') {
+      return await handlePush(req, res, shopId);
+    }
+    if (req.method === 'GET' && url.pathname === '/api/sync/pull') {
+      return await handlePull(url, res, shopId);
+    }
+
+    send(res, 404, { error: 'Introuvable' });
+  } catch (err) {
+    console.error('[sync]', err);
+    if (!res.headersSent) send(res, err.status ?? 500, { error: err.status ? err.message : 'Erreur serveur' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[sync] Serveur de synchronisation sur http://localhost:${PORT} (données : ${DATA_DIR})`);
+});
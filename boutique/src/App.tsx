@@ -1,6 +1,7 @@
 /**
  * App.tsx - Point d'entrée principal
  * Configuration du router, routes et PWA
+ * Écran de verrouillage (code PIN) dès qu'un profil existe
  */
 
 import { useState, useEffect } from 'react';
@@ -17,6 +18,24 @@ import { Transactions } from './pages/Transactions';
 import { NewTransaction } from './pages/NewTransaction';
 import { Payments } from './pages/Payments';
 import { HelpCenter } from './pages/HelperCenter';
+import { Backup } from './pages/Backup';
+import { Settings } from './pages/Settings';
+import { Products } from './pages/Products';
+import { Aging } from './pages/Aging';
+import { Margin } from './pages/Margin';
+import { Treasury } from './pages/Treasury';
+import { Closing } from './pages/Closing';
+import { AuditLog } from './pages/AuditLog';
+import { Users } from './pages/Users';
+import { Sync } from './pages/Sync';
+import { Search } from './pages/Search';
+
+// Profils
+import { LockScreen } from './components/users/LockScreen';
+import { useSession, useIdleLock } from './hooks/useSession';
+
+// Synchronisation
+import { useAutoSync } from './hooks/useSync';
 
 // Onboarding
 import { OnboardingTour} from './components/onboarding/OnboardingTour';
@@ -31,6 +50,10 @@ function App() {
 
   const { shouldShowOnboarding, isLoading: onboardingLoading, hideOnboarding } = useOnboarding();
 
+  const { user, isLocked, lockDelay, lock, loading: sessionLoading } = useSession();
+  useIdleLock(lockDelay, !!user, lock);
+  useAutoSync();
+
   // Show install prompt after 30 seconds if installable
   useEffect(() => {
     if (isInstallable) {
@@ -85,35 +108,59 @@ function App() {
         />
       )}
 
-      {/* Routes */}
-      <Routes>
-        {/* Dashboard */}
-        <Route path="/" element={<Dashboard />} />
-
-        {/* Clients */}
-        <Route path="/clients" element={<Clients />} />
-        <Route path="/clients/:id" element={<PartnerDetailPage />} />
-
-        {/* Fournisseurs */}
-        <Route path="/fournisseurs" element={<Fournisseurs />} />
-        <Route path="/fournisseurs/:id" element={<PartnerDetailPage />} />
-
-        {/* Transactions */}
-        <Route path="/transactions" element={<Transactions />} />
-        <Route path="/transactions/new" element={<NewTransaction />} />
-        <Route path="/transactions/:id" element={<NewTransaction />} />
-
-        {/* Payments */}
-        <Route path="/payments" element={<Payments />} />
-
-        <Route path="/help" element={<HelpCenter />} />
-
-        {/* 404 - Redirect to home */}
-        <Route path="*" element={<Navigate to="/" replace />} />
-      </Routes>
+      {/* Verrouillage (rien n'est affiché avant de savoir si des profils existent) */}
+      {sessionLoading ? null : isLocked ? (
+        <LockScreen />
+      ) : (
+        /* Routes */
+        <Routes>
+          {/* Dashboard */}
+          <Route path="/" element={<Dashboard />} />
+
+          {/* Clients */}
+          <Route path="/clients" element={<Clients />} />
+          <Route path="/clients/:id" element={<PartnerDetailPage />} />
+
+          {/* Fournisseurs */}
+          <Route path="/fournisseurs" element={<Fournisseurs />} />
+          <Route path="/fournisseurs/:id" element={<PartnerDetailPage />} />
+
+          {/* Transactions */}
+          <Route path="/transactions" element={<Transactions />} />
+          <Route path="/transactions/new" element={<NewTransaction />} />
+          <Route path="/transactions/:id" element={<NewTransaction />} />
+
+          {/* Payments */}
+          <Route path="/payments" element={<Payments />} />
+
+          {/* Trésorerie */}
+          <Route path="/treasury" element={<Treasury />} />
+          <Route path="/closing" element={<Closing />} />
+          <Route path="/audit" element={<AuditLog />} />
+
+          {/* Rapports */}
+          <Route path="/aging" element={<Aging />} />
+          <Route path="/margin" element={<Margin />} />
+
+          {/* Recherche globale */}
+          <Route path="/search" element={<Search />} />
+
+          {/* Catalogue */}
+          <Route path="/products" element={<Products />} />
+
+          <Route path="/help" element={<HelpCenter />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/users" element={<Users />} />
+          <Route path="/sync" element={<Sync />} />
+          <Route path="/backup" element={<Backup />} />
+
+          {/* 404 - Redirect to home */}
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      )}
 
       <OnboardingTour
-        isOpen={shouldShowOnboarding}
+        isOpen={shouldShowOnboarding && !isLocked}
         onComplete={hideOnboarding}
         onSkip={hideOnboarding}
       />
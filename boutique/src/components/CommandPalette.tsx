@@ -0,0 +1,252 @@
+/**
+ * CommandPalette - Recherche et actions rapides depuis n'importe quelle page
+ * Features:
+ * - Ouverture par la loupe du header ou Ctrl+K (⌘K sur Mac)
+ * - Résultats groupés : actions, partners, transactions (montant, n° de facture, note), paiements
+ * - Actions rapides : « vente Aïssa », « encaisser Moussa » ouvrent le formulaire pré-rempli
+ * - Navigation au clavier : ↑ ↓ pour choisir, Entrée pour ouvrir, Échap pour fermer
+ */
+
+import React, { useDeferredValue, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useGlobalSearch } from '../hooks/useSearch';
+import { getPartnerPath } from '../utils/quickActions';
+import { getDocumentNumber } from '../utils/creditNote';
+import type { QuickActionKind } from '../types/search';
+import {
+  Search,
+  Users,
+  Receipt,
+  DollarSign,
+  ShoppingCart,
+  Truck,
+  ArrowDownLeft,
+  ArrowUpRight,
+  CornerDownLeft
+} from 'lucide-react';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  key: string;
+  group: string;
+  icon: React.ReactNode;
+  label: string;
+  detail?: string;
+  path: string;
+}
+
+// Résultats par groupe
+const PALETTE_LIMIT = 5;
+
+const ACTION_ICONS: Record<QuickActionKind, React.ReactNode> = {
+  SALE: <ShoppingCart size={18} />,
+  PURCHASE: <Truck size={18} />,
+  PAYMENT_IN: <ArrowDownLeft size={18} />,
+  PAYMENT_OUT: <ArrowUpRight size={18} />
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'decimal',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount) + ' F';
+};
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric'
+  });
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  if (!isOpen) return null;
+  // Contenu monté à chaque ouverture : saisie et sélection repartent de zéro
+  return <CommandPaletteContent onClose={onClose} />;
+};
+
+const CommandPaletteContent: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const deferredQuery = useDeferredValue(query);
+  const { results, loading } = useGlobalSearch(deferredQuery, PALETTE_LIMIT);
+
+  // Empêche le scroll du body tant que la palette est ouverte
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, []);
+
+  const items: PaletteItem[] = [
+    ...results.actions.map(action => ({
+      key: `action-${action.kind}-${action.partner?.id ?? 'new'}`,
+      group: 'Actions',
+      icon: ACTION_ICONS[action.kind],
+      label: action.label,
+      path: action.path
+    })),
+    ...results.partners.map(partner => ({
+      key: `partner-${partner.id}`,
+      group: 'Partners',
+      icon: <Users size={18} />,
+      label: partner.name,
+      detail: partner.phone,
+      path: getPartnerPath(partner.id!, partner.type)
+    })),
+    ...results.transactions.map(({ transaction, partnerName }) => ({
+      key: `transaction-${transaction.id}`,
+      group: 'Transactions',
+      icon: <Receipt size={18} />,
+      label: `${partnerName} · ${formatCurrency(transaction.total)}`,
+      detail: [getDocumentNumber(transaction), formatDate(transaction.date), transaction.note]
+        .filter(Boolean)
+        .join(' · '),
+      path: `/transactions/${transaction.id}`
+    })),
+    ...results.payments.map(({ payment, partnerName, partnerType }) => ({
+      key: `payment-${payment.id}`,
+      group: 'Paiements',
+      icon: <DollarSign size={18} />,
+      label: `${partnerName} · ${payment.direction === 'IN' ? '+' : '-'}${formatCurrency(payment.amount)}`,
+      detail: [formatDate(payment.date), payment.note].filter(Boolean).join(' · '),
+      path: getPartnerPath(payment.partnerId, partnerType)
+    }))
+  ];
+
+  // Sélection ramenée dans la liste si elle a raccourci
+  const selectedIndex = Math.min(activeIndex, Math.max(items.length - 1, 0));
+  const hasQuery = deferredQuery.trim() !== '';
+
+  const open = (path: string) => {
+    onClose();
+    navigate(path);
+  };
+
+  const openAllResults = () => {
+    open(`/search?${new URLSearchParams({ q: query.trim() })}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(items.length ? (selectedIndex + 1) % items.length : 0);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(items.length ? (selectedIndex - 1 + items.length) % items.length : 0);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (items[selectedIndex]) {
+          open(items[selectedIndex].path);
+        } else if (query.trim()) {
+          openAllResults();
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-60 flex items-start justify-center bg-gray-900/40 p-4 pt-16"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-xl max-h-[75vh] overflow-hidden flex flex-col animate-fadeIn"
+        role="dialog"
+        aria-label="Recherche"
+      >
+        {/* Saisie */}
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-200">
+          <Search size={20} className="text-gray-400 shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Chercher, ou « vente Aïssa », « encaisser Moussa »…"
+            className="flex-1 text-base outline-none placeholder:text-gray-400"
+            autoComplete="off"
+          />
+          <kbd className="hidden sm:inline text-xs text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Échap</kbd>
+        </div>
+
+        {/* Résultats */}
+        <div className="flex-1 overflow-y-auto py-2">
+          {!hasQuery ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              Nom, téléphone, montant, n° de facture ou note
+            </p>
+          ) : loading ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">Recherche...</p>
+          ) : items.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              Aucun résultat pour « {deferredQuery} »
+            </p>
+          ) : (
+            items.map((item, index) => (
+              <React.Fragment key={item.key}>
+                {(index === 0 || items[index - 1].group !== item.group) && (
+                  <p className="px-4 pt-3 pb-1 text-xs font-semibold text-gray-500 uppercase">
+                    {item.group}
+                  </p>
+                )}
+                <button
+                  type="button"
+                  onClick={() => open(item.path)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={`w-full flex items-center gap-3 px-4 py-2 text-left ${
+                    index === selectedIndex ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <span className={index === selectedIndex ? 'text-blue-600' : 'text-gray-400'}>
+                    {item.icon}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-medium text-gray-900 truncate">{item.label}</span>
+                    {item.detail && (
+                      <span className="block text-xs text-gray-500 truncate">{item.detail}</span>
+                    )}
+                  </span>
+                  {index === selectedIndex && (
+                    <CornerDownLeft size={14} className="text-gray-400 shrink-0" />
+                  )}
+                </button>
+              </React.Fragment>
+            ))
+          )}
+        </div>
+
+        {/* Tous les résultats */}
+        {hasQuery && (
+          <button
+            type="button"
+            onClick={openAllResults}
+            className="px-4 py-3 text-sm text-blue-600 hover:bg-gray-50 border-t border-gray-200 text-left"
+          >
+            Voir tous les résultats pour « {query.trim()} »
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
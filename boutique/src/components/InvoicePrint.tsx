@@ -1,6 +1,9 @@
 /**
  * InvoicePrint - Composant d'impression de facture
  * Format professionnel avec CSS print
+ * En-tête (nom, téléphone, adresse, logo, devise) lu depuis les paramètres boutique
+ * Avoir : document "AVOIR" avec référence de la facture d'origine
+ * Facture avec avoirs : liste des avoirs et montant net
  */
 
 import React, { useRef, useEffect, useState } from 'react';
@@ -8,11 +11,16 @@ import type { Transaction } from '../types/transaction';
 import type { Partner } from '../types/partners';
 import { Button } from './Buttons';
 import { Printer } from 'lucide-react';
-import { getPreviousBalance } from '../utils/balance';
+import { getPreviousBalance, calculatePosition } from '../utils/balance';
+import { getDocumentNumber, isCreditNote } from '../utils/creditNote';
+import { useBusinessSettings } from '../hooks/useSettings';
+import { useTransaction } from '../hooks/useTransactions';
+import { useCreditNotes } from '../hooks/useCreditNotes';
 
 interface InvoicePrintProps {
   transaction: Transaction;
   partner: Partner;
+  // Surcharges optionnelles (sinon valeurs des paramètres)
   businessName?: string;
   businessPhone?: string;
   businessAddress?: string;
@@ -21,12 +29,20 @@ interface InvoicePrintProps {
 export const InvoicePrint: React.FC<InvoicePrintProps> = ({
   transaction,
   partner,
-  businessName = 'Ma Boutique',
+  businessName,
   businessPhone,
   businessAddress
 }) => {
   const printRef = useRef<HTMLDivElement>(null);
+  const { settings } = useBusinessSettings();
+  const headerName = businessName ?? settings.businessName;
+  const headerPhone = businessPhone ?? settings.businessPhone;
+  const headerAddress = businessAddress ?? settings.businessAddress;
   const [ancienSolde, setAncienSolde] = useState<number>(0);
+  const { transaction: original } = useTransaction(transaction.reversalOf);
+  const { creditNotes } = useCreditNotes(transaction);
+  const isAvoir = isCreditNote(transaction);
+  const creditedTotal = creditNotes.reduce((sum, note) => sum + note.total, 0);
 
   // Charger l'ancien solde
   useEffect(() => {
@@ -41,7 +57,7 @@ export const InvoicePrint: React.FC<InvoicePrintProps> = ({
     return new Intl.NumberFormat('fr-FR', {
       style: 'decimal',
       minimumFractionDigits: 0
-    }).format(amount) + ' FCFA';
+    }).format(amount) + ' ' + settings.currencyLabel;
   };
 
   const formatDate = (timestamp: number) => {
@@ -52,7 +68,8 @@ export const InvoicePrint: React.FC<InvoicePrintProps> = ({
     });
   };
 
-  const invoiceNumber = `FAC-${transaction.id}-${new Date(transaction.date).getFullYear()}`;
+  const invoiceNumber = getDocumentNumber(transaction);
+  const rowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', padding: '10px 0', borderTop: '1px solid #ddd' };
 
   return (
     <>
@@ -63,7 +80,7 @@ export const InvoicePrint: React.FC<InvoicePrintProps> = ({
         variant="secondary"
         fullWidth
       >
-        Imprimer la facture
+        {isAvoir ? 'Imprimer l\'avoir' : 'Imprimer la facture'}
       </Button>
 
       {/* Contenu à imprimer */}
@@ -95,19 +112,34 @@ export const InvoicePrint: React.FC<InvoicePrintProps> = ({
         <div style={{ maxWidth: '210mm', margin: '0 auto', padding: '20px', fontSize: '12pt' }}>
           {/* En-tête */}
           <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '30px', borderBottom: '2px solid #000', paddingBottom: '15px' }}>
-            <div>
-              <h1 style={{ fontSize: '24pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>
-                {businessName}
-              </h1>
-              {businessPhone && <p style={{ margin: '5px 0' }}>Tél: {businessPhone}</p>}
-              {businessAddress && <p style={{ margin: '5px 0' }}>{businessAddress}</p>}
+            <div style={{ display: 'flex', gap: '15px', alignItems: 'flex-start' }}>
+              {settings.businessLogo && (
+                <img
+                  src={settings.businessLogo}
+                  alt={headerName}
+                  style={{ width: '70px', height: '70px', objectFit: 'contain' }}
+                />
+              )}
+              <div>
+                <h1 style={{ fontSize: '24pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>
+                  {headerName}
+                </h1>
+                {headerPhone && <p style={{ margin: '5px 0' }}>Tél: {headerPhone}</p>}
+                {headerAddress && <p style={{ margin: '5px 0', whiteSpace: 'pre-line' }}>{headerAddress}</p>}
+              </div>
             </div>
             <div style={{ textAlign: 'right' }}>
               <h2 style={{ fontSize: '20pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>
-                FACTURE
+                {isAvoir ? 'AVOIR' : 'FACTURE'}
               </h2>
               <p style={{ margin: '5px 0' }}><strong>N°:</strong> {invoiceNumber}</p>
               <p style={{ margin: '5px 0' }}><strong>Date:</strong> {formatDate(transaction.date)}</p>
+              {isAvoir && original && (
+                <p style={{ margin: '5px 0' }}><strong>Sur facture:</strong> {getDocumentNumber(original)} du {formatDate(original.date)}</p>
+              )}
+              {!isAvoir && transaction.dueDate && transaction.paid < transaction.total && (
+                <p style={{ margin: '5px 0' }}><strong>Échéance:</strong> {formatDate(transaction.dueDate)}</p>
+              )}
             </div>
           </div>
 
@@ -151,12 +183,36 @@ export const InvoicePrint: React.FC<InvoicePrintProps> = ({
             </table>
           ) : (
             <div style={{ marginBottom: '30px', padding: '20px', textAlign: 'center', backgroundColor: '#f5f5f5' }}>
-              <p>Montant global de la transaction</p>
+              <p>{isAvoir ? 'Annulation partielle du montant de la facture' : 'Montant global de la transaction'}</p>
             </div>
           )}
 
           {/* Totaux */}
           <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '30px' }}>
+            {isAvoir ? (
+              <div style={{ width: '350px' }}>
+                <div style={rowStyle}>
+                  <span><strong>Ancien solde:</strong></span>
+                  <span style={{ fontFamily: 'monospace', fontSize: '14pt' }}><strong>{formatCurrency(ancienSolde)}</strong></span>
+                </div>
+                <div style={rowStyle}>
+                  <span><strong>Total avoir:</strong></span>
+                  <span style={{ fontFamily: 'monospace', fontSize: '14pt' }}><strong>- {formatCurrency(transaction.total)}</strong></span>
+                </div>
+                {transaction.paid > 0 && (
+                  <div style={{ ...rowStyle, color: '#16a34a' }}>
+                    <span><strong>Remboursé:</strong></span>
+                    <span style={{ fontFamily: 'monospace', fontSize: '14pt' }}><strong>{formatCurrency(transaction.paid)}</strong></span>
+                  </div>
+                )}
+                <div style={{ display: 'flex', justifyContent: 'space-between', padding: '15px', borderTop: '2px solid #000', backgroundColor: '#fef3c7' }}>
+                  <span style={{ fontSize: '14pt' }}><strong>Nouveau solde:</strong></span>
+                  <span style={{ fontFamily: 'monospace', fontSize: '18pt' }}>
+                    <strong>{formatCurrency(ancienSolde + calculatePosition(transaction))}</strong>
+                  </span>
+                </div>
+              </div>
+            ) : (
             <div style={{ width: '350px' }}>
               {ancienSolde !== 0 && (
                 <div style={{ display: 'flex', justifyContent: 'space-between', padding: '10px 0', borderTop: '1px solid #ddd' }}>
@@ -184,8 +240,26 @@ export const InvoicePrint: React.FC<InvoicePrintProps> = ({
                 </span>
               </div>
             </div>
+            )}
           </div>
 
+          {/* Avoirs émis sur cette facture */}
+          {creditNotes.length > 0 && (
+            <div style={{ marginBottom: '30px' }}>
+              <h3 style={{ fontSize: '13pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>Avoirs</h3>
+              {creditNotes.map(note => (
+                <div key={note.id} style={rowStyle}>
+                  <span>{getDocumentNumber(note)} du {formatDate(note.date)}{note.note ? ` — ${note.note}` : ''}</span>
+                  <span style={{ fontFamily: 'monospace' }}>- {formatCurrency(note.total)}</span>
+                </div>
+              ))}
+              <div style={{ ...rowStyle, borderTop: '2px solid #000' }}>
+                <span><strong>Net facturé:</strong></span>
+                <span style={{ fontFamily: 'monospace' }}><strong>{formatCurrency(transaction.total - creditedTotal)}</strong></span>
+              </div>
+            </div>
+          )}
+
           {/* Note */}
           {transaction.note && (
             <div style={{ marginTop: '30px', padding: '15px', backgroundColor: '#f5f5f5', borderLeft: '4px solid #333' }}>
@@ -197,7 +271,9 @@ export const InvoicePrint: React.FC<InvoicePrintProps> = ({
           <div style={{ marginTop: '50px', paddingTop: '20px', borderTop: '1px solid #ddd', textAlign: 'center', fontSize: '10pt', color: '#666' }}>
             <p>Merci pour votre confiance</p>
             <p style={{ margin: '10px 0 0 0' }}>
-              Type de transaction: {transaction.direction === 'SALE' ? 'Vente' : 'Achat'}
+              Type de transaction: {isAvoir
+                ? `Avoir sur ${transaction.direction === 'PURCHASE' ? 'vente' : 'achat'}`
+                : transaction.direction === 'SALE' ? 'Vente' : 'Achat'}
             </p>
           </div>
         </div>
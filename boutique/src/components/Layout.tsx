@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
-import { NavLink } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { NavLink, useNavigate } from 'react-router-dom';
+import { useSession } from '../hooks/useSession';
+import { ROLE_LABELS } from '../utils/users';
+import { CommandPalette } from './CommandPalette';
 import { 
   LayoutDashboard, 
   Users, 
@@ -9,7 +12,17 @@ import {
   Settings,
   HelpCircle,
   MoreVertical,
-  LogOut
+  LogOut,
+  DatabaseBackup,
+  Package,
+  Clock,
+  Wallet,
+  ClipboardCheck,
+  History,
+  UserCog,
+  RefreshCw,
+  Search,
+  Percent
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -20,6 +33,32 @@ interface LayoutProps {
 
 export const Layout: React.FC<LayoutProps> = ({ children, title, action }) => {
   const [showMenu, setShowMenu] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const navigate = useNavigate();
+  const { user, hasProfiles, lock } = useSession();
+
+  // Déconnexion : verrouille la session (sans profil, propose d'en créer un)
+  const handleLogout = () => {
+    setShowMenu(false);
+    if (hasProfiles) {
+      lock();
+    } else {
+      navigate('/users');
+    }
+  };
+
+  // Ctrl+K (⌘K sur Mac) : palette de recherche
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowPalette(open => !open);
+      }
+    };
+
+    document.addEventListener('keydown', handleShortcut);
+    return () => document.removeEventListener('keydown', handleShortcut);
+  }, []);
 
   const navItems = [
     { path: '/', icon: LayoutDashboard, label: 'Bord', tour: 'tour-dashboard' },
@@ -41,7 +80,17 @@ export const Layout: React.FC<LayoutProps> = ({ children, title, action }) => {
 
             <div className="flex items-center gap-2">
               {action}
-              
+
+              {/* Recherche globale (palette) */}
+              <button
+                onClick={() => setShowPalette(true)}
+                className="p-2 hover:bg-gray-100 rounded-full text-gray-600"
+                aria-label="Rechercher"
+                title="Rechercher (Ctrl+K)"
+              >
+                <Search size={20} />
+              </button>
+
               {/* Menu Secondaire Dropdown */}
               <div className="relative">
                 <button 
@@ -56,14 +105,53 @@ export const Layout: React.FC<LayoutProps> = ({ children, title, action }) => {
                   <>
                     <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)}></div>
                     <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-xl shadow-lg z-20 py-1">
+                      {user && (
+                        <>
+                          <div className="px-4 py-2">
+                            <p className="text-sm font-semibold text-gray-900 truncate">{user.name}</p>
+                            <p className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</p>
+                          </div>
+                          <hr className="my-1 border-gray-100" />
+                        </>
+                      )}
+                      <NavLink to="/products" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <Package size={18} className="text-gray-400" /> Catalogue
+                      </NavLink>
+                      <NavLink to="/treasury" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <Wallet size={18} className="text-gray-400" /> Trésorerie
+                      </NavLink>
+                      <NavLink to="/closing" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <ClipboardCheck size={18} className="text-gray-400" /> Clôture de caisse
+                      </NavLink>
+                      <NavLink to="/aging" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <Clock size={18} className="text-gray-400" /> Créances
+                      </NavLink>
+                      <NavLink to="/margin" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <Percent size={18} className="text-gray-400" /> Marges
+                      </NavLink>
+                      <NavLink to="/audit" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <History size={18} className="text-gray-400" /> Journal d'audit
+                      </NavLink>
                       <NavLink to="/help" data-tour="help-link" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
                         <HelpCircle size={18} className="text-gray-400" /> Aide & Support
                       </NavLink>
                       <NavLink to="/settings" data-tour="settings-link" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
                         <Settings size={18} className="text-gray-400" /> Paramètres
                       </NavLink>
+                      <NavLink to="/backup" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <DatabaseBackup size={18} className="text-gray-400" /> Sauvegarde
+                      </NavLink>
+                      <NavLink to="/users" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <UserCog size={18} className="text-gray-400" /> Profils
+                      </NavLink>
+                      <NavLink to="/sync" className="flex items-center gap-3 px-4 py-3 text-sm text-gray-700 hover:bg-gray-50">
+                        <RefreshCw size={18} className="text-gray-400" /> Synchronisation
+                      </NavLink>
                       <hr className="my-1 border-gray-100" />
-                      <button className="flex items-center gap-3 px-4 py-3 text-sm text-red-600 hover:bg-red-50 w-full text-left">
+                      <button
+                        onClick={handleLogout}
+                        className="flex items-center gap-3 px-4 py-3 text-sm text-red-600 hover:bg-red-50 w-full text-left"
+                      >
                         <LogOut size={18} /> Déconnexion
                       </button>
                     </div>
@@ -75,6 +163,8 @@ export const Layout: React.FC<LayoutProps> = ({ children, title, action }) => {
         </div>
       </header>
 
+      <CommandPalette isOpen={showPalette} onClose={() => setShowPalette(false)} />
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 py-6">
         {children}
@@ -0,0 +1,225 @@
+/**
+ * StatementPrint - Impression du relevé de compte d'un partner
+ * Même approche CSS print que InvoicePrint
+ * Solde d'ouverture, solde après chaque ligne, solde de clôture
+ * Avoirs : montant négatif avec référence de la facture d'origine
+ */
+
+import React from 'react';
+import type { PartnerStatement, StatementLine } from '../types/balances';
+import { Button } from './Buttons';
+import { Printer } from 'lucide-react';
+import { useBusinessSettings } from '../hooks/useSettings';
+import { getDocumentNumber, isCreditNote } from '../utils/creditNote';
+
+interface StatementPrintProps {
+  statement: PartnerStatement;
+}
+
+export const StatementPrint: React.FC<StatementPrintProps> = ({ statement }) => {
+  const { settings } = useBusinessSettings();
+  const { partner } = statement;
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(amount) + ' ' + settings.currencyLabel;
+  };
+
+  const formatDate = (timestamp: number, month: 'long' | '2-digit' = 'long') => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month,
+      year: 'numeric'
+    });
+  };
+
+  const getLineLabel = (line: StatementLine) => {
+    if (line.transaction) {
+      const tx = line.transaction;
+      if (isCreditNote(tx)) {
+        const label = line.original
+          ? `Avoir ${getDocumentNumber(tx)} sur ${getDocumentNumber(line.original)}`
+          : `Avoir ${getDocumentNumber(tx)}`;
+        return tx.note ? `${label} — ${tx.note}` : label;
+      }
+      return `${tx.direction === 'SALE' ? 'Vente' : 'Achat'} ${getDocumentNumber(tx)}`;
+    }
+    const label = line.payment?.direction === 'OUT' ? 'Paiement versé' : 'Paiement reçu';
+    return line.payment?.note ? `${label} — ${line.payment.note}` : label;
+  };
+
+  const balanceColor = (amount: number) => (amount > 0 ? '#16a34a' : amount < 0 ? '#dc2626' : '#000');
+
+  const cellStyle: React.CSSProperties = { padding: '5px', border: '1px solid #ddd' };
+  const amountStyle: React.CSSProperties = { ...cellStyle, textAlign: 'right', fontFamily: 'monospace' };
+
+  return (
+    <>
+      {/* Bouton impression */}
+      <Button
+        onClick={handlePrint}
+        leftIcon={<Printer size={18} />}
+        variant="secondary"
+        fullWidth
+      >
+        Imprimer le relevé
+      </Button>
+
+      {/* Contenu à imprimer */}
+      <div className="print-content hidden print:block">
+        <style>{`
+          @media print {
+            body * {
+              visibility: hidden;
+            }
+            .print-content,
+            .print-content * {
+              visibility: visible;
+            }
+            .print-content {
+              position: absolute;
+              left: 0;
+              top: 0;
+              width: 100%;
+              padding: 20mm;
+              font-family: Arial, sans-serif;
+            }
+            @page {
+              size: A4;
+              margin: 0;
+            }
+          }
+        `}</style>
+
+        <div style={{ maxWidth: '210mm', margin: '0 auto', padding: '20px', fontSize: '11pt' }}>
+          {/* En-tête */}
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '30px', borderBottom: '2px solid #000', paddingBottom: '15px' }}>
+            <div style={{ display: 'flex', gap: '15px', alignItems: 'flex-start' }}>
+              {settings.businessLogo && (
+                <img
+                  src={settings.businessLogo}
+                  alt={settings.businessName}
+                  style={{ width: '70px', height: '70px', objectFit: 'contain' }}
+                />
+              )}
+              <div>
+                <h1 style={{ fontSize: '24pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>
+                  {settings.businessName}
+                </h1>
+                {settings.businessPhone && <p style={{ margin: '5px 0' }}>Tél: {settings.businessPhone}</p>}
+                {settings.businessAddress && <p style={{ margin: '5px 0', whiteSpace: 'pre-line' }}>{settings.businessAddress}</p>}
+              </div>
+            </div>
+            <div style={{ textAlign: 'right' }}>
+              <h2 style={{ fontSize: '20pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>
+                RELEVÉ DE COMPTE
+              </h2>
+              <p style={{ margin: '5px 0' }}><strong>Du:</strong> {formatDate(statement.startDate)}</p>
+              <p style={{ margin: '5px 0' }}><strong>Au:</strong> {formatDate(statement.endDate)}</p>
+            </div>
+          </div>
+
+          {/* Info partner */}
+          <div style={{ marginBottom: '30px', padding: '15px', backgroundColor: '#f5f5f5', borderRadius: '5px' }}>
+            <p style={{ margin: '5px 0', fontSize: '13pt' }}><strong>{partner.name}</strong></p>
+            {partner.phone && <p style={{ margin: '5px 0' }}>Tél: {partner.phone}</p>}
+            <p style={{ margin: '5px 0' }}>
+              Type: {partner.type === 'CLIENT' ? 'Client' : partner.type === 'SUPPLIER' ? 'Fournisseur' : 'Client/Fournisseur'}
+            </p>
+          </div>
+
+          {/* Tableau des mouvements */}
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '30px' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#333', color: 'white' }}>
+                <th style={{ padding: '10px', textAlign: 'left', border: '1px solid #ddd', width: '90px' }}>Date</th>
+                <th style={{ padding: '10px', textAlign: 'left', border: '1px solid #ddd' }}>Libellé</th>
+                <th style={{ padding: '10px', textAlign: 'right', border: '1px solid #ddd', width: '110px' }}>Montant</th>
+                <th style={{ padding: '10px', textAlign: 'right', border: '1px solid #ddd', width: '110px' }}>Payé</th>
+                <th style={{ padding: '10px', textAlign: 'right', border: '1px solid #ddd', width: '120px' }}>Solde</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr style={{ backgroundColor: '#f5f5f5' }}>
+                <td style={cellStyle}>{formatDate(statement.startDate, '2-digit')}</td>
+                <td style={cellStyle} colSpan={3}><strong>Solde d'ouverture</strong></td>
+                <td style={{ ...amountStyle, fontWeight: 'bold', color: balanceColor(statement.opening) }}>
+                  {formatCurrency(statement.opening)}
+                </td>
+              </tr>
+
+              {statement.lines.map((line, index) => (
+                <tr key={index} style={{ borderBottom: '1px solid #ddd' }}>
+                  <td style={cellStyle}>{formatDate(line.date, '2-digit')}</td>
+                  <td style={cellStyle}>{getLineLabel(line)}</td>
+                  <td style={amountStyle}>
+                    {line.transaction ? formatCurrency(isCreditNote(line.transaction) ? -line.amount : line.amount) : ''}
+                  </td>
+                  <td style={amountStyle}>{line.paid > 0 ? formatCurrency(line.paid) : ''}</td>
+                  <td style={{ ...amountStyle, fontWeight: 'bold', color: balanceColor(line.balance) }}>
+                    {formatCurrency(line.balance)}
+                  </td>
+                </tr>
+              ))}
+
+              {statement.lines.length === 0 && (
+                <tr>
+                  <td style={{ ...cellStyle, textAlign: 'center', color: '#666' }} colSpan={5}>
+                    Aucun mouvement sur la période
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {/* Totaux */}
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '30px' }}>
+            <div style={{ width: '350px' }}>
+              {statement.totalSales > 0 && (
+                <div style={{ display: 'flex', justifyContent: 'space-between', padding: '8px 0', borderTop: '1px solid #ddd' }}>
+                  <span>Total ventes:</span>
+                  <span style={{ fontFamily: 'monospace' }}>{formatCurrency(statement.totalSales)}</span>
+                </div>
+              )}
+              {statement.totalPurchases > 0 && (
+                <div style={{ display: 'flex', justifyContent: 'space-between', padding: '8px 0', borderTop: '1px solid #ddd' }}>
+                  <span>Total achats:</span>
+                  <span style={{ fontFamily: 'monospace' }}>{formatCurrency(statement.totalPurchases)}</span>
+                </div>
+              )}
+              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '8px 0', borderTop: '1px solid #ddd', color: '#16a34a' }}>
+                <span>Total payé:</span>
+                <span style={{ fontFamily: 'monospace' }}>{formatCurrency(statement.totalPaid)}</span>
+              </div>
+
+              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '15px', borderTop: '2px solid #000', backgroundColor: '#fef3c7' }}>
+                <span style={{ fontSize: '14pt' }}><strong>Solde de clôture:</strong></span>
+                <span style={{ fontFamily: 'monospace', fontSize: '16pt', color: balanceColor(statement.closing) }}>
+                  <strong>{formatCurrency(statement.closing)}</strong>
+                </span>
+              </div>
+              <p style={{ margin: '8px 0 0 0', fontSize: '10pt', color: '#666', textAlign: 'right' }}>
+                {statement.closing > 0
+                  ? 'Montant restant dû par le partner'
+                  : statement.closing < 0
+                    ? 'Montant restant dû au partner'
+                    : 'Compte soldé'}
+              </p>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div style={{ marginTop: '50px', paddingTop: '20px', borderTop: '1px solid #ddd', textAlign: 'center', fontSize: '10pt', color: '#666' }}>
+            <p>Relevé édité le {formatDate(statement.generatedAt)}</p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
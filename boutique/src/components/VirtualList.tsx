@@ -0,0 +1,155 @@
+/**
+ * VirtualList - Liste longue dont seules les lignes proches de l'écran sont rendues
+ * Features:
+ * - Suit le défilement de la page (ou du modal qui la contient)
+ * - Hauteurs de lignes variables, mesurées à l'affichage (estimation avant)
+ * - Défilement infini : onEndReached appelé à l'approche de la fin de liste
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Spinner } from './Loading';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string | number;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  estimatedItemHeight?: number;   // px, espacement compris
+  gap?: 'sm' | 'md';              // Espace sous chaque ligne
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onEndReached?: () => void;
+}
+
+// Marge rendue au-dessus et au-dessous de l'écran (défilement rapide)
+const OVERSCAN_PX = 800;
+
+// Distance de la fin de liste à laquelle la page suivante est demandée
+const END_REACHED_MARGIN = '600px';
+
+const gapClasses = {
+  sm: 'pb-2',
+  md: 'pb-3'
+};
+
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedItemHeight = 120,
+  gap = 'md',
+  hasMore = false,
+  isLoadingMore = false,
+  onEndReached
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Partie visible de la liste (px, relatif au haut de la liste)
+  const [viewport, setViewport] = useState(() => ({ top: 0, height: window.innerHeight }));
+  const [heights, setHeights] = useState<Record<string, number>>({});
+
+  // Mesure des lignes rendues (une seule instance pour toutes les lignes)
+  const [resizeObserver] = useState(() => new ResizeObserver(entries => {
+    setHeights(prev => {
+      let next = prev;
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        const key = element.dataset.key!;
+        if (element.isConnected && prev[key] !== element.offsetHeight) {
+          if (next === prev) next = { ...prev };
+          next[key] = element.offsetHeight;
+        }
+      });
+      return next;
+    });
+  }));
+
+  const measure = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    resizeObserver.observe(element);
+    return () => resizeObserver.unobserve(element);
+  }, [resizeObserver]);
+
+  // Suivi du défilement et de la taille de la fenêtre
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        setViewport(prev => {
+          const top = -rect.top;
+          const height = window.innerHeight;
+          return prev.top === top && prev.height === height ? prev : { top, height };
+        });
+      });
+    };
+
+    update();
+    // Capture : suit aussi le défilement d'un conteneur (modal)
+    window.addEventListener('scroll', update, { capture: true, passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update, { capture: true });
+      window.removeEventListener('resize', update);
+    };
+  }, []);
+
+  // Fin de liste proche de l'écran : page suivante
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore || !onEndReached) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onEndReached();
+      },
+      { rootMargin: END_REACHED_MARGIN }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onEndReached]);
+
+  // Position de chaque ligne (hauteur mesurée, sinon estimée)
+  const offsets: number[] = [];
+  let totalHeight = 0;
+  items.forEach(item => {
+    offsets.push(totalHeight);
+    totalHeight += heights[String(getKey(item))] ?? estimatedItemHeight;
+  });
+
+  // Lignes à rendre : écran + marge
+  const rangeTop = viewport.top - OVERSCAN_PX;
+  const rangeBottom = viewport.top + viewport.height + OVERSCAN_PX;
+  let start = 0;
+  while (start < items.length - 1 && offsets[start + 1] <= rangeTop) start++;
+  let end = start;
+  while (end < items.length && offsets[end] < rangeBottom) end++;
+
+  const paddingTop = offsets[start] ?? 0;
+  const paddingBottom = totalHeight - (offsets[end] ?? totalHeight);
+
+  return (
+    <div ref={containerRef}>
+      <div style={{ paddingTop, paddingBottom }}>
+        {items.slice(start, end).map((item, i) => {
+          const key = String(getKey(item));
+          return (
+            <div key={key} data-key={key} ref={measure} className={gapClasses[gap]}>
+              {renderItem(item, start + i)}
+            </div>
+          );
+        })}
+      </div>
+
+      <div ref={sentinelRef} />
+      {isLoadingMore && (
+        <div className="flex justify-center py-4 text-gray-400">
+          <Spinner size="sm" />
+        </div>
+      )}
+    </div>
+  );
+}
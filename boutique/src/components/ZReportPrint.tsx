@@ -0,0 +1,207 @@
+/**
+ * ZReportPrint - Impression du rapport Z (clôture de caisse journalière)
+ * Même approche CSS print que InvoicePrint / StatementPrint
+ * Récapitulatif de la journée, détail de la caisse, compté et écart
+ */
+
+import React from 'react';
+import type { CashClosing } from '../types/closing';
+import { Button } from './Buttons';
+import { Printer } from 'lucide-react';
+import { useBusinessSettings } from '../hooks/useSettings';
+
+interface ZReportPrintProps {
+  closing: CashClosing;
+  accountName: string;
+}
+
+export const ZReportPrint: React.FC<ZReportPrintProps> = ({ closing, accountName }) => {
+  const { settings } = useBusinessSettings();
+  const { summary } = closing;
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(amount) + ' ' + settings.currencyLabel;
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric'
+    });
+  };
+
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('fr-FR', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const differenceColor = closing.difference > 0 ? '#16a34a' : closing.difference < 0 ? '#dc2626' : '#000';
+
+  const rowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', padding: '8px 0', borderTop: '1px solid #ddd' };
+  const amountStyle: React.CSSProperties = { fontFamily: 'monospace' };
+  const sectionTitleStyle: React.CSSProperties = { fontSize: '13pt', fontWeight: 'bold', margin: '0 0 10px 0' };
+
+  return (
+    <>
+      {/* Bouton impression */}
+      <Button
+        onClick={handlePrint}
+        leftIcon={<Printer size={18} />}
+        variant="secondary"
+        fullWidth
+      >
+        Imprimer le rapport Z
+      </Button>
+
+      {/* Contenu à imprimer */}
+      <div className="print-content hidden print:block">
+        <style>{`
+          @media print {
+            body * {
+              visibility: hidden;
+            }
+            .print-content,
+            .print-content * {
+              visibility: visible;
+            }
+            .print-content {
+              position: absolute;
+              left: 0;
+              top: 0;
+              width: 100%;
+              padding: 20mm;
+              font-family: Arial, sans-serif;
+            }
+            @page {
+              size: A4;
+              margin: 0;
+            }
+          }
+        `}</style>
+
+        <div style={{ maxWidth: '210mm', margin: '0 auto', padding: '20px', fontSize: '11pt' }}>
+          {/* En-tête */}
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '30px', borderBottom: '2px solid #000', paddingBottom: '15px' }}>
+            <div style={{ display: 'flex', gap: '15px', alignItems: 'flex-start' }}>
+              {settings.businessLogo && (
+                <img
+                  src={settings.businessLogo}
+                  alt={settings.businessName}
+                  style={{ width: '70px', height: '70px', objectFit: 'contain' }}
+                />
+              )}
+              <div>
+                <h1 style={{ fontSize: '24pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>
+                  {settings.businessName}
+                </h1>
+                {settings.businessPhone && <p style={{ margin: '5px 0' }}>Tél: {settings.businessPhone}</p>}
+                {settings.businessAddress && <p style={{ margin: '5px 0', whiteSpace: 'pre-line' }}>{settings.businessAddress}</p>}
+              </div>
+            </div>
+            <div style={{ textAlign: 'right' }}>
+              <h2 style={{ fontSize: '20pt', fontWeight: 'bold', margin: '0 0 10px 0' }}>
+                RAPPORT Z
+              </h2>
+              <p style={{ margin: '5px 0' }}><strong>Journée du:</strong> {formatDate(closing.date)}</p>
+              <p style={{ margin: '5px 0' }}><strong>Caisse:</strong> {accountName}</p>
+            </div>
+          </div>
+
+          {/* Récapitulatif de la journée */}
+          <div style={{ marginBottom: '30px' }}>
+            <h3 style={sectionTitleStyle}>Activité de la journée</h3>
+            <div style={rowStyle}>
+              <span>Ventes ({summary.salesCount}):</span>
+              <span style={amountStyle}>{formatCurrency(summary.sales)}</span>
+            </div>
+            <div style={rowStyle}>
+              <span>Achats ({summary.purchasesCount}):</span>
+              <span style={amountStyle}>{formatCurrency(summary.purchases)}</span>
+            </div>
+            <div style={{ ...rowStyle, color: '#16a34a' }}>
+              <span>Encaissements (tous comptes):</span>
+              <span style={amountStyle}>{formatCurrency(summary.collections)}</span>
+            </div>
+            <div style={{ ...rowStyle, color: '#dc2626' }}>
+              <span>Décaissements (tous comptes):</span>
+              <span style={amountStyle}>{formatCurrency(summary.disbursements)}</span>
+            </div>
+          </div>
+
+          {/* Caisse */}
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '30px' }}>
+            <div style={{ width: '350px' }}>
+              <h3 style={sectionTitleStyle}>Caisse</h3>
+              <div style={rowStyle}>
+                <span>Fond de caisse:</span>
+                <span style={amountStyle}>{formatCurrency(closing.openingCash)}</span>
+              </div>
+              <div style={rowStyle}>
+                <span>+ Entrées:</span>
+                <span style={amountStyle}>{formatCurrency(closing.cashIn)}</span>
+              </div>
+              <div style={rowStyle}>
+                <span>- Sorties:</span>
+                <span style={amountStyle}>{formatCurrency(closing.cashOut)}</span>
+              </div>
+              <div style={{ ...rowStyle, fontWeight: 'bold' }}>
+                <span>Théorique:</span>
+                <span style={amountStyle}>{formatCurrency(closing.expected)}</span>
+              </div>
+              <div style={{ ...rowStyle, fontWeight: 'bold' }}>
+                <span>Compté:</span>
+                <span style={amountStyle}>{formatCurrency(closing.counted)}</span>
+              </div>
+
+              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '15px', borderTop: '2px solid #000', backgroundColor: '#fef3c7' }}>
+                <span style={{ fontSize: '14pt' }}><strong>Écart:</strong></span>
+                <span style={{ fontFamily: 'monospace', fontSize: '16pt', color: differenceColor }}>
+                  <strong>{closing.difference > 0 ? '+' : ''}{formatCurrency(closing.difference)}</strong>
+                </span>
+              </div>
+              <p style={{ margin: '8px 0 0 0', fontSize: '10pt', color: '#666', textAlign: 'right' }}>
+                {closing.difference > 0
+                  ? 'Excédent de caisse'
+                  : closing.difference < 0
+                    ? 'Manquant de caisse'
+                    : 'Caisse juste'}
+              </p>
+            </div>
+          </div>
+
+          {closing.note && (
+            <div style={{ marginBottom: '30px', padding: '15px', backgroundColor: '#f5f5f5', borderRadius: '5px' }}>
+              <p style={{ margin: '0 0 5px 0' }}><strong>Note:</strong></p>
+              <p style={{ margin: 0, whiteSpace: 'pre-line' }}>{closing.note}</p>
+            </div>
+          )}
+
+          {/* Signature */}
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '40px' }}>
+            <div style={{ width: '200px', borderTop: '1px solid #000', paddingTop: '5px', textAlign: 'center', fontSize: '10pt' }}>
+              Signature
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div style={{ marginTop: '50px', paddingTop: '20px', borderTop: '1px solid #ddd', textAlign: 'center', fontSize: '10pt', color: '#666' }}>
+            <p>Clôture enregistrée le {formatDateTime(closing.createdAt)}</p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
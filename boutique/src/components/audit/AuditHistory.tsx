@@ -0,0 +1,109 @@
+/**
+ * AuditHistory - Historique des modifications (journal d'audit)
+ * Features:
+ * - Qui, quand, quelle action (création / modification / suppression)
+ * - Valeurs avant → après de chaque champ modifié
+ * - RecordHistory : historique d'un seul enregistrement
+ */
+
+import React from 'react';
+import type { AuditEntry, AuditTable } from '../../types/audit';
+import { useAuditHistory } from '../../hooks/useAudit';
+import { AUDIT_ACTION_LABELS, AUDIT_TABLE_LABELS, formatAuditValue, getFieldLabel } from '../../utils/audit';
+import { Badge } from '../Badge';
+import { ListSkeleton } from '../Loading';
+import { ArrowRight, User } from 'lucide-react';
+
+interface AuditHistoryProps {
+  entries: AuditEntry[];
+  loading?: boolean;
+  showRecord?: boolean; // Affiche "Paiement n°12" (journal toutes tables)
+  emptyMessage?: string;
+}
+
+const ACTION_VARIANTS = {
+  CREATE: 'success',
+  UPDATE: 'warning',
+  DELETE: 'danger'
+} as const;
+
+export const AuditHistory: React.FC<AuditHistoryProps> = ({
+  entries,
+  loading = false,
+  showRecord = false,
+  emptyMessage = 'Aucune modification enregistrée'
+}) => {
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('fr-FR', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return <ListSkeleton count={3} />;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {entries.map(entry => (
+        <div key={entry.id} className="py-3">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <Badge size="sm" variant={ACTION_VARIANTS[entry.action]}>
+                {AUDIT_ACTION_LABELS[entry.action]}
+              </Badge>
+              {showRecord && (
+                <span className="text-sm font-medium text-gray-900 truncate">
+                  {AUDIT_TABLE_LABELS[entry.table]} n°{entry.recordId}
+                </span>
+              )}
+            </div>
+            <span className="text-xs text-gray-500 shrink-0">{formatDateTime(entry.date)}</span>
+          </div>
+
+          <p className="flex items-center gap-1 text-xs text-gray-500 mb-2">
+            <User size={12} /> {entry.actor}
+          </p>
+
+          <div className="space-y-1 text-sm">
+            {entry.changes.map(change => (
+              <div key={change.field} className="flex flex-wrap items-center gap-x-2">
+                <span className="text-gray-600 w-24 shrink-0">{getFieldLabel(change.field)}</span>
+                {entry.action !== 'CREATE' && (
+                  <span className={entry.action === 'UPDATE' ? 'text-red-600 line-through' : 'text-gray-900'}>
+                    {formatAuditValue(change.field, change.before)}
+                  </span>
+                )}
+                {entry.action === 'UPDATE' && <ArrowRight size={12} className="text-gray-400" />}
+                {entry.action !== 'DELETE' && (
+                  <span className={entry.action === 'UPDATE' ? 'text-green-700 font-medium' : 'text-gray-900'}>
+                    {formatAuditValue(change.field, change.after)}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface RecordHistoryProps {
+  table: AuditTable;
+  recordId: number;
+}
+
+export const RecordHistory: React.FC<RecordHistoryProps> = ({ table, recordId }) => {
+  const { entries, loading } = useAuditHistory(table, recordId);
+
+  return <AuditHistory entries={entries} loading={loading} />;
+};
@@ -0,0 +1,138 @@
+/**
+ * DashboardCharts - Graphiques d'activité du tableau de bord
+ * Features:
+ * - Choix de la période : 7 ou 30 jours (par jour), 12 semaines, 12 mois
+ * - Ventes vs achats (avoirs déduits)
+ * - Encaissements vs crédit accordé aux clients
+ * - Évolution des créances et dettes totales
+ */
+
+import React, { useState } from 'react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { Card, CardHeader, CardContent } from '../Card';
+import { Spinner } from '../Loading';
+import { PeriodSelector } from './PeriodSelector';
+import { useActivityChart, useBalanceHistory } from '../../hooks/useDashboard';
+import { CHART_PERIODS } from '../../utils/dashboardCharts';
+import type { ChartPeriod } from '../../types/dashboard';
+
+const CHART_COLORS = {
+  sales: '#16a34a',
+  purchases: '#f59e0b',
+  collections: '#2563eb',
+  creditGiven: '#dc2626',
+  receivables: '#16a34a',
+  debts: '#dc2626'
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'decimal',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount) + ' F';
+};
+
+// Axe vertical : 15 k, 2,5 M
+const formatAxis = (amount: number) => {
+  return new Intl.NumberFormat('fr-FR', {
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(amount);
+};
+
+const ChartSection: React.FC<{ title: string; children: React.ReactElement }> = ({ title, children }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-700 mb-2">{title}</h4>
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        {children}
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export const DashboardCharts: React.FC = () => {
+  const [period, setPeriod] = useState<ChartPeriod>('30d');
+  const { points: activity, loading: activityLoading } = useActivityChart(period);
+  const { points: history, loading: historyLoading } = useBalanceHistory(period);
+
+  const axisProps = {
+    tick: { fontSize: 12, fill: '#6b7280' },
+    tickLine: false,
+    axisLine: false
+  };
+
+  const tooltipProps = {
+    formatter: (value: unknown) => formatCurrency(Number(value)),
+    contentStyle: { borderRadius: 8, fontSize: 12 }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Activité"
+        subtitle={CHART_PERIODS[period].label}
+      />
+      <CardContent>
+        {/* Période */}
+        <PeriodSelector value={period} onChange={setPeriod} className="mb-4" />
+
+        {activityLoading || historyLoading ? (
+          <div className="flex items-center justify-center h-56 text-gray-400">
+            <Spinner />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <ChartSection title="Ventes et achats">
+              <BarChart data={activity}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" {...axisProps} />
+                <YAxis tickFormatter={formatAxis} width={48} {...axisProps} />
+                <Tooltip {...tooltipProps} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar dataKey="sales" name="Ventes" fill={CHART_COLORS.sales} radius={[4, 4, 0, 0]} />
+                <Bar dataKey="purchases" name="Achats" fill={CHART_COLORS.purchases} radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartSection>
+
+            <ChartSection title="Encaissements et crédit accordé">
+              <BarChart data={activity}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" {...axisProps} />
+                <YAxis tickFormatter={formatAxis} width={48} {...axisProps} />
+                <Tooltip {...tooltipProps} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar dataKey="collections" name="Encaissements" fill={CHART_COLORS.collections} radius={[4, 4, 0, 0]} />
+                <Bar dataKey="creditGiven" name="Crédit accordé" fill={CHART_COLORS.creditGiven} radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartSection>
+
+            <ChartSection title="Créances et dettes">
+              <LineChart data={history}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" {...axisProps} />
+                <YAxis tickFormatter={formatAxis} width={48} {...axisProps} />
+                <Tooltip {...tooltipProps} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line type="monotone" dataKey="receivables" name="À recevoir" stroke={CHART_COLORS.receivables} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="debts" name="À payer" stroke={CHART_COLORS.debts} strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartSection>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
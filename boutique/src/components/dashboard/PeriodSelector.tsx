@@ -0,0 +1,34 @@
+/**
+ * PeriodSelector - Choix de la période des graphiques et rapports
+ * Features:
+ * - 7 ou 30 jours (par jour), 12 semaines, 12 mois (cf. utils/dashboardCharts)
+ */
+
+import React from 'react';
+import { CHART_PERIODS } from '../../utils/dashboardCharts';
+import type { ChartPeriod } from '../../types/dashboard';
+
+interface PeriodSelectorProps {
+  value: ChartPeriod;
+  onChange: (period: ChartPeriod) => void;
+  className?: string;
+}
+
+export const PeriodSelector: React.FC<PeriodSelectorProps> = ({ value, onChange, className = '' }) => {
+  return (
+    <div className={`flex gap-1 p-1 bg-gray-100 rounded-lg ${className}`}>
+      {(Object.keys(CHART_PERIODS) as ChartPeriod[]).map(key => (
+        <button
+          key={key}
+          type="button"
+          onClick={() => onChange(key)}
+          className={`flex-1 px-2 py-1.5 text-sm rounded-md transition-colors ${
+            value === key ? 'bg-white text-gray-900 font-medium shadow-sm' : 'text-gray-600'
+          }`}
+        >
+          {CHART_PERIODS[key].label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@
  * Features:
  * - Balance actuelle
  * - Historique transactions
+ * - Relevé de compte imprimable
  * - Actions rapides
  */
 
@@ -15,8 +16,10 @@ import { Badge } from '../Badge';
 import { Button } from '../Buttons';
 import { Modal, ModalFooter } from '../Modal';
 import { PaymentForm } from '../payment/PaymentForm';
+import { PartnerStatementCard } from './PartnerStatementCard';
 import { Alert } from '../Alert';
 import { Spinner } from '../Loading';
+import { isCreditNote } from '../../utils/creditNote';
 import { 
   User, 
   Phone, 
@@ -44,7 +47,7 @@ export const PartnerDetail: React.FC<PartnerDetailProps> = ({
   onClose
 }) => {
   const { balance, loading: balanceLoading } = usePartnerBalance(partner.id);
-  const { transactions, loading: txLoading } = useTransactions({ partnerId: partner.id });
+  const { transactions, loading: txLoading, total: txTotal = 0 } = useTransactions({ partnerId: partner.id, pageSize: 10 });
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
 
@@ -115,14 +118,16 @@ export const PartnerDetail: React.FC<PartnerDetailProps> = ({
                 >
                   Modifier
                 </Button>
-                <Button
-                  size="sm"
-                  variant="danger"
-                  leftIcon={<Trash2 size={16} />}
-                  onClick={() => setShowDeleteConfirm(true)}
-                >
-                  Supprimer
-                </Button>
+                {onDelete && (
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    leftIcon={<Trash2 size={16} />}
+                    onClick={() => setShowDeleteConfirm(true)}
+                  >
+                    Supprimer
+                  </Button>
+                )}
               </div>
             }
           />
@@ -213,7 +218,7 @@ export const PartnerDetail: React.FC<PartnerDetailProps> = ({
         <Card>
           <CardHeader 
             title="Historique" 
-            subtitle={`${transactions.length} transaction${transactions.length > 1 ? 's' : ''}`}
+            subtitle={`${txTotal} transaction${txTotal > 1 ? 's' : ''}`}
           />
           <CardContent>
             {txLoading ? (
@@ -233,7 +238,7 @@ export const PartnerDetail: React.FC<PartnerDetailProps> = ({
                   >
                     <div>
                       <div className="font-medium text-gray-900">
-                        {tx.direction === 'SALE' ? 'Vente' : 'Achat'}
+                        {isCreditNote(tx) ? 'Avoir' : tx.direction === 'SALE' ? 'Vente' : 'Achat'}
                       </div>
                       <div className="text-sm text-gray-500">
                         {formatDate(tx.date)}
@@ -253,6 +258,9 @@ export const PartnerDetail: React.FC<PartnerDetailProps> = ({
             )}
           </CardContent>
         </Card>
+
+        {/* Relevé de compte */}
+        <PartnerStatementCard partner={partner} />
       </div>
 
       {/* Modal confirmation suppression */}
@@ -0,0 +1,351 @@
+/**
+ * PartnerImport - Import de clients/fournisseurs depuis un fichier
+ * Features:
+ * - Fichier CSV (tableur, carnet recopié) ou vCard (.vcf, contacts du téléphone)
+ * - Choix des colonnes (nom, téléphone, note) avec exemple de valeur
+ * - Aperçu ligne par ligne : nouveaux, conflits, doublons, lignes invalides
+ * - Conflit (même nom + même type) : ignorer, renommer ou fusionner, ligne par ligne ou pour tous
+ */
+
+import React, { useRef, useState } from 'react';
+import type {
+  PartnerType,
+  PartnerColumnMapping,
+  PartnerImportField,
+  PartnerImportResolution,
+  PartnerImportRow,
+  PartnerImportSource,
+  PartnerImportSummary
+} from '../../types/partners';
+import { usePartnerImport } from '../../hooks/usePartner';
+import { getRenameError, guessColumnMapping } from '../../utils/partnerImport';
+import { Input, Select } from '../Input';
+import { Button } from '../Buttons';
+import { Badge } from '../Badge';
+import { Alert } from '../Alert';
+import { ModalFooter } from '../Modal';
+import { Upload, FileText, ArrowLeft } from 'lucide-react';
+
+interface PartnerImportProps {
+  defaultType?: PartnerType;
+  onClose: () => void;
+}
+
+type Step = 'file' | 'mapping' | 'preview' | 'done';
+
+const FIELD_LABELS: Record<PartnerImportField, string> = {
+  name: 'Nom *',
+  phone: 'Téléphone',
+  note: 'Note'
+};
+
+const STATUS_BADGES: Record<PartnerImportRow['status'], { label: string; variant: 'success' | 'warning' | 'default' | 'danger' }> = {
+  new: { label: 'Nouveau', variant: 'success' },
+  conflict: { label: 'Existe déjà', variant: 'warning' },
+  duplicate: { label: 'Doublon', variant: 'default' },
+  invalid: { label: 'Invalide', variant: 'danger' }
+};
+
+const typeOptions = [
+  { value: 'CLIENT', label: 'Client' },
+  { value: 'SUPPLIER', label: 'Fournisseur' },
+  { value: 'BOTH', label: 'Client & Fournisseur' }
+];
+
+const resolutionOptions = [
+  { value: 'skip', label: 'Ignorer' },
+  { value: 'rename', label: 'Créer sous un autre nom' },
+  { value: 'merge', label: 'Fusionner avec l\'existant' }
+];
+
+export const PartnerImport: React.FC<PartnerImportProps> = ({
+  defaultType = 'CLIENT',
+  onClose
+}) => {
+  const { isProcessing, error, loadFile, preview, runImport } = usePartnerImport();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('file');
+  const [source, setSource] = useState<PartnerImportSource | null>(null);
+  const [mapping, setMapping] = useState<PartnerColumnMapping>({ name: null, phone: null, note: null });
+  const [type, setType] = useState<PartnerType>(defaultType);
+  const [rows, setRows] = useState<PartnerImportRow[]>([]);
+  const [summary, setSummary] = useState<PartnerImportSummary | null>(null);
+
+  const columnCount = source ? Math.max(...source.rows.map(cells => cells.length)) : 0;
+  const sampleRow = source ? (source.hasHeader ? source.rows[1] : source.rows[0]) ?? [] : [];
+
+  const columnOptions = [
+    { value: '', label: 'Non importé' },
+    ...Array.from({ length: columnCount }, (_, i) => {
+      const header = source?.hasHeader ? source.rows[0][i] : '';
+      const sample = sampleRow[i] ? ` (ex : ${sampleRow[i].slice(0, 30)})` : '';
+      return { value: String(i), label: `${header || `Colonne ${i + 1}`}${sample}` };
+    })
+  ];
+
+  const counts = {
+    new: rows.filter(r => r.status === 'new').length,
+    conflict: rows.filter(r => r.status === 'conflict').length,
+    ignored: rows.filter(r => r.status === 'duplicate' || r.status === 'invalid').length
+  };
+  const importCount = rows.filter(r =>
+    r.status === 'new' || (r.status === 'conflict' && r.resolution !== 'skip')
+  ).length;
+  const hasRenameErrors = rows.some(r => getRenameError(r, rows));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const loaded = await loadFile(file);
+      setSource(loaded);
+      setMapping(guessColumnMapping(loaded));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Import read error:', err);
+    }
+  };
+
+  const handleHeaderToggle = (hasHeader: boolean) => {
+    if (!source) return;
+    const updated = { ...source, hasHeader };
+    setSource(updated);
+    setMapping(guessColumnMapping(updated));
+  };
+
+  const handleMappingChange = (field: PartnerImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  const handlePreview = async () => {
+    if (!source) return;
+
+    try {
+      setRows(await preview(source, mapping, type));
+      setStep('preview');
+    } catch (err) {
+      console.error('Import preview error:', err);
+    }
+  };
+
+  const updateRow = (line: number, changes: Partial<PartnerImportRow>) => {
+    setRows(prev => prev.map(r => (r.line === line ? { ...r, ...changes } : r)));
+  };
+
+  const handleResolveAll = (resolution: PartnerImportResolution) => {
+    setRows(prev => prev.map(r => (r.status === 'conflict' ? { ...r, resolution } : r)));
+  };
+
+  const handleImport = async () => {
+    try {
+      setSummary(await runImport(rows, type));
+      setStep('done');
+    } catch (err) {
+      console.error('Import error:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <Alert variant="danger">{error}</Alert>}
+
+      {/* Étape 1 : fichier */}
+      {step === 'file' && (
+        <>
+          <p className="text-sm text-gray-600">
+            Importez un fichier CSV (Excel, LibreOffice : « Enregistrer sous… CSV ») avec une ligne
+            par partner, ou les contacts exportés du téléphone (fichier .vcf).
+          </p>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.vcf,text/csv,text/vcard,text/x-vcard"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+
+          <Button
+            fullWidth
+            variant="secondary"
+            leftIcon={<Upload size={18} />}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Choisir un fichier
+          </Button>
+
+          <ModalFooter>
+            <Button variant="secondary" onClick={onClose}>
+              Annuler
+            </Button>
+          </ModalFooter>
+        </>
+      )}
+
+      {/* Étape 2 : colonnes */}
+      {step === 'mapping' && source && (
+        <>
+          <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg text-sm">
+            <FileText size={16} className="text-gray-400 flex-shrink-0" />
+            <span className="font-medium text-gray-900 truncate">{source.fileName}</span>
+            <span className="text-gray-500 flex-shrink-0">
+              {source.rows.length - (source.hasHeader ? 1 : 0)} {source.format === 'vcard' ? 'contact(s)' : 'ligne(s)'}
+            </span>
+          </div>
+
+          <Select
+            label="Importer comme"
+            value={type}
+            onChange={(e) => setType(e.target.value as PartnerType)}
+            options={typeOptions}
+            disabled={isProcessing}
+          />
+
+          {source.format === 'csv' && (
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={source.hasHeader}
+                onChange={(e) => handleHeaderToggle(e.target.checked)}
+                disabled={isProcessing}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">La première ligne contient les noms des colonnes</span>
+            </label>
+          )}
+
+          {(Object.keys(FIELD_LABELS) as PartnerImportField[]).map(field => (
+            <Select
+              key={field}
+              label={FIELD_LABELS[field]}
+              value={mapping[field] === null ? '' : String(mapping[field])}
+              onChange={(e) => handleMappingChange(field, e.target.value)}
+              options={columnOptions}
+              disabled={isProcessing}
+            />
+          ))}
+
+          <ModalFooter>
+            <Button variant="secondary" onClick={() => setStep('file')} leftIcon={<ArrowLeft size={16} />}>
+              Retour
+            </Button>
+            <Button
+              onClick={handlePreview}
+              isLoading={isProcessing}
+              disabled={mapping.name === null}
+            >
+              Aperçu
+            </Button>
+          </ModalFooter>
+        </>
+      )}
+
+      {/* Étape 3 : aperçu et conflits */}
+      {step === 'preview' && (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 bg-green-50 rounded-lg">
+              <p className="text-2xl font-bold text-green-700">{counts.new}</p>
+              <p className="text-xs text-gray-600">Nouveaux</p>
+            </div>
+            <div className="p-3 bg-yellow-50 rounded-lg">
+              <p className="text-2xl font-bold text-yellow-700">{counts.conflict}</p>
+              <p className="text-xs text-gray-600">Existent déjà</p>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-2xl font-bold text-gray-700">{counts.ignored}</p>
+              <p className="text-xs text-gray-600">Ignorés</p>
+            </div>
+          </div>
+
+          {counts.conflict > 0 && (
+            <Select
+              label="Pour tous les conflits"
+              value=""
+              onChange={(e) => e.target.value && handleResolveAll(e.target.value as PartnerImportResolution)}
+              options={[{ value: '', label: 'Choisir…' }, ...resolutionOptions]}
+              helperText="Même nom et même type qu'un partner existant"
+            />
+          )}
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {rows.map(row => {
+              const renameError = getRenameError(row, rows);
+
+              return (
+                <div key={row.line} className="p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{row.name || '—'}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        Ligne {row.line}
+                        {row.phone && ` · ${row.phone}`}
+                        {row.error && ` · ${row.error}`}
+                      </p>
+                    </div>
+                    <Badge variant={STATUS_BADGES[row.status].variant} size="sm">
+                      {STATUS_BADGES[row.status].label}
+                    </Badge>
+                  </div>
+
+                  {row.status === 'conflict' && (
+                    <>
+                      <Select
+                        value={row.resolution}
+                        onChange={(e) => updateRow(row.line, { resolution: e.target.value as PartnerImportResolution })}
+                        options={resolutionOptions}
+                        disabled={isProcessing}
+                      />
+                      {row.resolution === 'rename' && (
+                        <Input
+                          value={row.renameTo}
+                          onChange={(e) => updateRow(row.line, { renameTo: e.target.value })}
+                          error={renameError}
+                          disabled={isProcessing}
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <ModalFooter>
+            <Button variant="secondary" onClick={() => setStep('mapping')} leftIcon={<ArrowLeft size={16} />}>
+              Retour
+            </Button>
+            <Button
+              onClick={handleImport}
+              isLoading={isProcessing}
+              disabled={importCount === 0 || hasRenameErrors}
+            >
+              Importer ({importCount})
+            </Button>
+          </ModalFooter>
+        </>
+      )}
+
+      {/* Étape 4 : résultat */}
+      {step === 'done' && summary && (
+        <>
+          <Alert variant="success" title="Import terminé">
+            {summary.created} partner{summary.created > 1 ? 's' : ''} créé{summary.created > 1 ? 's' : ''}
+            {summary.renamed > 0 && ` (dont ${summary.renamed} renommé${summary.renamed > 1 ? 's' : ''})`}
+            , {summary.merged} fusionné{summary.merged > 1 ? 's' : ''}
+            , {summary.skipped} ignoré{summary.skipped > 1 ? 's' : ''}.
+          </Alert>
+
+          <ModalFooter>
+            <Button onClick={onClose}>
+              Fermer
+            </Button>
+          </ModalFooter>
+        </>
+      )}
+    </div>
+  );
+};
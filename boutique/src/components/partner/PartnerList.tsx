@@ -1,14 +1,16 @@
 /**
  * PartnerList - Liste des partners avec recherche et actions
  * Features:
- * - Recherche en temps réel
- * - Affichage balance
+ * - Recherche en temps réel (accents et fautes de frappe tolérés)
+ * - Affichage balance (table balances : une seule requête pour toute la liste)
  * - Actions (voir détails, éditer, supprimer)
+ * - Export CSV de la liste filtrée
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import type { Partner } from '../../types/partners';
-import { usePartnerBalance } from '../../hooks/useTransactions';
+import { createSearchIndex, getPartnerSearchDocument } from '../../utils/search';
+import { usePartnerBalances } from '../../hooks/useTransactions';
 import { Card } from '../Card';
 import { Badge } from '../Badge';
 import { EmptyState } from '../EmptyState';
@@ -21,7 +23,8 @@ import {
   Search,
   TrendingUp,
   TrendingDown,
-  Users
+  Users,
+  Download
 } from 'lucide-react';
 
 interface PartnerListProps {
@@ -29,16 +32,18 @@ interface PartnerListProps {
   loading?: boolean;
   onSelectPartner?: (partner: Partner) => void;
   onEditPartner?: (partner: Partner) => void;
+  onExport?: (partners: Partner[]) => void;   // Reçoit la liste filtrée
   emptyMessage?: string;
 }
 
 // Composant pour une ligne de partner
 const PartnerListItem: React.FC<{
   partner: Partner;
+  balance: number;
+  balanceLoading: boolean;
   onClick?: () => void;
   onEdit?: () => void;
-}> = ({ partner, onClick, onEdit }) => {
-  const { balance, loading: balanceLoading } = usePartnerBalance(partner.id);
+}> = ({ partner, balance, balanceLoading, onClick, onEdit }) => {
 
   const getTypeLabel = (type: Partner['type']) => {
     switch (type) {
@@ -140,21 +145,18 @@ export const PartnerList: React.FC<PartnerListProps> = ({
   loading = false,
   onSelectPartner,
   onEditPartner,
+  onExport,
   emptyMessage = 'Aucun partner trouvé'
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const { balances, loading: balancesLoading } = usePartnerBalances();
 
-  // Filtrage par recherche
-  const filteredPartners = partners.filter(p => {
-    if (!searchQuery.trim()) return true;
-    
-    const search = searchQuery.toLowerCase();
-    return (
-      p.name.toLowerCase().includes(search) ||
-      p.phone?.toLowerCase().includes(search) ||
-      p.note?.toLowerCase().includes(search)
-    );
-  });
+  // Filtrage par recherche (nom, téléphone, note)
+  const searchIndex = useMemo(
+    () => createSearchIndex(partners, getPartnerSearchDocument),
+    [partners]
+  );
+  const filteredPartners = searchIndex.search(searchQuery);
 
   if (loading) {
     return <ListSkeleton count={5} />;
@@ -164,12 +166,27 @@ export const PartnerList: React.FC<PartnerListProps> = ({
     <div className="space-y-4">
       {/* Barre de recherche */}
       {partners.length > 0 && (
-        <Input
-          placeholder="Rechercher par nom, téléphone..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          leftIcon={<Search size={18} />}
-        />
+        <div className="flex items-center gap-2">
+          <div className="flex-1">
+            <Input
+              placeholder="Rechercher par nom, téléphone..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              leftIcon={<Search size={18} />}
+            />
+          </div>
+          {onExport && (
+            <button
+              onClick={() => onExport(filteredPartners)}
+              disabled={filteredPartners.length === 0}
+              className="p-2.5 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50 transition-colors"
+              aria-label="Exporter en CSV"
+              title="Exporter en CSV"
+            >
+              <Download size={18} />
+            </button>
+          )}
+        </div>
       )}
 
       {/* Liste */}
@@ -189,6 +206,8 @@ export const PartnerList: React.FC<PartnerListProps> = ({
             <PartnerListItem
               key={partner.id}
               partner={partner}
+              balance={balances.get(partner.id!)?.balance ?? 0}
+              balanceLoading={balancesLoading}
               onClick={() => onSelectPartner?.(partner)}
               onEdit={() => onEditPartner?.(partner)}
             />
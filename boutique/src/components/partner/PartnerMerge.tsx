@@ -0,0 +1,203 @@
+/**
+ * PartnerMerge - Fusion d'un partner avec un doublon
+ * Features:
+ * - Choix du doublon et de la fiche conservée
+ * - Aperçu : fiche résultante (type, téléphone, note), soldes avant et après fusion
+ * - Suppression de la fiche vidée (facultative)
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Partner } from '../../types/partners';
+import { usePartners, usePartnerMergePreview } from '../../hooks/usePartner';
+import { useSession } from '../../hooks/useSession';
+import { Select } from '../Input';
+import { PartnerPicker } from './PartnerPicker';
+import { Button } from '../Buttons';
+import { Badge } from '../Badge';
+import { Alert } from '../Alert';
+import { ModalFooter } from '../Modal';
+import { Spinner } from '../Loading';
+import { Merge } from 'lucide-react';
+
+interface PartnerMergeProps {
+  partner: Partner;
+  onMerged?: (target: Partner) => void;
+  onCancel?: () => void;
+}
+
+const TYPE_LABELS: Record<Partner['type'], string> = {
+  CLIENT: 'Client',
+  SUPPLIER: 'Fournisseur',
+  BOTH: 'Client & Fournisseur'
+};
+
+export const PartnerMerge: React.FC<PartnerMergeProps> = ({
+  partner,
+  onMerged,
+  onCancel
+}) => {
+  const { partners, mergePartners, deletePartner, error: hookError } = usePartners();
+  const { can } = useSession();
+
+  const [otherId, setOtherId] = useState<number | undefined>();
+  const [keepCurrent, setKeepCurrent] = useState(true);
+  const [deleteSource, setDeleteSource] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const sourceId = keepCurrent ? otherId : partner.id;
+  const targetId = keepCurrent ? partner.id : otherId;
+  const { preview, error: previewError, loading: previewLoading } = usePartnerMergePreview(sourceId, targetId);
+  const canDelete = can('DELETE');
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(Math.abs(amount)) + ' F';
+  };
+
+  const formatBalance = (balance: number) => {
+    if (balance === 0) return 'Soldé';
+    return `${formatCurrency(balance)} ${balance > 0 ? 'à recevoir' : 'à payer'}`;
+  };
+
+  const candidates = useMemo(
+    () => partners.filter(p => p.id !== partner.id),
+    [partners, partner.id]
+  );
+
+  const other = partners.find(p => p.id === otherId);
+  const keepOptions = other
+    ? [
+        { value: 'current', label: `${partner.name} (${TYPE_LABELS[partner.type]})` },
+        { value: 'other', label: `${other.name} (${TYPE_LABELS[other.type]})` }
+      ]
+    : [];
+
+  const handleMerge = async () => {
+    if (!preview) return;
+    setIsMerging(true);
+
+    try {
+      await mergePartners(preview.source.id!, preview.target.id!);
+      if (deleteSource && canDelete) {
+        await deletePartner(preview.source.id!);
+      }
+      onMerged?.({ ...preview.target, ...preview.result });
+    } catch (err) {
+      console.error('Merge error:', err);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {hookError && <Alert variant="danger">{hookError}</Alert>}
+
+      <PartnerPicker
+        label="Doublon à fusionner"
+        placeholder="Rechercher le doublon..."
+        partners={candidates}
+        value={otherId}
+        onChange={(p) => setOtherId(p.id)}
+        disabled={isMerging}
+      />
+
+      {other && (
+        <Select
+          label="Fiche conservée"
+          value={keepCurrent ? 'current' : 'other'}
+          onChange={(e) => setKeepCurrent(e.target.value === 'current')}
+          options={keepOptions}
+          helperText="Son nom est gardé ; l'autre fiche est vidée de ses transactions et paiements"
+          disabled={isMerging}
+        />
+      )}
+
+      {previewError && <Alert variant="warning">{previewError}</Alert>}
+
+      {other && previewLoading && (
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      )}
+
+      {preview && (
+        <>
+          {/* Fiche résultante */}
+          <div className="p-3 bg-gray-50 rounded-lg space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-gray-900 truncate">{preview.result.name}</span>
+              <Badge variant={preview.result.type === preview.target.type ? 'default' : 'info'}>
+                {TYPE_LABELS[preview.result.type]}
+              </Badge>
+            </div>
+            {preview.result.phone && (
+              <p className="text-sm text-gray-600">{preview.result.phone}</p>
+            )}
+            {preview.result.note && (
+              <p className="text-sm text-gray-500 whitespace-pre-line">{preview.result.note}</p>
+            )}
+          </div>
+
+          {/* Soldes */}
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600 truncate">Solde {preview.source.name}</span>
+              <span className="font-medium">{formatBalance(preview.sourceBalance)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 truncate">Solde {preview.target.name}</span>
+              <span className="font-medium">{formatBalance(preview.targetBalance)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t border-gray-200">
+              <span className="font-medium text-gray-900">Solde après fusion</span>
+              <span className={`font-bold ${preview.balance > 0 ? 'text-green-600' : preview.balance < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                {formatBalance(preview.balance)}
+              </span>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            {preview.transactionCount} transaction{preview.transactionCount > 1 ? 's' : ''} et{' '}
+            {preview.paymentCount} paiement{preview.paymentCount > 1 ? 's' : ''} de « {preview.source.name} »
+            seront rattachés à « {preview.target.name} ».
+          </p>
+
+          {canDelete && (
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={deleteSource}
+                onChange={(e) => setDeleteSource(e.target.checked)}
+                disabled={isMerging}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">Supprimer ensuite la fiche « {preview.source.name} »</span>
+            </label>
+          )}
+        </>
+      )}
+
+      <ModalFooter>
+        <Button
+          variant="secondary"
+          onClick={onCancel}
+          disabled={isMerging}
+        >
+          Annuler
+        </Button>
+        <Button
+          onClick={handleMerge}
+          leftIcon={<Merge size={16} />}
+          isLoading={isMerging}
+          disabled={!preview}
+        >
+          Fusionner
+        </Button>
+      </ModalFooter>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+/**
+ * PartnerPicker - Choix d'un partner par recherche
+ * Features:
+ * - Recherche par nom, téléphone ou note (accents et fautes de frappe tolérés)
+ * - Résultats classés par pertinence
+ * - Affiche le partner choisi tant que l'on ne tape pas
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Partner } from '../../types/partners';
+import { createSearchIndex, getPartnerSearchDocument } from '../../utils/search';
+import { Input } from '../Input';
+import { Search } from 'lucide-react';
+
+interface PartnerPickerProps {
+  partners: Partner[];
+  value: number | null | undefined;
+  onChange: (partner: Partner) => void;
+  label?: string;
+  placeholder?: string;
+  error?: string;
+  helperText?: string;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 50;
+
+const TYPE_LABELS: Record<Partner['type'], string> = {
+  CLIENT: 'Client',
+  SUPPLIER: 'Fournisseur',
+  BOTH: 'Client/Fournisseur'
+};
+
+export const PartnerPicker: React.FC<PartnerPickerProps> = ({
+  partners,
+  value,
+  onChange,
+  label,
+  placeholder = 'Rechercher un partner...',
+  error,
+  helperText,
+  disabled = false
+}) => {
+  // null = pas de saisie en cours : le champ affiche le partner choisi
+  const [query, setQuery] = useState<string | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const selected = partners.find(p => p.id === value);
+  const searchIndex = useMemo(
+    () => createSearchIndex(partners, getPartnerSearchDocument),
+    [partners]
+  );
+  const suggestions = searchIndex.search(query ?? '', MAX_SUGGESTIONS);
+
+  const handleSelect = (partner: Partner) => {
+    onChange(partner);
+    setQuery(null);
+    setShowSuggestions(false);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        label={label}
+        placeholder={placeholder}
+        value={query ?? selected?.name ?? ''}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setShowSuggestions(true);
+        }}
+        onFocus={() => setShowSuggestions(true)}
+        onBlur={() => {
+          setShowSuggestions(false);
+          setQuery(null);
+        }}
+        error={error}
+        helperText={helperText}
+        disabled={disabled}
+        leftIcon={<Search size={18} />}
+        autoComplete="off"
+      />
+
+      {showSuggestions && !disabled && (
+        <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">Aucun partner trouvé</p>
+          ) : (
+            suggestions.map((partner) => (
+              <button
+                key={partner.id}
+                type="button"
+                // mousedown : évite que le blur de l'input ferme la liste avant le clic
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSelect(partner);
+                }}
+                className={`w-full px-4 py-3 text-left hover:bg-gray-100 transition-colors border-b border-gray-100 last:border-b-0 ${
+                  partner.id === value ? 'bg-blue-50' : ''
+                }`}
+              >
+                <div className="font-medium text-gray-900">{partner.name}</div>
+                {partner.phone && (
+                  <div className="text-sm text-gray-600">{partner.phone}</div>
+                )}
+                <div className="text-xs text-gray-500 mt-1">{TYPE_LABELS[partner.type]}</div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+/**
+ * PartnerStatementCard - Relevé de compte sur une période
+ * Features:
+ * - Choix de la période (par défaut : début du mois → aujourd'hui)
+ * - Aperçu solde d'ouverture / clôture
+ * - Impression via StatementPrint
+ */
+
+import React, { useState } from 'react';
+import type { Partner } from '../../types/partners';
+import { usePartnerStatement } from '../../hooks/usePartner';
+import { Card, CardHeader, CardContent } from '../Card';
+import { Input } from '../Input';
+import { Spinner } from '../Loading';
+import { StatementPrint } from '../StatementPrint';
+
+interface PartnerStatementCardProps {
+  partner: Partner;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PartnerStatementCard: React.FC<PartnerStatementCardProps> = ({ partner }) => {
+  const today = new Date().toISOString().slice(0, 10);
+  const [startDate, setStartDate] = useState(today.slice(0, 8) + '01');
+  const [endDate, setEndDate] = useState(today);
+
+  // Fin de période incluse (jusqu'à la fin de la journée)
+  const start = new Date(startDate).getTime();
+  const end = new Date(endDate).getTime() + DAY_MS - 1;
+  const validRange = !isNaN(start) && !isNaN(end) && start <= end;
+
+  const { statement, loading } = usePartnerStatement(
+    validRange ? partner.id : undefined,
+    start,
+    end
+  );
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  return (
+    <Card>
+      <CardHeader title="Relevé de compte" />
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="date"
+              label="Du"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              max={endDate}
+            />
+            <Input
+              type="date"
+              label="Au"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              min={startDate}
+              error={validRange ? undefined : 'Période invalide'}
+            />
+          </div>
+
+          {validRange && loading ? (
+            <div className="flex items-center justify-center py-4">
+              <Spinner />
+            </div>
+          ) : statement && (
+            <>
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Solde d'ouverture</span>
+                  <span className="font-mono font-semibold">{formatCurrency(statement.opening)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Mouvements</span>
+                  <span className="font-semibold">{statement.lines.length}</span>
+                </div>
+                <div className="h-px bg-gray-200" />
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">Solde de clôture</span>
+                  <span className={`font-mono font-bold ${statement.closing >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(statement.closing)}
+                  </span>
+                </div>
+              </div>
+
+              <StatementPrint statement={statement} />
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,23 +5,35 @@
  * - Import previewBalanceAfterPayment() depuis balance.ts
  * - Enregistre Payment STANDALONE (transactionId = undefined)
  * - Fix className "bg-linear-to-br" → "bg-gradient-to-br"
+ * - Choix des factures à régler (sinon : plus anciennes d'abord)
+ * - Sens explicite : encaissement (reçu) / décaissement (versé),
+ *   proposé d'après le solde du partner
+ * - Compte de trésorerie obligatoire (caisse par défaut)
  */
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import type { Payment } from '../../types/payments';
-import { usePayments } from '../../hooks/usePayments';
+import React, { useState, useMemo } from 'react';
+import type { Payment, PaymentDirection } from '../../types/payments';
+import type { Partner } from '../../types/partners';
+import { usePayments, useOpenTransactions } from '../../hooks/usePayments';
 import { usePartners } from '../../hooks/usePartner';
 import { usePartnerBalance } from '../../hooks/useTransactions';
+import { useTreasuryAccounts } from '../../hooks/useTreasury';
 import { previewBalanceAfterPayment } from '../../utils/balance';
-import { Input, Textarea } from '../Input';
+import { distributeAmount } from '../../utils/allocation';
+import { getDefaultPaymentDirection, getTransactionPaymentDirection } from '../../utils/paymentDirection';
+import { Input, Select, Textarea } from '../Input';
 import { Button } from '../Buttons';
 import { Alert } from '../Alert';
 import { Card } from '../Card';
-import { Calendar, Search, DollarSign } from 'lucide-react';
+import { AccountSelect } from '../treasury/AccountSelect';
+import { PartnerPicker } from '../partner/PartnerPicker';
+import { Calendar, DollarSign, FileText } from 'lucide-react';
 
 interface PaymentFormProps {
   payment?: Payment;
   defaultPartnerId?: number;
+  defaultTransactionId?: number; // Facture pré-sélectionnée
+  defaultDirection?: PaymentDirection; // Sens imposé (sinon proposé d'après le solde)
   onSuccess?: (payment: Payment, isNew: boolean) => void;
   onCancel?: () => void;
 }
@@ -36,6 +48,8 @@ interface FormData {
 export const PaymentForm: React.FC<PaymentFormProps> = ({
   payment,
   defaultPartnerId,
+  defaultTransactionId,
+  defaultDirection,
   onSuccess,
   onCancel
 }) => {
@@ -55,11 +69,19 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     note: payment?.note ?? ''
   });
 
-  const [partnerSearch, setPartnerSearch] = useState('');
-  const [showPartnerDropdown, setShowPartnerDropdown] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const hasInitializedSearch = useRef(false);
+
+  // Factures choisies (vide = affectation automatique, plus anciennes d'abord)
+  const [selectedTransactionIds, setSelectedTransactionIds] = useState<number[]>(
+    payment?.allocations?.map(a => a.transactionId)
+      ?? (defaultTransactionId ? [defaultTransactionId] : [])
+  );
+  const canAllocate = !payment?.transactionId;
+  const { openTransactions: partnerOpenTransactions } = useOpenTransactions(
+    canAllocate ? (formData.partnerId ?? undefined) : undefined,
+    payment?.id
+  );
 
   // N'appelle usePartnerBalance QUE si partnerId existe
   const shouldFetchBalance = formData.partnerId !== null;
@@ -67,18 +89,36 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     shouldFetchBalance ? (formData.partnerId ?? undefined) : undefined
   );
 
+  // Sens choisi (null = sens proposé d'après le solde)
+  const [direction, setDirection] = useState<PaymentDirection | null>(
+    payment?.direction ?? defaultDirection ?? null
+  );
+
+  // Compte choisi (sinon : premier compte actif, la caisse)
+  const { accounts } = useTreasuryAccounts();
+  const [selectedAccountId, setSelectedAccountId] = useState<number | undefined>(payment?.accountId);
+  const accountId = selectedAccountId ?? accounts[0]?.id;
+
   // COMPUTED
   const selectedPartner = useMemo(
     () => partners.find(p => p.id === formData.partnerId),
     [partners, formData.partnerId]
   );
 
-  const filteredPartners = useMemo(
-    () => partners.filter(p =>
-      p.name.toLowerCase().includes(partnerSearch.toLowerCase()) ||
-      p.phone?.toLowerCase().includes(partnerSearch.toLowerCase())
+  const defaultTransaction = partnerOpenTransactions
+    .find(s => s.transaction.id === defaultTransactionId)?.transaction;
+
+  const paymentDirection: PaymentDirection = direction
+    ?? (defaultTransaction
+      ? getTransactionPaymentDirection(defaultTransaction.direction)
+      : getDefaultPaymentDirection(partnerBalance, selectedPartner?.type));
+
+  // Seules les factures du même sens peuvent être réglées (ventes encaissées, achats décaissés)
+  const openTransactions = useMemo(
+    () => partnerOpenTransactions.filter(
+      s => getTransactionPaymentDirection(s.transaction.direction) === paymentDirection
     ),
-    [partners, partnerSearch]
+    [partnerOpenTransactions, paymentDirection]
   );
 
   // ✅ CORRIGÉ : Utilise la fonction utilitaire SEULEMENT si partnerId existe
@@ -86,31 +126,22 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     if (!formData.partnerId || balanceLoading || formData.amount <= 0) {
       return 0; // ← Retourne 0 au lieu de partnerBalance
     }
-    return previewBalanceAfterPayment(partnerBalance, formData.amount);
-  }, [partnerBalance, balanceLoading, formData.amount, formData.partnerId]);
-
-  // EFFECTS
-  // ✅ CORRIGÉ : N'initialise partnerSearch QUE si on édite un payment existant
-  useEffect(() => {
-    if (payment && selectedPartner?.name && !hasInitializedSearch.current) {
-      setPartnerSearch(selectedPartner.name);
-      hasInitializedSearch.current = true;
-    }
-  }, [payment, selectedPartner?.id, selectedPartner?.name]);
+    return previewBalanceAfterPayment(partnerBalance, formData.amount, paymentDirection);
+  }, [partnerBalance, balanceLoading, formData.amount, formData.partnerId, paymentDirection]);
 
-  useEffect(() => {
-    const handleClickOutside = (e: MouseEvent) => {
-      const target = e.target as HTMLElement;
-      if (!target.closest('.partner-search-container')) {
-        setShowPartnerDropdown(false);
-      }
-    };
+  const selectedTransactions = useMemo(
+    () => openTransactions.filter(s => selectedTransactionIds.includes(s.transaction.id!)),
+    [openTransactions, selectedTransactionIds]
+  );
 
-    if (showPartnerDropdown) {
-      document.addEventListener('mousedown', handleClickOutside);
-      return () => document.removeEventListener('mousedown', handleClickOutside);
-    }
-  }, [showPartnerDropdown]);
+  // Aperçu de l'affectation : factures choisies, sinon FIFO dans le sens du paiement
+  const allocationPreview = useMemo(() => {
+    if (formData.amount <= 0) return new Map<number, number>();
+    const targets = selectedTransactions.length > 0 ? selectedTransactions : openTransactions;
+    return new Map(
+      distributeAmount(formData.amount, targets).map(a => [a.transactionId, a.amount])
+    );
+  }, [formData.amount, selectedTransactions, openTransactions]);
 
   // HANDLERS
   const handleChange = (field: keyof FormData, value: any) => {
@@ -122,10 +153,25 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     }
   };
 
-  const handlePartnerSelect = (partnerId: number, partnerName: string) => {
+  const handleToggleTransaction = (transactionId: number) => {
+    setSelectedTransactionIds(prev => prev.includes(transactionId)
+      ? prev.filter(id => id !== transactionId)
+      : [...prev, transactionId]
+    );
+  };
+
+  const handleDirectionChange = (value: PaymentDirection) => {
+    setDirection(value);
+    setSelectedTransactionIds([]);
+  };
+
+  const handlePartnerSelect = (partner: Partner) => {
+    const partnerId = partner.id!;
+    if (partnerId !== formData.partnerId) {
+      setSelectedTransactionIds([]);
+      if (!isEditMode) setDirection(null);
+    }
     setFormData(prev => ({ ...prev, partnerId }));
-    setPartnerSearch(partnerName);
-    setShowPartnerDropdown(false);
     if (errors.partnerId) {
       const newErrors = { ...errors };
       delete newErrors.partnerId;
@@ -137,6 +183,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     const newErrors: Record<string, string> = {};
     if (!formData.partnerId) newErrors.partnerId = 'Sélectionnez un partner';
     if (formData.amount <= 0) newErrors.amount = 'Le montant doit être positif';
+    if (!accountId) newErrors.accountId = 'Choisissez le compte';
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -152,7 +199,12 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
         // ✅ PAS de transactionId = paiement standalone
         date: new Date(formData.date).getTime(),
         amount: formData.amount,
-        note: formData.note.trim() || undefined
+        direction: paymentDirection,
+        accountId,
+        note: formData.note.trim() || undefined,
+        allocations: selectedTransactions.length > 0
+          ? distributeAmount(formData.amount, selectedTransactions)
+          : undefined
       };
 
       if (isEditMode && payment) {
@@ -168,8 +220,9 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
           amount: 0,
           note: ''
         });
-        setPartnerSearch('');
-        hasInitializedSearch.current = false;
+        setSelectedTransactionIds([]);
+        setDirection(defaultDirection ?? null);
+        setSelectedAccountId(undefined);
         
         onSuccess?.({ id, ...paymentData, createdAt: Date.now() }, true);
       }
@@ -187,6 +240,14 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     }).format(Math.abs(amount)) + ' F';
   };
 
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
   const getBalanceLabel = (balance: number): string => {
     if (balance > 0) return 'Le partner vous doit';
     if (balance < 0) return 'Vous devez au partner';
@@ -216,50 +277,51 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
         </Card>
       )}
 
-      {/* Partner search */}
-      <div className="partner-search-container">
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Partner *
-        </label>
-        <div className="relative">
-          <Input
-            placeholder="Rechercher un partner..."
-            value={partnerSearch}
-            onChange={(e) => {
-              setPartnerSearch(e.target.value);
-              setShowPartnerDropdown(true);
-            }}
-            onFocus={() => setShowPartnerDropdown(true)}
-            error={errors.partnerId}
-            disabled={isSubmitting || !!defaultPartnerId}
-            leftIcon={<Search size={18} />}
-          />
-          
-          {showPartnerDropdown && !defaultPartnerId && filteredPartners.length > 0 && (
-            <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-              {filteredPartners.map((partner) => (
-                <button
-                  key={partner.id}
-                  type="button"
-                  onClick={() => handlePartnerSelect(partner.id!, partner.name)}
-                  className="w-full px-4 py-3 text-left hover:bg-gray-100 transition-colors border-b border-gray-100 last:border-b-0"
-                >
-                  <div className="font-medium text-gray-900">{partner.name}</div>
-                  {partner.phone && (
-                    <div className="text-sm text-gray-600">{partner.phone}</div>
-                  )}
-                  <div className="text-xs text-gray-500 mt-1">
-                    {partner.type === 'CLIENT' ? 'Client' : partner.type === 'SUPPLIER' ? 'Fournisseur' : 'Client/Fournisseur'}
-                  </div>
-                </button>
-              ))}
-            </div>
-          )}
-        </div>
-        {defaultPartnerId && (
-          <p className="text-xs text-gray-500 mt-1">Partner pré-sélectionné</p>
-        )}
-      </div>
+      {/* Partner */}
+      <PartnerPicker
+        label="Partner *"
+        partners={partners}
+        value={formData.partnerId}
+        onChange={handlePartnerSelect}
+        error={errors.partnerId}
+        helperText={defaultPartnerId ? 'Partner pré-sélectionné' : undefined}
+        disabled={isSubmitting || !!defaultPartnerId}
+      />
+
+      {/* Sens */}
+      <Select
+        label="Sens du paiement *"
+        value={paymentDirection}
+        onChange={(e) => handleDirectionChange(e.target.value as PaymentDirection)}
+        options={[
+          { value: 'IN', label: 'Encaissement (reçu du partner)' },
+          { value: 'OUT', label: 'Décaissement (versé au partner)' }
+        ]}
+        disabled={isSubmitting || !canAllocate}
+        helperText={
+          !canAllocate
+            ? 'Sens fixé par la transaction liée'
+            : direction === null && formData.partnerId
+              ? 'Sens proposé d\'après le solde du partner'
+              : undefined
+        }
+      />
+
+      {/* Compte de trésorerie */}
+      <AccountSelect
+        label={paymentDirection === 'IN' ? 'Reçu sur *' : 'Payé depuis *'}
+        value={accountId}
+        onChange={(id) => {
+          setSelectedAccountId(id);
+          if (errors.accountId) {
+            const newErrors = { ...errors };
+            delete newErrors.accountId;
+            setErrors(newErrors);
+          }
+        }}
+        error={errors.accountId}
+        disabled={isSubmitting}
+      />
 
       {/* Date */}
       <Input
@@ -306,6 +368,55 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
         )}
       </div>
 
+      {/* Factures à régler */}
+      {canAllocate && formData.partnerId && openTransactions.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Factures à régler
+          </label>
+          <p className="text-xs text-gray-500 mb-2">
+            {selectedTransactionIds.length > 0
+              ? 'Le paiement est affecté aux factures cochées'
+              : 'Sans choix, le paiement solde les factures les plus anciennes'}
+          </p>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-60 overflow-y-auto">
+            {openTransactions.map((settlement) => {
+              const tx = settlement.transaction;
+              const isSelected = selectedTransactionIds.includes(tx.id!);
+              const preview = allocationPreview.get(tx.id!);
+              return (
+                <label
+                  key={tx.id}
+                  className={`flex items-center gap-3 px-3 py-2 cursor-pointer ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => handleToggleTransaction(tx.id!)}
+                    disabled={isSubmitting}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                  <FileText size={16} className="text-gray-400 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {tx.direction === 'SALE' ? 'Vente' : 'Achat'} du {formatDate(tx.date)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Reste : {formatCurrency(settlement.remaining)}
+                    </div>
+                  </div>
+                  {preview !== undefined && (
+                    <span className={`text-sm font-mono font-semibold ${isSelected ? 'text-green-600' : 'text-gray-500'}`}>
+                      - {formatCurrency(preview)}
+                    </span>
+                  )}
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Note */}
       <Textarea
         label="Note"
@@ -335,10 +446,10 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
               
               <div className="flex items-center justify-between text-sm">
                 <span className="text-gray-600">
-                  {partnerBalance >= 0 ? 'Vous recevez' : 'Vous payez'}
+                  {paymentDirection === 'IN' ? 'Vous recevez' : 'Vous payez'}
                 </span>
                 <span className="font-semibold font-mono text-green-600">
-                  {partnerBalance >= 0 ? '- ' : '+ '}{formatCurrency(formData.amount)}
+                  {paymentDirection === 'IN' ? '- ' : '+ '}{formatCurrency(formData.amount)}
                 </span>
               </div>
               
@@ -379,6 +490,16 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
                 </span>
               </div>
             )}
+
+            {/* Sens opposé au solde : le montant dû augmente */}
+            {partnerBalance !== 0 && Math.sign(nouvelleBalance) === Math.sign(partnerBalance)
+              && Math.abs(nouvelleBalance) > Math.abs(partnerBalance) && (
+              <div className="mt-2 p-3 bg-yellow-100 rounded-lg text-center border border-yellow-300">
+                <span className="text-sm font-semibold text-yellow-700">
+                  ⚠ Ce paiement augmente le solde - Vérifiez le sens
+                </span>
+              </div>
+            )}
           </div>
         </Card>
       )}
@@ -1,25 +1,29 @@
 /**
  * PaymentList - Liste des paiements avec détails
  * Features:
- * - Affichage chronologique
+ * - Affichage chronologique, liste virtualisée (défilement infini si paginée)
  * - Lien vers transaction si applicable
- * - Actions éditer/supprimer
+ * - Sens du paiement (reçu / versé)
+ * - Actions éditer/supprimer, historique des modifications
  */
 
 import React from 'react';
 import type { Payment } from '../../types/payments';
+import type { ListTotals } from '../../types/pagination';
 import { Card } from '../Card';
 import { Badge } from '../Badge';
 import { Button } from '../Buttons';
 import { EmptyState } from '../EmptyState';
 import { ListSkeleton } from '../Loading';
+import { VirtualList } from '../VirtualList';
 import { 
   DollarSign, 
   Calendar, 
   FileText,
   Receipt,
   Trash2,
-  Edit
+  Edit,
+  History
 } from 'lucide-react';
 
 interface PaymentListProps {
@@ -28,8 +32,13 @@ interface PaymentListProps {
   showPartnerName?: boolean;
   partnerNames?: Record<number, string>;
   onEditPayment?: (payment: Payment) => void;
+  onViewHistory?: (payment: Payment) => void;
   onViewTransaction?: (transactionId: number) => void;
   emptyMessage?: string;
+  totals?: ListTotals;              // Liste paginée : totaux de tous les paiements
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export const PaymentList: React.FC<PaymentListProps> = ({
@@ -38,8 +47,13 @@ export const PaymentList: React.FC<PaymentListProps> = ({
   showPartnerName = false,
   partnerNames = {},
   onEditPayment,
+  onViewHistory,
   onViewTransaction,
-  emptyMessage = 'Aucun paiement'
+  emptyMessage = 'Aucun paiement',
+  totals,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
 }) => {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('fr-FR', {
@@ -73,81 +87,103 @@ export const PaymentList: React.FC<PaymentListProps> = ({
   }
 
   return (
-    <div className="space-y-3">
-      {payments.map((payment) => (
-        <Card key={payment.id} padding="md" hoverable>
-          <div className="flex items-start justify-between gap-4">
-            {/* Info principale */}
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2 mb-2">
-                {/* Montant */}
-                <div className="flex items-center gap-1 text-green-600 font-bold text-lg">
-                  <DollarSign size={18} />
-                  <span>{formatCurrency(payment.amount)}</span>
-                </div>
+    <div>
+      <VirtualList
+        items={payments}
+        getKey={payment => payment.id!}
+        hasMore={hasMore}
+        isLoadingMore={isLoadingMore}
+        onEndReached={onLoadMore}
+        renderItem={(payment) => (
+          <Card padding="md" hoverable>
+            <div className="flex items-start justify-between gap-4">
+              {/* Info principale */}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-2">
+                  {/* Montant */}
+                  <div className={`flex items-center gap-1 font-bold text-lg ${payment.direction === 'IN' ? 'text-green-600' : 'text-red-600'}`}>
+                    <DollarSign size={18} />
+                    <span>{formatCurrency(payment.amount)}</span>
+                  </div>
 
-                {/* Badge si lié à transaction */}
-                {payment.transactionId && (
-                  <Badge 
-                    variant="info" 
-                    size="sm"
-                    className="cursor-pointer"
-                  >
-                    <Receipt size={12} className="inline mr-1" />
-                    Transaction #{payment.transactionId}
+                  <Badge variant={payment.direction === 'IN' ? 'success' : 'danger'} size="sm">
+                    {payment.direction === 'IN' ? 'Reçu' : 'Versé'}
                   </Badge>
-                )}
-              </div>
 
-              {/* Partner name */}
-              {showPartnerName && partnerNames[payment.partnerId] && (
-                <p className="text-sm font-medium text-gray-900 mb-1">
-                  {partnerNames[payment.partnerId]}
-                </p>
-              )}
+                  {/* Badge si lié à transaction */}
+                  {payment.transactionId && (
+                    <Badge 
+                      variant="info" 
+                      size="sm"
+                      className="cursor-pointer"
+                    >
+                      <Receipt size={12} className="inline mr-1" />
+                      Transaction #{payment.transactionId}
+                    </Badge>
+                  )}
+                </div>
 
-              {/* Date */}
-              <div className="flex items-center gap-1 text-sm text-gray-600 mb-2">
-                <Calendar size={14} />
-                <span>{formatDate(payment.date)}</span>
-              </div>
+                {/* Partner name */}
+                {showPartnerName && partnerNames[payment.partnerId] && (
+                  <p className="text-sm font-medium text-gray-900 mb-1">
+                    {partnerNames[payment.partnerId]}
+                  </p>
+                )}
 
-              {/* Note */}
-              {payment.note && (
-                <div className="flex items-start gap-1 text-sm text-gray-600 mt-2">
-                  <FileText size={14} className="mt-0.5 flex shrink-0" />
-                  <span className="line-clamp-2">{payment.note}</span>
+                {/* Date */}
+                <div className="flex items-center gap-1 text-sm text-gray-600 mb-2">
+                  <Calendar size={14} />
+                  <span>{formatDate(payment.date)}</span>
+                  {payment.createdBy && <span className="text-gray-400">· {payment.createdBy}</span>}
                 </div>
-              )}
-            </div>
 
-            {/* Actions */}
-            <div className="flex flex-col gap-2 shrink-0">
-              {onEditPayment && (
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => onEditPayment(payment)}
-                  leftIcon={<Edit size={14} />}
-                >
-                  Éditer
-                </Button>
-              )}
+                {/* Note */}
+                {payment.note && (
+                  <div className="flex items-start gap-1 text-sm text-gray-600 mt-2">
+                    <FileText size={14} className="mt-0.5 flex shrink-0" />
+                    <span className="line-clamp-2">{payment.note}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex flex-col gap-2 shrink-0">
+                {onEditPayment && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onEditPayment(payment)}
+                    leftIcon={<Edit size={14} />}
+                  >
+                    Éditer
+                  </Button>
+                )}
+                {onViewHistory && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onViewHistory(payment)}
+                    leftIcon={<History size={14} />}
+                  >
+                    Historique
+                  </Button>
+                )}
+              </div>
             </div>
-          </div>
-        </Card>
-      ))}
+          </Card>
+        )}
+      />
 
       {/* Total */}
       {payments.length > 0 && (
         <Card padding="md" variant="elevated" className="bg-green-50">
           <div className="flex items-center justify-between">
             <span className="font-semibold text-gray-700">
-              Total des paiements ({payments.length})
+              Total des paiements ({totals?.count ?? payments.length})
             </span>
             <span className="text-xl font-bold text-green-600">
               {formatCurrency(
-                payments.reduce((sum, p) => sum + p.amount, 0)
+                totals?.amount ?? payments.reduce((sum, p) => sum + p.amount, 0)
               )}
             </span>
           </div>
@@ -1,21 +1,22 @@
 /**
  * TransactionPayments - Section paiements pour une transaction
  * Features:
- * - Affiche paiements liés
+ * - Affiche paiements liés et paiements standalone affectés (cf. utils/allocation)
  * - Progression paiement
- * - Ajout rapide paiement
+ * - Ajout rapide paiement (facture pré-sélectionnée)
  */
 
 import React, { useState } from 'react';
 import type { Transaction } from '../../types/transaction';
-import { useTransactionPayments } from '../../hooks/usePayments';
+import { useTransactionPayments, useTransactionSettlement } from '../../hooks/usePayments';
 import { Card, CardHeader, CardContent } from '../Card';
 import { Button } from '../Buttons';
 import { Modal } from '../Modal';
 import { PaymentForm } from './PaymentForm';
 import { PaymentList } from './PaymentList';
 import { Badge } from '../Badge';
-import { Plus, CheckCircle, AlertCircle } from 'lucide-react';
+import { Spinner } from '../Loading';
+import { Plus, CheckCircle, AlertCircle, Clock } from 'lucide-react';
 
 interface TransactionPaymentsProps {
   transaction: Transaction;
@@ -27,11 +28,16 @@ export const TransactionPayments: React.FC<TransactionPaymentsProps> = ({
   onPaymentAdded
 }) => {
   const { payments, loading, totalPaid } = useTransactionPayments(transaction.id);
+  const { settlement, loading: settlementLoading } = useTransactionSettlement(transaction.id);
   const [showAddPayment, setShowAddPayment] = useState(false);
 
-  const resteAPayer = transaction.total - transaction.paid - totalPaid;
-  const pourcentagePaye = ((transaction.paid + totalPaid) / transaction.total) * 100;
-  const estSolde = resteAPayer <= 0;
+  const allocated = settlement?.allocated ?? 0;
+  const credited = settlement?.credited ?? 0;
+  const resteAPayer = settlement?.remaining ?? Math.max(0, transaction.total - transaction.paid - totalPaid);
+  const paidTotal = settlement?.paidTotal ?? transaction.paid + totalPaid;
+  const pourcentagePaye = ((paidTotal + credited) / transaction.total) * 100;
+  const status = settlement?.status ?? (resteAPayer <= 0 ? 'PAID' : paidTotal > 0 ? 'PARTIAL' : 'UNPAID');
+  const estSolde = status === 'PAID';
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('fr-FR', {
@@ -55,16 +61,22 @@ export const TransactionPayments: React.FC<TransactionPaymentsProps> = ({
             <h3 className="text-lg font-semibold text-gray-900">
               Statut du paiement
             </h3>
-            <Badge 
-              variant={estSolde ? 'success' : 'warning'}
-              size="lg"
-            >
-              {estSolde ? (
-                <><CheckCircle size={16} className="inline mr-1" /> Soldé</>
-              ) : (
-                <><AlertCircle size={16} className="inline mr-1" /> En cours</>
-              )}
-            </Badge>
+            {settlementLoading ? (
+              <Spinner size="sm" />
+            ) : (
+              <Badge 
+                variant={estSolde ? 'success' : status === 'PARTIAL' ? 'warning' : 'danger'}
+                size="lg"
+              >
+                {estSolde ? (
+                  <><CheckCircle size={16} className="inline mr-1" /> Soldé</>
+                ) : status === 'PARTIAL' ? (
+                  <><Clock size={16} className="inline mr-1" /> Partiel</>
+                ) : (
+                  <><AlertCircle size={16} className="inline mr-1" /> Non payé</>
+                )}
+              </Badge>
+            )}
           </div>
 
           {/* Barre de progression */}
@@ -106,18 +118,42 @@ export const TransactionPayments: React.FC<TransactionPaymentsProps> = ({
               </div>
             )}
 
+            {allocated > 0 && (
+              <div className="flex justify-between text-gray-700">
+                <span>Paiements affectés ({settlement!.allocations.length})</span>
+                <span className="font-semibold text-green-600">
+                  {formatCurrency(allocated)}
+                </span>
+              </div>
+            )}
+
+            {credited > 0 && (
+              <div className="flex justify-between text-gray-700">
+                <span>{transaction.reversalOf != null ? 'Imputé sur la facture d\'origine' : 'Avoirs'}</span>
+                <span className="font-semibold text-purple-600">
+                  {formatCurrency(credited)}
+                </span>
+              </div>
+            )}
+
             <div className="h-px bg-gray-300 my-2" />
 
             <div className="flex justify-between">
               <span className="font-semibold text-gray-900">
-                {estSolde ? 'Surplus' : 'Reste à payer'}
+                Reste à payer
               </span>
               <span className={`text-xl font-bold ${
                 estSolde ? 'text-green-600' : 'text-orange-600'
               }`}>
-                {formatCurrency(Math.abs(resteAPayer))}
+                {formatCurrency(resteAPayer)}
               </span>
             </div>
+
+            {allocated > 0 && (
+              <p className="text-xs text-gray-500">
+                Les paiements sans facture précise soldent d'abord les factures les plus anciennes.
+              </p>
+            )}
           </div>
 
           {/* Bouton ajout paiement */}
@@ -160,6 +196,7 @@ export const TransactionPayments: React.FC<TransactionPaymentsProps> = ({
       >
         <PaymentForm
           defaultPartnerId={transaction.partnerId}
+          defaultTransactionId={transaction.id}
           onSuccess={handlePaymentSuccess}
           onCancel={() => setShowAddPayment(false)}
         />
@@ -0,0 +1,166 @@
+/**
+ * ProductForm - Création et édition de produits du catalogue
+ * Features:
+ * - Nom unique (alias compris)
+ * - Prix de vente / d'achat par défaut
+ * - Unité et alias (séparés par des virgules)
+ */
+
+import React, { useState } from 'react';
+import type { Product } from '../../types/products';
+import { useProducts } from '../../hooks/useProducts';
+import { Input } from '../Input';
+import { Button } from '../Buttons';
+import { Alert } from '../Alert';
+import { Package } from 'lucide-react';
+
+interface ProductFormProps {
+  product?: Product; // Si défini, mode édition
+  onSuccess?: (product: Product, isNew: boolean) => void;
+  onCancel?: () => void;
+}
+
+interface FormData {
+  name: string;
+  unit: string;
+  salePrice: number;
+  purchasePrice: number;
+  aliases: string;
+}
+
+export const ProductForm: React.FC<ProductFormProps> = ({
+  product,
+  onSuccess,
+  onCancel
+}) => {
+  const { createProduct, updateProduct, error: hookError } = useProducts();
+  const isEditMode = !!product;
+
+  const [formData, setFormData] = useState<FormData>({
+    name: product?.name ?? '',
+    unit: product?.unit ?? '',
+    salePrice: product?.salePrice ?? 0,
+    purchasePrice: product?.purchasePrice ?? 0,
+    aliases: product?.aliases?.join(', ') ?? ''
+  });
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleChange = (field: keyof FormData, value: string | number) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (field === 'name') setNameError(undefined);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setNameError('Le nom est requis');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const productData = {
+        name: formData.name.trim(),
+        unit: formData.unit.trim() || undefined,
+        salePrice: formData.salePrice > 0 ? formData.salePrice : undefined,
+        purchasePrice: formData.purchasePrice > 0 ? formData.purchasePrice : undefined,
+        aliases: formData.aliases.split(',').map(a => a.trim()).filter(Boolean)
+      };
+
+      if (isEditMode && product) {
+        await updateProduct(product.id!, productData);
+        onSuccess?.({ ...product, ...productData }, false);
+      } else {
+        const id = await createProduct(productData);
+        onSuccess?.({ id, ...productData, createdAt: Date.now() }, true);
+      }
+    } catch (error) {
+      console.error('Product form error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {hookError && <Alert variant="danger">{hookError}</Alert>}
+
+      <Input
+        label="Nom *"
+        placeholder="Ex: Riz 25kg"
+        value={formData.name}
+        onChange={(e) => handleChange('name', e.target.value)}
+        error={nameError}
+        leftIcon={<Package size={18} />}
+        disabled={isSubmitting}
+        autoFocus
+      />
+
+      <Input
+        label="Unité"
+        placeholder="Ex: sac, carton, kg"
+        value={formData.unit}
+        onChange={(e) => handleChange('unit', e.target.value)}
+        helperText="Facultatif"
+        disabled={isSubmitting}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          type="number"
+          label="Prix de vente"
+          placeholder="0"
+          value={formData.salePrice || ''}
+          onChange={(e) => handleChange('salePrice', Number(e.target.value))}
+          min="0"
+          className="font-mono"
+          disabled={isSubmitting}
+        />
+        <Input
+          type="number"
+          label="Prix d'achat"
+          placeholder="0"
+          value={formData.purchasePrice || ''}
+          onChange={(e) => handleChange('purchasePrice', Number(e.target.value))}
+          min="0"
+          className="font-mono"
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <Input
+        label="Autres noms"
+        placeholder="Ex: riz parfumé, sac riz"
+        value={formData.aliases}
+        onChange={(e) => handleChange('aliases', e.target.value)}
+        helperText="Séparés par des virgules — reconnus lors de la saisie"
+        disabled={isSubmitting}
+      />
+
+      <div className="flex gap-3 pt-4">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            fullWidth
+          >
+            Annuler
+          </Button>
+        )}
+
+        <Button
+          type="submit"
+          isLoading={isSubmitting}
+          fullWidth
+        >
+          {isEditMode ? 'Mettre à jour' : 'Créer'}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,166 @@
+/**
+ * StockMovements - Stock d'un produit et journal des mouvements
+ * Features:
+ * - Quantité actuelle
+ * - Inventaire (quantité comptée → ajustement)
+ * - Journal : entrées (achats), sorties (ventes), ajustements
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { Product } from '../../types/products';
+import type { StockMovementType } from '../../types/stock';
+import { useStockMovements } from '../../hooks/useStock';
+import { Input } from '../Input';
+import { Button } from '../Buttons';
+import { Alert } from '../Alert';
+import { Badge } from '../Badge';
+import { ListSkeleton } from '../Loading';
+import { ClipboardCheck } from 'lucide-react';
+
+interface StockMovementsProps {
+  product: Product;
+}
+
+const TYPE_LABELS: Record<StockMovementType, string> = {
+  IN: 'Achat',
+  OUT: 'Vente',
+  ADJUSTMENT: 'Inventaire'
+};
+
+export const StockMovements: React.FC<StockMovementsProps> = ({ product }) => {
+  const { movements, stock, loading, error, adjustStock } = useStockMovements(product.id);
+
+  const [countedQty, setCountedQty] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  const formatQty = (qty: number) => (qty > 0 ? `+${qty}` : String(qty));
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (countedQty === '') return;
+
+    setIsSubmitting(true);
+
+    try {
+      await adjustStock(Number(countedQty), note);
+      setCountedQty('');
+      setNote('');
+    } catch (error) {
+      console.error('Stock adjustment error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Stock actuel */}
+      <div className="text-center">
+        <p className="text-sm text-gray-600">Stock actuel</p>
+        <p className={`text-3xl font-bold font-mono ${stock < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+          {loading ? '...' : stock}
+          {product.unit && <span className="text-base font-normal text-gray-500"> {product.unit}</span>}
+        </p>
+        {stock < 0 && (
+          <p className="text-xs text-red-600 mt-1">
+            Stock négatif : faites un inventaire pour corriger
+          </p>
+        )}
+      </div>
+
+      {/* Inventaire */}
+      <form onSubmit={handleAdjust} className="space-y-3">
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            type="number"
+            label="Quantité comptée"
+            placeholder="0"
+            value={countedQty}
+            onChange={(e) => setCountedQty(e.target.value)}
+            min="0"
+            className="font-mono"
+            disabled={isSubmitting}
+          />
+          <Input
+            label="Motif"
+            placeholder="Ex: casse, perte"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <Button
+          type="submit"
+          variant="secondary"
+          size="sm"
+          leftIcon={<ClipboardCheck size={16} />}
+          isLoading={isSubmitting}
+          disabled={countedQty === ''}
+          fullWidth
+        >
+          Enregistrer l'inventaire
+        </Button>
+      </form>
+
+      {/* Journal */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Mouvements</h3>
+
+        {loading ? (
+          <ListSkeleton count={3} />
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            Aucun mouvement. Les achats et ventes de ce produit apparaîtront ici.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+            {movements.map((movement) => {
+              const label = (
+                <div className="flex items-center gap-2">
+                  <Badge
+                    size="sm"
+                    variant={movement.type === 'IN' ? 'success' : movement.type === 'OUT' ? 'info' : 'warning'}
+                  >
+                    {TYPE_LABELS[movement.type]}
+                  </Badge>
+                  <span className="text-sm text-gray-600">{formatDate(movement.date)}</span>
+                </div>
+              );
+
+              return (
+                <div key={movement.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    {movement.transactionId ? (
+                      <Link to={`/transactions/${movement.transactionId}`} className="hover:underline">
+                        {label}
+                      </Link>
+                    ) : label}
+                    {movement.note && (
+                      <p className="text-xs text-gray-500 truncate mt-0.5">{movement.note}</p>
+                    )}
+                  </div>
+                  <span className={`font-mono font-semibold ${movement.quantity >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatQty(movement.quantity)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+/**
+ * CreditNoteForm - Création d'un avoir (contre-passation) sur une transaction
+ * Features:
+ * - Annulation totale ou partielle
+ * - Reprise article par article (quantités plafonnées au reste repris)
+ * - Remboursement immédiat (compte de trésorerie) ou imputation sur le reste dû
+ * - Motif obligatoire
+ */
+
+import React, { useState } from 'react';
+import type { Transaction, TransactionItem } from '../../types/transaction';
+import { useCreditNotes } from '../../hooks/useCreditNotes';
+import { useTransactionSettlement } from '../../hooks/usePayments';
+import { useTreasuryAccounts } from '../../hooks/useTreasury';
+import { Input, Textarea } from '../Input';
+import { Button } from '../Buttons';
+import { Alert } from '../Alert';
+import { AccountSelect } from '../treasury/AccountSelect';
+import { Calendar, RotateCcw } from 'lucide-react';
+
+interface CreditNoteFormProps {
+  transaction: Transaction;   // Transaction d'origine
+  onSuccess?: (creditNoteId: number) => void;
+  onCancel?: () => void;
+}
+
+type CreditMode = 'FULL' | 'PARTIAL';
+
+export const CreditNoteForm: React.FC<CreditNoteFormProps> = ({
+  transaction,
+  onSuccess,
+  onCancel
+}) => {
+  const { state, createCreditNote, error: hookError } = useCreditNotes(transaction);
+  const { settlement } = useTransactionSettlement(transaction.id);
+  const { accounts } = useTreasuryAccounts();
+
+  const [mode, setMode] = useState<CreditMode>('FULL');
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [amount, setAmount] = useState(0);
+  const [refunded, setRefunded] = useState(0);
+  const [accountId, setAccountId] = useState<number | undefined>();
+  const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isSale = transaction.direction === 'SALE';
+  const hasItems = (state?.items.length ?? 0) > 0;
+  const remainingTotal = state?.remainingTotal ?? 0;
+  const remainingDue = settlement?.remaining ?? 0;
+
+  // Articles repris et montant de l'avoir selon le mode
+  const creditItems: TransactionItem[] = (state?.items ?? [])
+    .map(({ item, remaining }, index) => ({
+      ...item,
+      qty: mode === 'FULL' ? remaining : Math.min(quantities[index] ?? 0, remaining)
+    }))
+    .filter(item => item.qty > 0);
+
+  const total = mode === 'FULL'
+    ? remainingTotal
+    : hasItems
+      ? Math.min(remainingTotal, creditItems.reduce((sum, item) => sum + item.qty * item.price, 0))
+      : amount;
+
+  const suggestedRefund = Math.max(0, total - remainingDue);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(value) + ' F';
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (total <= 0) newErrors.amount = 'Choisissez ce qui est annulé';
+    if (total > remainingTotal) newErrors.amount = `Maximum ${formatCurrency(remainingTotal)}`;
+    if (refunded < 0 || refunded > total) newErrors.refunded = 'Le remboursement ne peut pas dépasser l\'avoir';
+    if (!note.trim()) newErrors.note = 'Indiquez le motif de l\'avoir';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const id = await createCreditNote(transaction, {
+        date: new Date(date).getTime(),
+        total,
+        refunded,
+        accountId: accountId ?? accounts[0]?.id,
+        items: creditItems,
+        note
+      });
+      onSuccess?.(id);
+    } catch (error) {
+      console.error('Credit note error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {hookError && <Alert variant="danger">{hookError}</Alert>}
+
+      <Alert variant="info">
+        La transaction d'origine reste inchangée. L'avoir enregistre l'annulation
+        {hasItems ? ' et le retour en stock des articles repris' : ''}.
+        Reste annulable : <strong>{formatCurrency(remainingTotal)}</strong>
+      </Alert>
+
+      {/* Mode */}
+      <div className="grid grid-cols-2 gap-2">
+        {(['FULL', 'PARTIAL'] as CreditMode[]).map(m => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setMode(m)}
+            disabled={isSubmitting}
+            className={`py-2 px-3 rounded-lg border text-sm font-medium transition-colors ${
+              mode === m
+                ? 'border-blue-600 bg-blue-50 text-blue-700'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {m === 'FULL' ? 'Tout annuler' : 'Annulation partielle'}
+          </button>
+        ))}
+      </div>
+
+      {/* Articles ou montant */}
+      {mode === 'PARTIAL' && (
+        hasItems ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Quantités reprises</p>
+            {state!.items.map(({ item, credited, remaining }, index) => (
+              <div key={index} className="flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-gray-900 truncate">{item.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {item.qty} × {formatCurrency(item.price)}
+                    {credited > 0 && ` — déjà repris : ${credited}`}
+                  </p>
+                </div>
+                <Input
+                  type="number"
+                  value={quantities[index] || ''}
+                  onChange={(e) => setQuantities({ ...quantities, [index]: Number(e.target.value) })}
+                  min="0"
+                  max={remaining}
+                  placeholder="0"
+                  className="w-20 font-mono"
+                  disabled={isSubmitting || remaining <= 0}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <Input
+            type="number"
+            label="Montant annulé *"
+            placeholder="0"
+            value={amount || ''}
+            onChange={(e) => setAmount(Number(e.target.value))}
+            min="0"
+            max={remainingTotal}
+            className="font-mono"
+            disabled={isSubmitting}
+          />
+        )
+      )}
+
+      {errors.amount && <p className="text-sm text-red-600">{errors.amount}</p>}
+
+      <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+        <span className="font-medium text-gray-700">Montant de l'avoir</span>
+        <span className="text-xl font-bold font-mono text-purple-600">{formatCurrency(total)}</span>
+      </div>
+
+      {/* Remboursement */}
+      <Input
+        type="number"
+        label={isSale ? 'Remboursé au client maintenant' : 'Remboursé par le fournisseur maintenant'}
+        placeholder="0"
+        value={refunded || ''}
+        onChange={(e) => setRefunded(Number(e.target.value))}
+        min="0"
+        max={total}
+        error={errors.refunded}
+        helperText={remainingDue > 0
+          ? `${formatCurrency(Math.min(total, remainingDue))} seront déduits du reste dû${suggestedRefund > 0 ? `, ${formatCurrency(suggestedRefund)} à rembourser` : ''}`
+          : 'La facture est déjà réglée : l\'avoir est à rembourser'}
+        className="font-mono"
+        disabled={isSubmitting}
+      />
+
+      {refunded > 0 && (
+        <AccountSelect
+          label={isSale ? 'Remboursé depuis *' : 'Remboursement reçu sur *'}
+          value={accountId ?? accounts[0]?.id}
+          onChange={setAccountId}
+          disabled={isSubmitting}
+        />
+      )}
+
+      <Input
+        type="date"
+        label="Date *"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        max={new Date().toISOString().slice(0, 10)}
+        leftIcon={<Calendar size={18} />}
+        disabled={isSubmitting}
+      />
+
+      <Textarea
+        label="Motif *"
+        placeholder="Ex: retour de 2 sacs abîmés, erreur de prix"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        error={errors.note}
+        rows={2}
+        disabled={isSubmitting}
+      />
+
+      <div className="flex gap-3 pt-4">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            fullWidth
+          >
+            Annuler
+          </Button>
+        )}
+
+        <Button
+          type="submit"
+          leftIcon={<RotateCcw size={18} />}
+          isLoading={isSubmitting}
+          disabled={remainingTotal <= 0}
+          fullWidth
+        >
+          Créer l'avoir
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,167 @@
+/**
+ * CreditNotes - Avoirs d'une transaction
+ * Features:
+ * - CreditNotesCard : liste des avoirs d'une facture + création (modal)
+ * - CreditNoteSummary : détail d'un avoir (lecture seule) avec lien vers la facture d'origine
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { Transaction } from '../../types/transaction';
+import { useCreditNotes } from '../../hooks/useCreditNotes';
+import { useTransaction } from '../../hooks/useTransactions';
+import { getDocumentNumber } from '../../utils/creditNote';
+import { Card } from '../Card';
+import { Button } from '../Buttons';
+import { Modal } from '../Modal';
+import { CreditNoteForm } from './CreditNoteForm';
+import { RotateCcw, FileText } from 'lucide-react';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'decimal',
+    minimumFractionDigits: 0
+  }).format(amount) + ' F';
+};
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric'
+  });
+};
+
+interface CreditNotesCardProps {
+  transaction: Transaction;
+}
+
+export const CreditNotesCard: React.FC<CreditNotesCardProps> = ({ transaction }) => {
+  const { creditNotes, state, loading } = useCreditNotes(transaction);
+  const [showForm, setShowForm] = useState(false);
+
+  return (
+    <Card padding="lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Avoirs</h3>
+        <Button
+          size="sm"
+          variant="secondary"
+          leftIcon={<RotateCcw size={16} />}
+          onClick={() => setShowForm(true)}
+          disabled={loading || (state?.remainingTotal ?? 0) <= 0}
+        >
+          Créer un avoir
+        </Button>
+      </div>
+
+      {creditNotes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Retour de marchandise ou erreur de montant ? Créez un avoir : cette transaction restera inchangée.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {creditNotes.map(note => (
+            <Link
+              key={note.id}
+              to={`/transactions/${note.id}`}
+              className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">{getDocumentNumber(note)}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {formatDate(note.date)}{note.note ? ` — ${note.note}` : ''}
+                </p>
+              </div>
+              <span className="font-mono font-semibold text-purple-600 shrink-0">
+                - {formatCurrency(note.total)}
+              </span>
+            </Link>
+          ))}
+          {state && (
+            <div className="flex justify-between text-sm pt-2 border-t">
+              <span className="text-gray-600">Net après avoirs</span>
+              <span className="font-mono font-semibold">{formatCurrency(transaction.total - state.creditedTotal)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Modal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        title={`Avoir sur ${getDocumentNumber(transaction)}`}
+        size="md"
+      >
+        <CreditNoteForm
+          transaction={transaction}
+          onSuccess={() => setShowForm(false)}
+          onCancel={() => setShowForm(false)}
+        />
+      </Modal>
+    </Card>
+  );
+};
+
+interface CreditNoteSummaryProps {
+  creditNote: Transaction;
+}
+
+export const CreditNoteSummary: React.FC<CreditNoteSummaryProps> = ({ creditNote }) => {
+  const { transaction: original } = useTransaction(creditNote.reversalOf);
+  const isSaleReturn = creditNote.direction === 'PURCHASE';
+
+  return (
+    <Card padding="lg">
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-purple-50 text-purple-600 rounded-lg">
+            <RotateCcw size={20} />
+          </div>
+          <div>
+            <p className="font-semibold text-gray-900">
+              Avoir {getDocumentNumber(creditNote)} — {isSaleReturn ? 'sur vente' : 'sur achat'}
+            </p>
+            <p className="text-sm text-gray-500">{formatDate(creditNote.date)}</p>
+          </div>
+        </div>
+
+        {original && (
+          <Link
+            to={`/transactions/${original.id}`}
+            className="flex items-center gap-2 text-sm text-blue-600 hover:underline"
+          >
+            <FileText size={16} />
+            Facture d'origine {getDocumentNumber(original)} du {formatDate(original.date)} ({formatCurrency(original.total)})
+          </Link>
+        )}
+
+        {creditNote.items && creditNote.items.length > 0 && (
+          <div className="divide-y divide-gray-100 text-sm">
+            {creditNote.items.map((item, index) => (
+              <div key={index} className="flex justify-between py-2">
+                <span className="text-gray-900">{item.qty} × {item.name}</span>
+                <span className="font-mono">{formatCurrency(item.qty * item.price)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 pt-2 border-t text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-700">Montant de l'avoir</span>
+            <span className="font-mono font-semibold text-purple-600">{formatCurrency(creditNote.total)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-700">{isSaleReturn ? 'Remboursé au client' : 'Remboursé par le fournisseur'}</span>
+            <span className="font-mono">{formatCurrency(creditNote.paid)}</span>
+          </div>
+        </div>
+
+        {creditNote.note && (
+          <p className="text-sm text-gray-600"><strong>Motif :</strong> {creditNote.note}</p>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -2,28 +2,38 @@
  * ItemsEditor - Éditeur de lignes d'items (produits)
  * Features:
  * - Ajout/suppression items
+ * - Autocomplete depuis le catalogue + prix par défaut selon le sens
+ * - Proposition d'ajout au catalogue des noms inconnus
  * - Calcul automatique total
  * - Validation quantités/prix
  */
 
-import React from 'react';
-import type { TransactionItem } from '../../types/transaction';
+import React, { useState } from 'react';
+import type { TransactionItem, Direction } from '../../types/transaction';
+import type { Product } from '../../types/products';
+import { useProducts, productMatchesName, getDefaultPrice } from '../../hooks/useProducts';
 import { Button } from '../Buttons';
 import { Input } from '../Input';
 import { Card } from '../Card';
-import { Plus, Trash2, Package } from 'lucide-react';
+import { ProductNameInput } from './ProductNameInput';
+import { Plus, Trash2, Package, BookmarkPlus } from 'lucide-react';
 
 interface ItemsEditorProps {
   items: TransactionItem[];
   onChange: (items: TransactionItem[]) => void;
+  direction?: Direction;
   disabled?: boolean;
 }
 
 export const ItemsEditor: React.FC<ItemsEditorProps> = ({
   items,
   onChange,
+  direction = 'SALE',
   disabled = false
 }) => {
+  const { products, createProduct } = useProducts();
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+
   const handleAddItem = () => {
     onChange([
       ...items,
@@ -48,6 +58,64 @@ export const ItemsEditor: React.FC<ItemsEditorProps> = ({
     onChange(newItems);
   };
 
+  /**
+   * Saisie libre du nom : relie au catalogue si le nom (ou un alias) correspond
+   */
+  const handleNameChange = (index: number, name: string) => {
+    const match = products.find(p => productMatchesName(p, name));
+    const newItems = [...items];
+    newItems[index] = {
+      ...newItems[index],
+      name,
+      productId: match?.id
+    };
+    onChange(newItems);
+  };
+
+  /**
+   * Sélection dans l'autocomplete : nom canonique + prix par défaut
+   */
+  const handleSelectProduct = (index: number, product: Product) => {
+    const defaultPrice = getDefaultPrice(product, direction);
+    const newItems = [...items];
+    newItems[index] = {
+      ...newItems[index],
+      name: product.name,
+      productId: product.id,
+      price: defaultPrice ?? newItems[index].price
+    };
+    onChange(newItems);
+  };
+
+  /**
+   * Ajoute au catalogue un nom saisi qui n'y figure pas encore
+   */
+  const handleSaveToCatalog = async (index: number) => {
+    const item = items[index];
+    setSavingIndex(index);
+
+    try {
+      const price = item.price > 0 ? item.price : undefined;
+      const productId = await createProduct({
+        name: item.name,
+        salePrice: direction === 'SALE' ? price : undefined,
+        purchasePrice: direction === 'PURCHASE' ? price : undefined
+      });
+
+      const newItems = [...items];
+      newItems[index] = { ...newItems[index], name: item.name.trim(), productId };
+      onChange(newItems);
+    } catch (error) {
+      console.error('Product creation error:', error);
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  const isUnknownName = (item: TransactionItem) => {
+    return item.name.trim().length > 0 && !item.productId;
+  };
+
   const calculateItemTotal = (item: TransactionItem) => {
     return item.qty * item.price;
   };
@@ -101,12 +169,13 @@ export const ItemsEditor: React.FC<ItemsEditorProps> = ({
             <div key={index} className="border border-gray-200 rounded-lg p-3">
               {/* Vue mobile */}
               <div className="md:hidden space-y-3">
-                <Input
-                  placeholder="Nom de l'article"
+                <ProductNameInput
                   value={item.name}
-                  onChange={(e) => handleItemChange(index, 'name', e.target.value)}
+                  products={products}
+                  direction={direction}
+                  onChange={(name) => handleNameChange(index, name)}
+                  onSelectProduct={(product) => handleSelectProduct(index, product)}
                   disabled={disabled}
-                  fullWidth
                 />
                 <div className="grid grid-cols-3 gap-2">
                   <Input
@@ -147,10 +216,12 @@ export const ItemsEditor: React.FC<ItemsEditorProps> = ({
               {/* Vue desktop - tableau */}
               <div className="hidden md:grid md:grid-cols-12 gap-3 items-center">
                 <div className="col-span-5">
-                  <Input
-                    placeholder="Nom de l'article"
+                  <ProductNameInput
                     value={item.name}
-                    onChange={(e) => handleItemChange(index, 'name', e.target.value)}
+                    products={products}
+                    direction={direction}
+                    onChange={(name) => handleNameChange(index, name)}
+                    onSelectProduct={(product) => handleSelectProduct(index, product)}
                     disabled={disabled}
                   />
                 </div>
@@ -193,6 +264,24 @@ export const ItemsEditor: React.FC<ItemsEditorProps> = ({
                   </button>
                 </div>
               </div>
+
+              {/* Nom hors catalogue */}
+              {isUnknownName(item) && !disabled && (
+                <div className="flex items-center justify-between gap-2 mt-2 text-xs text-gray-500">
+                  <span className="truncate">« {item.name.trim()} » n'est pas dans le catalogue</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleSaveToCatalog(index)}
+                    isLoading={savingIndex === index}
+                    leftIcon={<BookmarkPlus size={14} />}
+                    className="shrink-0"
+                  >
+                    Ajouter au catalogue
+                  </Button>
+                </div>
+              )}
             </div>
           ))}
 
@@ -0,0 +1,104 @@
+/**
+ * ProductNameInput - Saisie du nom d'article avec autocomplete catalogue
+ * Features:
+ * - Suggestions par nom ou alias (accents et fautes de frappe tolérés)
+ * - Affiche le prix par défaut selon le sens (vente/achat)
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Product } from '../../types/products';
+import type { Direction } from '../../types/transaction';
+import { getDefaultPrice } from '../../hooks/useProducts';
+import { getProductSearchDocument, searchItems } from '../../utils/search';
+import { Input } from '../Input';
+
+interface ProductNameInputProps {
+  value: string;
+  products: Product[];
+  direction: Direction;
+  onChange: (name: string) => void;
+  onSelectProduct: (product: Product) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const ProductNameInput: React.FC<ProductNameInputProps> = ({
+  value,
+  products,
+  direction,
+  onChange,
+  onSelectProduct,
+  disabled = false,
+  placeholder = 'Nom de l\'article'
+}) => {
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const suggestions = useMemo(
+    () => searchItems(products, value, getProductSearchDocument, MAX_SUGGESTIONS),
+    [products, value]
+  );
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const handleSelect = (product: Product) => {
+    onSelectProduct(product);
+    setShowSuggestions(false);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setShowSuggestions(true);
+        }}
+        onFocus={() => setShowSuggestions(true)}
+        onBlur={() => setShowSuggestions(false)}
+        disabled={disabled}
+        autoComplete="off"
+      />
+
+      {showSuggestions && !disabled && suggestions.length > 0 && (
+        <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((product) => {
+            const price = getDefaultPrice(product, direction);
+            return (
+              <button
+                key={product.id}
+                type="button"
+                // mousedown : évite que le blur de l'input ferme la liste avant le clic
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSelect(product);
+                }}
+                className="w-full px-4 py-2 text-left hover:bg-gray-100 transition-colors border-b border-gray-100 last:border-b-0 flex items-center justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{product.name}</div>
+                  {product.unit && (
+                    <div className="text-xs text-gray-500">{product.unit}</div>
+                  )}
+                </div>
+                {price !== undefined && (
+                  <span className="text-sm font-mono text-gray-600 shrink-0">
+                    {formatCurrency(price)}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,9 +2,13 @@
  * TransactionForm - Formulaire de création/édition de transactions
  * Features:
  * - Upload photo + OCR automatique
+ * - Choix du partner par recherche (accents et fautes tolérés)
  * - Calcul ancien → nouveau solde en temps réel
  * - Gestion items multiples
- * - Verrouillage édition (même jour uniquement)
+ * - Verrouillage édition (même jour uniquement, sauf propriétaire connecté)
+ * - Alerte stock négatif avant enregistrement
+ * - Échéance du reste à payer (conditions ou date précise)
+ * - Compte de trésorerie du montant payé
  * - Validation complète
  */
 
@@ -14,18 +18,25 @@ import { useTransactions } from '../../hooks/useTransactions';
 import { usePartners } from '../../hooks/usePartner';
 import { usePartnerBalance } from '../../hooks/useTransactions';
 import { useOCRUpload } from '../../hooks/useOCRUpload';
+import { useStockWarnings } from '../../hooks/useStock';
+import { useTreasuryAccounts } from '../../hooks/useTreasury';
+import { PAYMENT_TERMS, addDays } from '../../utils/dueDates';
+import { canEditTransaction } from '../../utils/session';
 import { Input, Select, Textarea } from '../Input';
 import { Button } from '../Buttons';
 import { Alert } from '../Alert';
 import { Card } from '../Card';
 import { ImageUpload } from './ImageUpload';
 import { ItemsEditor } from './ItemsEditor';
+import { AccountSelect } from '../treasury/AccountSelect';
+import { PartnerPicker } from '../partner/PartnerPicker';
 import { 
   TrendingUp, 
   TrendingDown, 
   Lock,
   Save,
-  Eye
+  Eye,
+  PackageX
 } from 'lucide-react';
 
 interface TransactionFormProps {
@@ -42,10 +53,24 @@ interface FormData {
   direction: Direction;
   total: number;
   paid: number;
+  accountId?: number;     // Compte du montant payé (sinon : premier compte actif)
   items: TransactionItem[];
   note: string;
   imageUrl: string | null;
   ocrText: string | null;
+  dueTerm: string;        // '' = aucune, nombre de jours, ou 'custom'
+  dueDate: string;        // Date précise (dueTerm = 'custom')
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retrouve les conditions de paiement d'une transaction existante
+ */
+function getInitialDueTerm(transaction?: Transaction): string {
+  if (!transaction?.dueDate) return '';
+  const days = Math.round((transaction.dueDate - transaction.date) / DAY_MS);
+  return PAYMENT_TERMS.includes(days) ? String(days) : 'custom';
 }
 
 export const TransactionForm: React.FC<TransactionFormProps> = ({
@@ -56,7 +81,10 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
   onCancel
 }) => {
   const isEditMode = !!transaction;
-  const canEdit = !transaction || (transaction && new Date(transaction.date).toDateString() === new Date().toDateString());
+  const isSameDay = !!transaction && new Date(transaction.date).toDateString() === new Date().toDateString();
+  const canEdit = !transaction || canEditTransaction(transaction);
+  // Transaction d'un autre jour modifiée par le propriétaire
+  const isLockOverridden = !!transaction && canEdit && !isSameDay;
 
   // 1. HOOKS EXTERNES D'ABORD
   const { createTransaction, updateTransaction, error: txError } = useTransactions();
@@ -80,15 +108,21 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
     direction: transaction?.direction ?? defaultDirection,
     total: transaction?.total ?? 0,
     paid: transaction?.paid ?? 0,
+    accountId: transaction?.accountId,
     items: transaction?.items ?? [],
     note: transaction?.note ?? '',
     imageUrl: transaction?.imageUrl ?? null,
-    ocrText: transaction?.ocrText ?? null
+    ocrText: transaction?.ocrText ?? null,
+    dueTerm: getInitialDueTerm(transaction),
+    dueDate: transaction?.dueDate
+      ? new Date(transaction.dueDate).toISOString().slice(0, 10)
+      : ''
   });
 
   const [showOCRText, setShowOCRText] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+  const [stockConfirmed, setStockConfirmed] = useState(false);
 
   // 3. COMPUTED VALUES (useMemo) - MAINTENANT formData existe
   const selectedPartner = useMemo(
@@ -108,6 +142,21 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
   
   const nouveauSolde = partnerBalance + positionNew;
 
+  // Échéance (uniquement s'il reste un montant à payer)
+  const hasRemainder = formData.total > formData.paid;
+  const computedDueDate = !hasRemainder || !formData.dueTerm
+    ? undefined
+    : formData.dueTerm === 'custom'
+      ? (formData.dueDate ? new Date(formData.dueDate).getTime() : undefined)
+      : addDays(new Date(formData.date).getTime(), Number(formData.dueTerm));
+
+  // Compte de trésorerie de la partie payée
+  const { accounts } = useTreasuryAccounts();
+  const accountId = formData.accountId ?? accounts[0]?.id;
+
+  // Stock négatif (ventes d'articles du catalogue)
+  const stockWarnings = useStockWarnings(formData.items, formData.direction, transaction?.id);
+
   // 6. EFFECTS EN DERNIER
   // Auto-remplissage OCR
   useEffect(() => {
@@ -164,6 +213,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
   const handleChange = (field: keyof FormData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     setErrors(prev => ({ ...prev, [field]: undefined }));
+    if (field === 'items' || field === 'direction') setStockConfirmed(false);
   };
 
   const validateForm = (): boolean => {
@@ -185,6 +235,18 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
       newErrors.paid = 'Le montant payé ne peut pas dépasser le total';
     }
 
+    if (formData.paid > 0 && !accountId) {
+      newErrors.accountId = 'Choisissez le compte qui reçoit le paiement';
+    }
+
+    if (hasRemainder && formData.dueTerm === 'custom') {
+      if (!formData.dueDate) {
+        newErrors.dueDate = 'Choisissez une date d\'échéance';
+      } else if (formData.dueDate < formData.date) {
+        newErrors.dueDate = 'L\'échéance ne peut pas précéder la date de la transaction';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -199,6 +261,12 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
 
     if (!validateForm()) return;
 
+    // Stock insuffisant : demande une confirmation explicite
+    if (stockWarnings.length > 0 && !stockConfirmed) {
+      setStockConfirmed(true);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -208,6 +276,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
         direction: formData.direction,
         total: formData.total,
         paid: formData.paid,
+        accountId: formData.paid > 0 ? accountId : undefined,
+        dueDate: computedDueDate,
         items: formData.items.length > 0 ? formData.items : undefined,
         imageUrl: formData.imageUrl ?? undefined,
         ocrText: formData.ocrText ?? undefined,
@@ -227,12 +297,16 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
           direction: defaultDirection,
           total: 0,
           paid: 0,
+          accountId: undefined,
           items: [],
           note: '',
           imageUrl: null,
-          ocrText: null
+          ocrText: null,
+          dueTerm: '',
+          dueDate: ''
         });
         resetOCR();
+        setStockConfirmed(false);
 
         onSuccess?.({ id: Date.now(), ...txData, createdAt: Date.now() } as Transaction, true);
       }
@@ -250,12 +324,10 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
     }).format(Math.abs(amount)) + ' F';
   };
 
-  const partnerOptions = [
-    { value: '', label: '-- Sélectionner --' },
-    ...partners.map(p => ({ 
-      value: String(p.id), 
-      label: `${p.name} (${p.type})` 
-    }))
+  const dueTermOptions = [
+    { value: '', label: 'Aucune échéance' },
+    ...PAYMENT_TERMS.map(days => ({ value: String(days), label: `${days} jours` })),
+    { value: 'custom', label: 'Date précise' }
   ];
 
   const directionOptions = [
@@ -265,6 +337,12 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {isLockOverridden && (
+        <Alert variant="info">
+          Transaction d'un autre jour : modification autorisée en tant que propriétaire.
+        </Alert>
+      )}
+
       {/* Verrouillage si édition impossible */}
       {isEditMode && !canEdit && (
         <Alert variant="warning">
@@ -272,7 +350,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
             <Lock size={18} />
             <span>
               Cette transaction est verrouillée. 
-              Seules les transactions du jour peuvent être modifiées.
+              Seules les transactions du jour peuvent être modifiées (sauf par le propriétaire).
             </span>
           </div>
         </Alert>
@@ -342,11 +420,11 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
       )}
 
       {/* Partner */}
-      <Select
+      <PartnerPicker
         label="Partner *"
-        value={String(formData.partnerId ?? '')}
-        onChange={(e) => handleChange('partnerId', e.target.value ? Number(e.target.value) : null)}
-        options={partnerOptions}
+        partners={partners}
+        value={formData.partnerId}
+        onChange={(partner) => handleChange('partnerId', partner.id!)}
         error={errors.partnerId}
         disabled={!canEdit || isSubmitting}
       />
@@ -420,6 +498,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
         <ItemsEditor
           items={formData.items}
           onChange={(items) => handleChange('items', items)}
+          direction={formData.direction}
           disabled={!canEdit || isSubmitting}
         />
       </div>
@@ -499,6 +578,44 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
         </div>
       </div>
 
+      {/* Compte de trésorerie de la partie payée */}
+      {formData.paid > 0 && (
+        <AccountSelect
+          label={formData.direction === 'SALE' ? 'Encaissé sur *' : 'Payé depuis *'}
+          value={accountId}
+          onChange={(id) => handleChange('accountId', id)}
+          error={errors.accountId}
+          disabled={!canEdit || isSubmitting}
+        />
+      )}
+
+      {/* Échéance du reste à payer */}
+      {hasRemainder && (
+        <div className="grid grid-cols-2 gap-4">
+          <Select
+            label="Échéance"
+            value={formData.dueTerm}
+            onChange={(e) => handleChange('dueTerm', e.target.value)}
+            options={dueTermOptions}
+            disabled={!canEdit || isSubmitting}
+            helperText={computedDueDate && formData.dueTerm !== 'custom'
+              ? `Le ${new Date(computedDueDate).toLocaleDateString('fr-FR')}`
+              : undefined}
+          />
+          {formData.dueTerm === 'custom' && (
+            <Input
+              type="date"
+              label="Date d'échéance"
+              value={formData.dueDate}
+              onChange={(e) => handleChange('dueDate', e.target.value)}
+              min={formData.date}
+              error={errors.dueDate}
+              disabled={!canEdit || isSubmitting}
+            />
+          )}
+        </div>
+      )}
+
       {/* Note */}
       <Textarea
         label="Note"
@@ -509,6 +626,30 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
         disabled={!canEdit || isSubmitting}
       />
 
+      {/* Stock négatif */}
+      {stockWarnings.length > 0 && (
+        <Alert variant="warning">
+          <div className="flex items-start gap-2">
+            <PackageX size={18} className="shrink-0 mt-0.5" />
+            <div>
+              <p className="font-semibold">Stock insuffisant</p>
+              <ul className="text-sm mt-1 space-y-0.5">
+                {stockWarnings.map(w => (
+                  <li key={w.productId}>
+                    {w.name} : {w.current} en stock → {w.after} après cette vente
+                  </li>
+                ))}
+              </ul>
+              {stockConfirmed && (
+                <p className="text-sm mt-2">
+                  Cliquez à nouveau pour enregistrer malgré tout.
+                </p>
+              )}
+            </div>
+          </div>
+        </Alert>
+      )}
+
       {/* Actions */}
       <div className="flex gap-3 pt-4">
         {onCancel && (
@@ -530,7 +671,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
           leftIcon={<Save size={18} />}
           fullWidth
         >
-          {isEditMode ? 'Mettre à jour' : 'Enregistrer'}
+          {stockWarnings.length > 0 && stockConfirmed
+            ? 'Enregistrer quand même'
+            : isEditMode ? 'Mettre à jour' : 'Enregistrer'}
         </Button>
       </div>
     </form>
@@ -0,0 +1,124 @@
+/**
+ * AccountForm - Création et édition d'un compte de trésorerie
+ * Features:
+ * - Nom unique
+ * - Type : caisse, mobile money, banque
+ * - Solde de départ (fond de caisse, solde du portefeuille)
+ */
+
+import React, { useState } from 'react';
+import type { TreasuryAccount, TreasuryAccountType } from '../../types/treasury';
+import { useTreasuryAccounts } from '../../hooks/useTreasury';
+import { ACCOUNT_TYPE_LABELS } from '../../utils/treasury';
+import { Input, Select } from '../Input';
+import { Button } from '../Buttons';
+import { Alert } from '../Alert';
+import { Wallet } from 'lucide-react';
+
+interface AccountFormProps {
+  account?: TreasuryAccount; // Si défini, mode édition
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export const AccountForm: React.FC<AccountFormProps> = ({
+  account,
+  onSuccess,
+  onCancel
+}) => {
+  const { createAccount, updateAccount, error: hookError } = useTreasuryAccounts(true);
+  const isEditMode = !!account;
+
+  const [name, setName] = useState(account?.name ?? '');
+  const [type, setType] = useState<TreasuryAccountType>(account?.type ?? 'CASH');
+  const [openingBalance, setOpeningBalance] = useState(account?.openingBalance ?? 0);
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setNameError('Le nom est requis');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const accountData = { name: name.trim(), type, openingBalance };
+
+      if (isEditMode && account) {
+        await updateAccount(account.id!, accountData);
+      } else {
+        await createAccount(accountData);
+      }
+      onSuccess?.();
+    } catch (error) {
+      console.error('Account form error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {hookError && <Alert variant="danger">{hookError}</Alert>}
+
+      <Input
+        label="Nom *"
+        placeholder="Ex: Caisse, Orange Money"
+        value={name}
+        onChange={(e) => {
+          setName(e.target.value);
+          setNameError(undefined);
+        }}
+        error={nameError}
+        leftIcon={<Wallet size={18} />}
+        disabled={isSubmitting}
+        autoFocus
+      />
+
+      <Select
+        label="Type *"
+        value={type}
+        onChange={(e) => setType(e.target.value as TreasuryAccountType)}
+        options={Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => ({ value, label }))}
+        disabled={isSubmitting}
+      />
+
+      <Input
+        type="number"
+        label="Solde de départ"
+        placeholder="0"
+        value={openingBalance || ''}
+        onChange={(e) => setOpeningBalance(Number(e.target.value))}
+        helperText="Montant présent sur le compte avant les premiers enregistrements"
+        className="font-mono"
+        disabled={isSubmitting}
+      />
+
+      <div className="flex gap-3 pt-4">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            fullWidth
+          >
+            Annuler
+          </Button>
+        )}
+
+        <Button
+          type="submit"
+          isLoading={isSubmitting}
+          fullWidth
+        >
+          {isEditMode ? 'Mettre à jour' : 'Créer'}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,183 @@
+/**
+ * AccountJournal - Solde et journal des mouvements d'un compte
+ * Features:
+ * - Entrées / sorties / solde
+ * - Journal : transactions (partie payée), paiements, virements
+ * - Solde après chaque mouvement
+ * - Annulation d'un virement
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { AccountMovement, TreasuryAccount } from '../../types/treasury';
+import { useAccountBalances, useAccountJournal, useTransfers, useTreasuryAccounts } from '../../hooks/useTreasury';
+import { usePartners } from '../../hooks/usePartner';
+import { getTransferLabel } from '../../utils/treasury';
+import { Alert } from '../Alert';
+import { Badge } from '../Badge';
+import { Button } from '../Buttons';
+import { Modal, ModalFooter } from '../Modal';
+import { ListSkeleton } from '../Loading';
+import { X } from 'lucide-react';
+
+interface AccountJournalProps {
+  account: TreasuryAccount;
+}
+
+export const AccountJournal: React.FC<AccountJournalProps> = ({ account }) => {
+  const { movements, loading } = useAccountJournal(account.id);
+  const { balances } = useAccountBalances(true);
+  const { accounts } = useTreasuryAccounts(true);
+  const { partners } = usePartners();
+  const { deleteTransfer, error } = useTransfers();
+  const [cancellingTransferId, setCancellingTransferId] = useState<number | null>(null);
+
+  const summary = balances.find(b => b.account.id === account.id);
+  const accountNames = new Map(accounts.map(a => [a.id!, a.name]));
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  const getPartnerName = (partnerId: number) =>
+    partners.find(p => p.id === partnerId)?.name ?? 'Inconnu';
+
+  const getLabel = (movement: AccountMovement): React.ReactNode => {
+    if (movement.transaction) {
+      const tx = movement.transaction;
+      return (
+        <Link to={`/transactions/${tx.id}`} className="hover:underline">
+          {tx.direction === 'SALE' ? 'Vente' : 'Achat'} — {getPartnerName(tx.partnerId)}
+        </Link>
+      );
+    }
+    if (movement.payment) {
+      const payment = movement.payment;
+      return `${payment.direction === 'IN' ? 'Paiement reçu' : 'Paiement versé'} — ${getPartnerName(payment.partnerId)}`;
+    }
+    if (movement.closing) {
+      return movement.amount > 0 ? 'Écart de caisse (excédent)' : 'Écart de caisse (manquant)';
+    }
+    return getTransferLabel(movement.transfer!, account.id!, accountNames);
+  };
+
+  const handleCancelTransfer = async () => {
+    if (cancellingTransferId === null) return;
+    try {
+      await deleteTransfer(cancellingTransferId);
+    } catch (err) {
+      console.error('Transfer delete error:', err);
+    } finally {
+      setCancellingTransferId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Solde */}
+      <div className="text-center">
+        <p className="text-sm text-gray-600">Solde actuel</p>
+        <p className={`text-3xl font-bold font-mono ${(summary?.balance ?? 0) < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+          {summary ? formatCurrency(summary.balance) : '...'}
+        </p>
+        {summary && (
+          <div className="flex justify-center gap-4 text-xs text-gray-600 mt-2">
+            <span>Départ : {formatCurrency(account.openingBalance)}</span>
+            <span className="text-green-600">Entrées : {formatCurrency(summary.inflows)}</span>
+            <span className="text-red-600">Sorties : {formatCurrency(summary.outflows)}</span>
+          </div>
+        )}
+      </div>
+
+      {error && <Alert variant="danger">{error}</Alert>}
+
+      {/* Journal */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Mouvements</h3>
+
+        {loading ? (
+          <ListSkeleton count={3} />
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            Aucun mouvement. Les paiements et virements de ce compte apparaîtront ici.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+            {movements.map((movement) => (
+              <div
+                key={`${movement.kind}-${movement.transaction?.id ?? movement.payment?.id ?? movement.transfer?.id ?? movement.closing?.id}`}
+                className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      size="sm"
+                      variant={movement.kind === 'TRANSFER' ? 'info' : movement.kind === 'CLOSING' ? 'warning' : movement.amount >= 0 ? 'success' : 'danger'}
+                    >
+                      {movement.kind === 'TRANSFER' ? 'Virement' : movement.kind === 'CLOSING' ? 'Clôture' : movement.amount >= 0 ? 'Entrée' : 'Sortie'}
+                    </Badge>
+                    <span className="text-sm text-gray-600">{formatDate(movement.date)}</span>
+                  </div>
+                  <p className="text-sm text-gray-900 truncate mt-0.5">{getLabel(movement)}</p>
+                  {(movement.payment?.note || movement.transfer?.note) && (
+                    <p className="text-xs text-gray-500 truncate">
+                      {movement.payment?.note ?? movement.transfer?.note}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <div className="text-right">
+                    <p className={`font-mono font-semibold ${movement.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {movement.amount >= 0 ? '+' : ''}{formatCurrency(movement.amount)}
+                    </p>
+                    <p className="text-xs font-mono text-gray-500">{formatCurrency(movement.balance)}</p>
+                  </div>
+                  {movement.transfer && (
+                    <button
+                      onClick={() => setCancellingTransferId(movement.transfer!.id!)}
+                      className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                      aria-label="Annuler le virement"
+                    >
+                      <X size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Confirmation annulation virement */}
+      <Modal
+        isOpen={cancellingTransferId !== null}
+        onClose={() => setCancellingTransferId(null)}
+        title="Annuler le virement"
+        size="sm"
+      >
+        <Alert variant="warning">
+          Le virement sera supprimé des deux comptes.
+        </Alert>
+
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setCancellingTransferId(null)}>
+            Retour
+          </Button>
+          <Button variant="danger" onClick={handleCancelTransfer}>
+            Annuler le virement
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+/**
+ * AccountSelect - Choix du compte de trésorerie (caisse, mobile money, banque)
+ * Utilisé par PaymentForm, TransactionForm et TransferForm
+ * Affiche le solde de chaque compte actif
+ */
+
+import React from 'react';
+import { useAccountBalances } from '../../hooks/useTreasury';
+import { Select } from '../Input';
+
+interface AccountSelectProps {
+  label?: string;
+  value: number | undefined;
+  onChange: (accountId: number) => void;
+  error?: string;
+  helperText?: string;
+  disabled?: boolean;
+  excludeAccountId?: number; // Compte source d'un virement
+}
+
+export const AccountSelect: React.FC<AccountSelectProps> = ({
+  label = 'Compte *',
+  value,
+  onChange,
+  error,
+  helperText,
+  disabled,
+  excludeAccountId
+}) => {
+  const { balances } = useAccountBalances();
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const options = [
+    { value: '', label: '-- Sélectionner --' },
+    ...balances
+      .filter(b => b.account.id !== excludeAccountId)
+      .map(b => ({
+        value: String(b.account.id),
+        label: `${b.account.name} (${formatCurrency(b.balance)})`
+      }))
+  ];
+
+  return (
+    <Select
+      label={label}
+      value={value !== undefined ? String(value) : ''}
+      onChange={(e) => e.target.value && onChange(Number(e.target.value))}
+      options={options}
+      error={error}
+      helperText={helperText}
+      disabled={disabled}
+    />
+  );
+};
@@ -0,0 +1,163 @@
+/**
+ * TransferForm - Virement entre deux comptes de trésorerie
+ * Ex: dépôt de la caisse en banque, retrait Orange Money vers la caisse
+ */
+
+import React, { useState } from 'react';
+import { useAccountBalances, useTransfers } from '../../hooks/useTreasury';
+import { Input, Textarea } from '../Input';
+import { Button } from '../Buttons';
+import { Alert } from '../Alert';
+import { AccountSelect } from './AccountSelect';
+import { Calendar } from 'lucide-react';
+
+interface TransferFormProps {
+  defaultFromAccountId?: number;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export const TransferForm: React.FC<TransferFormProps> = ({
+  defaultFromAccountId,
+  onSuccess,
+  onCancel
+}) => {
+  const { createTransfer, error: hookError } = useTransfers();
+  const { balances } = useAccountBalances();
+
+  const [fromAccountId, setFromAccountId] = useState<number | undefined>(defaultFromAccountId);
+  const [toAccountId, setToAccountId] = useState<number | undefined>();
+  const [amount, setAmount] = useState(0);
+  const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
+  const [note, setNote] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fromBalance = balances.find(b => b.account.id === fromAccountId)?.balance;
+  const insufficient = fromBalance !== undefined && amount > fromBalance;
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(value) + ' F';
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (!fromAccountId) newErrors.from = 'Choisissez le compte source';
+    if (!toAccountId) newErrors.to = 'Choisissez le compte destination';
+    if (fromAccountId && fromAccountId === toAccountId) newErrors.to = 'Choisissez un autre compte';
+    if (amount <= 0) newErrors.amount = 'Le montant doit être positif';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await createTransfer({
+        fromAccountId: fromAccountId!,
+        toAccountId: toAccountId!,
+        amount,
+        date: new Date(date).getTime(),
+        note
+      });
+      onSuccess?.();
+    } catch (error) {
+      console.error('Transfer error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {hookError && <Alert variant="danger">{hookError}</Alert>}
+
+      <AccountSelect
+        label="Depuis *"
+        value={fromAccountId}
+        onChange={(id) => {
+          setFromAccountId(id);
+          if (id === toAccountId) setToAccountId(undefined);
+        }}
+        error={errors.from}
+        disabled={isSubmitting}
+      />
+
+      <AccountSelect
+        label="Vers *"
+        value={toAccountId}
+        onChange={setToAccountId}
+        excludeAccountId={fromAccountId}
+        error={errors.to}
+        disabled={isSubmitting}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          type="number"
+          label="Montant *"
+          placeholder="0"
+          value={amount || ''}
+          onChange={(e) => setAmount(Number(e.target.value))}
+          min="0"
+          error={errors.amount}
+          className="font-mono"
+          disabled={isSubmitting}
+        />
+        <Input
+          type="date"
+          label="Date *"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          max={new Date().toISOString().slice(0, 10)}
+          leftIcon={<Calendar size={18} />}
+          disabled={isSubmitting}
+        />
+      </div>
+
+      {insufficient && (
+        <Alert variant="warning">
+          Le compte source n'a que {formatCurrency(fromBalance)} : son solde deviendra négatif.
+        </Alert>
+      )}
+
+      <Textarea
+        label="Note"
+        placeholder="Ex: dépôt à la banque"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        disabled={isSubmitting}
+      />
+
+      <div className="flex gap-3 pt-4">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            fullWidth
+          >
+            Annuler
+          </Button>
+        )}
+
+        <Button
+          type="submit"
+          isLoading={isSubmitting}
+          fullWidth
+        >
+          Enregistrer le virement
+        </Button>
+      </div>
+    </form>
+  );
+};
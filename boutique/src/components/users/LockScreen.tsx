@@ -0,0 +1,134 @@
+/**
+ * LockScreen - Écran de verrouillage
+ * Features:
+ * - Choix du profil (présélectionné s'il n'y en a qu'un)
+ * - Saisie du code PIN (clavier numérique)
+ * - Blocage temporaire après plusieurs codes erronés (attente restante affichée)
+ * - Affiché au démarrage, après inactivité et à la déconnexion
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '../../hooks/useSession';
+import { useBusinessSettings } from '../../hooks/useSettings';
+import { formatPinLockout, getPinLockoutRemaining, ROLE_LABELS } from '../../utils/users';
+import { Input } from '../Input';
+import { Button } from '../Buttons';
+import { Alert } from '../Alert';
+import { Lock, User } from 'lucide-react';
+
+export const LockScreen: React.FC = () => {
+  const { users, unlock, error } = useSession();
+  const { settings } = useBusinessSettings();
+
+  const [selectedId, setSelectedId] = useState<number | undefined>();
+  const [pin, setPin] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const userId = selectedId ?? (users.length === 1 ? users[0].id : undefined);
+  const selectedUser = users.find(u => u.id === userId);
+
+  // Attente restante du profil bloqué, rafraîchie chaque seconde
+  const [now, setNow] = useState(() => Date.now());
+  const lockedUntil = selectedUser?.pinLockedUntil ?? 0;
+  const lockoutRemaining = selectedUser ? getPinLockoutRemaining(selectedUser, now) : 0;
+
+  useEffect(() => {
+    if (lockedUntil <= Date.now()) return;
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) clearInterval(timer);
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const handleSelect = (id: number) => {
+    setSelectedId(id);
+    setPin('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (userId === undefined || !pin || lockoutRemaining > 0) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await unlock(userId, pin);
+    } catch (err) {
+      console.error('Unlock error:', err);
+      setPin('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm space-y-6">
+        <div className="text-center">
+          <div className="inline-flex p-3 bg-blue-50 text-blue-600 rounded-full mb-3">
+            <Lock size={28} />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">{settings.businessName}</h1>
+          <p className="text-sm text-gray-500">Choisissez votre profil et saisissez votre code PIN</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {users.map(user => (
+            <button
+              key={user.id}
+              type="button"
+              onClick={() => handleSelect(user.id!)}
+              className={`flex items-center gap-2 p-3 rounded-lg border text-left transition-colors ${
+                user.id === userId
+                  ? 'border-blue-600 bg-blue-50'
+                  : 'border-gray-200 bg-white hover:bg-gray-50'
+              }`}
+            >
+              <User size={18} className="text-gray-400 shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{user.name}</p>
+                <p className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {selectedUser && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {lockoutRemaining > 0 ? (
+              <Alert variant="warning" title="Trop de codes erronés">
+                Réessayez dans {formatPinLockout(lockoutRemaining)}
+              </Alert>
+            ) : error && <Alert variant="danger">{error}</Alert>}
+
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              label={`Code PIN de ${selectedUser.name}`}
+              placeholder="••••"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              className="text-center text-2xl tracking-widest font-mono"
+              autoFocus
+              disabled={isSubmitting || lockoutRemaining > 0}
+            />
+
+            <Button
+              type="submit"
+              fullWidth
+              isLoading={isSubmitting}
+              disabled={pin.length < 4 || lockoutRemaining > 0}
+            >
+              Déverrouiller
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
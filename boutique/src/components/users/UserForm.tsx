@@ -0,0 +1,151 @@
+/**
+ * UserForm - Création et édition d'un profil
+ * Features:
+ * - Nom unique, rôle (propriétaire / caissier)
+ * - Code PIN 4 à 6 chiffres avec confirmation (facultatif en édition)
+ * - Premier profil : rôle propriétaire imposé
+ */
+
+import React, { useState } from 'react';
+import type { UserProfile, UserRole } from '../../types/users';
+import { useUsers } from '../../hooks/useSession';
+import { isValidPin, ROLE_LABELS } from '../../utils/users';
+import { Input, Select } from '../Input';
+import { Button } from '../Buttons';
+import { Alert } from '../Alert';
+import { User, KeyRound } from 'lucide-react';
+
+interface UserFormProps {
+  user?: UserProfile;        // Si défini, mode édition
+  isFirst?: boolean;         // Premier profil (propriétaire)
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export const UserForm: React.FC<UserFormProps> = ({
+  user,
+  isFirst = false,
+  onSuccess,
+  onCancel
+}) => {
+  const { createUser, updateUser, error: hookError } = useUsers();
+  const isEditMode = !!user;
+
+  const [name, setName] = useState(user?.name ?? '');
+  const [role, setRole] = useState<UserRole>(user?.role ?? (isFirst ? 'OWNER' : 'CASHIER'));
+  const [pin, setPin] = useState('');
+  const [pinConfirm, setPinConfirm] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (!name.trim()) newErrors.name = 'Le nom est requis';
+    if ((!isEditMode || pin) && !isValidPin(pin)) newErrors.pin = '4 à 6 chiffres';
+    if (pin !== pinConfirm) newErrors.pinConfirm = 'Les deux codes ne correspondent pas';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+
+    try {
+      if (isEditMode && user) {
+        await updateUser(user.id!, { name, role, pin: pin || undefined });
+      } else {
+        await createUser({ name, role, pin });
+      }
+      onSuccess?.();
+    } catch (error) {
+      console.error('User form error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const roleOptions = (Object.keys(ROLE_LABELS) as UserRole[]).map(value => ({
+    value,
+    label: ROLE_LABELS[value]
+  }));
+
+  const pinProps = {
+    type: 'password',
+    inputMode: 'numeric' as const,
+    autoComplete: 'new-password',
+    placeholder: '••••',
+    className: 'font-mono tracking-widest',
+    disabled: isSubmitting
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {hookError && <Alert variant="danger">{hookError}</Alert>}
+
+      <Input
+        label="Nom *"
+        placeholder="Ex: Awa, Moussa"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        error={errors.name}
+        leftIcon={<User size={18} />}
+        disabled={isSubmitting}
+        autoFocus
+      />
+
+      <Select
+        label="Rôle"
+        value={role}
+        onChange={(e) => setRole(e.target.value as UserRole)}
+        options={roleOptions}
+        disabled={isSubmitting || isFirst}
+        helperText={role === 'OWNER'
+          ? 'Tous les droits : suppressions, modification des paiements, effacement, profils'
+          : 'Saisie des ventes, achats et paiements ; modification le jour même uniquement'}
+      />
+
+      <Input
+        {...pinProps}
+        label={isEditMode ? 'Nouveau code PIN (laisser vide pour conserver)' : 'Code PIN *'}
+        value={pin}
+        onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+        error={errors.pin}
+        leftIcon={<KeyRound size={18} />}
+      />
+
+      <Input
+        {...pinProps}
+        label="Confirmer le code PIN"
+        value={pinConfirm}
+        onChange={(e) => setPinConfirm(e.target.value.replace(/\D/g, '').slice(0, 6))}
+        error={errors.pinConfirm}
+        leftIcon={<KeyRound size={18} />}
+      />
+
+      <div className="flex gap-3 pt-4">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            fullWidth
+          >
+            Annuler
+          </Button>
+        )}
+
+        <Button
+          type="submit"
+          isLoading={isSubmitting}
+          fullWidth
+        >
+          {isEditMode ? 'Enregistrer' : 'Créer le profil'}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -2,20 +2,129 @@
  * Database configuration avec Dexie.js
  * Storage: IndexedDB (offline-first)
  * Constraints: Unique [name+type] pour partners
+ * Audit: toute création / modification / suppression de partner, transaction
+ *        ou paiement est tracée dans la table audit (ajout uniquement)
+ * Profils: table users (propre à l'appareil), l'auteur des transactions
+ *          et paiements est inscrit dans createdBy
+ * Synchronisation: chaque écriture locale sur une table partagée (SYNC_TABLES)
+ *          est inscrite dans syncChanges, à envoyer au serveur (voir utils/sync)
+ * Soldes: table balances (une ligne par partner) tenue à jour dans la transaction même
+ *          de chaque écriture de transaction ou de paiement (voir utils/balanceDelta), recalculable
+ *          depuis les données (voir verifyBalances dans utils/balance)
  */
 
 import Dexie from 'dexie';
-import type { Table } from 'dexie';
+import type { DBCoreMutateRequest, DBCoreTable, DBCoreTransaction, Table, Transaction as DexieTransaction } from 'dexie';
 import type { Partner } from '../types/partners';
 import type { Transaction } from '../types/transaction';
 import type { Payment } from '../types/payments';
 import type { Setting } from '../types/settings';
+import type { Product } from '../types/products';
+import type { StockMovement } from '../types/stock';
+import type { TreasuryAccount, Transfer } from '../types/treasury';
+import type { CashClosing } from '../types/closing';
+import type { AuditEntry, AuditTable } from '../types/audit';
+import type { UserProfile } from '../types/users';
+import type { SyncChange, SyncOperation, SyncRecord, SyncTable } from '../types/sync';
+import type { BalanceDelta, BalanceRecord } from '../types/balances';
+import { inferPaymentDirection } from '../utils/paymentDirection';
+import { getSnapshotChanges, getUpdateChanges } from '../utils/audit';
+import { createDeviceId, createStamp, SYNC_DEVICE_KEY } from '../utils/syncClock';
+import { addPaymentDeltas, addTransactionDeltas, computeBalances, isEmptyDelta } from '../utils/balanceDelta';
+
+/**
+ * Comptes de trésorerie créés à l'installation (et à la migration version 6)
+ * Le premier (Caisse) reçoit les paiements enregistrés avant les comptes
+ */
+export const DEFAULT_TREASURY_ACCOUNTS: Array<Omit<TreasuryAccount, 'id' | 'createdAt'>> = [
+  { name: 'Caisse', type: 'CASH', openingBalance: 0 },
+  { name: 'Orange Money', type: 'MOBILE_MONEY', openingBalance: 0 },
+  { name: 'Wave', type: 'MOBILE_MONEY', openingBalance: 0 },
+  { name: 'Banque', type: 'BANK', openingBalance: 0 }
+];
+
+/**
+ * Auteur par défaut (aucun profil ouvert)
+ */
+export const DEFAULT_AUDIT_ACTOR = 'Propriétaire';
+
+/**
+ * Auteur des modifications reçues d'un autre appareil
+ */
+export const SYNC_AUDIT_ACTOR = 'Synchronisation';
+
+/**
+ * Valeurs avant écriture des enregistrements touchés par une requête DBCore (par clé)
+ * Promesses Dexie (pas d'async natif) : la zone de la transaction doit être conservée
+ */
+function getExistingRecords(table: DBCoreTable, req: DBCoreMutateRequest): Promise<Map<unknown, object>> {
+  const primaryKey = table.schema.primaryKey;
+
+  if (req.type === 'deleteRange') {
+    return table
+      .query({ trans: req.trans, values: true, query: { index: primaryKey, range: req.range } })
+      .then(({ result }) => new Map(result.map((value: object) => [primaryKey.extractKey!(value), value])));
+  }
+  if (req.type === 'add') return Dexie.Promise.resolve(new Map());
+
+  const keys = (req.keys ?? []).filter(key => key != null);
+  return table
+    .getMany({ trans: req.trans, keys, cache: 'immutable' })
+    .then((values: (object | undefined)[]) => new Map(
+      keys.flatMap((key, i) => values[i] ? [[key, values[i]] as [unknown, object]] : [])
+    ));
+}
+
+/**
+ * Écriture d'un enregistrement vue sous les hooks (before absent = création, after absent = suppression)
+ */
+interface RecordWrite<T> {
+  key: number;
+  before?: T;
+  after?: T;
+}
 
 class BoutiqueDB extends Dexie {
   partners!: Table<Partner, number>;
   transactions!: Table<Transaction, number>;
   payments!: Table<Payment, number>;
   settings!: Table<Setting>;
+  products!: Table<Product, number>;
+  stockMovements!: Table<StockMovement, number>;
+  accounts!: Table<TreasuryAccount, number>;
+  transfers!: Table<Transfer, number>;
+  closings!: Table<CashClosing, number>;
+  audit!: Table<AuditEntry, number>;
+  users!: Table<UserProfile, number>;
+  syncRecords!: Table<SyncRecord>;
+  syncChanges!: Table<SyncChange, number>;
+  balances!: Table<BalanceRecord, number>;
+
+  /**
+   * Auteur inscrit dans le journal d'audit et dans createdBy
+   * (nom du profil ouvert, voir utils/session)
+   */
+  auditActor = DEFAULT_AUDIT_ACTOR;
+
+  /**
+   * Transactions appliquant des modifications reçues du serveur :
+   * leurs écritures ne sont pas renvoyées (voir markSyncTransaction)
+   */
+  private syncTransactions = new WeakSet<DexieTransaction>();
+
+  /**
+   * Écritures du journal de synchronisation, l'une après l'autre
+   * (création puis modification d'un même enregistrement → un seul syncId)
+   */
+  private syncQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Modifications accumulées par transaction Dexie, dans l'ordre des écritures
+   * (les écouteurs 'complete' sont appelés dans l'ordre inverse de leur inscription)
+   */
+  private syncWrites = new WeakMap<DexieTransaction, { table: SyncTable; localId: number; op: SyncOperation }[]>();
+
+  private syncDeviceId?: Promise<string>;
 
   constructor() {
     super('boutiqueDB');
@@ -46,11 +155,238 @@ class BoutiqueDB extends Dexie {
       payments: '++id, partnerId, transactionId, date, [partnerId+date]',
       settings: 'key, updatedAt' // pour settings
     });
+
+    this.version(3).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date]',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date]',
+      settings: 'key, updatedAt',
+
+      // Products: catalogue, nom unique + index multi-valué sur les alias
+      products: '++id, &name, *aliases'
+    });
+
+    this.version(4).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date]',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date]',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+
+      // Stock: journal des mouvements par produit / transaction d'origine
+      stockMovements: '++id, productId, transactionId, date, [productId+date]'
+    }).upgrade(async (trans) => {
+      // Reprise : mouvements des articles déjà liés au catalogue (version 3)
+      const transactions: Transaction[] = await trans.table('transactions').toArray();
+      const movements: StockMovement[] = [];
+
+      transactions.forEach(tx => {
+        (tx.items ?? []).forEach(item => {
+          if (item.productId == null || !(item.qty > 0)) return;
+          movements.push({
+            productId: item.productId,
+            type: tx.direction === 'PURCHASE' ? 'IN' : 'OUT',
+            quantity: tx.direction === 'PURCHASE' ? item.qty : -item.qty,
+            date: tx.date,
+            transactionId: tx.id,
+            createdAt: Date.now()
+          });
+        });
+      });
+
+      await trans.table('stockMovements').bulkAdd(movements);
+    });
+
+    this.version(5).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date]',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date]',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]'
+    }).upgrade(async (trans) => {
+      // Reprise : sens explicite des paiements (auparavant déduit du signe du solde)
+      const transactions: Transaction[] = await trans.table('transactions').toArray();
+      const partners: Partner[] = await trans.table('partners').toArray();
+      const partnerTypes = new Map(partners.map(p => [p.id!, p.type]));
+
+      await trans.table('payments').toCollection().modify((payment: Payment) => {
+        payment.direction ??= inferPaymentDirection(
+          payment,
+          transactions,
+          partnerTypes.get(payment.partnerId)
+        );
+      });
+    });
+
+    this.version(6).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+
+      // Trésorerie: comptes (caisse, mobile money, banque) et virements internes
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date'
+    }).upgrade(async (trans) => {
+      // Reprise : comptes par défaut, l'existant est rattaché à la Caisse
+      const now = Date.now();
+      const ids = await trans.table('accounts').bulkAdd(
+        DEFAULT_TREASURY_ACCOUNTS.map(account => ({ ...account, createdAt: now })),
+        { allKeys: true }
+      );
+      const cashId = ids[0] as number;
+
+      await trans.table('payments').toCollection().modify((payment: Payment) => {
+        payment.accountId ??= cashId;
+      });
+      await trans.table('transactions')
+        .filter((tx: Transaction) => tx.paid > 0)
+        .modify((tx: Transaction) => {
+          tx.accountId ??= cashId;
+        });
+    });
+
+    this.version(7).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date',
+
+      // Clôtures de caisse: une par compte et par jour
+      closings: '++id, &[accountId+date], accountId, date'
+    });
+
+    this.version(8).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date',
+      closings: '++id, &[accountId+date], accountId, date',
+
+      // Journal d'audit: historique par enregistrement + chronologique
+      audit: '++id, [table+recordId], table, date'
+    });
+
+    this.version(9).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+
+      // Avoirs: retrouvés depuis la transaction d'origine
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId, reversalOf',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date',
+      closings: '++id, &[accountId+date], accountId, date',
+      audit: '++id, [table+recordId], table, date'
+    });
+
+    this.version(10).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId, reversalOf',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date',
+      closings: '++id, &[accountId+date], accountId, date',
+      audit: '++id, [table+recordId], table, date',
+
+      // Profils: nom unique, propriétaires retrouvés par rôle
+      users: '++id, &name, role'
+    });
+
+    this.version(11).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId, reversalOf',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date',
+      closings: '++id, &[accountId+date], accountId, date',
+      audit: '++id, [table+recordId], table, date',
+      users: '++id, &name, role',
+
+      // Synchronisation: identité partagée des enregistrements + modifications à envoyer
+      syncRecords: '[table+syncId], [table+localId]',
+      syncChanges: '++seq, &[table+syncId]'
+    });
+
+    this.version(12).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId, reversalOf',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date',
+      closings: '++id, &[accountId+date], accountId, date',
+      audit: '++id, [table+recordId], table, date',
+      users: '++id, &name, role',
+      syncRecords: '[table+syncId], [table+localId]',
+      syncChanges: '++seq, &[table+syncId]',
+
+      // Soldes matérialisés: un par partner, classés par montant (créances / dettes)
+      balances: 'partnerId, balance'
+    }).upgrade(async (trans) => {
+      // Reprise : soldes calculés depuis l'existant
+      const transactions: Transaction[] = await trans.table('transactions').toArray();
+      const payments: Payment[] = await trans.table('payments').toArray();
+      const now = Date.now();
+
+      await trans.table('balances').bulkPut(
+        [...computeBalances(transactions, payments)]
+          .map(([partnerId, delta]) => ({ partnerId, ...delta, updatedAt: now }))
+      );
+    });
+
+    this.version(13).stores({
+      partners: '++id, &[name+type], type, phone, createdAt',
+      // Échéances: transactions en retard lues par index (dueDate absent = non indexé)
+      transactions: '++id, partnerId, date, direction, [partnerId+date], accountId, reversalOf, dueDate',
+      payments: '++id, partnerId, transactionId, date, [partnerId+date], accountId',
+      settings: 'key, updatedAt',
+      products: '++id, &name, *aliases',
+      stockMovements: '++id, productId, transactionId, date, [productId+date]',
+      accounts: '++id, &name, type',
+      transfers: '++id, fromAccountId, toAccountId, date',
+      closings: '++id, &[accountId+date], accountId, date',
+      audit: '++id, [table+recordId], table, date',
+      users: '++id, &name, role',
+      syncRecords: '[table+syncId], [table+localId]',
+      syncChanges: '++seq, &[table+syncId]',
+      balances: 'partnerId, balance'
+    });
+
+    // Nouvelle installation : comptes par défaut
+    this.on('populate', async (trans) => {
+      const now = Date.now();
+      await trans.table('accounts').bulkAdd(
+        DEFAULT_TREASURY_ACCOUNTS.map(account => ({ ...account, createdAt: now }))
+      );
+    });
     // Hooks pour timestamps automatiques
     // Exemple pour partners (idem pour transactions/payments)
     this.partners.hook('creating', (_primKey, obj) => {
     // obj est l'entité en cours de création : on force le typing partiel
-    (obj as Partial<Partner>).createdAt = Date.now();
+    // createdAt déjà renseigné (import de sauvegarde) : on le conserve
+    (obj as Partial<Partner>).createdAt ??= Date.now();
     // pas besoin de return pour 'creating'
     });
 
@@ -62,7 +398,8 @@ class BoutiqueDB extends Dexie {
     });
 
     this.transactions.hook('creating', (_primKey, obj) => {
-      (obj as Partial<Transaction>).createdAt = Date.now();
+      (obj as Partial<Transaction>).createdAt ??= Date.now();
+      (obj as Partial<Transaction>).createdBy ??= this.auditActor;
     });
 
     this.transactions.hook('updating', (mods: any, _primKey, _obj) => {
@@ -71,8 +408,284 @@ class BoutiqueDB extends Dexie {
     });
 
     this.payments.hook('creating', (_primKey, obj) => {
-      (obj as Partial<Payment>).createdAt = Date.now();
+      (obj as Partial<Payment>).createdAt ??= Date.now();
+      (obj as Partial<Payment>).createdBy ??= this.auditActor;
+    });
+
+    this.products.hook('creating', (_primKey, obj) => {
+      (obj as Partial<Product>).createdAt ??= Date.now();
+    });
+
+    this.products.hook('updating', (mods) => ({ ...mods, updatedAt: Date.now() }));
+
+    this.stockMovements.hook('creating', (_primKey, obj) => {
+      (obj as Partial<StockMovement>).createdAt ??= Date.now();
+    });
+
+    this.accounts.hook('creating', (_primKey, obj) => {
+      (obj as Partial<TreasuryAccount>).createdAt ??= Date.now();
+    });
+
+    this.accounts.hook('updating', (mods) => ({ ...mods, updatedAt: Date.now() }));
+
+    this.transfers.hook('creating', (_primKey, obj) => {
+      (obj as Partial<Transfer>).createdAt ??= Date.now();
+    });
+
+    this.closings.hook('creating', (_primKey, obj) => {
+      (obj as Partial<CashClosing>).createdAt ??= Date.now();
+    });
+
+    this.users.hook('creating', (_primKey, obj) => {
+      (obj as Partial<UserProfile>).createdAt ??= Date.now();
+    });
+
+    this.users.hook('updating', (mods) => ({ ...mods, updatedAt: Date.now() }));
+
+    // Journal d'audit
+    this.registerDerivedWrites('AuditMiddleware', 'audit', ['partners', 'transactions', 'payments'], this.writeAudit);
+
+    // Soldes matérialisés
+    this.registerDerivedWrites('BalancesMiddleware', 'balances', ['transactions', 'payments'], this.writeBalances);
+
+    // Journal de synchronisation
+    this.registerSyncHooks(this.accounts, 'accounts');
+    this.registerSyncHooks(this.products, 'products');
+    this.registerSyncHooks(this.partners, 'partners');
+    this.registerSyncHooks(this.transactions, 'transactions');
+    this.registerSyncHooks(this.payments, 'payments');
+    this.registerSyncHooks(this.stockMovements, 'stockMovements');
+    this.registerSyncHooks(this.transfers, 'transfers');
+    this.registerSyncHooks(this.closings, 'closings');
+  }
+
+  /**
+   * Trace création / modification / suppression dans le journal d'audit
+   * (écrit dans la même transaction : une écriture annulée ne laisse aucune trace)
+   */
+  private writeAudit(
+    trans: DBCoreTransaction,
+    audit: DBCoreTable,
+    source: string,
+    writes: RecordWrite<object>[]
+  ): Promise<void> {
+    const table = source as AuditTable;
+    const actor = this.syncTransactions.has(Dexie.currentTransaction) ? SYNC_AUDIT_ACTOR : this.auditActor;
+    const date = Date.now();
+
+    const entries: AuditEntry[] = writes.flatMap(({ key, before, after }): AuditEntry[] => {
+      if (!before) {
+        return [{ table, recordId: key, action: 'CREATE', changes: getSnapshotChanges(after!, 'after'), actor, date }];
+      }
+      if (!after) {
+        return [{ table, recordId: key, action: 'DELETE', changes: getSnapshotChanges(before, 'before'), actor, date }];
+      }
+      const changes = getUpdateChanges(before, after);
+      return changes.length > 0 ? [{ table, recordId: key, action: 'UPDATE', changes, actor, date }] : [];
+    });
+
+    if (entries.length === 0) return Dexie.Promise.resolve();
+    return audit.mutate({ type: 'add', trans, values: entries }).then(() => undefined);
+  }
+
+  /**
+   * Tient une table dérivée (balances, audit) à jour dans la transaction même qui modifie
+   * les tables sources : validée ou annulée avec elle, jamais en retard sur les données
+   * Middleware placé sous les hooks (clés et valeurs définitives) ; toute transaction en
+   * écriture sur une table source inclut la table dérivée
+   */
+  private registerDerivedWrites(
+    name: string,
+    store: string,
+    sources: string[],
+    write: (trans: DBCoreTransaction, target: DBCoreTable, source: string, writes: RecordWrite<object>[]) => Promise<void>
+  ): void {
+    this.use({
+      stack: 'dbcore',
+      name,
+      level: 1,
+      create: (down) => ({
+        ...down,
+        transaction: (stores, mode, options) => down.transaction(
+          mode === 'readwrite' && stores.some(s => sources.includes(s)) && !stores.includes(store)
+            ? [...stores, store]
+            : stores,
+          mode,
+          options
+        ),
+        table: (tableName) => {
+          const table = down.table(tableName);
+          if (!sources.includes(tableName)) return table;
+
+          return {
+            ...table,
+            mutate: (req) => {
+              // Migration antérieure à la création de la table dérivée : rien à tenir à jour
+              if (!(req.trans as unknown as IDBTransaction).objectStoreNames.contains(store)) {
+                return table.mutate(req);
+              }
+
+              // Promesses Dexie (pas d'async natif) : la zone de la transaction doit être conservée
+              return getExistingRecords(table, req).then(before => table.mutate(req).then(response => {
+                const writes: RecordWrite<object>[] = [];
+                if (req.type === 'add' || req.type === 'put') {
+                  req.values.forEach((value, i) => {
+                    if (response.failures[i]) return;
+                    const key = response.results?.[i] ?? req.keys?.[i];
+                    writes.push({ key, before: before.get(key), after: value });
+                  });
+                } else {
+                  before.forEach((record, key) => writes.push({ key: key as number, before: record }));
+                }
+
+                return write.call(this, req.trans, down.table(store), tableName, writes).then(() => response);
+              }));
+            }
+          };
+        }
+      })
+    });
+  }
+
+  /**
+   * Ajoute les variations d'écritures de transactions / paiements aux soldes
+   * (ligne supprimée quand elle revient à zéro)
+   */
+  private writeBalances(
+    trans: DBCoreTransaction,
+    balances: DBCoreTable,
+    source: string,
+    writes: RecordWrite<object>[]
+  ): Promise<void> {
+    const deltas = new Map<number, BalanceDelta>();
+    writes.forEach(({ before, after }) => {
+      if (source === 'transactions') {
+        addTransactionDeltas(deltas, before as Transaction | undefined, after as Transaction | undefined);
+      } else {
+        addPaymentDeltas(deltas, before as Payment | undefined, after as Payment | undefined);
+      }
+    });
+
+    const changes = [...deltas].filter(([, delta]) => !isEmptyDelta(delta));
+    if (changes.length === 0) return Dexie.Promise.resolve();
+
+    return balances
+      .getMany({ trans, keys: changes.map(([partnerId]) => partnerId) })
+      .then((current: (BalanceRecord | undefined)[]) => {
+        const now = Date.now();
+        const updated: BalanceRecord[] = changes.map(([partnerId, delta], i) => ({
+          partnerId,
+          balance: (current[i]?.balance ?? 0) + delta.balance,
+          transactionCount: (current[i]?.transactionCount ?? 0) + delta.transactionCount,
+          updatedAt: now
+        }));
+
+        const kept = updated.filter(record => !isEmptyDelta(record));
+        const emptied = updated.filter(isEmptyDelta).map(record => record.partnerId);
+        return (kept.length > 0 ? balances.mutate({ type: 'put', trans, values: kept }) : Dexie.Promise.resolve())
+          .then(() => emptied.length > 0 ? balances.mutate({ type: 'delete', trans, keys: emptied }) : undefined)
+          .then(() => undefined);
+      });
+  }
+
+  /**
+   * Inscrit création / modification / suppression d'une table partagée
+   * dans le journal de synchronisation
+   */
+  private registerSyncHooks<T extends object>(table: Table<T, number>, name: SyncTable): void {
+    const writeSyncChange = this.writeSyncChange.bind(this);
+
+    table.hook('creating', function (_primKey, _obj, trans) {
+      this.onsuccess = (localId) => writeSyncChange(trans, name, localId, 'PUT');
+    });
+
+    table.hook('updating', (_mods, localId, _obj, trans) => {
+      writeSyncChange(trans, name, localId, 'PUT');
+    });
+
+    table.hook('deleting', (localId, _obj, trans) => {
+      writeSyncChange(trans, name, localId, 'DELETE');
+    });
+  }
+
+  /**
+   * Enregistre la modification une fois la transaction validée
+   * (sauf modification reçue du serveur)
+   */
+  private writeSyncChange(trans: DexieTransaction, table: SyncTable, localId: number, op: SyncOperation): void {
+    if (this.syncTransactions.has(trans)) return;
+
+    let writes = this.syncWrites.get(trans);
+    if (!writes) {
+      const pending: { table: SyncTable; localId: number; op: SyncOperation }[] = [];
+      this.syncWrites.set(trans, pending);
+      writes = pending;
+
+      trans.on('complete', () => {
+        pending.forEach(write => {
+          this.syncQueue = this.syncQueue
+            .then(() => Dexie.ignoreTransaction(() => this.logSyncChange(write.table, write.localId, write.op)))
+            .catch(err => {
+              console.error('Sync log error:', err);
+            });
+        });
+      });
+    }
+    writes.push({ table, localId, op });
+  }
+
+  /**
+   * Nouvelle version de l'enregistrement : identité partagée (syncId) + modification à envoyer
+   * Une modification encore en attente pour le même enregistrement est remplacée
+   */
+  private async logSyncChange(table: SyncTable, localId: number, op: SyncOperation): Promise<void> {
+    const deviceId = await this.getSyncDeviceId();
+
+    await this.transaction('rw', this.syncRecords, this.syncChanges, async () => {
+      const record = await this.syncRecords.where('[table+localId]').equals([table, localId]).first();
+      if (!record && op === 'DELETE') return;  // Jamais partagé : rien à propager
+
+      // Id local réattribué après suppression (restauration complète) : autre enregistrement,
+      // l'ancien garde sa suppression sans correspondance locale
+      const reused = record?.deleted && op === 'PUT';
+      if (reused) {
+        const tombstone = { ...record };
+        delete tombstone.localId;
+        await this.syncRecords.put(tombstone);
+      }
+
+      const syncId = record && !reused ? record.syncId : crypto.randomUUID();
+      const stamp = createStamp(deviceId, reused ? undefined : record?.stamp);
+
+      await this.syncRecords.put({ table, syncId, localId, stamp, ...(op === 'DELETE' && { deleted: true }) });
+      await this.syncChanges.where('[table+syncId]').equals([table, syncId]).delete();
+      await this.syncChanges.add({ table, syncId, op, stamp });
+    });
+  }
+
+  /**
+   * Les écritures de cette transaction viennent du serveur : ne pas les renvoyer
+   */
+  markSyncTransaction(trans: DexieTransaction): void {
+    this.syncTransactions.add(trans);
+  }
+
+  /**
+   * Identifiant de l'appareil (créé au premier appel)
+   */
+  getSyncDeviceId(): Promise<string> {
+    this.syncDeviceId ??= Dexie.ignoreTransaction(async () => {
+      const existing = await this.settings.get(SYNC_DEVICE_KEY);
+      if (typeof existing?.value === 'string') return existing.value;
+
+      const deviceId = createDeviceId();
+      await this.settings.put({ key: SYNC_DEVICE_KEY, value: deviceId, updatedAt: Date.now() });
+      return deviceId;
+    }).catch(err => {
+      this.syncDeviceId = undefined;
+      throw err;
     });
+    return this.syncDeviceId;
   }
 
   /**
@@ -101,12 +714,18 @@ class BoutiqueDB extends Dexie {
 
   /**
    * Efface toutes les données (reset complet)
+   * Le journal d'audit et les profils sont conservés : les suppressions y sont tracées
+   * (et envoyées aux autres appareils si la synchronisation est active)
+   * Réservé au propriétaire : passer par useBackup().resetData
    */
   async clearAll(): Promise<void> {
     await Promise.all([
       this.partners.clear(),
       this.transactions.clear(),
-      this.payments.clear()
+      this.payments.clear(),
+      this.stockMovements.clear(),
+      this.transfers.clear(),
+      this.closings.clear()
     ]);
   }
 }
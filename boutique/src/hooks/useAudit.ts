@@ -0,0 +1,55 @@
+/**
+ * Hooks pour le journal d'audit (lecture seule)
+ * Historique d'un enregistrement, journal chronologique filtrable
+ */
+
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { AuditAction, AuditEntry, AuditTable } from '../types/audit';
+
+/**
+ * Historique d'un partner / transaction / paiement (plus récent d'abord)
+ */
+export function useAuditHistory(table: AuditTable, recordId: number | undefined) {
+  const entries = useLiveQuery(async () => {
+    if (recordId === undefined) return [];
+    const results = await db.audit
+      .where('[table+recordId]')
+      .equals([table, recordId])
+      .sortBy('date');
+    return results.reverse();
+  }, [table, recordId]);
+
+  return {
+    entries: entries ?? ([] as AuditEntry[]),
+    loading: entries === undefined
+  };
+}
+
+interface AuditLogFilters {
+  table?: AuditTable;
+  action?: AuditAction;
+  limit?: number;
+}
+
+/**
+ * Dernières entrées du journal, toutes tables confondues
+ */
+export function useAuditLog(filters?: AuditLogFilters) {
+  const { table, action, limit = 200 } = filters ?? {};
+
+  const entries = useLiveQuery(() =>
+    db.audit
+      .orderBy('date')
+      .reverse()
+      .filter(e => (!table || e.table === table) && (!action || e.action === action))
+      .limit(limit)
+      .toArray(),
+    [table, action, limit]
+  );
+
+  return {
+    entries: entries ?? ([] as AuditEntry[]),
+    loading: entries === undefined
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Hook pour la sauvegarde / restauration de la base
+ * Export JSON complet (chiffré ou non) + import (remplacement ou fusion), effacement des données
+ * Remplacement et effacement : réservés au propriétaire
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { BackupData, EncryptedBackup, ImportMode, ImportSummary } from '../types/backupData';
+import { exportDatabase, downloadBackup, downloadEncryptedBackup, readBackupFile, openEncryptedBackup, importBackup } from '../utils/backup';
+import { assertPermission } from '../utils/session';
+
+interface UseBackupReturn {
+  isProcessing: boolean;
+  error: string | null;
+  exportBackup: (passphrase?: string) => Promise<void>;
+  loadBackup: (file: File) => Promise<BackupData | EncryptedBackup>;
+  unlockBackup: (envelope: EncryptedBackup, passphrase: string) => Promise<BackupData>;
+  restoreBackup: (data: BackupData, mode: ImportMode) => Promise<ImportSummary>;
+  resetData: () => Promise<void>;
+}
+
+/**
+ * Hook principal pour l'export / import
+ */
+export function useBackup(): UseBackupReturn {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Exporte toute la base et télécharge le fichier (chiffré si une phrase secrète est fournie)
+   */
+  const exportBackup = useCallback(async (passphrase?: string): Promise<void> => {
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      const data = await exportDatabase();
+      if (passphrase) {
+        await downloadEncryptedBackup(data, passphrase);
+      } else {
+        downloadBackup(data);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'export';
+      setError(message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  /**
+   * Lit et valide un fichier (sans rien écrire en base)
+   */
+  const loadBackup = useCallback(async (file: File): Promise<BackupData | EncryptedBackup> => {
+    setError(null);
+
+    try {
+      return await readBackupFile(file);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Fichier invalide';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Déchiffre une sauvegarde chiffrée (phrase secrète)
+   */
+  const unlockBackup = useCallback(async (
+    envelope: EncryptedBackup,
+    passphrase: string
+  ): Promise<BackupData> => {
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      return await openEncryptedBackup(envelope, passphrase);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Déchiffrement impossible';
+      setError(message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  /**
+   * Importe une sauvegarde déjà validée
+   */
+  const restoreBackup = useCallback(async (
+    data: BackupData,
+    mode: ImportMode
+  ): Promise<ImportSummary> => {
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      if (mode === 'replace') assertPermission('RESET_DATA');
+      return await importBackup(data, mode);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'import';
+      setError(message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  /**
+   * Efface partners, transactions, paiements, stock, virements et clôtures
+   * (catalogue, comptes, paramètres et profils conservés)
+   */
+  const resetData = useCallback(async (): Promise<void> => {
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      assertPermission('RESET_DATA');
+      await db.clearAll();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'effacement';
+      setError(message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  return {
+    isProcessing,
+    error,
+    exportBackup,
+    loadBackup,
+    unlockBackup,
+    restoreBackup,
+    resetData
+  };
+}
+
+/**
+ * Hook pour le nombre d'enregistrements par table (aperçu avant export)
+ */
+export function useDatabaseCounts() {
+  const counts = useLiveQuery(async () => {
+    const [partners, transactions, payments] = await Promise.all([
+      db.partners.count(),
+      db.transactions.count(),
+      db.payments.count()
+    ]);
+
+    return { partners, transactions, payments };
+  });
+
+  return counts ?? { partners: 0, transactions: 0, payments: 0 };
+}
@@ -0,0 +1,58 @@
+/**
+ * Hook pour la vérification des soldes matérialisés (table balances)
+ * Vérification : comparaison avec un recalcul complet, sans rien écrire
+ * Reconstruction : table réécrite depuis les transactions et paiements
+ */
+
+import { useState, useCallback } from 'react';
+import type { BalanceCheckResult } from '../types/balances';
+import { verifyBalances } from '../utils/balance';
+
+interface UseBalanceCheckReturn {
+  isProcessing: boolean;
+  error: string | null;
+  result: BalanceCheckResult | null;
+  verify: () => Promise<BalanceCheckResult>;
+  rebuild: () => Promise<BalanceCheckResult>;
+}
+
+export function useBalanceCheck(): UseBalanceCheckReturn {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<BalanceCheckResult | null>(null);
+
+  const run = useCallback(async (repair: boolean): Promise<BalanceCheckResult> => {
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      const checkResult = await verifyBalances(repair);
+      setResult(checkResult);
+      return checkResult;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de vérification des soldes';
+      setError(message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  /**
+   * Compare les soldes enregistrés à un recalcul complet
+   */
+  const verify = useCallback(() => run(false), [run]);
+
+  /**
+   * Recalcule et réécrit tous les soldes
+   */
+  const rebuild = useCallback(() => run(true), [run]);
+
+  return {
+    isProcessing,
+    error,
+    result,
+    verify,
+    rebuild
+  };
+}
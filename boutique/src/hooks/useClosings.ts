@@ -0,0 +1,138 @@
+/**
+ * Hooks pour la clôture de caisse journalière
+ * Aperçu du théorique, enregistrement du comptage, historique, réouverture
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { CashClosing } from '../types/closing';
+import { getClosingPreview, getDayStart } from '../utils/closing';
+import { assertPermission } from '../utils/session';
+
+interface UseClosingsReturn {
+  closings: CashClosing[];
+  loading: boolean;
+  error: string | null;
+  createClosing: (accountId: number, date: number, counted: number, note?: string) => Promise<number>;
+  deleteClosing: (id: number) => Promise<void>;
+}
+
+/**
+ * Historique des clôtures (plus récentes d'abord) + clôture / réouverture
+ */
+export function useClosings(accountId?: number): UseClosingsReturn {
+  const [error, setError] = useState<string | null>(null);
+
+  const closings = useLiveQuery(async () => {
+    const results = accountId !== undefined
+      ? await db.closings.where('accountId').equals(accountId).sortBy('date')
+      : await db.closings.orderBy('date').toArray();
+    return results.reverse();
+  }, [accountId]);
+
+  /**
+   * Clôture une journée : fige les chiffres calculés et le montant compté
+   */
+  const createClosing = useCallback(async (
+    closingAccountId: number,
+    date: number,
+    counted: number,
+    note?: string
+  ): Promise<number> => {
+    setError(null);
+
+    try {
+      if (!Number.isFinite(counted) || counted < 0) {
+        throw new Error('Le montant compté doit être positif');
+      }
+
+      const dayStart = getDayStart(date);
+      if (dayStart > getDayStart(Date.now())) {
+        throw new Error('Impossible de clôturer une journée future');
+      }
+
+      return await db.transaction('rw', [db.closings, db.accounts, db.transactions, db.payments, db.transfers], async () => {
+        const latest = await db.closings
+          .where('accountId')
+          .equals(closingAccountId)
+          .sortBy('date')
+          .then(results => results[results.length - 1]);
+
+        if (latest?.date === dayStart) {
+          throw new Error('Cette journée est déjà clôturée pour ce compte');
+        }
+        if (latest && latest.date > dayStart) {
+          throw new Error('Une clôture plus récente existe déjà pour ce compte');
+        }
+
+        const preview = await getClosingPreview(closingAccountId, dayStart);
+
+        return db.closings.add({
+          ...preview,
+          counted,
+          difference: counted - preview.expected,
+          note: note?.trim() || undefined,
+          createdAt: Date.now()
+        });
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de clôture';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Rouvre une journée (dernière clôture du compte uniquement)
+   */
+  const deleteClosing = useCallback(async (id: number): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('DELETE');
+      const closing = await db.closings.get(id);
+      if (!closing) {
+        throw new Error('Clôture introuvable');
+      }
+
+      const later = await db.closings
+        .where('accountId')
+        .equals(closing.accountId)
+        .filter(c => c.date > closing.date)
+        .count();
+      if (later > 0) {
+        throw new Error('Seule la dernière clôture du compte peut être annulée');
+      }
+
+      await db.closings.delete(id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de suppression';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    closings: closings ?? [],
+    loading: closings === undefined,
+    error,
+    createClosing,
+    deleteClosing
+  };
+}
+
+/**
+ * Chiffres théoriques d'une journée pour un compte (avant comptage)
+ */
+export function useClosingPreview(accountId: number | undefined, date: number) {
+  const preview = useLiveQuery(
+    () => accountId !== undefined ? getClosingPreview(accountId, date) : null,
+    [accountId, date]
+  );
+
+  return {
+    preview: preview ?? null,
+    loading: preview === undefined
+  };
+}
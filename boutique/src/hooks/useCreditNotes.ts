@@ -0,0 +1,91 @@
+/**
+ * Hook pour les avoirs (contre-passation) d'une transaction
+ * Liste, reste annulable, création d'un avoir total ou partiel
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { Transaction, TransactionItem } from '../types/transaction';
+import { syncTransactionStock } from '../utils/stock';
+import { assertActiveAccount } from '../utils/treasury';
+import { assertDayOpen } from '../utils/closing';
+import { assertValidCreditNote, getCreditableState, getCreditNotes, getReversedDirection } from '../utils/creditNote';
+
+export interface CreditNoteInput {
+  date: number;
+  total: number;            // Montant annulé
+  refunded: number;         // Remboursé immédiatement (0 = imputé sur le reste dû)
+  accountId?: number;       // Compte du remboursement
+  items?: TransactionItem[]; // Articles repris (retour marchandise)
+  note?: string;            // Motif
+}
+
+/**
+ * Avoirs d'une transaction + création
+ */
+export function useCreditNotes(transaction: Transaction | undefined) {
+  const [error, setError] = useState<string | null>(null);
+
+  const creditNotes = useLiveQuery(
+    () => transaction?.id !== undefined ? getCreditNotes(transaction.id) : [],
+    [transaction?.id]
+  );
+
+  const state = transaction && creditNotes ? getCreditableState(transaction, creditNotes) : null;
+
+  /**
+   * Crée un avoir : transaction de sens inverse liée à l'originale
+   */
+  const createCreditNote = useCallback(async (
+    original: Transaction,
+    input: CreditNoteInput
+  ): Promise<number> => {
+    setError(null);
+
+    try {
+      if (input.refunded < 0 || input.refunded > input.total) {
+        throw new Error('Le remboursement doit être compris entre 0 et le montant de l\'avoir');
+      }
+      if (input.date < original.date) {
+        throw new Error('L\'avoir ne peut pas être antérieur à la transaction d\'origine');
+      }
+
+      await assertDayOpen(input.date);
+      await assertValidCreditNote(original, input.total, input.items);
+      if (input.refunded > 0) {
+        await assertActiveAccount(input.accountId);
+      }
+
+      const creditNote: Omit<Transaction, 'id' | 'createdAt'> = {
+        partnerId: original.partnerId,
+        date: input.date,
+        direction: getReversedDirection(original.direction),
+        total: input.total,
+        paid: input.refunded,
+        accountId: input.refunded > 0 ? input.accountId : undefined,
+        items: input.items?.length ? input.items : undefined,
+        reversalOf: original.id,
+        note: input.note?.trim() || undefined
+      };
+
+      return await db.transaction('rw', db.transactions, db.stockMovements, async () => {
+        const id = await db.transactions.add({ ...creditNote, createdAt: Date.now() });
+        await syncTransactionStock(id, creditNote);
+        return id;
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de création de l\'avoir';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    creditNotes: creditNotes ?? [],
+    state,
+    loading: creditNotes === undefined,
+    error,
+    createCreditNote
+  };
+}
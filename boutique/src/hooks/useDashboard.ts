@@ -1,12 +1,17 @@
 /**
  * Hook pour les statistiques du Dashboard
- * Vue d'ensemble: créances, dettes, transactions récentes
+ * Vue d'ensemble: créances, dettes, transactions récentes, graphiques
+ * Soldes lus dans la table balances (voir utils/balance)
  */
 
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/db';
-import { getGlobalSummary, getAllBalances } from '../utils/balance';
+import { getAllBalances, summarizeBalances } from '../utils/balance';
+import { getReceivablesAging } from '../utils/aging';
+import { getOverdueTransactions } from '../utils/dueDates';
+import { getActivitySeries, getBalanceHistory } from '../utils/dashboardCharts';
 import type { PartnerBalance } from '../types/balances';
+import type { ChartPeriod } from '../types/dashboard';
 
 interface DashboardStats {
   // Finances
@@ -33,9 +38,9 @@ interface DashboardStats {
  */
 export function useDashboard() {
   const stats = useLiveQuery(async (): Promise<DashboardStats> => {
-    // Calculs globaux
-    const summary = await getGlobalSummary();
+    // Calculs globaux (table balances, lue une seule fois)
     const balances = await getAllBalances();
+    const summary = summarizeBalances(balances);
 
     // Total paiements
     const totalPayments = await db.payments.count();
@@ -145,19 +150,42 @@ export function useRecentPayments(limit: number = 10) {
   };
 }
 
+export interface DashboardAlert {
+  type: 'warning' | 'danger';
+  message: string;
+  partnerId: number;
+  partnerName: string;
+  amount: number;
+  transactionId?: number;  // Alerte d'échéance : transaction concernée
+}
+
+// Retard au-delà duquel une échéance passe en alerte rouge
+const OVERDUE_DANGER_DAYS = 30;
+
 /**
  * Hook pour alertes (créances échues, dettes importantes)
+ * Échéances dépassées en premier, puis seuils de solde
  */
 export function useDashboardAlerts() {
   const alerts = useLiveQuery(async () => {
     const balances = await getAllBalances();
-    const alertList: Array<{
-      type: 'warning' | 'danger';
-      message: string;
-      partnerId: number;
-      partnerName: string;
-      amount: number;
-    }> = [];
+    const alertList: DashboardAlert[] = [];
+
+    // Échéances dépassées (une alerte par transaction)
+    const overdue = await getOverdueTransactions();
+    overdue.forEach(({ transaction, partner, remaining, daysOverdue }) => {
+      const isSale = transaction.direction === 'SALE';
+      alertList.push({
+        type: daysOverdue > OVERDUE_DANGER_DAYS ? 'danger' : 'warning',
+        message: isSale
+          ? `${partner.name} : paiement en retard de ${daysOverdue} jour${daysOverdue > 1 ? 's' : ''}`
+          : `À payer à ${partner.name} : en retard de ${daysOverdue} jour${daysOverdue > 1 ? 's' : ''}`,
+        partnerId: partner.id!,
+        partnerName: partner.name,
+        amount: remaining,
+        transactionId: transaction.id
+      });
+    });
 
     // Seuils configurables
     const HIGH_DEBT_THRESHOLD = 2000000; // 100k
@@ -194,4 +222,40 @@ export function useDashboardAlerts() {
     alerts: alerts ?? [],
     loading: alerts === undefined
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Hook pour l'ancienneté des créances clients
+ */
+export function useReceivablesAging() {
+  const report = useLiveQuery(() => getReceivablesAging(), []);
+
+  return {
+    report,
+    loading: report === undefined
+  };
+}
+
+/**
+ * Hook pour le graphique d'activité (ventes / achats, encaissements / crédit)
+ */
+export function useActivityChart(period: ChartPeriod) {
+  const points = useLiveQuery(() => getActivitySeries(period), [period]);
+
+  return {
+    points: points ?? [],
+    loading: points === undefined
+  };
+}
+
+/**
+ * Hook pour l'évolution des créances et dettes totales
+ */
+export function useBalanceHistory(period: ChartPeriod) {
+  const points = useLiveQuery(() => getBalanceHistory(period), [period]);
+
+  return {
+    points: points ?? [],
+    loading: points === undefined
+  };
+}
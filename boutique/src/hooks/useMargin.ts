@@ -0,0 +1,16 @@
+/**
+ * Hook pour le rapport de marge brute (coût moyen pondéré, cf. utils/margin)
+ */
+
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getMarginReport } from '../utils/margin';
+import type { ChartPeriod } from '../types/dashboard';
+
+export function useMarginReport(period: ChartPeriod) {
+  const report = useLiveQuery(() => getMarginReport(period), [period]);
+
+  return {
+    report,
+    loading: report === undefined
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Hook générique de liste paginée (défilement infini)
+ * La requête réactive couvre les pages déjà chargées : une ligne ajoutée,
+ * modifiée ou supprimée apparaît sans recharger la liste
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import type { ListCursor, PageRequest } from '../types/pagination';
+import { getListCursor, PAGE_SIZE } from '../utils/pagination';
+
+interface PaginatedRow {
+  id?: number;
+  partnerId: number;
+  date: number;
+}
+
+interface UsePaginatedQueryReturn<T> {
+  items: T[];
+  loading: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * @param key Identifie les filtres : un changement repart de la première page
+ * @param fetchPage Lecture d'une page (cf. utils/pagination)
+ */
+export function usePaginatedQuery<T extends PaginatedRow>(
+  key: string,
+  fetchPage: (page: PageRequest) => Promise<T[]>,
+  pageSize: number = PAGE_SIZE
+): UsePaginatedQueryReturn<T> {
+  // Dernière ligne chargée, valable pour les filtres en cours uniquement
+  const [loaded, setLoaded] = useState<{ key: string; cursor: ListCursor } | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const cursor = loaded?.key === key ? loaded.cursor : undefined;
+
+  const result = useLiveQuery(async () => {
+    if (cursor) {
+      const [items, next] = await Promise.all([
+        fetchPage({ from: cursor }),
+        fetchPage({ before: cursor, limit: 1 })
+      ]);
+      return { key, cursor, items, hasMore: next.length > 0 };
+    }
+
+    // Première page : une ligne de plus pour savoir s'il en reste
+    const rows = await fetchPage({ limit: pageSize + 1 });
+    return { key, cursor, items: rows.slice(0, pageSize), hasMore: rows.length > pageSize };
+  }, [key, cursor?.date, cursor?.id, pageSize]);
+
+  // Résultat des filtres précédents affiché le temps du rechargement
+  const isCurrent = result?.key === key;
+  const items = result?.items ?? [];
+  const hasMore = isCurrent && result.hasMore;
+  // Page lue mais pas encore dans le résultat réactif
+  const isLoadingMore = isFetching || (cursor !== undefined && result?.cursor !== cursor);
+
+  /**
+   * Charge la page suivante
+   */
+  const loadMore = useCallback(async (): Promise<void> => {
+    const last = result?.items[result.items.length - 1];
+    if (!hasMore || !last || isLoadingMore) return;
+
+    setIsFetching(true);
+    try {
+      const next = await fetchPage({ before: getListCursor(last), limit: pageSize });
+      if (next.length > 0) {
+        setLoaded({ key, cursor: getListCursor(next[next.length - 1]) });
+      }
+    } finally {
+      setIsFetching(false);
+    }
+  }, [result, hasMore, isLoadingMore, fetchPage, key, pageSize]);
+
+  return {
+    items,
+    loading: result === undefined,
+    hasMore,
+    isLoadingMore,
+    loadMore
+  };
+}
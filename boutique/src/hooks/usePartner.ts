@@ -1,12 +1,26 @@
 /**
  * Hook pour la gestion des Partners (Clients/Fournisseurs)
- * CRUD complet + validation + recherche
+ * CRUD complet + validation + recherche + import en masse (CSV, vCard) + fusion
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { db } from '../db/db';
-import type { Partner, PartnerType } from '../types/partners';
+import type {
+  Partner,
+  PartnerType,
+  PartnerColumnMapping,
+  PartnerImportRow,
+  PartnerImportSource,
+  PartnerImportSummary,
+  PartnerMergePreview,
+  PartnerMergeSummary
+} from '../types/partners';
 import { useLiveQuery } from 'dexie-react-hooks';
+import { getPartnerStatement } from '../utils/statement';
+import { assertPermission } from '../utils/session';
+import { importPartnerRows, previewPartnerImport, readPartnerImportFile } from '../utils/partnerImport';
+import { mergePartners as mergePartnerRecords, previewPartnerMerge } from '../utils/partnerMerge';
+import { getPartnerSearchDocument, searchItems } from '../utils/search';
 
 interface UsePartnersOptions {
   type?: PartnerType;
@@ -22,6 +36,7 @@ interface UsePartnersReturn {
   deletePartner: (id: number) => Promise<void>;
   getPartner: (id: number) => Promise<Partner | undefined>;
   partnerExists: (name: string, type: PartnerType, excludeId?: number) => Promise<boolean>;
+  mergePartners: (sourceId: number, targetId: number) => Promise<PartnerMergeSummary>;
 }
 
 /**
@@ -42,13 +57,9 @@ export function usePartners(options: UsePartnersOptions = {}): UsePartnersReturn
 
     let results = await query.sortBy('name');
 
-    // Filtre par recherche (côté client)
+    // Filtre par recherche (côté client, accents et fautes tolérés)
     if (searchQuery && searchQuery.trim()) {
-      const search = searchQuery.toLowerCase();
-      results = results.filter(p => 
-        p.name.toLowerCase().includes(search) ||
-        p.phone?.toLowerCase().includes(search)
-      );
+      results = searchItems(results, searchQuery, getPartnerSearchDocument);
     }
 
     return results;
@@ -134,6 +145,7 @@ export function usePartners(options: UsePartnersOptions = {}): UsePartnersReturn
     setError(null);
 
     try {
+      assertPermission('DELETE');
       // Vérifie qu'il n'a pas de transactions
       const txCount = await db.transactions
         .where('partnerId')
@@ -184,6 +196,26 @@ export function usePartners(options: UsePartnersOptions = {}): UsePartnersReturn
     return db.partnerExists(name, type, excludeId);
   }, []);
 
+  /**
+   * Fusionne deux partners : transactions et paiements de la source passent sur target
+   * (la source, vide, peut ensuite être supprimée avec deletePartner)
+   */
+  const mergePartners = useCallback(async (
+    sourceId: number,
+    targetId: number
+  ): Promise<PartnerMergeSummary> => {
+    setError(null);
+
+    try {
+      assertPermission('MERGE_PARTNERS');
+      return await mergePartnerRecords(sourceId, targetId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de fusion';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
   return {
     partners,
     loading,
@@ -192,7 +224,8 @@ export function usePartners(options: UsePartnersOptions = {}): UsePartnersReturn
     updatePartner,
     deletePartner,
     getPartner,
-    partnerExists
+    partnerExists,
+    mergePartners
   };
 }
 
@@ -208,6 +241,27 @@ export function usePartner(id: number | undefined) {
   return { partner, loading: partner === undefined && id !== undefined };
 }
 
+/**
+ * Hook pour l'aperçu d'une fusion (mis à jour si les données changent)
+ */
+export function usePartnerMergePreview(sourceId: number | undefined, targetId: number | undefined) {
+  const result = useLiveQuery(async (): Promise<{ preview: PartnerMergePreview | null; error: string | null }> => {
+    if (!sourceId || !targetId) return { preview: null, error: null };
+
+    try {
+      return { preview: await previewPartnerMerge(sourceId, targetId), error: null };
+    } catch (err) {
+      return { preview: null, error: err instanceof Error ? err.message : 'Fusion impossible' };
+    }
+  }, [sourceId, targetId]);
+
+  return {
+    preview: result?.preview ?? null,
+    error: result?.error ?? null,
+    loading: result === undefined
+  };
+}
+
 /**
  * Hook pour statistiques partners
  */
@@ -228,4 +282,88 @@ export function usePartnerStats() {
   });
 
   return stats ?? { total: 0, clients: 0, suppliers: 0, both: 0 };
-}
\ No newline at end of file
+}
+
+/**
+ * Hook pour le relevé de compte d'un partner sur une période
+ */
+export function usePartnerStatement(
+  partnerId: number | undefined,
+  startDate: number,
+  endDate: number
+) {
+  const statement = useLiveQuery(
+    () => partnerId ? getPartnerStatement(partnerId, startDate, endDate) : null,
+    [partnerId, startDate, endDate]
+  );
+
+  return { statement: statement ?? null, loading: statement === undefined };
+}
+
+/**
+ * Hook pour l'import de partners (CSV ou vCard) : lecture, aperçu, import
+ */
+export function usePartnerImport() {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Lit le fichier (sans rien écrire en base)
+   */
+  const loadFile = useCallback(async (file: File): Promise<PartnerImportSource> => {
+    setError(null);
+
+    try {
+      return await readPartnerImportFile(file);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Fichier invalide';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Aperçu des lignes (conflits détectés)
+   */
+  const preview = useCallback(async (
+    source: PartnerImportSource,
+    mapping: PartnerColumnMapping,
+    type: PartnerType
+  ): Promise<PartnerImportRow[]> => {
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      return await previewPartnerImport(source, mapping, type);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'analyse du fichier';
+      setError(message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  /**
+   * Importe les lignes selon le choix fait pour chaque conflit
+   */
+  const runImport = useCallback(async (
+    rows: PartnerImportRow[],
+    type: PartnerType
+  ): Promise<PartnerImportSummary> => {
+    setError(null);
+    setIsProcessing(true);
+
+    try {
+      return await importPartnerRows(rows, type);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'import';
+      setError(message);
+      throw err;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  return { isProcessing, error, loadFile, preview, runImport };
+}
@@ -1,23 +1,33 @@
 /**
  * Hook pour la gestion des Payments (paiements partiels)
- * Permet d'enregistrer des paiements indépendants des transactions
+ * Permet d'enregistrer des paiements indépendants des transactions,
+ * affectés aux factures choisies ou aux plus anciennes (cf. utils/allocation)
  */
 
 import { useState, useCallback } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/db';
-import type { Payment } from '../types/payments';
-
-interface UsePaymentsOptions {
-  partnerId?: number;
-  transactionId?: number;
-  startDate?: number;
-  endDate?: number;
+import type { Payment, PaymentAllocation, PaymentDirection, TransactionSettlement } from '../types/payments';
+import { getAllSettlements, getOpenTransactions, getTransactionSettlement } from '../utils/allocation';
+import { getTransactionPaymentDirection } from '../utils/paymentDirection';
+import { assertActiveAccount } from '../utils/treasury';
+import { assertDayOpen } from '../utils/closing';
+import { assertPermission } from '../utils/session';
+import { getDateRangeTotals, getPaymentListQuery, queryPayments } from '../utils/pagination';
+import type { ListTotals, PaymentListFilters } from '../types/pagination';
+import { usePaginatedQuery } from './usePagination';
+
+interface UsePaymentsOptions extends PaymentListFilters {
+  pageSize?: number;
 }
 
 interface UsePaymentsReturn {
-  payments: Payment[];
+  payments: Payment[];              // Pages chargées, plus récents en premier
   loading: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
+  totals: ListTotals | undefined;   // Nombre et montant des paiements filtrés
   error: string | null;
   createPayment: (payment: Omit<Payment, 'id' | 'createdAt'>) => Promise<number>;
   updatePayment: (id: number, updates: Partial<Payment>) => Promise<void>;
@@ -27,41 +37,60 @@ interface UsePaymentsReturn {
 }
 
 /**
- * Hook principal pour gérer les paiements
+ * Vérifie les factures choisies d'un paiement standalone
+ * (même partner, même sens que le paiement)
  */
-export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn {
-  const { partnerId, transactionId, startDate, endDate } = options;
-  const [error, setError] = useState<string | null>(null);
-
-  // Query réactive
-  const payments = useLiveQuery(async () => {
-    let query = db.payments.toCollection();
-
-    // Filtre par partnerId
-    if (partnerId !== undefined) {
-      query = db.payments.where('partnerId').equals(partnerId);
-    }
-
-    // Filtre par transactionId
-    if (transactionId !== undefined) {
-      query = db.payments.where('transactionId').equals(transactionId);
+async function validateAllocations(
+  partnerId: number,
+  amount: number,
+  direction: PaymentDirection,
+  allocations: PaymentAllocation[] = []
+): Promise<void> {
+  const total = allocations.reduce((sum, a) => sum + a.amount, 0);
+  if (total > amount) {
+    throw new Error('Le montant affecté dépasse le montant du paiement');
+  }
+
+  for (const allocation of allocations) {
+    if (allocation.amount <= 0) {
+      throw new Error('Le montant affecté doit être positif');
     }
-
-    let results = await query.sortBy('date');
-    results.reverse(); // Plus récent en premier
-
-    // Filtre dates
-    if (startDate !== undefined) {
-      results = results.filter(p => p.date >= startDate);
+    const tx = await db.transactions.get(allocation.transactionId);
+    if (!tx || tx.partnerId !== partnerId) {
+      throw new Error('Facture choisie introuvable pour ce partner');
     }
-    if (endDate !== undefined) {
-      results = results.filter(p => p.date <= endDate);
+    if (getTransactionPaymentDirection(tx.direction) !== direction) {
+      throw new Error(direction === 'IN'
+        ? 'Un encaissement ne peut régler que des ventes'
+        : 'Un décaissement ne peut régler que des achats');
     }
+  }
+}
 
-    return results;
-  }, [partnerId, transactionId, startDate, endDate]) ?? [];
+/**
+ * Hook principal pour gérer les paiements
+ * Liste paginée par plage d'index (cf. utils/pagination)
+ */
+export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn {
+  const { pageSize, ...filters } = options;
+  const { partnerId, transactionId, startDate, endDate, search } = filters;
+  const [error, setError] = useState<string | null>(null);
 
-  const loading = payments === undefined;
+  // Query réactive, page par page
+  const filtersKey = JSON.stringify([partnerId, transactionId, startDate, endDate, search?.trim()]);
+  const {
+    items: payments,
+    loading,
+    hasMore,
+    isLoadingMore,
+    loadMore
+  } = usePaginatedQuery(filtersKey, page => queryPayments(filters, page), pageSize);
+
+  // Totaux sur tous les paiements filtrés, pas seulement les pages chargées
+  const totals = useLiveQuery(
+    async () => getDateRangeTotals(db.payments, await getPaymentListQuery(filters), p => p.amount),
+    [filtersKey]
+  );
 
   /**
    * Crée un nouveau paiement
@@ -76,6 +105,9 @@ export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn
       if (paymentData.amount <= 0) {
         throw new Error('Le montant doit être positif');
       }
+      if (paymentData.direction !== 'IN' && paymentData.direction !== 'OUT') {
+        throw new Error('Sens du paiement invalide');
+      }
 
       // Vérifie que le partner existe
       const partner = await db.partners.get(paymentData.partnerId);
@@ -83,6 +115,12 @@ export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn
         throw new Error('Partner introuvable');
       }
 
+      // Journée clôturée : plus aucune écriture
+      await assertDayOpen(paymentData.date);
+
+      // Compte de trésorerie obligatoire
+      await assertActiveAccount(paymentData.accountId);
+
       // Si lié à une transaction, vérifie qu'elle existe
       if (paymentData.transactionId) {
         const tx = await db.transactions.get(paymentData.transactionId);
@@ -94,8 +132,20 @@ export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn
         if (tx.partnerId !== paymentData.partnerId) {
           throw new Error('Le partner ne correspond pas à la transaction');
         }
+
+        // Vérifie que le sens correspond (vente encaissée, achat décaissé)
+        if (getTransactionPaymentDirection(tx.direction) !== paymentData.direction) {
+          throw new Error('Le sens du paiement ne correspond pas à la transaction');
+        }
       }
 
+      await validateAllocations(
+        paymentData.partnerId,
+        paymentData.amount,
+        paymentData.direction,
+        paymentData.allocations
+      );
+
       // Création
       const id = await db.payments.add({
         ...paymentData,
@@ -120,16 +170,34 @@ export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn
     setError(null);
 
     try {
+      assertPermission('EDIT_PAYMENT');
       const payment = await db.payments.get(id);
       if (!payment) {
         throw new Error('Paiement introuvable');
       }
+      await assertDayOpen(payment.date, updates.date);
 
       // Validation
       if (updates.amount !== undefined && updates.amount <= 0) {
         throw new Error('Le montant doit être positif');
       }
 
+      if (updates.accountId !== payment.accountId && 'accountId' in updates) {
+        await assertActiveAccount(updates.accountId);
+      }
+
+      const direction = updates.direction ?? payment.direction;
+      if (payment.transactionId && updates.direction && updates.direction !== payment.direction) {
+        throw new Error('Le sens d\'un paiement lié à une transaction ne peut pas changer');
+      }
+
+      await validateAllocations(
+        updates.partnerId ?? payment.partnerId,
+        updates.amount ?? payment.amount,
+        direction,
+        updates.allocations ?? payment.allocations
+      );
+
       await db.payments.update(id, updates);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Erreur de mise à jour';
@@ -145,10 +213,12 @@ export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn
     setError(null);
 
     try {
+      assertPermission('DELETE');
       const payment = await db.payments.get(id);
       if (!payment) {
         throw new Error('Paiement introuvable');
       }
+      await assertDayOpen(payment.date);
 
       await db.payments.delete(id);
     } catch (err) {
@@ -166,15 +236,19 @@ export function usePayments(options: UsePaymentsOptions = {}): UsePaymentsReturn
   }, []);
 
   /**
-   * Calcule le total payé
+   * Calcule le total payé (tous les paiements filtrés)
    */
   const getTotalPaid = useCallback((): number => {
-    return payments.reduce((sum, p) => sum + p.amount, 0);
-  }, [payments]);
+    return totals?.amount ?? 0;
+  }, [totals]);
 
   return {
     payments,
     loading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    totals,
     error,
     createPayment,
     updatePayment,
@@ -243,4 +317,49 @@ export function usePartnerPaymentStats(partnerId: number | undefined) {
   }, [partnerId]);
 
   return stats;
-}
\ No newline at end of file
+}
+
+/**
+ * Hook pour l'état de règlement d'une transaction
+ * (paid + paiements liés + part des paiements standalone affectée)
+ */
+export function useTransactionSettlement(transactionId: number | undefined) {
+  const settlement = useLiveQuery(
+    () => transactionId ? getTransactionSettlement(transactionId) : undefined,
+    [transactionId]
+  );
+
+  return {
+    settlement,
+    loading: settlement === undefined && transactionId !== undefined
+  };
+}
+
+/**
+ * Hook pour les états de règlement de toutes les transactions (listes)
+ * @param partnerIds Partners des lignes affichées (toutes les transactions si absent)
+ */
+export function useSettlements(partnerIds?: number[]) {
+  const partnersKey = partnerIds?.join(',');
+  const settlements = useLiveQuery(() => getAllSettlements(partnerIds), [partnersKey]);
+
+  return {
+    settlements: settlements ?? new Map<number, TransactionSettlement>(),
+    loading: settlements === undefined
+  };
+}
+
+/**
+ * Hook pour les factures ouvertes d'un partner (choix dans PaymentForm)
+ */
+export function useOpenTransactions(partnerId: number | undefined, excludePaymentId?: number) {
+  const openTransactions = useLiveQuery(
+    () => partnerId ? getOpenTransactions(partnerId, excludePaymentId) : [],
+    [partnerId, excludePaymentId]
+  );
+
+  return {
+    openTransactions: openTransactions ?? [],
+    loading: openTransactions === undefined
+  };
+}
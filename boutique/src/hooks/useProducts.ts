@@ -0,0 +1,200 @@
+/**
+ * Hook pour la gestion du catalogue Produits
+ * CRUD + recherche par nom / alias (autocomplete des articles)
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { Product } from '../types/products';
+import type { Direction } from '../types/transaction';
+import { normalizeProductName } from '../utils/products';
+import { assertPermission } from '../utils/session';
+import { getProductSearchDocument, searchItems } from '../utils/search';
+
+interface UseProductsOptions {
+  searchQuery?: string;
+}
+
+interface UseProductsReturn {
+  products: Product[];
+  loading: boolean;
+  error: string | null;
+  createProduct: (product: Omit<Product, 'id' | 'createdAt'>) => Promise<number>;
+  updateProduct: (id: number, updates: Partial<Product>) => Promise<void>;
+  deleteProduct: (id: number) => Promise<void>;
+}
+
+/**
+ * Vrai si le nom (ou un alias) du produit correspond exactement
+ */
+export function productMatchesName(product: Product, name: string): boolean {
+  const target = normalizeProductName(name);
+  return normalizeProductName(product.name) === target
+    || (product.aliases ?? []).some(alias => normalizeProductName(alias) === target);
+}
+
+/**
+ * Prix par défaut selon le sens de la transaction
+ */
+export function getDefaultPrice(product: Product, direction: Direction): number | undefined {
+  return direction === 'SALE' ? product.salePrice : product.purchasePrice;
+}
+
+/**
+ * Cherche un produit par nom exact ou alias
+ */
+export async function findProductByName(name: string): Promise<Product | undefined> {
+  if (!name.trim()) return undefined;
+  const products = await db.products.toArray();
+  return products.find(p => productMatchesName(p, name));
+}
+
+/**
+ * Nettoie les alias : trim, sans doublon, sans répéter le nom
+ */
+function cleanAliases(name: string, aliases: string[] = []): string[] {
+  const seen = new Set<string>([normalizeProductName(name)]);
+  return aliases
+    .map(a => a.trim())
+    .filter(a => {
+      const key = normalizeProductName(a);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Hook principal pour gérer le catalogue
+ */
+export function useProducts(options: UseProductsOptions = {}): UseProductsReturn {
+  const { searchQuery } = options;
+  const [error, setError] = useState<string | null>(null);
+
+  // Query réactive
+  const products = useLiveQuery(async () => {
+    let results = await db.products.orderBy('name').toArray();
+
+    if (searchQuery && searchQuery.trim()) {
+      results = searchItems(results, searchQuery, getProductSearchDocument);
+    }
+
+    return results;
+  }, [searchQuery]) ?? [];
+
+  const loading = products === undefined;
+
+  /**
+   * Crée un produit (nom unique, alias inclus)
+   */
+  const createProduct = useCallback(async (
+    productData: Omit<Product, 'id' | 'createdAt'>
+  ): Promise<number> => {
+    setError(null);
+
+    try {
+      if (!productData.name.trim()) {
+        throw new Error('Le nom du produit est requis');
+      }
+      if ((productData.salePrice ?? 0) < 0 || (productData.purchasePrice ?? 0) < 0) {
+        throw new Error('Les prix ne peuvent pas être négatifs');
+      }
+
+      const existing = await findProductByName(productData.name);
+      if (existing) {
+        throw new Error(`Le produit "${existing.name}" existe déjà`);
+      }
+
+      const id = await db.products.add({
+        ...productData,
+        name: productData.name.trim(),
+        aliases: cleanAliases(productData.name, productData.aliases),
+        createdAt: Date.now()
+      });
+
+      return id;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de création';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Met à jour un produit
+   */
+  const updateProduct = useCallback(async (
+    id: number,
+    updates: Partial<Product>
+  ): Promise<void> => {
+    setError(null);
+
+    try {
+      const product = await db.products.get(id);
+      if (!product) {
+        throw new Error('Produit introuvable');
+      }
+
+      const name = updates.name?.trim() ?? product.name;
+      if (!name) {
+        throw new Error('Le nom du produit est requis');
+      }
+
+      if (normalizeProductName(name) !== normalizeProductName(product.name)) {
+        const existing = await findProductByName(name);
+        if (existing && existing.id !== id) {
+          throw new Error(`Le produit "${existing.name}" existe déjà`);
+        }
+      }
+
+      await db.products.update(id, {
+        ...updates,
+        name,
+        aliases: cleanAliases(name, updates.aliases ?? product.aliases)
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de mise à jour';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Supprime un produit
+   * Refusé s'il a des mouvements de stock (achats, ventes, ajustements)
+   */
+  const deleteProduct = useCallback(async (id: number): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('DELETE');
+      // Vérifie qu'il n'a pas de mouvements de stock
+      const movementCount = await db.stockMovements
+        .where('productId')
+        .equals(id)
+        .count();
+
+      if (movementCount > 0) {
+        throw new Error(
+          'Impossible de supprimer : ce produit a des mouvements de stock'
+        );
+      }
+
+      await db.products.delete(id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de suppression';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    products,
+    loading,
+    error,
+    createProduct,
+    updateProduct,
+    deleteProduct
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Hook pour la recherche globale
+ * Partners (nom, téléphone, note), transactions (partner, numéro, montant, note, articles,
+ * texte OCR), paiements (partner, montant, note) et catalogue (nom, alias)
+ * Actions rapides : « vente Aïssa », « encaisser Moussa »…
+ */
+
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { GlobalSearchResults } from '../types/search';
+import {
+  createSearchIndex,
+  getPartnerSearchDocument,
+  getPaymentSearchDocument,
+  getProductSearchDocument,
+  getTransactionSearchDocument
+} from '../utils/search';
+import { getQuickActions } from '../utils/quickActions';
+
+// Résultats affichés par catégorie
+export const GLOBAL_SEARCH_LIMIT = 10;
+
+const EMPTY_RESULTS: GlobalSearchResults = {
+  actions: [],
+  partners: [],
+  transactions: [],
+  payments: [],
+  products: [],
+  total: 0
+};
+
+/**
+ * Recherche dans toute la base (transactions et paiements : plus récents d'abord à pertinence égale)
+ */
+export async function searchEverything(
+  query: string,
+  limit = GLOBAL_SEARCH_LIMIT
+): Promise<GlobalSearchResults> {
+  if (!query.trim()) return EMPTY_RESULTS;
+
+  const [partners, transactions, payments, products] = await Promise.all([
+    db.partners.orderBy('name').toArray(),
+    db.transactions.orderBy('date').reverse().toArray(),
+    db.payments.orderBy('date').reverse().toArray(),
+    db.products.orderBy('name').toArray()
+  ]);
+
+  const partnerNames = new Map(partners.map(p => [p.id!, p.name]));
+  const partnerTypes = new Map(partners.map(p => [p.id!, p.type]));
+  const getPartnerName = (partnerId: number) => partnerNames.get(partnerId) ?? 'Inconnu';
+
+  const matchedPartners = createSearchIndex(partners, getPartnerSearchDocument).search(query, limit);
+  const matchedTransactions = createSearchIndex(transactions, tx =>
+    getTransactionSearchDocument(tx, partnerNames.get(tx.partnerId))
+  ).search(query, limit);
+  const matchedPayments = createSearchIndex(payments, p =>
+    getPaymentSearchDocument(p, partnerNames.get(p.partnerId))
+  ).search(query, limit);
+  const matchedProducts = createSearchIndex(products, getProductSearchDocument).search(query, limit);
+
+  return {
+    actions: getQuickActions(query, partners),
+    partners: matchedPartners,
+    transactions: matchedTransactions.map(transaction => ({
+      transaction,
+      partnerName: getPartnerName(transaction.partnerId)
+    })),
+    payments: matchedPayments.map(payment => ({
+      payment,
+      partnerName: getPartnerName(payment.partnerId),
+      partnerType: partnerTypes.get(payment.partnerId)
+    })),
+    products: matchedProducts,
+    total: matchedPartners.length + matchedTransactions.length + matchedPayments.length + matchedProducts.length
+  };
+}
+
+/**
+ * Résultats de la recherche globale (mis à jour si les données changent)
+ */
+export function useGlobalSearch(query: string, limit = GLOBAL_SEARCH_LIMIT) {
+  const results = useLiveQuery(() => searchEverything(query, limit), [query, limit]);
+
+  return {
+    results: results ?? EMPTY_RESULTS,
+    loading: results === undefined
+  };
+}
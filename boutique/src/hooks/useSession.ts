@@ -0,0 +1,250 @@
+/**
+ * Hooks pour les profils utilisateurs et la session
+ * Déverrouillage par code PIN, verrouillage (manuel ou après inactivité),
+ * gestion des profils (propriétaire uniquement)
+ */
+
+import { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { UserProfile, UserRole } from '../types/users';
+import { assertPermission, closeSession, getSessionUser, hasPermission, openSession, setProfilesExist, subscribeSession } from '../utils/session';
+import { assertOwnerRemains, attemptPin, createPinSalt, getLockDelay, hashPin, isValidPin, LOCK_DELAY_KEY } from '../utils/users';
+
+export interface UserInput {
+  name: string;
+  role: UserRole;
+  pin: string;
+}
+
+/**
+ * Session en cours : profil ouvert, verrouillage, permissions
+ */
+export function useSession() {
+  const [error, setError] = useState<string | null>(null);
+
+  const user = useSyncExternalStore(subscribeSession, getSessionUser);
+  const users = useLiveQuery(async () => {
+    const list = await db.users.orderBy('name').toArray();
+    // Permissions hors session (tous les droits seulement sans aucun profil),
+    // à jour avant le rendu qui reçoit la liste
+    setProfilesExist(list.length > 0);
+    return list;
+  }, []);
+  const lockDelay = useLiveQuery(() => getLockDelay(), []);
+
+  const hasProfiles = (users?.length ?? 0) > 0;
+
+  /**
+   * Ouvre la session d'un profil si le code PIN est correct
+   */
+  const unlock = useCallback(async (userId: number, pin: string): Promise<void> => {
+    setError(null);
+
+    try {
+      openSession(await attemptPin(userId, pin));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de déverrouillage';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Verrouille l'application (Déconnexion)
+   */
+  const lock = useCallback(() => {
+    setError(null);
+    closeSession();
+  }, []);
+
+  return {
+    user,
+    users: users ?? [],
+    hasProfiles,
+    isLocked: hasProfiles && !user,
+    lockDelay: lockDelay ?? null,
+    loading: users === undefined,
+    error,
+    unlock,
+    lock,
+    can: hasPermission    // Relu à chaque changement de session (re-render)
+  };
+}
+
+/**
+ * Verrouille la session après `minutes` sans interaction
+ * (vérifie aussi au retour au premier plan : minuteries suspendues en arrière-plan)
+ */
+export function useIdleLock(minutes: number | null, enabled: boolean, onLock: () => void) {
+  const lastActivity = useRef(0);
+
+  useEffect(() => {
+    if (!enabled || !minutes) return;
+
+    const delay = minutes * 60_000;
+    const touch = () => { lastActivity.current = Date.now(); };
+    const check = () => {
+      if (Date.now() - lastActivity.current >= delay) onLock();
+    };
+
+    touch();
+    const events = ['pointerdown', 'keydown', 'scroll'] as const;
+    events.forEach(event => window.addEventListener(event, touch, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = setInterval(check, 15_000);
+
+    return () => {
+      events.forEach(event => window.removeEventListener(event, touch));
+      document.removeEventListener('visibilitychange', check);
+      clearInterval(timer);
+    };
+  }, [minutes, enabled, onLock]);
+}
+
+/**
+ * Gestion des profils (propriétaire uniquement, sauf création du premier profil)
+ */
+export function useUsers() {
+  const [error, setError] = useState<string | null>(null);
+
+  const users = useLiveQuery(() => db.users.orderBy('name').toArray(), []);
+
+  /**
+   * Crée un profil (le premier est obligatoirement propriétaire et ouvre la session)
+   */
+  const createUser = useCallback(async (input: UserInput): Promise<number> => {
+    setError(null);
+
+    try {
+      const isFirst = (await db.users.count()) === 0;
+      if (!isFirst) assertPermission('MANAGE_USERS');
+
+      const name = input.name.trim();
+      if (!name) {
+        throw new Error('Le nom du profil est requis');
+      }
+      if (isFirst && input.role !== 'OWNER') {
+        throw new Error('Le premier profil doit être le propriétaire');
+      }
+      if (!isValidPin(input.pin)) {
+        throw new Error('Le code PIN doit comporter 4 à 6 chiffres');
+      }
+      if (await db.users.where('name').equalsIgnoreCase(name).count() > 0) {
+        throw new Error('Un profil porte déjà ce nom');
+      }
+
+      const pinSalt = createPinSalt();
+      const profile: Omit<UserProfile, 'id' | 'createdAt'> = {
+        name,
+        role: input.role,
+        pinSalt,
+        pinHash: await hashPin(input.pin, pinSalt)
+      };
+
+      const id = await db.users.add({ ...profile, createdAt: Date.now() });
+      if (isFirst) {
+        openSession((await db.users.get(id))!);
+      }
+      return id;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de création du profil';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Modifie le nom, le rôle et éventuellement le code PIN d'un profil
+   */
+  const updateUser = useCallback(async (
+    id: number,
+    updates: { name: string; role: UserRole; pin?: string }
+  ): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('MANAGE_USERS');
+
+      const name = updates.name.trim();
+      if (!name) {
+        throw new Error('Le nom du profil est requis');
+      }
+      const sameName = await db.users.where('name').equalsIgnoreCase(name).first();
+      if (sameName && sameName.id !== id) {
+        throw new Error('Un profil porte déjà ce nom');
+      }
+      await assertOwnerRemains(id, updates.role);
+
+      const mods: Partial<UserProfile> = { name, role: updates.role };
+      if (updates.pin) {
+        if (!isValidPin(updates.pin)) {
+          throw new Error('Le code PIN doit comporter 4 à 6 chiffres');
+        }
+        mods.pinSalt = createPinSalt();
+        mods.pinHash = await hashPin(updates.pin, mods.pinSalt);
+        mods.failedPinAttempts = 0;
+        mods.pinLockedUntil = undefined;
+      }
+
+      await db.users.update(id, mods);
+
+      // Profil ouvert : la session suit (nom d'auteur, rôle)
+      if (getSessionUser()?.id === id) {
+        openSession((await db.users.get(id))!);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de mise à jour du profil';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Supprime un profil (jamais le dernier propriétaire)
+   */
+  const deleteUser = useCallback(async (id: number): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('MANAGE_USERS');
+      await assertOwnerRemains(id);
+
+      await db.users.delete(id);
+
+      if (getSessionUser()?.id === id) {
+        closeSession();
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de suppression du profil';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Délai de verrouillage automatique (minutes)
+   */
+  const saveLockDelay = useCallback(async (minutes: number): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('MANAGE_USERS');
+      await db.settings.put({ key: LOCK_DELAY_KEY, value: minutes, updatedAt: Date.now() });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'enregistrement';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    users: users ?? [],
+    loading: users === undefined,
+    error,
+    createUser,
+    updateUser,
+    deleteUser,
+    saveLockDelay
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Hook pour les paramètres de la boutique (table settings)
+ * Nom, téléphone, adresse, devise, logo → utilisés sur les factures
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { BusinessSettings } from '../types/settings';
+
+// Clé de stockage dans la table settings pour chaque champ
+export const BUSINESS_SETTING_KEYS: Record<keyof BusinessSettings, string> = {
+  businessName: 'business_name',
+  businessPhone: 'business_phone',
+  businessAddress: 'business_address',
+  currencyLabel: 'currency_label',
+  businessLogo: 'business_logo'
+};
+
+export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
+  businessName: 'Ma Boutique',
+  businessPhone: '',
+  businessAddress: '',
+  currencyLabel: 'FCFA',
+  businessLogo: ''
+};
+
+const FIELDS = Object.keys(BUSINESS_SETTING_KEYS) as Array<keyof BusinessSettings>;
+
+/**
+ * Lit les paramètres boutique (valeurs par défaut si absents)
+ */
+export async function getBusinessSettings(): Promise<BusinessSettings> {
+  const rows = await db.settings
+    .where('key')
+    .anyOf(FIELDS.map(field => BUSINESS_SETTING_KEYS[field]))
+    .toArray();
+
+  const settings = { ...DEFAULT_BUSINESS_SETTINGS };
+  FIELDS.forEach(field => {
+    const row = rows.find(r => r.key === BUSINESS_SETTING_KEYS[field]);
+    if (typeof row?.value === 'string' && row.value !== '') {
+      settings[field] = row.value;
+    }
+  });
+
+  return settings;
+}
+
+/**
+ * Hook principal : lecture réactive + sauvegarde
+ */
+export function useBusinessSettings() {
+  const [error, setError] = useState<string | null>(null);
+
+  const settings = useLiveQuery(() => getBusinessSettings(), []);
+
+  /**
+   * Enregistre les champs modifiés
+   */
+  const saveSettings = useCallback(async (updates: Partial<BusinessSettings>): Promise<void> => {
+    setError(null);
+
+    try {
+      if (updates.businessName !== undefined && !updates.businessName.trim()) {
+        throw new Error('Le nom de la boutique est requis');
+      }
+      if (updates.currencyLabel !== undefined && !updates.currencyLabel.trim()) {
+        throw new Error('Le libellé de la devise est requis');
+      }
+
+      const now = Date.now();
+      const rows = (Object.entries(updates) as Array<[keyof BusinessSettings, string]>)
+        .map(([field, value]) => ({
+          key: BUSINESS_SETTING_KEYS[field],
+          value: value.trim(),
+          updatedAt: now
+        }));
+
+      await db.settings.bulkPut(rows);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'enregistrement';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    settings: settings ?? DEFAULT_BUSINESS_SETTINGS,
+    loading: settings === undefined,
+    error,
+    saveSettings
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Hooks pour le suivi du stock
+ * Quantités par produit, journal des mouvements, inventaire, alertes
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { StockMovement, StockWarning } from '../types/stock';
+import type { TransactionItem, Direction } from '../types/transaction';
+import { getStockLevels, getProductStock, previewStockWarnings } from '../utils/stock';
+
+/**
+ * Stock actuel de tous les produits (Map productId → quantité)
+ */
+export function useStockLevels() {
+  const levels = useLiveQuery(() => getStockLevels(), []);
+
+  return {
+    levels: levels ?? new Map<number, number>(),
+    loading: levels === undefined
+  };
+}
+
+interface UseStockMovementsReturn {
+  movements: StockMovement[];
+  stock: number;
+  loading: boolean;
+  error: string | null;
+  adjustStock: (countedQty: number, note?: string) => Promise<void>;
+}
+
+/**
+ * Journal des mouvements d'un produit + inventaire
+ */
+export function useStockMovements(productId: number | undefined): UseStockMovementsReturn {
+  const [error, setError] = useState<string | null>(null);
+
+  const movements = useLiveQuery(async () => {
+    if (productId === undefined) return [];
+    const results = await db.stockMovements
+      .where('[productId+date]')
+      .between([productId, -Infinity], [productId, Infinity])
+      .toArray();
+    return results.reverse(); // Plus récent en premier
+  }, [productId]);
+
+  const stock = (movements ?? []).reduce((sum, m) => sum + m.quantity, 0);
+
+  /**
+   * Inventaire : enregistre la quantité comptée
+   * Crée un ajustement égal à l'écart avec le stock calculé
+   */
+  const adjustStock = useCallback(async (countedQty: number, note?: string): Promise<void> => {
+    setError(null);
+
+    try {
+      if (productId === undefined) {
+        throw new Error('Produit introuvable');
+      }
+      if (!Number.isFinite(countedQty) || countedQty < 0) {
+        throw new Error('La quantité comptée doit être positive');
+      }
+
+      const current = await getProductStock(productId);
+      const delta = countedQty - current;
+
+      if (delta === 0) {
+        throw new Error('Le stock est déjà à cette quantité');
+      }
+
+      await db.stockMovements.add({
+        productId,
+        type: 'ADJUSTMENT',
+        quantity: delta,
+        date: Date.now(),
+        note: note?.trim() || undefined,
+        createdAt: Date.now()
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur d\'ajustement';
+      setError(message);
+      throw err;
+    }
+  }, [productId]);
+
+  return {
+    movements: movements ?? [],
+    stock,
+    loading: movements === undefined,
+    error,
+    adjustStock
+  };
+}
+
+/**
+ * Alertes de stock négatif pour une transaction en cours de saisie
+ * @param excludeTransactionId Transaction éditée (ses mouvements sont remplacés)
+ */
+export function useStockWarnings(
+  items: TransactionItem[],
+  direction: Direction,
+  excludeTransactionId?: number
+): StockWarning[] {
+  const warnings = useLiveQuery(
+    () => previewStockWarnings(items, direction, excludeTransactionId),
+    [items, direction, excludeTransactionId]
+  );
+
+  return warnings ?? [];
+}
@@ -0,0 +1,141 @@
+/**
+ * Hooks pour la synchronisation entre appareils
+ * Configuration du serveur (propriétaire), état, synchronisation manuelle
+ * et automatique (démarrage, retour du réseau, modification locale, background sync)
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import type { SyncResult } from '../types/sync';
+import { disableSync, getSyncStatus, saveSyncConfig, syncNow } from '../utils/sync';
+import { assertPermission } from '../utils/session';
+
+const AUTO_SYNC_INTERVAL = 60_000;  // Réception des modifications des autres appareils
+const PUSH_DELAY = 5_000;           // Regroupe les saisies rapprochées avant envoi
+
+/**
+ * État et actions de la synchronisation
+ */
+export function useSync() {
+  const [error, setError] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const status = useLiveQuery(() => getSyncStatus(), []);
+
+  /**
+   * Active la synchronisation (serveur vérifié avant enregistrement)
+   */
+  const saveConfig = useCallback(async (serverUrl: string, shopCode: string): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('MANAGE_SYNC');
+      await saveSyncConfig(serverUrl, shopCode);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de configuration';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Désactive la synchronisation
+   */
+  const disable = useCallback(async (): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('MANAGE_SYNC');
+      await disableSync();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de désactivation';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Synchronise maintenant (envoi puis réception)
+   */
+  const synchronize = useCallback(async (): Promise<SyncResult> => {
+    setError(null);
+    setIsSyncing(true);
+
+    try {
+      return await syncNow();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de synchronisation';
+      setError(message);
+      throw err;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  return {
+    status,
+    loading: status === undefined,
+    error,
+    isSyncing,
+    saveConfig,
+    disable,
+    synchronize
+  };
+}
+
+/**
+ * Synchronisation automatique (à monter une fois, dans App)
+ */
+export function useAutoSync(): void {
+  const status = useLiveQuery(() => getSyncStatus(), []);
+  const enabled = status?.enabled ?? false;
+  const pending = status?.pending ?? 0;
+
+  // Démarrage, retour du réseau, puis périodiquement
+  useEffect(() => {
+    if (!enabled) return;
+
+    const run = () => {
+      if (!navigator.onLine) return;
+      syncNow().catch(err => console.error('Auto sync error:', err));
+    };
+
+    run();
+    const timer = setInterval(run, AUTO_SYNC_INTERVAL);
+    window.addEventListener('online', run);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', run);
+    };
+  }, [enabled]);
+
+  // Modification locale : envoi peu après
+  useEffect(() => {
+    if (!enabled || pending === 0 || !navigator.onLine) return;
+
+    const timer = setTimeout(() => {
+      syncNow().catch(err => console.error('Auto sync error:', err));
+    }, PUSH_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [enabled, pending]);
+
+  // Background sync : le service worker demande à la fenêtre ouverte de synchroniser
+  useEffect(() => {
+    if (!enabled || !('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'SYNC_REQUEST') return;
+      const port = event.ports[0];
+
+      syncNow().then(
+        () => port?.postMessage({ ok: true }),
+        err => port?.postMessage({ ok: false, error: err instanceof Error ? err.message : String(err) })
+      );
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [enabled]);
+}
@@ -1,25 +1,36 @@
 /**
  * Hook pour la gestion des Transactions
- * Logique métier: calcul balances, validation, verrouillage édition
+ * Logique métier: calcul balances, validation, verrouillage édition,
+ * mouvements de stock des articles liés au catalogue
  */
 
 import { useState, useCallback, useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/db';
-import type { Transaction , Direction } from '../types/transaction';
-import type { BalanceSnapshot } from '../types/balances';
-import { getPreviousBalance , calculatePosition } from '../utils/balance';
-
-interface UseTransactionsOptions {
-  partnerId?: number;
-  direction?: Direction;
-  startDate?: number;
-  endDate?: number;
+import type { Transaction } from '../types/transaction';
+import type { TransactionListFilters } from '../types/pagination';
+import type { BalanceRecord, BalanceSnapshot } from '../types/balances';
+import { getPreviousBalance, getStoredBalance, getStoredBalances, calculatePosition } from '../utils/balance';
+import { syncTransactionStock } from '../utils/stock';
+import { getOverdueTransactions } from '../utils/dueDates';
+import { assertActiveAccount } from '../utils/treasury';
+import { assertDayOpen } from '../utils/closing';
+import { isCreditNote } from '../utils/creditNote';
+import { getDateRangeTotals, getTransactionListQuery, queryTransactions } from '../utils/pagination';
+import { usePaginatedQuery } from './usePagination';
+import { assertPermission, canEditTransaction } from '../utils/session';
+
+interface UseTransactionsOptions extends TransactionListFilters {
+  pageSize?: number;
 }
 
 interface UseTransactionsReturn {
-  transactions: Transaction[];
+  transactions: Transaction[];      // Pages chargées, plus récentes en premier
   loading: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
+  total: number | undefined;        // Transactions correspondant aux filtres
   error: string | null;
   createTransaction: (tx: Omit<Transaction, 'id' | 'createdAt'>) => Promise<BalanceSnapshot>;
   updateTransaction: (id: number, updates: Partial<Transaction>) => Promise<void>;
@@ -30,40 +41,28 @@ interface UseTransactionsReturn {
 
 /**
  * Hook principal pour gérer les transactions
+ * Liste paginée par plage d'index (cf. utils/pagination)
  */
 export function useTransactions(options: UseTransactionsOptions = {}): UseTransactionsReturn {
-  const { partnerId, direction, startDate, endDate } = options;
+  const { pageSize, ...filters } = options;
+  const { partnerId, direction, startDate, endDate, search, overdue } = filters;
   const [error, setError] = useState<string | null>(null);
 
-  // Query réactive
-  const transactions = useLiveQuery(async () => {
-    let query = db.transactions.toCollection();
-
-    // Filtre par partnerId
-    if (partnerId !== undefined) {
-      query = db.transactions.where('partnerId').equals(partnerId);
-    }
-
-    let results = await query.sortBy('date');
-    results.reverse(); // Plus récent en premier
-
-    // Filtre direction
-    if (direction) {
-      results = results.filter(tx => tx.direction === direction);
-    }
-
-    // Filtre dates
-    if (startDate !== undefined) {
-      results = results.filter(tx => tx.date >= startDate);
-    }
-    if (endDate !== undefined) {
-      results = results.filter(tx => tx.date <= endDate);
-    }
-
-    return results;
-  }, [partnerId, direction, startDate, endDate]) ?? [];
-
-  const loading = transactions === undefined;
+  // Query réactive, page par page
+  const filtersKey = JSON.stringify([partnerId, direction, startDate, endDate, search?.trim(), overdue]);
+  const {
+    items: transactions,
+    loading,
+    hasMore,
+    isLoadingMore,
+    loadMore
+  } = usePaginatedQuery(filtersKey, page => queryTransactions(filters, page), pageSize);
+
+  // Nombre total, compté à part (les lignes ne sont pas gardées)
+  const totals = useLiveQuery(
+    async () => getDateRangeTotals(db.transactions, await getTransactionListQuery(filters)),
+    [filtersKey]
+  );
 
   /**
    * Crée une nouvelle transaction avec calcul automatique des balances
@@ -85,6 +84,14 @@ export function useTransactions(options: UseTransactionsOptions = {}): UseTransa
       //  throw new Error('Le montant payé ne peut pas dépasser le total');
       //}
 
+      // Journée clôturée : plus aucune écriture
+      await assertDayOpen(txData.date);
+
+      // Compte de trésorerie obligatoire pour la partie payée
+      if (txData.paid > 0) {
+        await assertActiveAccount(txData.accountId);
+      }
+
       // Calcul ancien solde
       const ancien = await getPreviousBalance(txData.partnerId, txData.date);
       
@@ -101,10 +108,14 @@ export function useTransactions(options: UseTransactionsOptions = {}): UseTransa
         throw new Error('Partner introuvable');
       }
 
-      // Création
-      await db.transactions.add({
-        ...txData,
-        createdAt: Date.now()
+      // Création + mouvements de stock
+      await db.transaction('rw', db.transactions, db.stockMovements, async () => {
+        const id = await db.transactions.add({
+          ...txData,
+          accountId: txData.paid > 0 ? txData.accountId : undefined,
+          createdAt: Date.now()
+        });
+        await syncTransactionStock(id, txData);
       });
 
       return {
@@ -137,10 +148,19 @@ export function useTransactions(options: UseTransactionsOptions = {}): UseTransa
         throw new Error('Transaction introuvable');
       }
 
-      // Vérifie le verrouillage (édition même jour uniquement)
-      if (!db.canEditTransaction(tx)) {
+      // Vérifie le verrouillage (édition même jour, sauf propriétaire)
+      if (!canEditTransaction(tx)) {
         throw new Error('Cette transaction ne peut plus être modifiée (jour différent)');
       }
+      await assertDayOpen(tx.date, updates.date);
+
+      // Avoirs : l'originale et ses avoirs restent tels qu'enregistrés
+      if (isCreditNote(tx)) {
+        throw new Error('Un avoir ne peut pas être modifié : supprimez-le et créez-en un nouveau');
+      }
+      if (await db.transactions.where('reversalOf').equals(id).count() > 0) {
+        throw new Error('Cette transaction a des avoirs : elle ne peut plus être modifiée');
+      }
 
       // Validation
       if (updates.total !== undefined && updates.total <= 0) {
@@ -157,9 +177,18 @@ export function useTransactions(options: UseTransactionsOptions = {}): UseTransa
         throw new Error('Le montant payé ne peut pas dépasser le total');
       }
 
-      await db.transactions.update(id, {
-        ...updates,
-        updatedAt: Date.now()
+      const finalAccountId = finalPaid > 0 ? (updates.accountId ?? tx.accountId) : undefined;
+      if (finalPaid > 0 && (finalAccountId === undefined || finalAccountId !== tx.accountId)) {
+        await assertActiveAccount(finalAccountId);
+      }
+
+      await db.transaction('rw', db.transactions, db.stockMovements, async () => {
+        await db.transactions.update(id, {
+          ...updates,
+          accountId: finalAccountId,
+          updatedAt: Date.now()
+        });
+        await syncTransactionStock(id, { ...tx, ...updates });
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Erreur de mise à jour';
@@ -175,15 +204,17 @@ export function useTransactions(options: UseTransactionsOptions = {}): UseTransa
     setError(null);
 
     try {
+      assertPermission('DELETE');
       const tx = await db.transactions.get(id);
       if (!tx) {
         throw new Error('Transaction introuvable');
       }
 
       // Vérifie le verrouillage
-      if (!db.canEditTransaction(tx)) {
+      if (!canEditTransaction(tx)) {
         throw new Error('Cette transaction ne peut plus être supprimée (jour différent)');
       }
+      await assertDayOpen(tx.date);
 
       // Vérifie qu'elle n'a pas de paiements liés
       const paymentCount = await db.payments
@@ -195,7 +226,15 @@ export function useTransactions(options: UseTransactionsOptions = {}): UseTransa
         throw new Error('Supprimez d\'abord les paiements associés');
       }
 
-      await db.transactions.delete(id);
+      // Vérifie qu'elle n'a pas d'avoirs
+      if (await db.transactions.where('reversalOf').equals(id).count() > 0) {
+        throw new Error('Supprimez d\'abord les avoirs de cette transaction');
+      }
+
+      await db.transaction('rw', db.transactions, db.stockMovements, async () => {
+        await db.transactions.delete(id);
+        await syncTransactionStock(id);
+      });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Erreur de suppression';
       setError(message);
@@ -214,12 +253,16 @@ export function useTransactions(options: UseTransactionsOptions = {}): UseTransa
    * Vérifie si une transaction peut être éditée
    */
   const canEdit = useCallback((tx: Transaction): boolean => {
-    return db.canEditTransaction(tx);
+    return canEditTransaction(tx);
   }, []);
 
   return {
     transactions,
     loading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    total: totals?.count,
     error,
     createTransaction,
     updateTransaction,
@@ -239,7 +282,7 @@ export function useTransaction(id: number | undefined) {
   );
 
   const canEdit = useMemo(() => {
-    return transaction ? db.canEditTransaction(transaction) : false;
+    return transaction ? canEditTransaction(transaction) : false;
   }, [transaction]);
 
   return { 
@@ -250,47 +293,49 @@ export function useTransaction(id: number | undefined) {
 }
 
 /**
- * Hook pour calculer la balance d'un partner à une date donnée
+ * Hook pour la balance d'un partner
+ * Solde actuel : table balances (une lecture) ; à une date : recalculé depuis les données
  */
 export function usePartnerBalance(partnerId: number | undefined, beforeDate?: number) {
-  const [balance, setBalance] = useState<number>(0);
-  const [loading, setLoading] = useState(true);
+  const balance = useLiveQuery(
+    () => {
+      if (partnerId === undefined) return 0;
+      return beforeDate === undefined
+        ? getStoredBalance(partnerId)
+        : getPreviousBalance(partnerId, beforeDate);
+    },
+    [partnerId, beforeDate]
+  );
 
-  const date = beforeDate ?? Date.now() + 1000;
+  return { balance: balance ?? 0, loading: balance === undefined };
+}
 
-  // Recalcule quand transactions changent
-  const transactions = useLiveQuery(
-    () => partnerId 
-      ? db.transactions.where('partnerId').equals(partnerId).toArray()
-      : [],
-    [partnerId]
-  );
+/**
+ * Hook pour les soldes de tous les partners (table balances, une seule requête)
+ */
+export function usePartnerBalances() {
+  const records = useLiveQuery(() => getStoredBalances(), []);
 
-  const payments = useLiveQuery(
-    () => partnerId 
-      ? db.payments.where('partnerId').equals(partnerId).toArray()
-      : [],
-    [partnerId]
-  );
+  return {
+    balances: records ?? new Map<number, BalanceRecord>(),
+    loading: records === undefined
+  };
+}
 
-  // Recalcul de la balance
-  useMemo(() => {
-    if (partnerId === undefined) {
-      setBalance(0);
-      setLoading(false);
-      return;
-    }
+/**
+ * Hook pour les transactions en retard de paiement (échéance dépassée)
+ */
+export function useOverdueTransactions() {
+  const overdue = useLiveQuery(() => getOverdueTransactions(), []);
 
-    getPreviousBalance(partnerId, date)
-      .then(b => {
-        setBalance(b);
-        setLoading(false);
-      })
-      .catch(err => {
-        console.error('Balance calculation error:', err);
-        setLoading(false);
-      });
-  }, [partnerId, date, transactions, payments]);
+  const overdueIds = useMemo(
+    () => new Set((overdue ?? []).map(o => o.transaction.id!)),
+    [overdue]
+  );
 
-  return { balance, loading };
-}
\ No newline at end of file
+  return {
+    overdue: overdue ?? [],
+    overdueIds,
+    loading: overdue === undefined
+  };
+}
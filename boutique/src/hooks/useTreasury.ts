@@ -0,0 +1,248 @@
+/**
+ * Hooks pour la trésorerie
+ * Comptes (caisse, mobile money, banque), soldes, journal, virements
+ */
+
+import { useState, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/db';
+import type { AccountBalance, Transfer, TreasuryAccount } from '../types/treasury';
+import { countAccountUsage, getAccountBalances, getAccountJournal } from '../utils/treasury';
+import { assertDayOpen } from '../utils/closing';
+import { assertPermission } from '../utils/session';
+
+interface UseTreasuryAccountsReturn {
+  accounts: TreasuryAccount[];
+  loading: boolean;
+  error: string | null;
+  createAccount: (account: Omit<TreasuryAccount, 'id' | 'createdAt'>) => Promise<number>;
+  updateAccount: (id: number, updates: Partial<TreasuryAccount>) => Promise<void>;
+  deleteAccount: (id: number) => Promise<void>;
+}
+
+/**
+ * Vérifie qu'aucun autre compte ne porte ce nom (casse ignorée)
+ */
+async function assertUniqueAccountName(name: string, excludeId?: number): Promise<void> {
+  const target = name.trim().toLowerCase();
+  const existing = await db.accounts
+    .filter(a => a.name.trim().toLowerCase() === target && a.id !== excludeId)
+    .first();
+
+  if (existing) {
+    throw new Error(`Le compte "${existing.name}" existe déjà`);
+  }
+}
+
+/**
+ * Comptes de trésorerie (CRUD)
+ * @param includeArchived Inclure les comptes archivés (page Trésorerie)
+ */
+export function useTreasuryAccounts(includeArchived = false): UseTreasuryAccountsReturn {
+  const [error, setError] = useState<string | null>(null);
+
+  const accounts = useLiveQuery(async () => {
+    const results = await db.accounts.toArray();
+    return results.filter(a => includeArchived || !a.archived);
+  }, [includeArchived]);
+
+  /**
+   * Crée un compte (nom unique)
+   */
+  const createAccount = useCallback(async (
+    accountData: Omit<TreasuryAccount, 'id' | 'createdAt'>
+  ): Promise<number> => {
+    setError(null);
+
+    try {
+      if (!accountData.name.trim()) {
+        throw new Error('Le nom du compte est requis');
+      }
+      await assertUniqueAccountName(accountData.name);
+
+      return await db.accounts.add({
+        ...accountData,
+        name: accountData.name.trim(),
+        createdAt: Date.now()
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de création';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Met à jour un compte (renommage, solde de départ, archivage)
+   */
+  const updateAccount = useCallback(async (
+    id: number,
+    updates: Partial<TreasuryAccount>
+  ): Promise<void> => {
+    setError(null);
+
+    try {
+      const account = await db.accounts.get(id);
+      if (!account) {
+        throw new Error('Compte introuvable');
+      }
+
+      if (updates.name !== undefined) {
+        if (!updates.name.trim()) {
+          throw new Error('Le nom du compte est requis');
+        }
+        await assertUniqueAccountName(updates.name, id);
+      }
+
+      await db.accounts.update(id, {
+        ...updates,
+        ...(updates.name !== undefined && { name: updates.name.trim() })
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de mise à jour';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Supprime un compte sans mouvement (sinon : archiver)
+   */
+  const deleteAccount = useCallback(async (id: number): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('DELETE');
+      const usage = await countAccountUsage(id);
+      if (usage > 0) {
+        throw new Error(
+          `Ce compte a ${usage} mouvement(s). Archivez-le plutôt que de le supprimer.`
+        );
+      }
+
+      await db.accounts.delete(id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de suppression';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    accounts: accounts ?? [],
+    loading: accounts === undefined,
+    error,
+    createAccount,
+    updateAccount,
+    deleteAccount
+  };
+}
+
+/**
+ * Soldes de tous les comptes + total de la trésorerie
+ */
+export function useAccountBalances(includeArchived = false) {
+  const balances = useLiveQuery(() => getAccountBalances(includeArchived), [includeArchived]);
+
+  return {
+    balances: balances ?? ([] as AccountBalance[]),
+    total: (balances ?? []).reduce((sum, b) => sum + b.balance, 0),
+    loading: balances === undefined
+  };
+}
+
+/**
+ * Journal d'un compte (plus récents d'abord)
+ */
+export function useAccountJournal(accountId: number | undefined) {
+  const movements = useLiveQuery(
+    () => accountId !== undefined ? getAccountJournal(accountId) : [],
+    [accountId]
+  );
+
+  return {
+    movements: movements ?? [],
+    loading: movements === undefined
+  };
+}
+
+interface UseTransfersReturn {
+  error: string | null;
+  createTransfer: (transfer: Omit<Transfer, 'id' | 'createdAt'>) => Promise<number>;
+  deleteTransfer: (id: number) => Promise<void>;
+}
+
+/**
+ * Virements entre comptes
+ */
+export function useTransfers(): UseTransfersReturn {
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Crée un virement (deux comptes actifs distincts, montant positif)
+   */
+  const createTransfer = useCallback(async (
+    transferData: Omit<Transfer, 'id' | 'createdAt'>
+  ): Promise<number> => {
+    setError(null);
+
+    try {
+      if (!(transferData.amount > 0)) {
+        throw new Error('Le montant doit être positif');
+      }
+      if (transferData.fromAccountId === transferData.toAccountId) {
+        throw new Error('Choisissez deux comptes différents');
+      }
+
+      const [from, to] = await Promise.all([
+        db.accounts.get(transferData.fromAccountId),
+        db.accounts.get(transferData.toAccountId)
+      ]);
+      if (!from || !to) {
+        throw new Error('Compte de trésorerie introuvable');
+      }
+      if (from.archived || to.archived) {
+        throw new Error('Impossible de virer depuis ou vers un compte archivé');
+      }
+      await assertDayOpen(transferData.date);
+
+      return await db.transfers.add({
+        ...transferData,
+        note: transferData.note?.trim() || undefined,
+        createdAt: Date.now()
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de virement';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Annule un virement
+   */
+  const deleteTransfer = useCallback(async (id: number): Promise<void> => {
+    setError(null);
+
+    try {
+      assertPermission('DELETE');
+      const transfer = await db.transfers.get(id);
+      if (!transfer) {
+        throw new Error('Virement introuvable');
+      }
+      await assertDayOpen(transfer.date);
+
+      await db.transfers.delete(id);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Erreur de suppression';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    error,
+    createTransfer,
+    deleteTransfer
+  };
+}
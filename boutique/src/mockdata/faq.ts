@@ -15,6 +15,18 @@ export const FAQ_ITEMS: FAQItem[] = [
     answer: 'Un CLIENT vous achète des produits (ventes). Un FOURNISSEUR vous vend des produits (achats). Choisissez "Les deux" si votre partner fait les deux.',
     category: 'partners'
   },
+  {
+    id: 'partner-import',
+    question: 'Comment importer tous mes clients d\'un coup ?',
+    answer: 'Clients > Importer : choisissez un fichier CSV (tableau Excel enregistré en CSV, une ligne par client) ou les contacts exportés du téléphone (fichier .vcf). Indiquez la colonne du nom et du téléphone, puis vérifiez l\'aperçu. Pour un nom déjà enregistré, choisissez d\'ignorer la ligne, de la créer sous un autre nom ou de compléter le client existant.',
+    category: 'partners'
+  },
+  {
+    id: 'partner-merge',
+    question: 'J\'ai créé deux fiches pour la même personne, comment les réunir ?',
+    answer: 'Ouvrez l\'une des fiches, puis Fusionner : choisissez le doublon et la fiche à conserver. Les ventes, achats et paiements passent sur la fiche conservée, et le solde après fusion est affiché avant de confirmer. Un client et un fournisseur fusionnés deviennent « Client & Fournisseur ». Réservé au propriétaire.',
+    category: 'partners'
+  },
 
   // TRANSACTIONS
   {
@@ -26,7 +38,7 @@ export const FAQ_ITEMS: FAQItem[] = [
   {
     id: 'transaction-edit',
     question: 'Puis-je modifier une transaction après création ?',
-    answer: 'Oui, mais UNIQUEMENT le jour même. Après minuit, la transaction est verrouillée pour éviter les fraudes. Vous devrez créer un nouveau paiement à la place.',
+    answer: 'Oui, mais UNIQUEMENT le jour même (sauf pour le propriétaire). Après minuit, la transaction est verrouillée pour éviter les fraudes. Pour annuler tout ou partie d\'une transaction (retour de marchandise, erreur de montant), ouvrez-la et créez un avoir : la facture d\'origine reste intacte et l\'avoir apparaît sur le relevé.',
     category: 'transactions'
   },
   {
@@ -35,6 +47,12 @@ export const FAQ_ITEMS: FAQItem[] = [
     answer: 'Téléchargez une photo de la facture pour la garder en archive. L\'OCR peut extraire automatiquement les articles (feature future).',
     category: 'transactions'
   },
+  {
+    id: 'gross-margin',
+    question: 'Comment savoir combien je gagne sur mes ventes ?',
+    answer: 'Menu > Marges. La marge est calculée à partir des articles saisis dans vos achats et vos ventes : chaque article vendu est compté à son coût moyen d\'achat (CMP), qui tient compte de tous les achats précédents. Choisissez la période (7 jours à 12 mois) et affichez le détail par article ou par vente. Un avertissement signale les articles vendus moins cher que leur dernier prix d\'achat. Les ventes sans détail des articles, ou d\'articles jamais achetés, ne sont pas comptées dans la marge.',
+    category: 'transactions'
+  },
 
   // PAYMENTS
   {
@@ -54,7 +72,13 @@ export const FAQ_ITEMS: FAQItem[] = [
   {
     id: 'balance-calculation',
     question: 'Comment est calculée la balance ?',
-    answer: 'Balance positive = Le partner vous doit de l\'argent. Balance négative = Vous devez au partner. La balance est mise à jour automatiquement à chaque transaction/paiement.',
+    answer: 'Balance positive = Le partner vous doit de l\'argent. Balance négative = Vous devez au partner. La balance est mise à jour automatiquement à chaque transaction/paiement. Si un solde vous semble faux, Menu > Paramètres > Soldes > Vérifier compare les soldes à un recalcul complet, et Recalculer les corrige.',
+    category: 'general'
+  },
+  {
+    id: 'global-search',
+    question: 'Comment retrouver rapidement un client, une vente ou un produit ?',
+    answer: 'Touchez la loupe en haut de l\'écran (Ctrl+K sur ordinateur) et tapez un nom, un numéro de téléphone (même partiel, par exemple « 90 12 »), un montant, un numéro de facture, un article ou un mot de la note. Les accents et les petites fautes de frappe sont tolérés : « aissa » trouve « Aïssa ». Tapez « vente Aïssa » ou « encaisser Aïssa » pour ouvrir directement le formulaire pré-rempli.',
     category: 'general'
   },
   {
@@ -66,7 +90,19 @@ export const FAQ_ITEMS: FAQItem[] = [
   {
     id: 'data-backup',
     question: 'Mes données sont-elles sauvegardées ?',
-    answer: 'Les données sont stockées dans votre navigateur (IndexedDB). Pour sauvegarder, exportez régulièrement depuis Paramètres > Export. (Feature sync cloud arrive bientôt)',
+    answer: 'Les données sont stockées dans votre navigateur (IndexedDB). Pour sauvegarder, exportez régulièrement depuis Menu > Sauvegarde et gardez le fichier hors du téléphone. Cochez « Chiffrer avec une phrase secrète » avant d\'envoyer le fichier par WhatsApp : sans cette phrase, il est illisible. Le même écran permet de restaurer une sauvegarde (fusion ou remplacement complet).',
+    category: 'general'
+  },
+  {
+    id: 'user-profiles',
+    question: 'Comment protéger l\'app avec un code PIN ?',
+    answer: 'Menu > Profils : créez votre profil propriétaire avec un code PIN, puis un profil caissier pour chaque vendeur. L\'app se verrouille au démarrage, après quelques minutes d\'inactivité et avec Menu > Déconnexion. Seul le propriétaire peut supprimer, modifier un paiement, effacer les données ou modifier une transaction d\'un autre jour. Après 5 codes erronés, la saisie est bloquée quelques instants (de plus en plus longtemps).',
+    category: 'general'
+  },
+  {
+    id: 'multi-device-sync',
+    question: 'Comment suivre la boutique depuis un autre téléphone ?',
+    answer: 'Lancez le serveur de synchronisation fourni (npm run sync-server) sur un ordinateur ou un serveur, puis Menu > Synchronisation sur chaque téléphone : saisissez son adresse et le même code boutique. Les ventes, paiements, clients et le stock sont envoyés et reçus automatiquement, y compris au retour du réseau après une coupure. Si le même enregistrement est modifié sur deux téléphones, la modification la plus récente l\'emporte.',
     category: 'general'
   },
   {
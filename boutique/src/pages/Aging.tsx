@@ -0,0 +1,152 @@
+/**
+ * Aging - Ancienneté des créances clients
+ * Features:
+ * - Totaux par tranche (0–30 / 31–60 / 61–90 / 90+ jours)
+ * - Filtre par tranche
+ * - Une ligne par client, créances les plus anciennes en premier
+ * - Navigation vers le détail du client
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Layout } from '../components/Layout';
+import { Card } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { EmptyState } from '../components/EmptyState';
+import { ListSkeleton } from '../components/Loading';
+import { useReceivablesAging } from '../hooks/useDashboard';
+import { AGING_BUCKETS } from '../utils/aging';
+import type { AgingBucket } from '../types/balances';
+import { Clock, ChevronRight } from 'lucide-react';
+
+const BUCKET_STYLES: Record<AgingBucket, { label: string; text: string; bar: string; ring: string }> = {
+  '0-30': { label: '0–30 j', text: 'text-green-600', bar: 'bg-green-500', ring: 'ring-green-500' },
+  '31-60': { label: '31–60 j', text: 'text-yellow-600', bar: 'bg-yellow-500', ring: 'ring-yellow-500' },
+  '61-90': { label: '61–90 j', text: 'text-orange-600', bar: 'bg-orange-500', ring: 'ring-orange-500' },
+  '90+': { label: '+90 j', text: 'text-red-600', bar: 'bg-red-500', ring: 'ring-red-500' }
+};
+
+export const Aging: React.FC = () => {
+  const navigate = useNavigate();
+  const { report, loading } = useReceivablesAging();
+  const [selectedBucket, setSelectedBucket] = useState<AgingBucket | null>(null);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  const rows = (report?.rows ?? []).filter(
+    row => !selectedBucket || row.buckets[selectedBucket] > 0
+  );
+
+  return (
+    <Layout title="Ancienneté des créances">
+      <div className="space-y-4">
+        {/* Totaux par tranche */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {AGING_BUCKETS.map((bucket) => {
+            const style = BUCKET_STYLES[bucket];
+            const isSelected = selectedBucket === bucket;
+            return (
+              <Card
+                key={bucket}
+                padding="md"
+                hoverable
+                onClick={() => setSelectedBucket(isSelected ? null : bucket)}
+                className={isSelected ? `ring-2 ${style.ring}` : ''}
+              >
+                <p className="text-sm text-gray-600 mb-1">{style.label}</p>
+                <p className={`text-xl font-bold font-mono ${style.text}`}>
+                  {loading ? '...' : formatCurrency(report!.totals[bucket])}
+                </p>
+              </Card>
+            );
+          })}
+        </div>
+
+        {report && (
+          <div className="flex items-center justify-between text-sm text-gray-600 px-1">
+            <span>Total à recevoir</span>
+            <span className="font-mono font-semibold text-gray-900">{formatCurrency(report.total)}</span>
+          </div>
+        )}
+
+        {/* Lignes clients */}
+        {loading ? (
+          <ListSkeleton count={5} />
+        ) : rows.length === 0 ? (
+          <EmptyState
+            icon={<Clock size={48} />}
+            title={selectedBucket ? 'Aucune créance dans cette tranche' : 'Aucune créance'}
+            description={selectedBucket ? 'Touchez la tranche à nouveau pour tout afficher' : 'Aucun client ne vous doit d\'argent'}
+          />
+        ) : (
+          <div className="space-y-3">
+            {rows.map((row) => (
+              <Card
+                key={row.partner.id}
+                padding="md"
+                hoverable
+                onClick={() => navigate(`/clients/${row.partner.id}`)}
+              >
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{row.partner.name}</p>
+                    {row.oldestUnpaidDate && (
+                      <p className="text-xs text-gray-500">
+                        Plus ancienne facture due : {formatDate(row.oldestUnpaidDate)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className="font-mono font-bold text-gray-900">{formatCurrency(row.balance)}</span>
+                    <ChevronRight size={18} className="text-gray-400" />
+                  </div>
+                </div>
+
+                {/* Répartition */}
+                <div className="flex h-2 rounded-full overflow-hidden bg-gray-100 mb-2">
+                  {AGING_BUCKETS.map((bucket) => row.buckets[bucket] > 0 && (
+                    <div
+                      key={bucket}
+                      className={BUCKET_STYLES[bucket].bar}
+                      style={{ width: `${(row.buckets[bucket] / row.balance) * 100}%` }}
+                    />
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {AGING_BUCKETS.map((bucket) => row.buckets[bucket] > 0 && (
+                    <Badge
+                      key={bucket}
+                      size="sm"
+                      variant={bucket === '0-30' ? 'success' : bucket === '90+' ? 'danger' : 'warning'}
+                    >
+                      {BUCKET_STYLES[bucket].label} : {formatCurrency(row.buckets[bucket])}
+                    </Badge>
+                  ))}
+                </div>
+              </Card>
+            ))}
+
+            <div className="text-sm text-gray-500 text-center pt-2">
+              {rows.length} client{rows.length > 1 ? 's' : ''}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
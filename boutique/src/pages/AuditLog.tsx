@@ -0,0 +1,67 @@
+/**
+ * AuditLog - Journal d'audit : toutes les modifications, y compris les suppressions
+ * Features:
+ * - Dernières créations / modifications / suppressions (partners, transactions, paiements)
+ * - Filtres par type d'enregistrement et par action
+ * - Valeurs avant → après, auteur et date de chaque écriture
+ */
+
+import React, { useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Card } from '../components/Card';
+import { Select } from '../components/Input';
+import { AuditHistory } from '../components/audit/AuditHistory';
+import { useAuditLog } from '../hooks/useAudit';
+import { AUDIT_ACTION_LABELS, AUDIT_TABLE_LABELS } from '../utils/audit';
+import type { AuditAction, AuditTable } from '../types/audit';
+
+export const AuditLog: React.FC = () => {
+  const [table, setTable] = useState<AuditTable | ''>('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+
+  const { entries, loading } = useAuditLog({
+    table: table || undefined,
+    action: action || undefined
+  });
+
+  return (
+    <Layout title="Journal d'audit">
+      <div className="space-y-4">
+        <Card padding="md">
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Enregistrement"
+              value={table}
+              onChange={(e) => setTable(e.target.value as AuditTable | '')}
+              options={[
+                { value: '', label: 'Tous' },
+                ...(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map(t => ({ value: t, label: AUDIT_TABLE_LABELS[t] }))
+              ]}
+            />
+            <Select
+              label="Action"
+              value={action}
+              onChange={(e) => setAction(e.target.value as AuditAction | '')}
+              options={[
+                { value: '', label: 'Toutes' },
+                ...(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => ({ value: a, label: AUDIT_ACTION_LABELS[a] }))
+              ]}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Le journal est conservé sur cet appareil et ne peut pas être modifié. Seules les 200 dernières entrées sont affichées.
+          </p>
+        </Card>
+
+        <Card padding="md">
+          <AuditHistory
+            entries={entries}
+            loading={loading}
+            showRecord
+            emptyMessage="Aucune entrée dans le journal"
+          />
+        </Card>
+      </div>
+    </Layout>
+  );
+};
@@ -0,0 +1,426 @@
+/**
+ * Backup - Page de sauvegarde / restauration
+ * Features:
+ * - Export complet de la base (fichier JSON versionné), chiffré par phrase secrète ou non
+ * - Import avec aperçu du fichier (déchiffrement si le fichier est chiffré)
+ * - Mode fusion (ids remappés) ou remplacement complet (avec confirmation)
+ * - Effacement des données (propriétaire uniquement)
+ */
+
+import React, { useRef, useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/Buttons';
+import { Card, CardHeader, CardContent } from '../components/Card';
+import { Input, Select } from '../components/Input';
+import { Modal, ModalFooter } from '../components/Modal';
+import { Alert } from '../components/Alert';
+import { useBackup, useDatabaseCounts } from '../hooks/useBackup';
+import { useSession } from '../hooks/useSession';
+import { isEncryptedBackup, MIN_PASSPHRASE_LENGTH } from '../utils/backupCrypto';
+import type { BackupData, EncryptedBackup, ImportMode, ImportSummary } from '../types/backupData';
+import { Download, Upload, FileText, RotateCcw, Trash2, KeyRound, Lock } from 'lucide-react';
+
+export const Backup: React.FC = () => {
+  const { isProcessing, error, exportBackup, loadBackup, unlockBackup, restoreBackup, resetData } = useBackup();
+  const { can } = useSession();
+  const counts = useDatabaseCounts();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [encrypt, setEncrypt] = useState(true);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [passphraseError, setPassphraseError] = useState<string | undefined>();
+
+  const [pendingEncrypted, setPendingEncrypted] = useState<EncryptedBackup | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<BackupData | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [showReplaceConfirm, setShowReplaceConfirm] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const handleExport = async () => {
+    if (encrypt) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setPassphraseError(`Au moins ${MIN_PASSPHRASE_LENGTH} caractères`);
+        return;
+      }
+      if (passphrase !== passphraseConfirm) {
+        setPassphraseError('Les deux phrases ne correspondent pas');
+        return;
+      }
+    }
+    setPassphraseError(undefined);
+
+    try {
+      await exportBackup(encrypt ? passphrase : undefined);
+      setPassphrase('');
+      setPassphraseConfirm('');
+    } catch (err) {
+      console.error('Export error:', err);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setSummary(null);
+    setPendingBackup(null);
+    setPendingEncrypted(null);
+    setImportPassphrase('');
+    setFileName(file.name);
+
+    try {
+      const loaded = await loadBackup(file);
+      if (isEncryptedBackup(loaded)) {
+        setPendingEncrypted(loaded);
+      } else {
+        setPendingBackup(loaded);
+      }
+    } catch (err) {
+      console.error('Backup read error:', err);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingEncrypted || !importPassphrase) return;
+
+    try {
+      setPendingBackup(await unlockBackup(pendingEncrypted, importPassphrase));
+      setPendingEncrypted(null);
+      setImportPassphrase('');
+    } catch (err) {
+      console.error('Backup decrypt error:', err);
+    }
+  };
+
+  const runImport = async () => {
+    if (!pendingBackup) return;
+
+    try {
+      const result = await restoreBackup(pendingBackup, mode);
+      setSummary(result);
+      setPendingBackup(null);
+    } catch (err) {
+      console.error('Import error:', err);
+    } finally {
+      setShowReplaceConfirm(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (mode === 'replace') {
+      setShowReplaceConfirm(true);
+    } else {
+      runImport();
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetData();
+    } catch (err) {
+      console.error('Reset error:', err);
+    } finally {
+      setShowResetConfirm(false);
+    }
+  };
+
+  const modeOptions = [
+    { value: 'merge', label: 'Fusionner avec les données actuelles' },
+    ...(can('RESET_DATA') ? [{ value: 'replace', label: 'Tout remplacer' }] : [])
+  ];
+
+  return (
+    <Layout title="Sauvegarde">
+      <div className="space-y-6 max-w-2xl mx-auto">
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {summary && (
+          <Alert variant="success" title="Import terminé" onClose={() => setSummary(null)}>
+            {summary.partners} partner{summary.partners > 1 ? 's' : ''} ajouté{summary.partners > 1 ? 's' : ''}
+            {summary.mergedPartners > 0 && ` (${summary.mergedPartners} déjà existant${summary.mergedPartners > 1 ? 's' : ''})`}
+            , {summary.transactions} transaction{summary.transactions > 1 ? 's' : ''}
+            , {summary.payments} paiement{summary.payments > 1 ? 's' : ''}.
+          </Alert>
+        )}
+
+        {/* Export */}
+        <Card>
+          <CardHeader
+            title="Exporter"
+            subtitle="Téléchargez une copie complète de vos données"
+          />
+          <CardContent>
+            <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-2xl font-bold text-gray-900">{counts.partners}</p>
+                <p className="text-xs text-gray-600">Partners</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-2xl font-bold text-gray-900">{counts.transactions}</p>
+                <p className="text-xs text-gray-600">Transactions</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-2xl font-bold text-gray-900">{counts.payments}</p>
+                <p className="text-xs text-gray-600">Paiements</p>
+              </div>
+            </div>
+
+            <label className="flex items-start gap-3 mb-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={encrypt}
+                onChange={(e) => setEncrypt(e.target.checked)}
+                disabled={isProcessing}
+                className="h-4 w-4 mt-0.5 rounded border-gray-300 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">
+                <span className="font-medium text-gray-900">Chiffrer avec une phrase secrète</span>
+                <br />
+                Recommandé si le fichier est envoyé par WhatsApp ou email : sans la phrase,
+                personne ne peut lire les dettes et numéros de vos clients.
+              </span>
+            </label>
+
+            {encrypt && (
+              <div className="space-y-3 mb-4">
+                <Input
+                  type="password"
+                  label="Phrase secrète"
+                  placeholder={`Au moins ${MIN_PASSPHRASE_LENGTH} caractères`}
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  leftIcon={<KeyRound size={18} />}
+                  autoComplete="new-password"
+                  disabled={isProcessing}
+                />
+                <Input
+                  type="password"
+                  label="Confirmer la phrase secrète"
+                  value={passphraseConfirm}
+                  onChange={(e) => setPassphraseConfirm(e.target.value)}
+                  error={passphraseError}
+                  helperText="Elle ne peut pas être récupérée : notez-la en lieu sûr"
+                  leftIcon={<KeyRound size={18} />}
+                  autoComplete="new-password"
+                  disabled={isProcessing}
+                />
+              </div>
+            )}
+
+            <Button
+              fullWidth
+              leftIcon={encrypt ? <Lock size={18} /> : <Download size={18} />}
+              onClick={handleExport}
+              isLoading={isProcessing && !pendingBackup && !pendingEncrypted}
+            >
+              {encrypt ? 'Télécharger la sauvegarde chiffrée' : 'Télécharger la sauvegarde'}
+            </Button>
+
+            <p className="text-xs text-gray-500 mt-3 text-center">
+              Conservez ce fichier hors du téléphone (email, clé USB, ordinateur).
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Import */}
+        <Card>
+          <CardHeader
+            title="Restaurer"
+            subtitle="Importez un fichier de sauvegarde (.json)"
+          />
+          <CardContent>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+
+            <Button
+              fullWidth
+              variant="secondary"
+              leftIcon={<Upload size={18} />}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isProcessing}
+            >
+              Choisir un fichier
+            </Button>
+
+            {pendingEncrypted && (
+              <form onSubmit={handleUnlock} className="mt-4 space-y-4">
+                <div className="p-3 bg-gray-50 rounded-lg space-y-1">
+                  <div className="flex items-center gap-2 font-medium text-gray-900">
+                    <Lock size={16} className="text-gray-400" />
+                    <span className="truncate">{fileName}</span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    Sauvegarde chiffrée du {formatDate(pendingEncrypted.exportedAt)}
+                  </p>
+                </div>
+
+                <Input
+                  type="password"
+                  label="Phrase secrète"
+                  value={importPassphrase}
+                  onChange={(e) => setImportPassphrase(e.target.value)}
+                  leftIcon={<KeyRound size={18} />}
+                  autoComplete="off"
+                  disabled={isProcessing}
+                  autoFocus
+                />
+
+                <Button
+                  type="submit"
+                  fullWidth
+                  leftIcon={<KeyRound size={18} />}
+                  isLoading={isProcessing}
+                  disabled={!importPassphrase}
+                >
+                  Déchiffrer
+                </Button>
+              </form>
+            )}
+
+            {pendingBackup && (
+              <div className="mt-4 space-y-4">
+                <div className="p-3 bg-gray-50 rounded-lg space-y-1">
+                  <div className="flex items-center gap-2 font-medium text-gray-900">
+                    <FileText size={16} className="text-gray-400" />
+                    <span className="truncate">{fileName}</span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    Exporté le {formatDate(pendingBackup.exportedAt)}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {pendingBackup.partners.length} partners · {pendingBackup.transactions.length} transactions · {pendingBackup.payments.length} paiements
+                  </p>
+                </div>
+
+                <Select
+                  label="Mode d'import"
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as ImportMode)}
+                  options={modeOptions}
+                  disabled={isProcessing}
+                  helperText={
+                    mode === 'merge'
+                      ? 'Les partners de même nom et type sont regroupés'
+                      : 'Toutes les données actuelles seront effacées'
+                  }
+                />
+
+                <Button
+                  fullWidth
+                  variant={mode === 'replace' ? 'danger' : 'primary'}
+                  leftIcon={<RotateCcw size={18} />}
+                  onClick={handleImport}
+                  isLoading={isProcessing}
+                >
+                  Importer
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Effacement */}
+        {can('RESET_DATA') && (
+          <Card>
+            <CardHeader
+              title="Effacer les données"
+              subtitle="Partners, transactions, paiements, stock, virements et clôtures"
+            />
+            <CardContent>
+              <Button
+                fullWidth
+                variant="danger"
+                leftIcon={<Trash2 size={18} />}
+                onClick={() => setShowResetConfirm(true)}
+                disabled={isProcessing}
+              >
+                Tout effacer
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Confirmation effacement */}
+      <Modal
+        isOpen={showResetConfirm}
+        onClose={() => setShowResetConfirm(false)}
+        title="Tout effacer ?"
+        size="sm"
+      >
+        <Alert variant="warning">
+          Les partners, transactions, paiements, mouvements de stock, virements
+          et clôtures seront supprimés. Le catalogue, les comptes, les paramètres
+          et les profils sont conservés. Exportez une sauvegarde avant de continuer.
+          Si la synchronisation est active, les autres téléphones seront aussi vidés.
+        </Alert>
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setShowResetConfirm(false)}
+          >
+            Annuler
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleReset}
+            isLoading={isProcessing}
+          >
+            Tout effacer
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      {/* Confirmation remplacement */}
+      <Modal
+        isOpen={showReplaceConfirm}
+        onClose={() => setShowReplaceConfirm(false)}
+        title="Tout remplacer ?"
+        size="sm"
+      >
+        <Alert variant="warning">
+          Toutes les données de cet appareil seront effacées et remplacées
+          par le contenu de la sauvegarde. Cette action est irréversible.
+        </Alert>
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setShowReplaceConfirm(false)}
+          >
+            Annuler
+          </Button>
+          <Button
+            variant="danger"
+            onClick={runImport}
+            isLoading={isProcessing}
+          >
+            Remplacer
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Layout>
+  );
+};
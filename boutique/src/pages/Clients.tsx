@@ -4,6 +4,8 @@
  * - Liste clients avec recherche
  * - Création client (modal)
  * - Navigation vers détail
+ * - Export CSV (recherche appliquée)
+ * - Import CSV / vCard (modal)
  */
 
 import React, { useState } from 'react';
@@ -13,14 +15,17 @@ import { Button } from '../components/Buttons';
 import { Modal, ModalFooter } from '../components/Modal';
 import { PartnerForm } from '../components/partner/PartnerForm';
 import { PartnerList } from '../components/partner/PartnerList';
+import { PartnerImport } from '../components/partner/PartnerImport';
 import { usePartners } from '../hooks/usePartner';
+import { exportPartnersCsv } from '../utils/csv';
 import type { Partner } from '../types/partners';
-import { Plus } from 'lucide-react';
+import { Plus, Upload } from 'lucide-react';
 
 export const Clients: React.FC = () => {
   const navigate = useNavigate();
   const { partners: clients, loading } = usePartners({ type: 'CLIENT' });
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
 
   const handleSelectClient = (client: Partner) => {
     navigate(`/clients/${client.id}`);
@@ -34,23 +39,42 @@ export const Clients: React.FC = () => {
     }
   };
 
+  const handleExport = async (list: Partner[]) => {
+    try {
+      await exportPartnersCsv(list, 'clients');
+    } catch (err) {
+      console.error('Export error:', err);
+    }
+  };
+
   return (
     <Layout 
       title="Clients"
       action={
-        <Button
-          size="sm"
-          leftIcon={<Plus size={18} />}
-          onClick={() => setShowCreateModal(true)}
-        >
-          Nouveau
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="secondary"
+            leftIcon={<Upload size={18} />}
+            onClick={() => setShowImportModal(true)}
+          >
+            Importer
+          </Button>
+          <Button
+            size="sm"
+            leftIcon={<Plus size={18} />}
+            onClick={() => setShowCreateModal(true)}
+          >
+            Nouveau
+          </Button>
+        </div>
       }
     >
       <PartnerList
         partners={clients}
         loading={loading}
         onSelectPartner={handleSelectClient}
+        onExport={handleExport}
         emptyMessage="Aucun client"
       />
 
@@ -67,6 +91,19 @@ export const Clients: React.FC = () => {
           onCancel={() => setShowCreateModal(false)}
         />
       </Modal>
+
+      {/* Modal import */}
+      <Modal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        title="Importer des clients"
+        size="lg"
+      >
+        <PartnerImport
+          defaultType="CLIENT"
+          onClose={() => setShowImportModal(false)}
+        />
+      </Modal>
     </Layout>
   );
 };
\ No newline at end of file
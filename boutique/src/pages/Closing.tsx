@@ -0,0 +1,351 @@
+/**
+ * Closing - Clôture de caisse journalière (rapport Z)
+ * Features:
+ * - Théorique du jour : fond de caisse + entrées - sorties
+ * - Saisie du montant compté, écart affiché avant validation
+ * - Journée clôturée = chiffres figés (plus aucune écriture datée de ce jour)
+ * - Historique des clôtures, impression du rapport Z, réouverture de la dernière
+ */
+
+import React, { useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/Buttons';
+import { Card } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { Modal, ModalFooter } from '../components/Modal';
+import { Alert } from '../components/Alert';
+import { EmptyState } from '../components/EmptyState';
+import { ListSkeleton } from '../components/Loading';
+import { Input, Select, Textarea } from '../components/Input';
+import { ZReportPrint } from '../components/ZReportPrint';
+import { useClosingPreview, useClosings } from '../hooks/useClosings';
+import { useTreasuryAccounts } from '../hooks/useTreasury';
+import { useSession } from '../hooks/useSession';
+import type { CashClosing } from '../types/closing';
+import { Calendar, ClipboardCheck, Lock, Unlock } from 'lucide-react';
+
+export const Closing: React.FC = () => {
+  const { accounts } = useTreasuryAccounts();
+  const { closings, loading, error, createClosing, deleteClosing } = useClosings();
+  const { can } = useSession();
+
+  const cashAccounts = accounts.filter(a => a.type === 'CASH');
+
+  const [selectedAccountId, setSelectedAccountId] = useState<number | undefined>();
+  const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
+  const [counted, setCounted] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [viewingClosing, setViewingClosing] = useState<CashClosing | null>(null);
+  const [reopeningClosing, setReopeningClosing] = useState<CashClosing | null>(null);
+
+  const accountId = selectedAccountId ?? cashAccounts[0]?.id;
+  const dayStart = new Date(date).getTime();
+  const { preview } = useClosingPreview(accountId, dayStart);
+
+  const accountNames = new Map(accounts.map(a => [a.id!, a.name]));
+  const existingClosing = closings.find(c => c.accountId === accountId && c.date === dayStart);
+  const difference = preview && counted !== null ? counted - preview.expected : null;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      weekday: 'short',
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  /**
+   * Dernière clôture d'un compte (seule réouvrable)
+   */
+  const isLatestClosing = (closing: CashClosing) =>
+    !closings.some(c => c.accountId === closing.accountId && c.date > closing.date);
+
+  const formatDifference = (amount: number) => (amount > 0 ? '+' : '') + formatCurrency(amount);
+
+  const differenceVariant = (amount: number) => (amount === 0 ? 'success' : amount > 0 ? 'info' : 'danger');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (accountId === undefined || counted === null) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await createClosing(accountId, dayStart, counted, note);
+      setCounted(null);
+      setNote('');
+    } catch (err) {
+      console.error('Closing error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReopenConfirm = async () => {
+    if (!reopeningClosing) return;
+
+    try {
+      await deleteClosing(reopeningClosing.id!);
+      setViewingClosing(null);
+    } catch (err) {
+      console.error('Reopen error:', err);
+    } finally {
+      setReopeningClosing(null);
+    }
+  };
+
+  return (
+    <Layout title="Clôture de caisse">
+      <div className="space-y-4">
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {cashAccounts.length === 0 ? (
+          <Alert variant="warning">
+            Aucun compte de type caisse : créez-en un dans la page Trésorerie.
+          </Alert>
+        ) : (
+          <Card padding="lg">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  label="Caisse *"
+                  value={accountId !== undefined ? String(accountId) : ''}
+                  onChange={(e) => setSelectedAccountId(Number(e.target.value))}
+                  options={cashAccounts.map(a => ({ value: String(a.id), label: a.name }))}
+                  disabled={isSubmitting}
+                />
+                <Input
+                  type="date"
+                  label="Journée *"
+                  value={date}
+                  onChange={(e) => e.target.value && setDate(e.target.value)}
+                  max={new Date().toISOString().slice(0, 10)}
+                  leftIcon={<Calendar size={18} />}
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {existingClosing ? (
+                <Alert variant="info">
+                  Cette journée est clôturée (écart {formatDifference(existingClosing.difference)}).{' '}
+                  <button
+                    type="button"
+                    onClick={() => setViewingClosing(existingClosing)}
+                    className="underline font-medium"
+                  >
+                    Voir le rapport Z
+                  </button>
+                </Alert>
+              ) : preview && (
+                <>
+                  {/* Théorique */}
+                  <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Fond de caisse</span>
+                      <span className="font-mono">{formatCurrency(preview.openingCash)}</span>
+                    </div>
+                    <div className="flex justify-between text-green-600">
+                      <span>+ Entrées</span>
+                      <span className="font-mono">{formatCurrency(preview.cashIn)}</span>
+                    </div>
+                    <div className="flex justify-between text-red-600">
+                      <span>- Sorties</span>
+                      <span className="font-mono">{formatCurrency(preview.cashOut)}</span>
+                    </div>
+                    <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+                      <span>Théorique</span>
+                      <span className="font-mono">{formatCurrency(preview.expected)}</span>
+                    </div>
+                  </div>
+
+                  {/* Activité de la journée */}
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <p className="text-gray-500">Ventes ({preview.summary.salesCount})</p>
+                      <p className="font-mono font-semibold">{formatCurrency(preview.summary.sales)}</p>
+                    </div>
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <p className="text-gray-500">Achats ({preview.summary.purchasesCount})</p>
+                      <p className="font-mono font-semibold">{formatCurrency(preview.summary.purchases)}</p>
+                    </div>
+                  </div>
+
+                  <Input
+                    type="number"
+                    label="Montant compté *"
+                    placeholder="0"
+                    value={counted ?? ''}
+                    onChange={(e) => setCounted(e.target.value === '' ? null : Number(e.target.value))}
+                    min="0"
+                    className="font-mono"
+                    disabled={isSubmitting}
+                  />
+
+                  {difference !== null && (
+                    <Alert variant={difference === 0 ? 'success' : 'warning'}>
+                      {difference === 0
+                        ? 'Caisse juste : aucun écart'
+                        : `${difference > 0 ? 'Excédent' : 'Manquant'} de ${formatCurrency(Math.abs(difference))}. L'écart sera enregistré sur la caisse.`}
+                    </Alert>
+                  )}
+
+                  <Textarea
+                    label="Note"
+                    placeholder="Ex: billet abîmé mis de côté"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={2}
+                    disabled={isSubmitting}
+                  />
+
+                  <Alert variant="info">
+                    Après la clôture, les transactions, paiements et virements de cette journée ne pourront plus être modifiés.
+                  </Alert>
+
+                  <Button
+                    type="submit"
+                    leftIcon={<Lock size={18} />}
+                    isLoading={isSubmitting}
+                    disabled={counted === null}
+                    fullWidth
+                  >
+                    Clôturer la caisse
+                  </Button>
+                </>
+              )}
+            </form>
+          </Card>
+        )}
+
+        {/* Historique */}
+        <h3 className="text-sm font-semibold text-gray-500 pt-2">Historique des clôtures</h3>
+        {loading ? (
+          <ListSkeleton count={3} />
+        ) : closings.length === 0 ? (
+          <EmptyState
+            icon={<ClipboardCheck size={48} />}
+            title="Aucune clôture"
+            description="Comptez la caisse en fin de journée pour figer les chiffres et suivre les écarts"
+          />
+        ) : (
+          <div className="space-y-3">
+            {closings.map(closing => (
+              <Card key={closing.id} padding="md" hoverable onClick={() => setViewingClosing(closing)}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 capitalize">{formatDate(closing.date)}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {accountNames.get(closing.accountId) ?? 'Compte supprimé'} · Compté {formatCurrency(closing.counted)}
+                    </p>
+                  </div>
+                  <Badge variant={differenceVariant(closing.difference)} size="sm">
+                    {closing.difference === 0 ? 'Juste' : formatDifference(closing.difference)}
+                  </Badge>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Modal rapport Z */}
+      <Modal
+        isOpen={!!viewingClosing}
+        onClose={() => setViewingClosing(null)}
+        title={viewingClosing ? `Rapport Z — ${formatDate(viewingClosing.date)}` : 'Rapport Z'}
+        size="md"
+      >
+        {viewingClosing && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Fond de caisse</span>
+                <span className="font-mono">{formatCurrency(viewingClosing.openingCash)}</span>
+              </div>
+              <div className="flex justify-between text-green-600">
+                <span>+ Entrées</span>
+                <span className="font-mono">{formatCurrency(viewingClosing.cashIn)}</span>
+              </div>
+              <div className="flex justify-between text-red-600">
+                <span>- Sorties</span>
+                <span className="font-mono">{formatCurrency(viewingClosing.cashOut)}</span>
+              </div>
+              <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+                <span>Théorique</span>
+                <span className="font-mono">{formatCurrency(viewingClosing.expected)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Compté</span>
+                <span className="font-mono">{formatCurrency(viewingClosing.counted)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Écart</span>
+                <Badge variant={differenceVariant(viewingClosing.difference)} size="sm">
+                  {formatDifference(viewingClosing.difference)}
+                </Badge>
+              </div>
+            </div>
+
+            {viewingClosing.note && (
+              <p className="text-sm text-gray-600 whitespace-pre-line">{viewingClosing.note}</p>
+            )}
+
+            <ZReportPrint
+              closing={viewingClosing}
+              accountName={accountNames.get(viewingClosing.accountId) ?? 'Compte supprimé'}
+            />
+
+            {isLatestClosing(viewingClosing) && can('DELETE') && (
+              <Button
+                variant="ghost"
+                leftIcon={<Unlock size={18} />}
+                onClick={() => setReopeningClosing(viewingClosing)}
+                fullWidth
+              >
+                Rouvrir la journée
+              </Button>
+            )}
+          </div>
+        )}
+      </Modal>
+
+      {/* Modal confirmation réouverture */}
+      <Modal
+        isOpen={!!reopeningClosing}
+        onClose={() => setReopeningClosing(null)}
+        title="Rouvrir la journée"
+        size="sm"
+      >
+        <Alert variant="warning">
+          Annuler la clôture du {reopeningClosing && formatDate(reopeningClosing.date)} ?
+          L'écart enregistré sera supprimé et la journée redeviendra modifiable.
+        </Alert>
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setReopeningClosing(null)}
+          >
+            Annuler
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleReopenConfirm}
+            leftIcon={<Unlock size={16} />}
+          >
+            Rouvrir
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Layout>
+  );
+};
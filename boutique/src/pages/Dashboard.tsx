@@ -2,9 +2,10 @@
  * Dashboard - Vue d'ensemble de l'activité
  * Features:
  * - Stats globales (créances, dettes)
- * - Top débiteurs/créditeurs
+ * - Graphiques par période : ventes/achats, encaissements/crédit, créances/dettes
+ * - Top débiteurs/créditeurs (accès au rapport d'ancienneté)
  * - Transactions récentes
- * - Alertes
+ * - Alertes (échéances dépassées, soldes élevés)
  */
 
 import React from 'react';
@@ -16,7 +17,10 @@ import { Button } from '../components/Buttons';
 import { Alert } from '../components/Alert';
 import { EmptyState } from '../components/EmptyState';
 import { CardSkeleton } from '../components/Loading';
-import { useDashboard, useRecentTransactions } from '../hooks/useDashboard';
+import { DashboardCharts } from '../components/dashboard/DashboardCharts';
+import { useDashboard, useRecentTransactions, useDashboardAlerts } from '../hooks/useDashboard';
+import type { DashboardAlert } from '../hooks/useDashboard';
+import { isCreditNote } from '../utils/creditNote';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -25,13 +29,23 @@ import {
   Receipt,
   ArrowRight,
   Plus,
-  AlertCircle
+  AlertCircle,
+  Clock
 } from 'lucide-react';
 
 export const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const { stats, loading } = useDashboard();
   const { transactions: recentTx, loading: txLoading } = useRecentTransactions(5);
+  const { alerts } = useDashboardAlerts();
+
+  const handleAlertClick = (alert: DashboardAlert) => {
+    if (alert.transactionId) {
+      navigate(`/transactions/${alert.transactionId}`);
+    } else {
+      navigate(`/${alert.type === 'danger' ? 'fournisseurs' : 'clients'}/${alert.partnerId}`);
+    }
+  };
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('fr-FR', {
@@ -149,6 +163,49 @@ export const Dashboard: React.FC = () => {
           </Card>
         </div>
 
+        {/* Alertes échéances / soldes */}
+        {alerts.length > 0 && (
+          <Card>
+            <CardHeader 
+              title="Alertes"
+              subtitle={`${alerts.length} point${alerts.length > 1 ? 's' : ''} à surveiller`}
+              action={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  rightIcon={<ArrowRight size={16} />}
+                  onClick={() => navigate('/transactions?filter=overdue')}
+                >
+                  En retard
+                </Button>
+              }
+            />
+            <CardContent>
+              <div className="space-y-2">
+                {alerts.slice(0, 5).map((alert, index) => (
+                  <div 
+                    key={alert.transactionId ?? `partner-${alert.partnerId}-${index}`}
+                    className={`flex items-center justify-between gap-3 p-3 rounded-lg cursor-pointer transition-colors ${
+                      alert.type === 'danger' ? 'bg-red-50 hover:bg-red-100' : 'bg-yellow-50 hover:bg-yellow-100'
+                    }`}
+                    onClick={() => handleAlertClick(alert)}
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      {alert.transactionId
+                        ? <Clock size={18} className={alert.type === 'danger' ? 'text-red-600 shrink-0' : 'text-yellow-600 shrink-0'} />
+                        : <AlertCircle size={18} className={alert.type === 'danger' ? 'text-red-600 shrink-0' : 'text-yellow-600 shrink-0'} />}
+                      <span className="text-sm text-gray-900 truncate">{alert.message}</span>
+                    </div>
+                    <span className="font-semibold font-mono text-sm shrink-0">
+                      {formatCurrency(alert.amount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats rapides */}
         <div className="grid grid-cols-2 gap-4">
           <Card padding="md">
@@ -180,12 +237,25 @@ export const Dashboard: React.FC = () => {
           </Card>
         </div>
 
+        {/* Graphiques */}
+        <DashboardCharts />
+
         {/* Top Débiteurs */}
         {stats.topDebtors.length > 0 && (
           <Card>
             <CardHeader 
               title="Top Créances"
               subtitle="Clients qui vous doivent le plus"
+              action={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  rightIcon={<ArrowRight size={16} />}
+                  onClick={() => navigate('/aging')}
+                >
+                  Ancienneté
+                </Button>
+              }
             />
             <CardContent>
               <div className="space-y-2">
@@ -268,9 +338,13 @@ export const Dashboard: React.FC = () => {
                     className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
                   >
                     <div className="flex items-center gap-3">
-                      <Badge variant={tx.direction === 'SALE' ? 'success' : 'warning'}>
-                        {tx.direction === 'SALE' ? '📤 Vente' : '📥 Achat'}
-                      </Badge>
+                      {isCreditNote(tx) ? (
+                        <Badge variant="info">↩️ Avoir</Badge>
+                      ) : (
+                        <Badge variant={tx.direction === 'SALE' ? 'success' : 'warning'}>
+                          {tx.direction === 'SALE' ? '📤 Vente' : '📥 Achat'}
+                        </Badge>
+                      )}
                       <div>
                         <p className="font-medium text-gray-900">
                           {tx.partnerName}
@@ -4,6 +4,8 @@
  * - Liste fournisseurs avec recherche
  * - Création fournisseur (modal)
  * - Navigation vers détail
+ * - Export CSV (recherche appliquée)
+ * - Import CSV / vCard (modal)
  */
 
 import React, { useState } from 'react';
@@ -13,14 +15,17 @@ import { Button } from '../components/Buttons';
 import { Modal } from '../components/Modal';
 import { PartnerForm } from '../components/partner/PartnerForm';
 import { PartnerList } from '../components/partner/PartnerList';
+import { PartnerImport } from '../components/partner/PartnerImport';
 import { usePartners } from '../hooks/usePartner';
+import { exportPartnersCsv } from '../utils/csv';
 import type { Partner } from '../types/partners';
-import { Plus } from 'lucide-react';
+import { Plus, Upload } from 'lucide-react';
 
 export const Fournisseurs: React.FC = () => {
   const navigate = useNavigate();
   const { partners: suppliers, loading } = usePartners({ type: 'SUPPLIER' });
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
 
   const handleSelectSupplier = (supplier: Partner) => {
     navigate(`/fournisseurs/${supplier.id}`);
@@ -32,23 +37,42 @@ export const Fournisseurs: React.FC = () => {
     }
   };
 
+  const handleExport = async (list: Partner[]) => {
+    try {
+      await exportPartnersCsv(list, 'fournisseurs');
+    } catch (err) {
+      console.error('Export error:', err);
+    }
+  };
+
   return (
     <Layout 
       title="Fournisseurs"
       action={
-        <Button
-          size="sm"
-          leftIcon={<Plus size={18} />}
-          onClick={() => setShowCreateModal(true)}
-        >
-          Nouveau
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="secondary"
+            leftIcon={<Upload size={18} />}
+            onClick={() => setShowImportModal(true)}
+          >
+            Importer
+          </Button>
+          <Button
+            size="sm"
+            leftIcon={<Plus size={18} />}
+            onClick={() => setShowCreateModal(true)}
+          >
+            Nouveau
+          </Button>
+        </div>
       }
     >
       <PartnerList
         partners={suppliers}
         loading={loading}
         onSelectPartner={handleSelectSupplier}
+        onExport={handleExport}
         emptyMessage="Aucun fournisseur"
       />
 
@@ -65,6 +89,19 @@ export const Fournisseurs: React.FC = () => {
           onCancel={() => setShowCreateModal(false)}
         />
       </Modal>
+
+      {/* Modal import */}
+      <Modal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        title="Importer des fournisseurs"
+        size="lg"
+      >
+        <PartnerImport
+          defaultType="SUPPLIER"
+          onClose={() => setShowImportModal(false)}
+        />
+      </Modal>
     </Layout>
   );
 };
\ No newline at end of file
@@ -27,6 +27,7 @@ import {
 import { useOnboarding } from '../hooks/useOnboarding';
 import { TUTORIALS } from '../mockdata/tutoriel';
 import { FAQ_ITEMS } from '../mockdata/faq';
+import { matchesSearch } from '../utils/search';
 
 
 export const HelpCenter: React.FC = () => {
@@ -36,10 +37,9 @@ export const HelpCenter: React.FC = () => {
   const { resetOnboarding } = useOnboarding();
 
   const filteredFAQ = FAQ_ITEMS.filter(item => {
-    const matchesSearch = item.question.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         item.answer.toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesQuery = matchesSearch({ name: item.question, fields: [item.answer] }, searchQuery);
     const matchesCategory = selectedCategory === 'all' || item.category === selectedCategory;
-    return matchesSearch && matchesCategory;
+    return matchesQuery && matchesCategory;
   });
 
   const categories = [
@@ -0,0 +1,307 @@
+/**
+ * Margin - Rapport de marge brute
+ * Features:
+ * - Coût d'achat au coût moyen pondéré (CMP) de chaque article
+ * - Totaux de la période : ventes, coût, marge brute et taux
+ * - Marge par intervalle (jour, semaine, mois selon la période)
+ * - Détail par article ou par vente, avec alerte pour les ventes sous le dernier prix d'achat
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { Layout } from '../components/Layout';
+import { Card, CardHeader, CardContent } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { Button } from '../components/Buttons';
+import { Alert } from '../components/Alert';
+import { EmptyState } from '../components/EmptyState';
+import { ListSkeleton } from '../components/Loading';
+import { VirtualList } from '../components/VirtualList';
+import { PeriodSelector } from '../components/dashboard/PeriodSelector';
+import { useMarginReport } from '../hooks/useMargin';
+import { getDocumentNumber, isCreditNote } from '../utils/creditNote';
+import type { ChartPeriod } from '../types/dashboard';
+import type { ItemMargin, SaleMargin } from '../types/margin';
+import { Percent, Package, Receipt, AlertTriangle, Calendar } from 'lucide-react';
+
+type MarginView = 'items' | 'sales';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'decimal',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount) + ' F';
+};
+
+// Axe vertical : 15 k, 2,5 M
+const formatAxis = (amount: number) => {
+  return new Intl.NumberFormat('fr-FR', {
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(amount);
+};
+
+const formatRate = (margin: number, revenue: number) => {
+  if (revenue === 0) return '–';
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'percent',
+    maximumFractionDigits: 1
+  }).format(margin / revenue);
+};
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric'
+  });
+};
+
+export const Margin: React.FC = () => {
+  const navigate = useNavigate();
+  const [period, setPeriod] = useState<ChartPeriod>('30d');
+  const [view, setView] = useState<MarginView>('items');
+  const { report, loading } = useMarginReport(period);
+
+  const belowCostItems = (report?.items ?? []).filter(item => item.belowCostSales > 0);
+
+  return (
+    <Layout title="Marge brute">
+      <div className="space-y-4">
+        <PeriodSelector value={period} onChange={setPeriod} />
+
+        {/* Totaux */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Card padding="md">
+            <p className="text-sm text-gray-600 mb-1">Ventes</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {loading ? '...' : formatCurrency(report!.revenue)}
+            </p>
+          </Card>
+          <Card padding="md">
+            <p className="text-sm text-gray-600 mb-1">Coût d'achat (CMP)</p>
+            <p className="text-2xl font-bold text-orange-600">
+              {loading ? '...' : formatCurrency(report!.cost)}
+            </p>
+          </Card>
+          <Card padding="md" className="bg-green-50">
+            <p className="text-sm text-gray-600 mb-1">Marge brute</p>
+            <p className={`text-2xl font-bold ${report && report.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {loading ? '...' : formatCurrency(report!.margin)}
+            </p>
+            {report && (
+              <p className="text-xs text-gray-500 mt-1">
+                Taux : {formatRate(report.margin, report.revenue)}
+              </p>
+            )}
+          </Card>
+        </div>
+
+        {/* Alertes */}
+        {belowCostItems.length > 0 && (
+          <Alert
+            variant="warning"
+            title={`${belowCostItems.length} article${belowCostItems.length > 1 ? 's' : ''} vendu${belowCostItems.length > 1 ? 's' : ''} sous le dernier prix d'achat`}
+          >
+            {belowCostItems.map(item => item.name).join(', ')}
+          </Alert>
+        )}
+
+        {report && report.unknownCostRevenue !== 0 && (
+          <Alert variant="info">
+            {formatCurrency(report.unknownCostRevenue)} de ventes d'articles jamais achetés
+            (coût inconnu) ne sont pas comptés dans la marge.
+          </Alert>
+        )}
+
+        {/* Marge par intervalle */}
+        {report && report.revenue !== 0 && (
+          <Card>
+            <CardHeader title="Évolution" subtitle="Ventes et marge brute" />
+            <CardContent>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={report.points}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+                    <YAxis tickFormatter={formatAxis} width={48} tick={{ fontSize: 12, fill: '#6b7280' }} tickLine={false} axisLine={false} />
+                    <Tooltip
+                      formatter={(value: unknown) => formatCurrency(Number(value))}
+                      contentStyle={{ borderRadius: 8, fontSize: 12 }}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 12 }} />
+                    <Bar dataKey="revenue" name="Ventes" fill="#93c5fd" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="margin" name="Marge" fill="#16a34a" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Détail */}
+        <div className="grid grid-cols-2 gap-3">
+          <Button
+            variant={view === 'items' ? 'primary' : 'secondary'}
+            size="sm"
+            leftIcon={<Package size={16} />}
+            onClick={() => setView('items')}
+          >
+            Par article
+          </Button>
+          <Button
+            variant={view === 'sales' ? 'primary' : 'secondary'}
+            size="sm"
+            leftIcon={<Receipt size={16} />}
+            onClick={() => setView('sales')}
+          >
+            Par vente
+          </Button>
+        </div>
+
+        {loading ? (
+          <ListSkeleton count={5} />
+        ) : report!.sales.length === 0 ? (
+          <EmptyState
+            icon={<Percent size={48} />}
+            title="Aucune vente détaillée"
+            description="La marge est calculée à partir des articles des ventes et des achats"
+          />
+        ) : view === 'items' ? (
+          <VirtualList
+            items={report!.items}
+            getKey={item => item.key}
+            estimatedItemHeight={140}
+            renderItem={(item) => <ItemMarginRow item={item} />}
+          />
+        ) : (
+          <VirtualList
+            items={report!.sales}
+            getKey={sale => sale.transaction.id!}
+            estimatedItemHeight={110}
+            renderItem={(sale) => (
+              <SaleMarginRow
+                sale={sale}
+                onOpen={() => navigate(`/transactions/${sale.transaction.id}`)}
+              />
+            )}
+          />
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+/**
+ * Article : quantités, prix (CMP, dernier achat, dernière vente) et marge
+ */
+const ItemMarginRow: React.FC<{ item: ItemMargin }> = ({ item }) => {
+  const isBelowCost = item.lastSalePrice !== undefined
+    && item.lastPurchasePrice !== undefined
+    && item.lastSalePrice < item.lastPurchasePrice;
+
+  return (
+    <Card padding="md">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-900 truncate">{item.name}</p>
+          <p className="text-sm text-gray-600">
+            {item.qtySold} vendu{item.qtySold > 1 ? 's' : ''} · {formatCurrency(item.revenue + item.unknownCostRevenue)}
+          </p>
+        </div>
+        <div className="text-right shrink-0">
+          <p className={`font-bold ${item.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatCurrency(item.margin)}
+          </p>
+          <p className="text-xs text-gray-500">{formatRate(item.margin, item.revenue)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mt-3 text-xs text-gray-600">
+        <div>
+          <p className="text-gray-400">CMP</p>
+          <p className="font-medium">{item.averageCost !== null ? formatCurrency(item.averageCost) : '–'}</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Dernier achat</p>
+          <p className="font-medium">{item.lastPurchasePrice !== undefined ? formatCurrency(item.lastPurchasePrice) : '–'}</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Dernière vente</p>
+          <p className={`font-medium ${isBelowCost ? 'text-red-600' : ''}`}>
+            {item.lastSalePrice !== undefined ? formatCurrency(item.lastSalePrice) : '–'}
+          </p>
+        </div>
+      </div>
+
+      {(item.belowCostSales > 0 || item.averageCost === null) && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {item.belowCostSales > 0 && (
+            <Badge variant="danger" size="sm">
+              <AlertTriangle size={12} className="inline mr-1" />
+              {item.belowCostSales} vente{item.belowCostSales > 1 ? 's' : ''} sous le prix d'achat
+            </Badge>
+          )}
+          {item.averageCost === null && (
+            <Badge variant="default" size="sm">Jamais acheté</Badge>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+/**
+ * Vente (ou avoir client) : montant, coût, marge, articles vendus à perte
+ */
+const SaleMarginRow: React.FC<{ sale: SaleMargin; onOpen: () => void }> = ({ sale, onOpen }) => {
+  const belowCostLines = sale.lines.filter(line => line.belowLastPurchase);
+
+  return (
+    <Card padding="md" hoverable onClick={onOpen} className="cursor-pointer">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            {isCreditNote(sale.transaction) && <Badge variant="info" size="sm">↩️ Avoir</Badge>}
+            <p className="font-semibold text-gray-900 truncate">{sale.partnerName}</p>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Calendar size={14} />
+            <span>{formatDate(sale.transaction.date)}</span>
+            <span className="text-gray-400">· {getDocumentNumber(sale.transaction)}</span>
+          </div>
+        </div>
+        <div className="text-right shrink-0">
+          <p className="font-bold text-gray-900">{formatCurrency(sale.revenue)}</p>
+          <p className={`text-sm font-medium ${sale.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            Marge : {formatCurrency(sale.margin)}
+          </p>
+        </div>
+      </div>
+
+      {(belowCostLines.length > 0 || sale.hasUnknownCost) && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {belowCostLines.map((line, index) => (
+            <Badge key={`${line.key}-${index}`} variant="danger" size="sm">
+              {line.name} : {formatCurrency(line.price)} &lt; {formatCurrency(line.lastPurchasePrice!)}
+            </Badge>
+          ))}
+          {sale.hasUnknownCost && (
+            <Badge variant="default" size="sm">Coût inconnu</Badge>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
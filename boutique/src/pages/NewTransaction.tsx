@@ -2,6 +2,8 @@
  * NewTransaction - Page création/édition de transaction
  * Features:
  * - Formulaire complet avec OCR
+ * - Suivi des paiements (édition)
+ * - Historique des modifications (édition)
  * - Redirection après succès
  */
 
@@ -12,6 +14,9 @@ import { Button } from '../components/Buttons';
 import { Card } from '../components/Card';
 import { TransactionForm } from '../components/transaction/TransactionForm';
 import { InvoicePrint } from '../components/InvoicePrint';
+import { TransactionPayments } from '../components/payment/TransactionPayment';
+import { RecordHistory } from '../components/audit/AuditHistory';
+import { CreditNotesCard, CreditNoteSummary } from '../components/transaction/CreditNotes';
 import { LoadingScreen } from '../components/Loading';
 import { Alert } from '../components/Alert';
 import { useTransaction } from '../hooks/useTransactions';
@@ -35,6 +40,8 @@ export const NewTransaction: React.FC = () => {
   const direction = searchParams.get('direction') as Direction | null;
 
   const isEditMode = !!transactionId;
+  // Un avoir n'est jamais modifié : affichage en lecture seule
+  const isCreditNote = transaction?.reversalOf != null;
 
   const handleSuccess = (tx: Transaction, isNew: boolean) => {
     if (isNew) {
@@ -69,7 +76,7 @@ export const NewTransaction: React.FC = () => {
 
   return (
     <Layout 
-      title={isEditMode ? 'Modifier la transaction' : 'Nouvelle transaction'}
+      title={isCreditNote ? 'Avoir' : isEditMode ? 'Modifier la transaction' : 'Nouvelle transaction'}
       action={
         <Button
           size="sm"
@@ -82,14 +89,29 @@ export const NewTransaction: React.FC = () => {
       }
     >
       <div className="max-w-2xl mx-auto space-y-6">
-        {/* Formulaire */}
-        <TransactionForm
-          transaction={transaction}
-          defaultPartnerId={partnerId ? parseInt(partnerId) : undefined}
-          defaultDirection={direction ?? 'SALE'}
-          onSuccess={handleSuccess}
-          onCancel={handleCancel}
-        />
+        {/* Formulaire (ou détail de l'avoir) */}
+        {isCreditNote && transaction ? (
+          <CreditNoteSummary creditNote={transaction} />
+        ) : (
+          <TransactionForm
+            key={searchParams.toString()}
+            transaction={transaction}
+            defaultPartnerId={partnerId ? parseInt(partnerId) : undefined}
+            defaultDirection={direction ?? 'SALE'}
+            onSuccess={handleSuccess}
+            onCancel={handleCancel}
+          />
+        )}
+
+        {/* Paiements si transaction existante */}
+        {isEditMode && transaction && !isCreditNote && (
+          <TransactionPayments transaction={transaction} />
+        )}
+
+        {/* Avoirs de la transaction d'origine */}
+        {isEditMode && transaction && !isCreditNote && (
+          <CreditNotesCard transaction={transaction} />
+        )}
 
         {/* Impression si transaction existante */}
         {isEditMode && transaction && partner && (
@@ -103,6 +125,16 @@ export const NewTransaction: React.FC = () => {
             />
           </Card>
         )}
+
+        {/* Historique des modifications */}
+        {isEditMode && transaction && (
+          <Card padding="lg">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Historique
+            </h3>
+            <RecordHistory table="transactions" recordId={transaction.id!} />
+          </Card>
+        )}
       </div>
     </Layout>
   );
@@ -4,6 +4,8 @@
  * - Affichage détails complets
  * - Édition (modal)
  * - Suppression avec confirmation
+ * - Historique des modifications (modal)
+ * - Fusion avec un doublon (modal, propriétaire)
  * - Navigation back
  */
 
@@ -14,10 +16,15 @@ import { Button } from '../components/Buttons';
 import { Modal } from '../components/Modal';
 import { PartnerDetail } from '../components/partner/PartnerDetail';
 import { PartnerForm } from '../components/partner/PartnerForm';
+import { PartnerMerge } from '../components/partner/PartnerMerge';
+import { RecordHistory } from '../components/audit/AuditHistory';
 import { LoadingScreen } from '../components/Loading';
 import { Alert } from '../components/Alert';
 import { usePartner, usePartners } from '../hooks/usePartner';
-import { ArrowLeft, Plus } from 'lucide-react';
+import { useSession } from '../hooks/useSession';
+import { getPartnerPath } from '../utils/quickActions';
+import type { Partner } from '../types/partners';
+import { ArrowLeft, History, Plus, Merge } from 'lucide-react';
 
 export const PartnerDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -26,8 +33,11 @@ export const PartnerDetailPage: React.FC = () => {
   
   const { partner, loading } = usePartner(partnerId);
   const { deletePartner } = usePartners();
+  const { can } = useSession();
   
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
 
   const handleBack = () => {
     if (partner?.type === 'CLIENT') {
@@ -58,6 +68,11 @@ export const PartnerDetailPage: React.FC = () => {
     }
   };
 
+  const handleMerged = (target: Partner) => {
+    setShowMergeModal(false);
+    navigate(getPartnerPath(target.id!, target.type), { replace: true });
+  };
+
   const handleNewTransaction = () => {
     navigate(`/transactions/new?partnerId=${partnerId}`);
   };
@@ -92,6 +107,24 @@ export const PartnerDetailPage: React.FC = () => {
           >
             Retour
           </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            leftIcon={<History size={18} />}
+            onClick={() => setShowHistoryModal(true)}
+          >
+            Historique
+          </Button>
+          {can('MERGE_PARTNERS') && (
+            <Button
+              size="sm"
+              variant="ghost"
+              leftIcon={<Merge size={18} />}
+              onClick={() => setShowMergeModal(true)}
+            >
+              Fusionner
+            </Button>
+          )}
           <Button
             size="sm"
             leftIcon={<Plus size={18} />}
@@ -105,7 +138,7 @@ export const PartnerDetailPage: React.FC = () => {
       <PartnerDetail
         partner={partner}
         onEdit={handleEdit}
-        onDelete={handleDelete}
+        onDelete={can('DELETE') ? handleDelete : undefined}
       />
 
       {/* Modal édition */}
@@ -121,6 +154,30 @@ export const PartnerDetailPage: React.FC = () => {
           onCancel={() => setShowEditModal(false)}
         />
       </Modal>
+
+      {/* Modal historique */}
+      <Modal
+        isOpen={showHistoryModal}
+        onClose={() => setShowHistoryModal(false)}
+        title={`Historique — ${partner.name}`}
+        size="md"
+      >
+        <RecordHistory table="partners" recordId={partner.id!} />
+      </Modal>
+
+      {/* Modal fusion */}
+      <Modal
+        isOpen={showMergeModal}
+        onClose={() => setShowMergeModal(false)}
+        title={`Fusionner — ${partner.name}`}
+        size="md"
+      >
+        <PartnerMerge
+          partner={partner}
+          onMerged={handleMerged}
+          onCancel={() => setShowMergeModal(false)}
+        />
+      </Modal>
     </Layout>
   );
 };
\ No newline at end of file
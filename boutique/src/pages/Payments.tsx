@@ -1,13 +1,16 @@
 /**
  * Payments - Page de gestion des paiements
  * Features:
- * - Liste tous les paiements
- * - Filtres par partner/date
+ * - Liste tous les paiements (pages chargées au défilement, liste virtualisée)
+ * - Filtres par partner/date, recherche
  * - Création/édition/suppression
+ * - Historique des modifications d'un paiement
+ * - Export CSV des paiements filtrés
+ * - Formulaire pré-rempli depuis l'adresse (?new=1&partnerId=…&direction=IN|OUT)
  */
 
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useDeferredValue, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import { Button } from '../components/Buttons';
 import { Modal, ModalFooter } from '../components/Modal';
@@ -15,32 +18,51 @@ import { Card } from '../components/Card';
 import { Input, Select } from '../components/Input';
 import { PaymentForm } from '../components/payment/PaymentForm';
 import { PaymentList } from '../components/payment/PaymentList';
+import { RecordHistory } from '../components/audit/AuditHistory';
 import { Alert } from '../components/Alert';
 import { usePayments } from '../hooks/usePayments';
 import { usePartners } from '../hooks/usePartner';
+import { useSession } from '../hooks/useSession';
+import { exportPaymentsCsv } from '../utils/csv';
+import { queryPayments } from '../utils/pagination';
 import type { Payment } from '../types/payments';
-import { Plus, Search, Trash2 } from 'lucide-react';
+import { Plus, Search, Trash2, Download } from 'lucide-react';
 
 export const Payments: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { partners } = usePartners();
+  const { can } = useSession();
   
   const [filters, setFilters] = useState<{
     partnerId?: number;
     search?: string;
   }>({});
+  const search = useDeferredValue(filters.search);
 
+  // Recherche : partner, note, montant (ordre chronologique conservé)
   const { 
     payments, 
     loading, 
-    createPayment,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    totals,
     error 
   } = usePayments({
-    partnerId: filters.partnerId
+    partnerId: filters.partnerId,
+    search
   });
 
   const [showCreateModal, setShowCreateModal] = useState(false);
+
+  // Création demandée par l'adresse (actions rapides de la palette)
+  const isPrefilledCreate = searchParams.get('new') === '1';
+  const prefillPartnerId = Number(searchParams.get('partnerId')) || undefined;
+  const prefillDirection = searchParams.get('direction');
+  const isCreateOpen = showCreateModal || isPrefilledCreate;
   const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  const [historyPayment, setHistoryPayment] = useState<Payment | null>(null);
 
   // Map partner names
   const partnerNames = partners.reduce((acc, p) => {
@@ -48,23 +70,28 @@ export const Payments: React.FC = () => {
     return acc;
   }, {} as Record<number, string>);
 
-  const filteredPayments = payments.filter(p => {
-    if (filters.search) {
-      const search = filters.search.toLowerCase();
-      const partnerName = partnerNames[p.partnerId]?.toLowerCase() || '';
-      return partnerName.includes(search) || p.note?.toLowerCase().includes(search);
-    }
-    return true;
-  });
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    if (isPrefilledCreate) setSearchParams({}, { replace: true });
+  };
 
   const handleCreateSuccess = () => {
-      setShowCreateModal(false);
+    closeCreateModal();
   };
 
   const handleEditSuccess = () => {
     setEditingPayment(null);
   };
 
+  const handleExport = async () => {
+    try {
+      // Tous les paiements filtrés, pas seulement les pages affichées
+      await exportPaymentsCsv(await queryPayments({ partnerId: filters.partnerId, search }));
+    } catch (err) {
+      console.error('Export error:', err);
+    }
+  };
+
   const handleViewTransaction = (transactionId: number) => {
     navigate(`/transactions/${transactionId}`);
   };
@@ -116,25 +143,34 @@ export const Payments: React.FC = () => {
               }))}
               options={partnerOptions}
             />
+
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Download size={16} />}
+              onClick={handleExport}
+              disabled={!totals?.count}
+              fullWidth
+            >
+              Exporter en CSV
+            </Button>
           </div>
         </Card>
 
         {/* Stats rapides */}
-        {filteredPayments.length > 0 && (
+        {totals && totals.count > 0 && (
           <div className="grid grid-cols-2 gap-4">
             <Card padding="md" className="bg-blue-50">
               <p className="text-sm text-gray-600 mb-1">Total paiements</p>
               <p className="text-2xl font-bold text-blue-600">
-                {filteredPayments.length}
+                {totals.count}
               </p>
             </Card>
 
             <Card padding="md" className="bg-green-50">
               <p className="text-sm text-gray-600 mb-1">Montant total</p>
               <p className="text-2xl font-bold text-green-600">
-                {new Intl.NumberFormat('fr-FR').format(
-                  filteredPayments.reduce((sum, p) => sum + p.amount, 0)
-                )} F
+                {new Intl.NumberFormat('fr-FR').format(totals.amount)} F
               </p>
             </Card>
           </div>
@@ -142,11 +178,16 @@ export const Payments: React.FC = () => {
 
         {/* Liste */}
         <PaymentList
-          payments={filteredPayments}
+          payments={payments}
           loading={loading}
+          totals={totals}
+          hasMore={hasMore}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={loadMore}
           showPartnerName={true}
           partnerNames={partnerNames}
-          onEditPayment={setEditingPayment}
+          onEditPayment={can('EDIT_PAYMENT') ? setEditingPayment : undefined}
+          onViewHistory={setHistoryPayment}
           onViewTransaction={handleViewTransaction}
           emptyMessage={filters.search ? 'Aucun résultat' : 'Aucun paiement'}
         />
@@ -154,14 +195,21 @@ export const Payments: React.FC = () => {
 
       {/* Modal création */}
       <Modal
-        isOpen={showCreateModal}
-        onClose={() => setShowCreateModal(false)}
+        isOpen={isCreateOpen}
+        onClose={closeCreateModal}
         title="Nouveau paiement"
         size="md"
       >
-        <PaymentForm     
+        <PaymentForm
+          key={searchParams.toString()}
+          defaultPartnerId={isPrefilledCreate ? prefillPartnerId : undefined}
+          defaultDirection={
+            isPrefilledCreate && (prefillDirection === 'IN' || prefillDirection === 'OUT')
+              ? prefillDirection
+              : undefined
+          }
           onSuccess={handleCreateSuccess}
-          onCancel={() => setShowCreateModal(false)}
+          onCancel={closeCreateModal}
         />
       </Modal>
 
@@ -180,6 +228,18 @@ export const Payments: React.FC = () => {
           />
         )}
       </Modal>
+
+      {/* Modal historique */}
+      <Modal
+        isOpen={!!historyPayment}
+        onClose={() => setHistoryPayment(null)}
+        title="Historique du paiement"
+        size="md"
+      >
+        {historyPayment && (
+          <RecordHistory table="payments" recordId={historyPayment.id!} />
+        )}
+      </Modal>
     </Layout>
   );
 };
\ No newline at end of file
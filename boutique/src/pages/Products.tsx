@@ -0,0 +1,240 @@
+/**
+ * Products - Catalogue des produits
+ * Features:
+ * - Liste avec recherche (nom + alias)
+ * - Stock actuel + journal des mouvements / inventaire
+ * - Création / édition (modal)
+ * - Suppression avec confirmation
+ */
+
+import React, { useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/Buttons';
+import { Card } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { Input } from '../components/Input';
+import { Modal, ModalFooter } from '../components/Modal';
+import { Alert } from '../components/Alert';
+import { EmptyState } from '../components/EmptyState';
+import { ListSkeleton } from '../components/Loading';
+import { ProductForm } from '../components/product/ProductForm';
+import { StockMovements } from '../components/product/StockMovements';
+import { useProducts } from '../hooks/useProducts';
+import { useStockLevels } from '../hooks/useStock';
+import { useSession } from '../hooks/useSession';
+import type { Product } from '../types/products';
+import { Plus, Search, Package, Edit, Trash2, Boxes } from 'lucide-react';
+
+export const Products: React.FC = () => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const { products, loading, deleteProduct } = useProducts({ searchQuery });
+  const { levels } = useStockLevels();
+  const { can } = useSession();
+
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [deletingProduct, setDeletingProduct] = useState<Product | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [stockProduct, setStockProduct] = useState<Product | null>(null);
+
+  const formatCurrency = (amount?: number) => {
+    if (amount === undefined) return '—';
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deletingProduct) return;
+
+    try {
+      await deleteProduct(deletingProduct.id!);
+      setDeletingProduct(null);
+    } catch (error) {
+      console.error('Delete error:', error);
+      setDeleteError(error instanceof Error ? error.message : 'Erreur de suppression');
+    }
+  };
+
+  const handleDeleteClose = () => {
+    setDeletingProduct(null);
+    setDeleteError(null);
+  };
+
+  return (
+    <Layout
+      title="Catalogue"
+      action={
+        <Button
+          size="sm"
+          leftIcon={<Plus size={18} />}
+          onClick={() => setShowCreateModal(true)}
+        >
+          Nouveau
+        </Button>
+      }
+    >
+      <div className="space-y-4">
+        <Input
+          placeholder="Rechercher un produit..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          leftIcon={<Search size={18} />}
+        />
+
+        {loading ? (
+          <ListSkeleton count={5} />
+        ) : products.length === 0 ? (
+          <EmptyState
+            icon={<Package size={48} />}
+            title={searchQuery ? 'Aucun résultat' : 'Catalogue vide'}
+            description={
+              searchQuery
+                ? 'Essayez avec d\'autres termes de recherche'
+                : 'Ajoutez vos produits pour les retrouver rapidement dans vos transactions'
+            }
+            action={searchQuery ? undefined : {
+              label: 'Nouveau produit',
+              onClick: () => setShowCreateModal(true)
+            }}
+          />
+        ) : (
+          <div className="space-y-3">
+            {products.map((product) => {
+              const stock = levels.get(product.id!) ?? 0;
+              return (
+                <Card key={product.id} padding="md">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <p className="font-semibold text-gray-900 truncate">{product.name}</p>
+                        <Badge size="sm" variant={stock < 0 ? 'danger' : stock === 0 ? 'warning' : 'success'}>
+                          {stock}{product.unit ? ` ${product.unit}` : ''}
+                        </Badge>
+                      </div>
+
+                      <div className="flex gap-4 text-sm text-gray-600">
+                        <span>Vente : <span className="font-mono">{formatCurrency(product.salePrice)}</span></span>
+                        <span>Achat : <span className="font-mono">{formatCurrency(product.purchasePrice)}</span></span>
+                      </div>
+
+                      {product.aliases && product.aliases.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                          Aussi : {product.aliases.join(', ')}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex gap-1 shrink-0">
+                      <button
+                        onClick={() => setStockProduct(product)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        aria-label="Stock"
+                      >
+                        <Boxes size={18} />
+                      </button>
+                      <button
+                        onClick={() => setEditingProduct(product)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        aria-label="Modifier"
+                      >
+                        <Edit size={18} />
+                      </button>
+                      {can('DELETE') && (
+                        <button
+                          onClick={() => setDeletingProduct(product)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          aria-label="Supprimer"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+
+            <div className="text-sm text-gray-500 text-center pt-2">
+              {products.length} produit{products.length > 1 ? 's' : ''}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Modal création */}
+      <Modal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        title="Nouveau produit"
+        size="md"
+      >
+        <ProductForm
+          onSuccess={() => setShowCreateModal(false)}
+          onCancel={() => setShowCreateModal(false)}
+        />
+      </Modal>
+
+      {/* Modal édition */}
+      <Modal
+        isOpen={!!editingProduct}
+        onClose={() => setEditingProduct(null)}
+        title="Modifier le produit"
+        size="md"
+      >
+        {editingProduct && (
+          <ProductForm
+            product={editingProduct}
+            onSuccess={() => setEditingProduct(null)}
+            onCancel={() => setEditingProduct(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Modal stock */}
+      <Modal
+        isOpen={!!stockProduct}
+        onClose={() => setStockProduct(null)}
+        title={stockProduct ? `Stock — ${stockProduct.name}` : 'Stock'}
+        size="md"
+      >
+        {stockProduct && <StockMovements product={stockProduct} />}
+      </Modal>
+
+      {/* Modal confirmation suppression */}
+      <Modal
+        isOpen={!!deletingProduct}
+        onClose={handleDeleteClose}
+        title="Confirmer la suppression"
+        size="sm"
+      >
+        {deleteError ? (
+          <Alert variant="danger">{deleteError}</Alert>
+        ) : (
+          <Alert variant="warning">
+            Supprimer « {deletingProduct?.name} » du catalogue ?
+            Seul un produit sans mouvement de stock peut être supprimé.
+          </Alert>
+        )}
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={handleDeleteClose}
+          >
+            Annuler
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDeleteConfirm}
+            leftIcon={<Trash2 size={16} />}
+            disabled={!!deleteError}
+          >
+            Supprimer
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Layout>
+  );
+};
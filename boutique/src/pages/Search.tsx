@@ -0,0 +1,191 @@
+/**
+ * Search - Recherche globale
+ * Features:
+ * - Une seule saisie pour les partners, transactions, paiements et produits
+ * - Accents et fautes de frappe tolérés, résultats classés par pertinence
+ * - Actions rapides (« vente Aïssa ») : formulaire pré-rempli
+ * - Recherche conservée dans l'adresse (?q=) : retour arrière sans perte
+ */
+
+import React, { useDeferredValue } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Layout } from '../components/Layout';
+import { Card } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { Input } from '../components/Input';
+import { EmptyState } from '../components/EmptyState';
+import { ListSkeleton } from '../components/Loading';
+import { useGlobalSearch } from '../hooks/useSearch';
+import { getPartnerPath } from '../utils/quickActions';
+import type { Partner } from '../types/partners';
+import { Search as SearchIcon, Users, Receipt, DollarSign, Package, Zap } from 'lucide-react';
+
+const TYPE_LABELS: Record<Partner['type'], string> = {
+  CLIENT: 'Client',
+  SUPPLIER: 'Fournisseur',
+  BOTH: 'Client & Fournisseur'
+};
+
+interface ResultSectionProps {
+  title: string;
+  icon: React.ReactNode;
+  count: number;
+  children: React.ReactNode;
+}
+
+const ResultSection: React.FC<ResultSectionProps> = ({ title, icon, count, children }) => {
+  if (count === 0) return null;
+
+  return (
+    <section>
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-500 uppercase mb-2">
+        {icon} {title} ({count})
+      </h2>
+      <div className="space-y-2">{children}</div>
+    </section>
+  );
+};
+
+export const Search: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+  const deferredQuery = useDeferredValue(query);
+  const { results, loading } = useGlobalSearch(deferredQuery);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  const handleQueryChange = (value: string) => {
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+  };
+
+  return (
+    <Layout title="Recherche">
+      <div className="space-y-6">
+        <Input
+          placeholder="Nom, téléphone, article, note..."
+          value={query}
+          onChange={(e) => handleQueryChange(e.target.value)}
+          leftIcon={<SearchIcon size={18} />}
+          autoFocus
+          autoComplete="off"
+        />
+
+        {!deferredQuery.trim() ? (
+          <EmptyState
+            icon={<SearchIcon size={48} />}
+            title="Rechercher dans la boutique"
+            description="Partners, ventes, achats, paiements et produits. Les accents et petites fautes de frappe sont tolérés."
+          />
+        ) : loading ? (
+          <ListSkeleton />
+        ) : results.total === 0 && results.actions.length === 0 ? (
+          <EmptyState
+            icon={<SearchIcon size={48} />}
+            title="Aucun résultat"
+            description={`Rien ne correspond à « ${deferredQuery} »`}
+          />
+        ) : (
+          <>
+            <ResultSection title="Actions rapides" icon={<Zap size={16} />} count={results.actions.length}>
+              {results.actions.map(action => (
+                <Card key={action.path} padding="sm" onClick={() => navigate(action.path)}>
+                  <p className="font-medium text-blue-600">{action.label}</p>
+                </Card>
+              ))}
+            </ResultSection>
+
+            <ResultSection title="Partners" icon={<Users size={16} />} count={results.partners.length}>
+              {results.partners.map(partner => (
+                <Card key={partner.id} padding="sm" onClick={() => navigate(getPartnerPath(partner.id!, partner.type))}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{partner.name}</p>
+                      {partner.phone && <p className="text-sm text-gray-600">{partner.phone}</p>}
+                    </div>
+                    <Badge>{TYPE_LABELS[partner.type]}</Badge>
+                  </div>
+                </Card>
+              ))}
+            </ResultSection>
+
+            <ResultSection title="Transactions" icon={<Receipt size={16} />} count={results.transactions.length}>
+              {results.transactions.map(({ transaction, partnerName }) => (
+                <Card key={transaction.id} padding="sm" onClick={() => navigate(`/transactions/${transaction.id}`)}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{partnerName}</p>
+                      <p className="text-sm text-gray-600 truncate">
+                        {formatDate(transaction.date)}
+                        {transaction.note && ` · ${transaction.note}`}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="font-semibold text-gray-900">{formatCurrency(transaction.total)}</p>
+                      <Badge variant={transaction.direction === 'SALE' ? 'success' : 'info'}>
+                        {transaction.direction === 'SALE' ? 'Vente' : 'Achat'}
+                      </Badge>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </ResultSection>
+
+            <ResultSection title="Paiements" icon={<DollarSign size={16} />} count={results.payments.length}>
+              {results.payments.map(({ payment, partnerName, partnerType }) => (
+                <Card key={payment.id} padding="sm" onClick={() => navigate(getPartnerPath(payment.partnerId, partnerType))}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{partnerName}</p>
+                      <p className="text-sm text-gray-600 truncate">
+                        {formatDate(payment.date)}
+                        {payment.note && ` · ${payment.note}`}
+                      </p>
+                    </div>
+                    <p className={`font-semibold shrink-0 ${payment.direction === 'IN' ? 'text-green-600' : 'text-red-600'}`}>
+                      {payment.direction === 'IN' ? '+' : '-'}{formatCurrency(payment.amount)}
+                    </p>
+                  </div>
+                </Card>
+              ))}
+            </ResultSection>
+
+            <ResultSection title="Produits" icon={<Package size={16} />} count={results.products.length}>
+              {results.products.map(product => (
+                <Card key={product.id} padding="sm" onClick={() => navigate('/products')}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{product.name}</p>
+                      {product.aliases && product.aliases.length > 0 && (
+                        <p className="text-sm text-gray-500 truncate">{product.aliases.join(', ')}</p>
+                      )}
+                    </div>
+                    {product.salePrice !== undefined && (
+                      <p className="text-sm text-gray-700 shrink-0">
+                        {formatCurrency(product.salePrice)}{product.unit && ` / ${product.unit}`}
+                      </p>
+                    )}
+                  </div>
+                </Card>
+              ))}
+            </ResultSection>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
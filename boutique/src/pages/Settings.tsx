@@ -0,0 +1,330 @@
+/**
+ * Settings - Paramètres de la boutique
+ * Features:
+ * - Nom, téléphone, adresse (en-tête des factures)
+ * - Libellé de la devise
+ * - Logo (compressé, stocké en base64)
+ * - Accès à la sauvegarde
+ * - Vérification / reconstruction des soldes enregistrés
+ */
+
+import React, { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/Buttons';
+import { Card, CardHeader, CardContent } from '../components/Card';
+import { Input, Textarea } from '../components/Input';
+import { Alert } from '../components/Alert';
+import { CardSkeleton } from '../components/Loading';
+import { useBusinessSettings } from '../hooks/useSettings';
+import { useBalanceCheck } from '../hooks/useBalances';
+import { compressImage, blobToBase64, isValidImage } from '../utils/image';
+import type { BusinessSettings } from '../types/settings';
+import {
+  Store,
+  Phone,
+  Coins,
+  Image as ImageIcon,
+  Upload,
+  X,
+  Save,
+  DatabaseBackup,
+  ChevronRight,
+  Scale,
+  Wrench
+} from 'lucide-react';
+
+// Formulaire monté une fois les paramètres chargés (état initial = valeurs en base)
+const BusinessSettingsForm: React.FC<{
+  settings: BusinessSettings;
+  onSave: (updates: BusinessSettings) => Promise<void>;
+}> = ({ settings, onSave }) => {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const [formData, setFormData] = useState<BusinessSettings>(settings);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [logoError, setLogoError] = useState<string | null>(null);
+
+  const handleChange = (field: keyof BusinessSettings, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setSuccessMessage(null);
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLogoError(null);
+
+    if (!isValidImage(file)) {
+      setLogoError('Format non supporté. Utilisez JPEG, PNG ou WebP');
+      return;
+    }
+
+    try {
+      const compressed = await compressImage(file, {
+        maxWidth: 400,
+        maxHeight: 400,
+        mimeType: 'image/png'
+      });
+      handleChange('businessLogo', await blobToBase64(compressed));
+    } catch (err) {
+      console.error('Logo error:', err);
+      setLogoError('Impossible de lire cette image');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    setSuccessMessage(null);
+
+    try {
+      await onSave(formData);
+      setSuccessMessage('Paramètres enregistrés');
+    } catch (err) {
+      console.error('Settings error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      {successMessage && (
+        <Alert variant="success" onClose={() => setSuccessMessage(null)}>
+          {successMessage}
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader
+          title="Ma boutique"
+          subtitle="Ces informations apparaissent sur vos factures"
+        />
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              label="Nom de la boutique *"
+              placeholder="Ex: Boutique Centrale"
+              value={formData.businessName}
+              onChange={(e) => handleChange('businessName', e.target.value)}
+              leftIcon={<Store size={18} />}
+              disabled={isSubmitting}
+            />
+
+            <Input
+              label="Téléphone"
+              type="tel"
+              placeholder="Ex: +228 90 12 34 56"
+              value={formData.businessPhone}
+              onChange={(e) => handleChange('businessPhone', e.target.value)}
+              leftIcon={<Phone size={18} />}
+              helperText="Facultatif"
+              disabled={isSubmitting}
+            />
+
+            <Textarea
+              label="Adresse"
+              placeholder="Quartier, ville..."
+              value={formData.businessAddress}
+              onChange={(e) => handleChange('businessAddress', e.target.value)}
+              rows={2}
+              helperText="Facultatif"
+              disabled={isSubmitting}
+            />
+
+            <Input
+              label="Devise *"
+              placeholder="FCFA"
+              value={formData.currencyLabel}
+              onChange={(e) => handleChange('currencyLabel', e.target.value)}
+              leftIcon={<Coins size={18} />}
+              helperText="Libellé affiché après les montants sur les factures"
+              disabled={isSubmitting}
+            />
+
+            {/* Logo */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Logo
+              </label>
+
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                onChange={handleLogoChange}
+                className="hidden"
+              />
+
+              <div className="flex items-center gap-4">
+                <div className="w-20 h-20 shrink-0 border border-gray-200 rounded-lg bg-gray-50 flex items-center justify-center overflow-hidden">
+                  {formData.businessLogo ? (
+                    <img
+                      src={formData.businessLogo}
+                      alt="Logo"
+                      className="w-full h-full object-contain"
+                    />
+                  ) : (
+                    <ImageIcon size={28} className="text-gray-300" />
+                  )}
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    leftIcon={<Upload size={16} />}
+                    onClick={() => logoInputRef.current?.click()}
+                    disabled={isSubmitting}
+                  >
+                    {formData.businessLogo ? 'Changer' : 'Ajouter un logo'}
+                  </Button>
+                  {formData.businessLogo && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      leftIcon={<X size={16} />}
+                      onClick={() => handleChange('businessLogo', '')}
+                      disabled={isSubmitting}
+                    >
+                      Retirer
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {logoError && (
+                <p className="mt-1 text-sm text-red-600">{logoError}</p>
+              )}
+            </div>
+
+            <div className="pt-4">
+              <Button
+                type="submit"
+                isLoading={isSubmitting}
+                leftIcon={<Save size={18} />}
+                fullWidth
+              >
+                Enregistrer
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
+
+// Vérification des soldes (table balances) et reconstruction en cas d'écart
+const BalanceMaintenanceCard: React.FC = () => {
+  const { isProcessing, error, result, verify, rebuild } = useBalanceCheck();
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const handleRun = async (repair: boolean) => {
+    try {
+      await (repair ? rebuild() : verify());
+    } catch (err) {
+      console.error('Balance check error:', err);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Soldes"
+        subtitle="Les soldes sont tenus à jour à chaque vente, achat ou paiement"
+      />
+      <CardContent>
+        <div className="space-y-4">
+          {error && <Alert variant="danger">{error}</Alert>}
+
+          {result && (result.mismatches.length === 0 || result.repaired ? (
+            <Alert variant="success">
+              {result.repaired
+                ? `Soldes recalculés (${result.mismatches.length} corrigé${result.mismatches.length > 1 ? 's' : ''})`
+                : `${result.partnerCount} solde${result.partnerCount > 1 ? 's' : ''} vérifié${result.partnerCount > 1 ? 's' : ''} : aucun écart`}
+            </Alert>
+          ) : (
+            <Alert variant="warning" title={`${result.mismatches.length} solde${result.mismatches.length > 1 ? 's' : ''} à corriger`}>
+              <ul className="mt-1 space-y-1">
+                {result.mismatches.slice(0, 10).map(m => (
+                  <li key={m.partnerId}>
+                    {m.partnerName} : {formatCurrency(m.stored.balance)} enregistré, {formatCurrency(m.actual.balance)} recalculé
+                  </li>
+                ))}
+              </ul>
+            </Alert>
+          ))}
+
+          <div className="flex flex-wrap gap-3">
+            <Button
+              variant="secondary"
+              leftIcon={<Scale size={18} />}
+              onClick={() => handleRun(false)}
+              disabled={isProcessing}
+            >
+              Vérifier
+            </Button>
+            <Button
+              variant="secondary"
+              leftIcon={<Wrench size={18} />}
+              onClick={() => handleRun(true)}
+              isLoading={isProcessing}
+            >
+              Recalculer
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const Settings: React.FC = () => {
+  const navigate = useNavigate();
+  const { settings, loading, error, saveSettings } = useBusinessSettings();
+
+  return (
+    <Layout title="Paramètres">
+      <div className="space-y-6 max-w-2xl mx-auto">
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {loading ? (
+          <CardSkeleton />
+        ) : (
+          <BusinessSettingsForm settings={settings} onSave={saveSettings} />
+        )}
+
+        {/* Données */}
+        <Card hoverable onClick={() => navigate('/backup')}>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gray-100 rounded-lg">
+              <DatabaseBackup size={20} className="text-gray-600" />
+            </div>
+            <div className="flex-1">
+              <p className="font-semibold text-gray-900">Sauvegarde</p>
+              <p className="text-sm text-gray-600">Exporter ou restaurer vos données</p>
+            </div>
+            <ChevronRight size={20} className="text-gray-400" />
+          </div>
+        </Card>
+
+        <BalanceMaintenanceCard />
+      </div>
+    </Layout>
+  );
+};
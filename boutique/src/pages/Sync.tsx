@@ -0,0 +1,260 @@
+/**
+ * Sync - Synchronisation entre appareils
+ * Features:
+ * - Configuration du serveur et du code boutique (propriétaire uniquement)
+ * - État : modifications en attente, dernière synchronisation, dernière erreur
+ * - Synchronisation manuelle (automatique en arrière-plan une fois activée)
+ */
+
+import React, { useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/Buttons';
+import { Card, CardHeader, CardContent } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { Input } from '../components/Input';
+import { Modal, ModalFooter } from '../components/Modal';
+import { Alert } from '../components/Alert';
+import { ListSkeleton } from '../components/Loading';
+import { useSync } from '../hooks/useSync';
+import { useSession } from '../hooks/useSession';
+import { MIN_SHOP_CODE_LENGTH } from '../utils/sync';
+import type { SyncResult } from '../types/sync';
+import { RefreshCw, Server, KeyRound, CloudOff } from 'lucide-react';
+
+export const Sync: React.FC = () => {
+  const { status, loading, error, isSyncing, saveConfig, disable, synchronize } = useSync();
+  const { can } = useSession();
+
+  const [serverUrlInput, setServerUrlInput] = useState<string | null>(null);
+  const [shopCode, setShopCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<SyncResult | null>(null);
+  const [showDisableConfirm, setShowDisableConfirm] = useState(false);
+
+  const serverUrl = serverUrlInput ?? status?.serverUrl ?? '';
+  const canManage = can('MANAGE_SYNC');
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString('fr-FR', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const handleSync = async () => {
+    setResult(null);
+
+    try {
+      setResult(await synchronize());
+    } catch (err) {
+      console.error('Sync error:', err);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await saveConfig(serverUrl, shopCode);
+      setShopCode('');
+      setServerUrlInput(null);
+      await handleSync();
+    } catch (err) {
+      console.error('Sync config error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    try {
+      await disable();
+      setResult(null);
+    } catch (err) {
+      console.error('Sync disable error:', err);
+    } finally {
+      setShowDisableConfirm(false);
+    }
+  };
+
+  return (
+    <Layout
+      title="Synchronisation"
+      action={status?.enabled && (
+        <Button
+          size="sm"
+          leftIcon={<RefreshCw size={18} />}
+          onClick={handleSync}
+          isLoading={isSyncing}
+        >
+          Synchroniser
+        </Button>
+      )}
+    >
+      <div className="space-y-6 max-w-2xl mx-auto">
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {result && (
+          <Alert variant="success" title="Synchronisation terminée" onClose={() => setResult(null)}>
+            {result.pushed} modification{result.pushed > 1 ? 's' : ''} envoyée{result.pushed > 1 ? 's' : ''}
+            , {result.pulled} reçue{result.pulled > 1 ? 's' : ''}.
+          </Alert>
+        )}
+
+        {loading || !status ? (
+          <ListSkeleton count={2} />
+        ) : (
+          <>
+            {/* État */}
+            {status.enabled && (
+              <Card>
+                <CardHeader
+                  title="État"
+                  subtitle={status.serverUrl}
+                  action={<Badge variant={status.lastError ? 'warning' : 'success'}>{status.lastError ? 'Erreur' : 'Active'}</Badge>}
+                />
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-3 mb-4 text-center">
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-2xl font-bold text-gray-900">{status.pending}</p>
+                      <p className="text-xs text-gray-600">En attente d'envoi</p>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-sm font-semibold text-gray-900 py-1.5">
+                        {status.lastSyncAt ? formatDate(status.lastSyncAt) : 'Jamais'}
+                      </p>
+                      <p className="text-xs text-gray-600">Dernière synchronisation</p>
+                    </div>
+                  </div>
+
+                  {status.lastError && (
+                    <Alert variant="warning">
+                      {status.lastError}. Les saisies restent enregistrées sur ce téléphone
+                      et seront envoyées au retour de la connexion.
+                    </Alert>
+                  )}
+
+                  <p className="text-xs text-gray-500 mt-3">
+                    Appareil : <span className="font-mono">{status.deviceId}</span>
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Configuration */}
+            <Card>
+              <CardHeader
+                title="Serveur de synchronisation"
+                subtitle="Suivez la boutique depuis plusieurs téléphones : chacun envoie ses saisies et reçoit celles des autres"
+              />
+              <CardContent>
+                {!canManage ? (
+                  <Alert variant="info">
+                    La configuration de la synchronisation est réservée au propriétaire.
+                  </Alert>
+                ) : (
+                  <form onSubmit={handleSave} className="space-y-4">
+                    <Input
+                      label="Adresse du serveur"
+                      placeholder="http://192.168.1.10:8787"
+                      value={serverUrl}
+                      onChange={(e) => setServerUrlInput(e.target.value)}
+                      leftIcon={<Server size={18} />}
+                      inputMode="url"
+                      disabled={isSaving}
+                    />
+
+                    <Input
+                      type="password"
+                      label="Code boutique"
+                      placeholder={status.enabled ? 'Inchangé' : `Au moins ${MIN_SHOP_CODE_LENGTH} caractères`}
+                      value={shopCode}
+                      onChange={(e) => setShopCode(e.target.value)}
+                      leftIcon={<KeyRound size={18} />}
+                      helperText="Le même code sur tous les téléphones de la boutique. Gardez-le secret : il donne accès aux données."
+                      autoComplete="off"
+                      disabled={isSaving}
+                    />
+
+                    <div className="flex gap-3">
+                      {status.enabled && (
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          leftIcon={<CloudOff size={16} />}
+                          onClick={() => setShowDisableConfirm(true)}
+                          disabled={isSaving}
+                          fullWidth
+                        >
+                          Désactiver
+                        </Button>
+                      )}
+                      <Button
+                        type="submit"
+                        isLoading={isSaving}
+                        disabled={!serverUrl || shopCode.length < MIN_SHOP_CODE_LENGTH}
+                        fullWidth
+                      >
+                        {status.enabled ? 'Enregistrer' : 'Activer'}
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader title="Mise en place" />
+              <CardContent>
+                <ol className="text-sm text-gray-600 list-decimal pl-5 space-y-1">
+                  <li>
+                    Sur un ordinateur de la boutique, lancez <code className="font-mono text-xs bg-gray-100 px-1 rounded">npm run sync-server</code>
+                  </li>
+                  <li>Saisissez son adresse et un code boutique sur ce téléphone, puis sur celui du propriétaire</li>
+                  <li>La synchronisation se fait ensuite toute seule, et reprend au retour du réseau</li>
+                </ol>
+                <p className="text-xs text-gray-500 mt-3">
+                  Si le même enregistrement est modifié sur deux téléphones, la modification la plus récente l'emporte.
+                  Profils, journal d'audit et paramètres restent propres à chaque téléphone.
+                </p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* Modal confirmation désactivation */}
+      <Modal
+        isOpen={showDisableConfirm}
+        onClose={() => setShowDisableConfirm(false)}
+        title="Désactiver la synchronisation"
+        size="sm"
+      >
+        <Alert variant="warning">
+          Ce téléphone n'enverra plus ses saisies et ne recevra plus celles des autres.
+          Les données déjà présentes sont conservées.
+        </Alert>
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setShowDisableConfirm(false)}
+          >
+            Annuler
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDisable}
+            leftIcon={<CloudOff size={16} />}
+          >
+            Désactiver
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Layout>
+  );
+};
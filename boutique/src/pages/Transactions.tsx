@@ -1,69 +1,69 @@
 /**
  * Transactions - Page de gestion des transactions
  * Features:
- * - Liste transactions avec filtres
+ * - Liste transactions avec filtres (dont "en retard" : échéance dépassée),
+ *   pages chargées au défilement, liste virtualisée
  * - Création transaction (page dédiée)
- * - Édition (si même jour)
+ * - Édition (si même jour), avoirs signalés
+ * - Export CSV des transactions filtrées (une ligne par transaction ou par article)
  */
 
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useDeferredValue, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import { Button } from '../components/Buttons';
 import { Card } from '../components/Card';
 import { Badge } from '../components/Badge';
 import { Input, Select } from '../components/Input';
+import { Modal, ModalFooter } from '../components/Modal';
 import { EmptyState } from '../components/EmptyState';
 import { ListSkeleton } from '../components/Loading';
-import { useTransactions } from '../hooks/useTransactions';
+import { VirtualList } from '../components/VirtualList';
+import { useTransactions, useOverdueTransactions } from '../hooks/useTransactions';
+import { useSettlements } from '../hooks/usePayments';
 import { usePartners } from '../hooks/usePartner';
-import type { Direction } from '../types/transaction';
-import { Plus, Search, Receipt, Calendar } from 'lucide-react';
+import { getDocumentDirection, isCreditNote } from '../utils/creditNote';
+import { exportTransactionsCsv } from '../utils/csv';
+import { queryTransactions } from '../utils/pagination';
+import type { Direction, Transaction } from '../types/transaction';
+import type { TransactionSettlement } from '../types/payments';
+import { Plus, Search, Receipt, Calendar, Clock, Download } from 'lucide-react';
 
 export const Transactions: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { partners } = usePartners();
+  const { overdueIds } = useOverdueTransactions();
   
   const [filters, setFilters] = useState<{
     partnerId?: number;
     direction?: Direction;
     search?: string;
-  }>({});
+    overdue?: boolean;
+  }>({ overdue: searchParams.get('filter') === 'overdue' || undefined });
 
-  const { transactions, loading } = useTransactions({
-    partnerId: filters.partnerId,
-    direction: filters.direction
-  });
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exportPerItem, setExportPerItem] = useState(false);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('fr-FR', {
-      style: 'decimal',
-      minimumFractionDigits: 0
-    }).format(amount) + ' F';
+  // Recherche : partner, note, articles, texte OCR (ordre chronologique conservé)
+  const search = useDeferredValue(filters.search);
+  const listFilters = {
+    partnerId: filters.partnerId,
+    direction: filters.direction,
+    search,
+    overdue: filters.overdue
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString('fr-FR', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric'
-    });
-  };
+  const { transactions, loading, hasMore, isLoadingMore, loadMore, total } = useTransactions(listFilters);
+
+  // Règlements calculés pour les partners des lignes chargées uniquement
+  const { settlements } = useSettlements([...new Set(transactions.map(tx => tx.partnerId))]);
 
   const getPartnerName = (partnerId: number) => {
     const partner = partners.find(p => p.id === partnerId);
     return partner?.name || 'Inconnu';
   };
 
-  const filteredTransactions = transactions.filter(tx => {
-    if (filters.search) {
-      const search = filters.search.toLowerCase();
-      const partnerName = getPartnerName(tx.partnerId).toLowerCase();
-      return partnerName.includes(search) || tx.note?.toLowerCase().includes(search);
-    }
-    return true;
-  });
-
   const partnerOptions = [
     { value: '', label: 'Tous les partners' },
     ...partners.map(p => ({ 
@@ -78,6 +78,21 @@ export const Transactions: React.FC = () => {
     { value: 'PURCHASE', label: 'Achats' }
   ];
 
+  const handleExport = async () => {
+    try {
+      // Toutes les transactions filtrées, pas seulement les pages affichées
+      await exportTransactionsCsv(await queryTransactions(listFilters), exportPerItem);
+      setShowExportModal(false);
+    } catch (err) {
+      console.error('Export error:', err);
+    }
+  };
+
+  const statusOptions = [
+    { value: '', label: 'Tous les statuts' },
+    { value: 'overdue', label: 'En retard' }
+  ];
+
   return (
     <Layout 
       title="Transactions"
@@ -121,87 +136,227 @@ export const Transactions: React.FC = () => {
                 options={directionOptions}
               />
             </div>
+
+            <Select
+              value={filters.overdue ? 'overdue' : ''}
+              onChange={(e) => setFilters(prev => ({ 
+                ...prev, 
+                overdue: e.target.value === 'overdue' || undefined 
+              }))}
+              options={statusOptions}
+            />
+
+            <Button
+              variant="secondary"
+              size="sm"
+              leftIcon={<Download size={16} />}
+              onClick={() => setShowExportModal(true)}
+              disabled={!total}
+              fullWidth
+            >
+              Exporter en CSV
+            </Button>
           </div>
         </Card>
 
         {/* Liste */}
         {loading ? (
           <ListSkeleton count={5} />
-        ) : filteredTransactions.length === 0 ? (
+        ) : transactions.length === 0 ? (
           <EmptyState
             icon={<Receipt size={48} />}
-            title="Aucune transaction"
-            description="Commencez par créer votre première transaction"
-            action={{
+            title={filters.overdue ? 'Aucun retard' : 'Aucune transaction'}
+            description={filters.overdue
+              ? 'Aucune transaction n\'a dépassé son échéance'
+              : 'Commencez par créer votre première transaction'}
+            action={filters.overdue ? undefined : {
               label: 'Nouvelle transaction',
               onClick: () => navigate('/transactions/new')
             }}
           />
         ) : (
-          <div className="space-y-3">
-            {filteredTransactions.map((tx) => (
-              <Card
-                key={tx.id}
-                hoverable
-                onClick={() => navigate(`/transactions/${tx.id}`)}
-                className="cursor-pointer"
-              >
-                <div className="flex items-center justify-between gap-4">
-                  {/* Info principale */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Badge variant={tx.direction === 'SALE' ? 'success' : 'warning'}>
-                        {tx.direction === 'SALE' ? '📤 Vente' : '📥 Achat'}
-                      </Badge>
-                      {tx.imageUrl && (
-                        <Badge variant="info" size="sm">📷</Badge>
-                      )}
-                    </div>
-
-                    <p className="font-semibold text-gray-900 truncate">
-                      {getPartnerName(tx.partnerId)}
-                    </p>
-
-                    <div className="flex items-center gap-2 text-sm text-gray-600 mt-1">
-                      <Calendar size={14} />
-                      <span>{formatDate(tx.date)}</span>
-                    </div>
-
-                    {tx.note && (
-                      <p className="text-sm text-gray-500 mt-1 truncate">
-                        {tx.note}
-                      </p>
-                    )}
-                  </div>
-
-                  {/* Montants */}
-                  <div className="text-right">
-                    <p className="text-lg font-bold text-gray-900">
-                      {formatCurrency(tx.total)}
-                    </p>
-                    <p className="text-sm text-gray-600">
-                      Payé: {formatCurrency(tx.paid)}
-                    </p>
-                    {tx.paid < tx.total && (
-                      <p className="text-xs text-red-600 font-medium mt-1">
-                        Reste: {formatCurrency(tx.total - tx.paid)}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              </Card>
-            ))}
-          </div>
+          <VirtualList
+            items={transactions}
+            getKey={tx => tx.id!}
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onEndReached={loadMore}
+            renderItem={(tx) => (
+              <TransactionRow
+                transaction={tx}
+                partnerName={getPartnerName(tx.partnerId)}
+                settlement={settlements.get(tx.id!)}
+                isOverdue={overdueIds.has(tx.id!)}
+                onOpen={() => navigate(`/transactions/${tx.id}`)}
+              />
+            )}
+          />
         )}
 
         {/* Stats */}
-        {filteredTransactions.length > 0 && (
+        {!!total && (
           <div className="text-sm text-gray-500 text-center pt-2">
-            {filteredTransactions.length} transaction{filteredTransactions.length > 1 ? 's' : ''}
-            {filters.search && ` (${transactions.length} au total)`}
+            {total} transaction{total > 1 ? 's' : ''}
+            {hasMore && ` (${transactions.length} affichées)`}
           </div>
         )}
       </div>
+
+      {/* Modal export CSV */}
+      <Modal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        title="Exporter en CSV"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {total ?? 0} transaction{(total ?? 0) > 1 ? 's' : ''} (filtres appliqués),
+            au format tableur (Excel, LibreOffice).
+          </p>
+
+          <Select
+            label="Présentation"
+            value={exportPerItem ? 'items' : 'transactions'}
+            onChange={(e) => setExportPerItem(e.target.value === 'items')}
+            options={[
+              { value: 'transactions', label: 'Une ligne par transaction' },
+              { value: 'items', label: 'Une ligne par article' }
+            ]}
+          />
+        </div>
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setShowExportModal(false)}
+          >
+            Annuler
+          </Button>
+          <Button
+            onClick={handleExport}
+            leftIcon={<Download size={16} />}
+          >
+            Télécharger
+          </Button>
+        </ModalFooter>
+      </Modal>
     </Layout>
   );
-};
\ No newline at end of file
+};
+
+interface TransactionRowProps {
+  transaction: Transaction;
+  partnerName: string;
+  settlement?: TransactionSettlement;
+  isOverdue: boolean;
+  onOpen: () => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'decimal',
+    minimumFractionDigits: 0
+  }).format(amount) + ' F';
+};
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric'
+  });
+};
+
+/**
+ * Ligne de la liste : sens, partner, échéance, montants et avancement du règlement
+ */
+const TransactionRow: React.FC<TransactionRowProps> = ({
+  transaction: tx,
+  partnerName,
+  settlement,
+  isOverdue,
+  onOpen
+}) => {
+  const paidTotal = settlement?.paidTotal ?? tx.paid;
+  const credited = settlement?.credited ?? 0;
+  const remaining = settlement?.remaining ?? Math.max(0, tx.total - tx.paid);
+
+  return (
+    <Card
+      hoverable
+      onClick={onOpen}
+      className="cursor-pointer"
+    >
+      <div className="flex items-center justify-between gap-4">
+        {/* Info principale */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-2">
+            {isCreditNote(tx) ? (
+              <Badge variant="info">
+                ↩️ Avoir {getDocumentDirection(tx) === 'SALE' ? 'client' : 'fournisseur'}
+              </Badge>
+            ) : (
+              <Badge variant={tx.direction === 'SALE' ? 'success' : 'warning'}>
+                {tx.direction === 'SALE' ? '📤 Vente' : '📥 Achat'}
+              </Badge>
+            )}
+            {credited > 0 && !isCreditNote(tx) && (
+              <Badge variant="info" size="sm">Avoir {formatCurrency(credited)}</Badge>
+            )}
+            {tx.imageUrl && (
+              <Badge variant="info" size="sm">📷</Badge>
+            )}
+            {isOverdue && (
+              <Badge variant="danger" size="sm">En retard</Badge>
+            )}
+          </div>
+
+          <p className="font-semibold text-gray-900 truncate">
+            {partnerName}
+          </p>
+
+          <div className="flex items-center gap-2 text-sm text-gray-600 mt-1">
+            <Calendar size={14} />
+            <span>{formatDate(tx.date)}</span>
+            {tx.createdBy && <span className="text-gray-400">· {tx.createdBy}</span>}
+          </div>
+
+          {tx.dueDate && remaining > 0 && (
+            <div className={`flex items-center gap-2 text-sm mt-1 ${isOverdue ? 'text-red-600' : 'text-gray-600'}`}>
+              <Clock size={14} />
+              <span>Échéance : {formatDate(tx.dueDate)}</span>
+            </div>
+          )}
+
+          {tx.note && (
+            <p className="text-sm text-gray-500 mt-1 truncate">
+              {tx.note}
+            </p>
+          )}
+        </div>
+
+        {/* Montants */}
+        <div className="text-right">
+          <p className="text-lg font-bold text-gray-900">
+            {formatCurrency(tx.total)}
+          </p>
+          <p className="text-sm text-gray-600">
+            Payé: {formatCurrency(paidTotal)}
+          </p>
+          {remaining > 0 && (
+            <p className="text-xs text-red-600 font-medium mt-1">
+              Reste: {formatCurrency(remaining)}
+            </p>
+          )}
+          <div className="w-24 ml-auto h-1.5 bg-gray-200 rounded-full overflow-hidden mt-2">
+            <div
+              className={`h-full ${remaining <= 0 ? 'bg-green-500' : 'bg-orange-500'}`}
+              style={{ width: `${Math.min(100, ((paidTotal + credited) / tx.total) * 100)}%` }}
+            />
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
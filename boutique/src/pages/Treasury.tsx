@@ -0,0 +1,271 @@
+/**
+ * Treasury - Trésorerie : où se trouve l'argent
+ * Features:
+ * - Solde par compte (caisse, mobile money, banque) + total
+ * - Journal des mouvements d'un compte
+ * - Virements entre comptes
+ * - Création / édition / archivage des comptes
+ */
+
+import React, { useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/Buttons';
+import { Card } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { Modal, ModalFooter } from '../components/Modal';
+import { Alert } from '../components/Alert';
+import { EmptyState } from '../components/EmptyState';
+import { ListSkeleton } from '../components/Loading';
+import { AccountForm } from '../components/treasury/AccountForm';
+import { AccountJournal } from '../components/treasury/AccountJournal';
+import { TransferForm } from '../components/treasury/TransferForm';
+import { useAccountBalances, useTreasuryAccounts } from '../hooks/useTreasury';
+import { useSession } from '../hooks/useSession';
+import { ACCOUNT_TYPE_LABELS } from '../utils/treasury';
+import type { TreasuryAccount, TreasuryAccountType } from '../types/treasury';
+import { Plus, Wallet, Banknote, Smartphone, Landmark, ArrowLeftRight, Edit, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
+
+const ACCOUNT_ICONS: Record<TreasuryAccountType, React.ElementType> = {
+  CASH: Banknote,
+  MOBILE_MONEY: Smartphone,
+  BANK: Landmark
+};
+
+export const Treasury: React.FC = () => {
+  const { balances, total, loading } = useAccountBalances(true);
+  const { updateAccount, deleteAccount, error } = useTreasuryAccounts(true);
+  const { can } = useSession();
+
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<TreasuryAccount | null>(null);
+  const [journalAccount, setJournalAccount] = useState<TreasuryAccount | null>(null);
+  const [deletingAccount, setDeletingAccount] = useState<TreasuryAccount | null>(null);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('fr-FR', {
+      style: 'decimal',
+      minimumFractionDigits: 0
+    }).format(amount) + ' F';
+  };
+
+  const activeBalances = balances.filter(b => !b.account.archived);
+  const archivedBalances = balances.filter(b => b.account.archived);
+
+  const handleToggleArchive = async (account: TreasuryAccount) => {
+    try {
+      await updateAccount(account.id!, { archived: !account.archived });
+    } catch (err) {
+      console.error('Archive error:', err);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deletingAccount) return;
+
+    try {
+      await deleteAccount(deletingAccount.id!);
+    } catch (err) {
+      console.error('Delete error:', err);
+    } finally {
+      setDeletingAccount(null);
+    }
+  };
+
+  const renderAccount = (account: TreasuryAccount, balance: number) => {
+    const Icon = ACCOUNT_ICONS[account.type];
+    return (
+      <Card key={account.id} padding="md" hoverable onClick={() => setJournalAccount(account)}>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-blue-50 text-blue-600 rounded-lg shrink-0">
+              <Icon size={20} />
+            </div>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-semibold text-gray-900 truncate">{account.name}</p>
+                {account.archived && <Badge size="sm">Archivé</Badge>}
+              </div>
+              <p className="text-xs text-gray-500">{ACCOUNT_TYPE_LABELS[account.type]}</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
+            <span className={`font-mono font-bold mr-2 ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatCurrency(balance)}
+            </span>
+            <button
+              onClick={() => setEditingAccount(account)}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label="Modifier"
+            >
+              <Edit size={18} />
+            </button>
+            <button
+              onClick={() => handleToggleArchive(account)}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              aria-label={account.archived ? 'Réactiver' : 'Archiver'}
+            >
+              {account.archived ? <ArchiveRestore size={18} /> : <Archive size={18} />}
+            </button>
+            {can('DELETE') && (
+              <button
+                onClick={() => setDeletingAccount(account)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                aria-label="Supprimer"
+              >
+                <Trash2 size={18} />
+              </button>
+            )}
+          </div>
+        </div>
+      </Card>
+    );
+  };
+
+  return (
+    <Layout
+      title="Trésorerie"
+      action={
+        <Button
+          size="sm"
+          leftIcon={<Plus size={18} />}
+          onClick={() => setShowCreateModal(true)}
+        >
+          Compte
+        </Button>
+      }
+    >
+      <div className="space-y-4">
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {/* Total */}
+        <Card padding="lg" className="bg-gradient-to-br from-blue-50 to-indigo-50">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm text-gray-600">Total disponible</p>
+              <p className={`text-3xl font-bold font-mono ${total < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {loading ? '...' : formatCurrency(total)}
+              </p>
+            </div>
+            <Button
+              variant="secondary"
+              leftIcon={<ArrowLeftRight size={18} />}
+              onClick={() => setShowTransferModal(true)}
+              disabled={activeBalances.length < 2}
+            >
+              Virement
+            </Button>
+          </div>
+        </Card>
+
+        {/* Comptes */}
+        {loading ? (
+          <ListSkeleton count={4} />
+        ) : balances.length === 0 ? (
+          <EmptyState
+            icon={<Wallet size={48} />}
+            title="Aucun compte"
+            description="Créez vos comptes (caisse, mobile money, banque) pour suivre où se trouve l'argent"
+            action={{
+              label: 'Nouveau compte',
+              onClick: () => setShowCreateModal(true)
+            }}
+          />
+        ) : (
+          <div className="space-y-3">
+            {activeBalances.map(b => renderAccount(b.account, b.balance))}
+
+            {archivedBalances.length > 0 && (
+              <>
+                <h3 className="text-sm font-semibold text-gray-500 pt-2">Comptes archivés</h3>
+                {archivedBalances.map(b => renderAccount(b.account, b.balance))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Modal création */}
+      <Modal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        title="Nouveau compte"
+        size="md"
+      >
+        <AccountForm
+          onSuccess={() => setShowCreateModal(false)}
+          onCancel={() => setShowCreateModal(false)}
+        />
+      </Modal>
+
+      {/* Modal édition */}
+      <Modal
+        isOpen={!!editingAccount}
+        onClose={() => setEditingAccount(null)}
+        title="Modifier le compte"
+        size="md"
+      >
+        {editingAccount && (
+          <AccountForm
+            account={editingAccount}
+            onSuccess={() => setEditingAccount(null)}
+            onCancel={() => setEditingAccount(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Modal virement */}
+      <Modal
+        isOpen={showTransferModal}
+        onClose={() => setShowTransferModal(false)}
+        title="Virement entre comptes"
+        size="md"
+      >
+        <TransferForm
+          onSuccess={() => setShowTransferModal(false)}
+          onCancel={() => setShowTransferModal(false)}
+        />
+      </Modal>
+
+      {/* Modal journal */}
+      <Modal
+        isOpen={!!journalAccount}
+        onClose={() => setJournalAccount(null)}
+        title={journalAccount ? `Journal — ${journalAccount.name}` : 'Journal'}
+        size="md"
+      >
+        {journalAccount && <AccountJournal account={journalAccount} />}
+      </Modal>
+
+      {/* Modal confirmation suppression */}
+      <Modal
+        isOpen={!!deletingAccount}
+        onClose={() => setDeletingAccount(null)}
+        title="Confirmer la suppression"
+        size="sm"
+      >
+        <Alert variant="warning">
+          Supprimer le compte « {deletingAccount?.name} » ?
+          Un compte qui a déjà des mouvements ne peut qu'être archivé.
+        </Alert>
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setDeletingAccount(null)}
+          >
+            Annuler
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDeleteConfirm}
+            leftIcon={<Trash2 size={16} />}
+          >
+            Supprimer
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Layout>
+  );
+};
@@ -0,0 +1,222 @@
+/**
+ * Users - Profils et verrouillage
+ * Features:
+ * - Création du profil propriétaire (active le code PIN)
+ * - Profils propriétaire / caissier : création, édition, suppression
+ * - Délai de verrouillage automatique
+ * - Réservé au propriétaire une fois les profils créés
+ */
+
+import React, { useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Button } from '../components/Buttons';
+import { Card, CardHeader, CardContent } from '../components/Card';
+import { Badge } from '../components/Badge';
+import { Select } from '../components/Input';
+import { Modal, ModalFooter } from '../components/Modal';
+import { Alert } from '../components/Alert';
+import { ListSkeleton } from '../components/Loading';
+import { UserForm } from '../components/users/UserForm';
+import { useSession, useUsers } from '../hooks/useSession';
+import { LOCK_DELAY_OPTIONS, PERMISSION_LABELS, ROLE_LABELS, ROLE_PERMISSIONS } from '../utils/users';
+import type { UserProfile } from '../types/users';
+import { Plus, User, Edit, Trash2, ShieldCheck } from 'lucide-react';
+
+export const Users: React.FC = () => {
+  const { user: currentUser, lockDelay, can } = useSession();
+  const { users, loading, error, deleteUser, saveLockDelay } = useUsers();
+
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingUser, setEditingUser] = useState<UserProfile | null>(null);
+  const [deletingUser, setDeletingUser] = useState<UserProfile | null>(null);
+
+  const hasProfiles = users.length > 0;
+  const canManage = can('MANAGE_USERS');
+
+  const handleDeleteConfirm = async () => {
+    if (!deletingUser) return;
+
+    try {
+      await deleteUser(deletingUser.id!);
+    } catch (err) {
+      console.error('Delete error:', err);
+    } finally {
+      setDeletingUser(null);
+    }
+  };
+
+  const handleLockDelayChange = async (minutes: number) => {
+    try {
+      await saveLockDelay(minutes);
+    } catch (err) {
+      console.error('Lock delay error:', err);
+    }
+  };
+
+  const lockDelayOptions = LOCK_DELAY_OPTIONS.map(minutes => ({
+    value: minutes,
+    label: `${minutes} minute${minutes > 1 ? 's' : ''}`
+  }));
+
+  return (
+    <Layout
+      title="Profils"
+      action={hasProfiles && canManage && (
+        <Button
+          size="sm"
+          leftIcon={<Plus size={18} />}
+          onClick={() => setShowCreateModal(true)}
+        >
+          Profil
+        </Button>
+      )}
+    >
+      <div className="space-y-6 max-w-2xl mx-auto">
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {loading ? (
+          <ListSkeleton count={2} />
+        ) : !hasProfiles ? (
+          /* Aucun profil : création du propriétaire */
+          <Card>
+            <CardHeader
+              title="Protéger l'application"
+              subtitle="Créez votre profil propriétaire avec un code PIN. L'application sera verrouillée au démarrage et après inactivité ; vous pourrez ensuite ajouter des caissiers."
+            />
+            <CardContent>
+              <UserForm isFirst />
+            </CardContent>
+          </Card>
+        ) : !canManage ? (
+          <Alert variant="info">
+            Connecté en tant que <strong>{currentUser?.name}</strong> ({currentUser && ROLE_LABELS[currentUser.role]}).
+            La gestion des profils est réservée au propriétaire.
+          </Alert>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {users.map(user => (
+                <Card key={user.id} padding="md">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="p-2 bg-blue-50 text-blue-600 rounded-lg shrink-0">
+                        {user.role === 'OWNER' ? <ShieldCheck size={20} /> : <User size={20} />}
+                      </div>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-gray-900 truncate">{user.name}</p>
+                          {user.id === currentUser?.id && <Badge size="sm" variant="success">Connecté</Badge>}
+                        </div>
+                        <p className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => setEditingUser(user)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        aria-label="Modifier"
+                      >
+                        <Edit size={18} />
+                      </button>
+                      <button
+                        onClick={() => setDeletingUser(user)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        aria-label="Supprimer"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader
+                title="Verrouillage automatique"
+                subtitle="L'application se verrouille après ce délai sans utilisation"
+              />
+              <CardContent>
+                <Select
+                  value={lockDelay ?? ''}
+                  onChange={(e) => handleLockDelayChange(Number(e.target.value))}
+                  options={lockDelayOptions}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader title="Réservé au propriétaire" />
+              <CardContent>
+                <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+                  {ROLE_PERMISSIONS.OWNER.map(permission => (
+                    <li key={permission}>{PERMISSION_LABELS[permission]}</li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* Modal création */}
+      <Modal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        title="Nouveau profil"
+        size="md"
+      >
+        <UserForm
+          onSuccess={() => setShowCreateModal(false)}
+          onCancel={() => setShowCreateModal(false)}
+        />
+      </Modal>
+
+      {/* Modal édition */}
+      <Modal
+        isOpen={!!editingUser}
+        onClose={() => setEditingUser(null)}
+        title="Modifier le profil"
+        size="md"
+      >
+        {editingUser && (
+          <UserForm
+            user={editingUser}
+            onSuccess={() => setEditingUser(null)}
+            onCancel={() => setEditingUser(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Modal confirmation suppression */}
+      <Modal
+        isOpen={!!deletingUser}
+        onClose={() => setDeletingUser(null)}
+        title="Confirmer la suppression"
+        size="sm"
+      >
+        <Alert variant="warning">
+          Supprimer le profil « {deletingUser?.name} » ?
+          Les enregistrements saisis avec ce profil sont conservés.
+        </Alert>
+
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            onClick={() => setDeletingUser(null)}
+          >
+            Annuler
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleDeleteConfirm}
+            leftIcon={<Trash2 size={16} />}
+          >
+            Supprimer
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </Layout>
+  );
+};
@@ -0,0 +1,24 @@
+// ==================== AUDIT ====================
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+// Tables suivies par le journal d'audit
+export type AuditTable = 'partners' | 'transactions' | 'payments';
+
+// Valeur d'un champ avant / après modification
+export interface AuditChange {
+  field: string;
+  before?: unknown;        // Absent pour une création
+  after?: unknown;         // Absent pour une suppression
+}
+
+// Entrée du journal (ajout uniquement, jamais modifiée ni supprimée)
+export interface AuditEntry {
+  id?: number;
+  table: AuditTable;
+  recordId: number;
+  action: AuditAction;
+  changes: AuditChange[];
+  actor: string;           // Qui a fait la modification
+  date: number;            // Timestamp de l'écriture
+}
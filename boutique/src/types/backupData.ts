@@ -1,6 +1,11 @@
 import type { Partner } from "./partners";
 import type { Transaction } from "./transaction";
 import type { Payment } from "./payments";
+import type { Setting } from "./settings";
+import type { Product } from "./products";
+import type { StockMovement } from "./stock";
+import type { TreasuryAccount, Transfer } from "./treasury";
+import type { CashClosing } from "./closing";
 
 // ==================== EXPORT/IMPORT ====================
 
@@ -10,4 +15,55 @@ export interface BackupData {
   partners: Partner[];
   transactions: Transaction[];
   payments: Payment[];
-}
\ No newline at end of file
+  settings: Setting[];
+  products: Product[];
+  stockMovements: StockMovement[];
+  accounts: TreasuryAccount[];
+  transfers: Transfer[];
+  closings: CashClosing[];
+}
+
+/**
+ * replace : efface la base puis restaure les données telles quelles
+ * merge   : ajoute les données à la base existante (ids réattribués)
+ */
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportSummary {
+  mode: ImportMode;
+  partners: number;       // Partners ajoutés
+  mergedPartners: number; // Partners déjà existants (même nom + type)
+  transactions: number;
+  payments: number;
+  settings: number;
+  products: number;
+  stockMovements: number;
+  accounts: number;       // Comptes ajoutés (même nom = réutilisé)
+  transfers: number;
+  closings: number;       // Clôtures ajoutées (même compte + jour = ignorée)
+}
+
+// ==================== CHIFFREMENT ====================
+
+/**
+ * Sauvegarde chiffrée : BackupData (JSON) chiffré par une phrase secrète
+ * Clé dérivée par PBKDF2, chiffrement authentifié AES-GCM
+ * L'en-tête (tout sauf data) est authentifié avec le contenu
+ */
+export interface EncryptedBackup {
+  format: 'ma-boutique-chiffre';
+  version: string;
+  exportedAt: number;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;         // Base64
+  };
+  cipher: {
+    name: 'AES-GCM';
+    iv: string;           // Base64
+  };
+  check: string;          // Empreinte de contrôle de la phrase secrète (base64)
+  data: string;           // Contenu chiffré (base64)
+}
@@ -1,6 +1,7 @@
 import type { Partner } from "./partners";
 import type { Direction } from "./transaction";
 import type { Transaction } from "./transaction";
+import type { Payment } from "./payments";
 
 // ==================== BALANCE CALCULATIONS ====================
 
@@ -19,3 +20,90 @@ export interface PartnerBalance {
   lastTransaction?: Transaction;
   transactionCount: number;
 }
+
+// ==================== SOLDES MATÉRIALISÉS ====================
+
+/**
+ * Solde d'un partner tenu à jour dans la transaction d'écriture (table balances)
+ * Pas de ligne = solde nul, aucune transaction
+ */
+export interface BalanceRecord {
+  partnerId: number;
+  balance: number;            // > 0 = le partner doit, < 0 = on doit au partner
+  transactionCount: number;
+  updatedAt: number;
+}
+
+/**
+ * Variation à appliquer au solde d'un partner
+ */
+export interface BalanceDelta {
+  balance: number;
+  transactionCount: number;
+}
+
+export interface BalanceMismatch {
+  partnerId: number;
+  partnerName: string;        // 'Inconnu' pour une ligne sans partner
+  stored: BalanceDelta;       // Table balances
+  actual: BalanceDelta;       // Recalcul depuis les transactions et paiements
+}
+
+export interface BalanceCheckResult {
+  checkedAt: number;
+  partnerCount: number;       // Partners vérifiés
+  mismatches: BalanceMismatch[];
+  repaired: boolean;          // Table réécrite avec les valeurs recalculées
+}
+
+// ==================== RELEVÉ DE COMPTE ====================
+
+export interface StatementLine {
+  date: number;
+  transaction?: Transaction;  // Ligne transaction
+  original?: Transaction;     // Avoir : facture d'origine
+  payment?: Payment;          // Ligne paiement standalone
+  amount: number;             // Total facture (0 pour un paiement)
+  paid: number;               // Payé à la transaction ou montant du paiement
+  balance: number;            // Solde après la ligne
+}
+
+export interface PartnerStatement {
+  partner: Partner;
+  startDate: number;
+  endDate: number;
+  opening: number;            // Solde d'ouverture (avant startDate)
+  lines: StatementLine[];
+  closing: number;            // Solde de clôture
+  totalSales: number;
+  totalPurchases: number;
+  totalPaid: number;
+  generatedAt: number;
+}
+
+// ==================== ANCIENNETÉ DES CRÉANCES ====================
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface AgingRow {
+  partner: Partner;
+  balance: number;                        // Créance totale (> 0)
+  buckets: Record<AgingBucket, number>;   // Répartition par ancienneté
+  oldestUnpaidDate?: number;              // Plus ancienne facture encore due
+}
+
+export interface AgingReport {
+  asOf: number;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+}
+
+// ==================== ÉCHÉANCES ====================
+
+export interface OverdueTransaction {
+  transaction: Transaction;
+  partner: Partner;
+  remaining: number;          // Reste à payer sur la transaction
+  daysOverdue: number;        // Jours écoulés depuis l'échéance
+}
@@ -0,0 +1,30 @@
+// ==================== CLOSING ====================
+
+// Récapitulatif de la journée (tous comptes confondus)
+export interface DailySummary {
+  sales: number;            // Total des ventes (avoirs déduits)
+  salesCount: number;
+  purchases: number;        // Total des achats (avoirs déduits)
+  purchasesCount: number;
+  collections: number;      // Encaissements : paid des ventes + paiements reçus
+  disbursements: number;    // Décaissements : paid des achats + paiements versés
+}
+
+// Clôture de caisse d'une journée (Z) : chiffres figés au moment de la clôture
+export interface CashClosing {
+  id?: number;
+  accountId: number;        // Compte caisse compté
+  date: number;             // Début de journée (minuit, même convention que les formulaires)
+  openingCash: number;      // Solde théorique en début de journée
+  cashIn: number;           // Entrées de la journée sur le compte
+  cashOut: number;          // Sorties de la journée sur le compte
+  expected: number;         // openingCash + cashIn - cashOut
+  counted: number;          // Montant compté dans le tiroir
+  difference: number;       // counted - expected (écart de caisse)
+  summary: DailySummary;
+  note?: string;
+  createdAt: number;
+}
+
+// Aperçu avant clôture (tout sauf le comptage)
+export type ClosingPreview = Omit<CashClosing, 'id' | 'counted' | 'difference' | 'note' | 'createdAt'>;
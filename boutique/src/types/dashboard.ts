@@ -0,0 +1,26 @@
+// ==================== GRAPHIQUES DU TABLEAU DE BORD ====================
+
+export type ChartPeriod = '7d' | '30d' | '12w' | '12m';
+
+export type ChartGranularity = 'day' | 'week' | 'month';
+
+/**
+ * Intervalle d'un point du graphique [start, end[
+ */
+export interface ChartBucket {
+  start: number;
+  end: number;
+  label: string;              // 12 oct. (jour, semaine) ou oct. 25 (mois)
+}
+
+export interface ActivityPoint extends ChartBucket {
+  sales: number;              // Ventes (avoirs déduits)
+  purchases: number;          // Achats (avoirs déduits)
+  collections: number;        // Encaissements : paid des ventes + paiements reçus
+  creditGiven: number;        // Crédit accordé : part non payée des ventes à la facturation
+}
+
+export interface BalancePoint extends ChartBucket {
+  receivables: number;        // Créances en fin d'intervalle (clients nous doivent)
+  debts: number;              // Dettes en fin d'intervalle (on doit aux fournisseurs)
+}
@@ -0,0 +1,63 @@
+import type { Transaction } from "./transaction";
+import type { ChartBucket, ChartPeriod } from "./dashboard";
+
+// ==================== MARGE BRUTE ====================
+
+/**
+ * Ligne d'article d'une vente, valorisée au coût moyen pondéré du moment
+ */
+export interface SaleLineMargin {
+  key: string;                    // Article (produit du catalogue ou nom normalisé)
+  name: string;
+  qty: number;
+  price: number;                  // Prix de vente unitaire
+  unitCost: number | null;        // Coût moyen pondéré à la date de la vente (null = jamais acheté)
+  lastPurchasePrice?: number;     // Dernier prix d'achat connu à la date de la vente
+  belowLastPurchase: boolean;     // Vendu sous le dernier prix d'achat
+}
+
+export interface SaleMargin {
+  transaction: Transaction;       // Vente, ou avoir client (montants négatifs)
+  partnerName: string;
+  revenue: number;                // Somme des articles (qty × prix)
+  cost: number;                   // Coût des articles au coût moyen (coût connu uniquement)
+  margin: number;                 // revenue - cost, articles au coût connu uniquement
+  hasUnknownCost: boolean;        // Au moins un article jamais acheté
+  lines: SaleLineMargin[];
+}
+
+export interface ItemMargin {
+  key: string;
+  name: string;
+  productId?: number;
+  qtySold: number;
+  revenue: number;                // Ventes au coût connu
+  cost: number;
+  margin: number;
+  unknownCostRevenue: number;     // Ventes sans coût connu (exclues de la marge)
+  averageCost: number | null;     // Coût moyen pondéré actuel
+  lastPurchasePrice?: number;
+  lastSalePrice?: number;
+  belowCostSales: number;         // Ventes de la période sous le dernier prix d'achat
+}
+
+export interface MarginPoint extends ChartBucket {
+  revenue: number;
+  cost: number;
+  margin: number;
+}
+
+export interface MarginReport {
+  period: ChartPeriod;
+  start: number;
+  end: number;
+  revenue: number;                // Ventes au coût connu
+  cost: number;
+  margin: number;
+  rate: number | null;            // margin / revenue (null si aucune vente)
+  unknownCostRevenue: number;     // Ventes d'articles jamais achetés (hors marge)
+  sales: SaleMargin[];            // Plus récentes en premier
+  items: ItemMargin[];            // Meilleure marge en premier
+  points: MarginPoint[];
+  generatedAt: number;
+}
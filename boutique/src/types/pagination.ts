@@ -0,0 +1,54 @@
+import type { Direction } from "./transaction";
+
+// ==================== PAGINATION ====================
+
+/**
+ * Position dans une liste triée du plus récent au plus ancien (date, puis id)
+ */
+export interface ListCursor {
+  date: number;
+  id: number;
+}
+
+/**
+ * Page demandée à une requête par plage de dates
+ */
+export interface PageRequest {
+  before?: ListCursor;        // Lignes strictement plus anciennes que le curseur
+  from?: ListCursor;          // Lignes jusqu'au curseur inclus (pages déjà chargées)
+  limit?: number;
+}
+
+/**
+ * Requête sur l'index date (ou [partnerId+date] si partnerId est donné)
+ */
+export interface DateRangeQuery<T> {
+  partnerId?: number;
+  startDate?: number;
+  endDate?: number;
+  filter?: (row: T) => boolean;   // Critères sans index (sens, recherche…)
+}
+
+export interface ListTotals {
+  count: number;
+  amount: number;
+}
+
+// ==================== FILTRES DES LISTES ====================
+
+export interface TransactionListFilters {
+  partnerId?: number;
+  direction?: Direction;      // Sens commercial (un avoir suit sa facture)
+  startDate?: number;
+  endDate?: number;
+  search?: string;
+  overdue?: boolean;          // Échéance dépassée uniquement
+}
+
+export interface PaymentListFilters {
+  partnerId?: number;
+  transactionId?: number;
+  startDate?: number;
+  endDate?: number;
+  search?: string;
+}
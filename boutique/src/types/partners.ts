@@ -10,4 +10,77 @@ export interface Partner {
   note?: string;
   createdAt: number;
   updatedAt?: number;
-}
\ No newline at end of file
+}
+
+// ==================== IMPORT ====================
+
+// Champs d'un partner alimentés par une colonne du fichier importé
+export type PartnerImportField = 'name' | 'phone' | 'note';
+
+// Index de colonne pour chaque champ (null = non importé)
+export type PartnerColumnMapping = Record<PartnerImportField, number | null>;
+
+/**
+ * Fichier lu, sous forme de tableau (un contact vCard = une ligne)
+ */
+export interface PartnerImportSource {
+  format: 'csv' | 'vcard';
+  fileName: string;
+  rows: string[][];          // Lignes brutes (en-tête éventuel compris)
+  hasHeader: boolean;        // Première ligne = noms de colonnes (détecté, modifiable)
+}
+
+/**
+ * new       : nouveau partner
+ * conflict  : même nom + même type déjà en base → skip / rename / merge
+ * duplicate : même nom qu'une ligne précédente du fichier (ignorée)
+ * invalid   : nom ou téléphone invalide (ignorée)
+ */
+export type PartnerImportStatus = 'new' | 'conflict' | 'duplicate' | 'invalid';
+
+/**
+ * skip   : ignorer la ligne
+ * rename : créer sous un autre nom
+ * merge  : compléter le partner existant (téléphone manquant, note ajoutée)
+ */
+export type PartnerImportResolution = 'skip' | 'rename' | 'merge';
+
+export interface PartnerImportRow {
+  line: number;              // Numéro de ligne (ou de contact) dans le fichier
+  name: string;
+  phone?: string;
+  note?: string;
+  status: PartnerImportStatus;
+  error?: string;            // Motif (invalid, duplicate)
+  resolution: PartnerImportResolution;
+  renameTo: string;          // Nom proposé pour rename
+}
+
+export interface PartnerImportSummary {
+  created: number;           // Dont renommés
+  renamed: number;
+  merged: number;
+  skipped: number;           // Conflits ignorés, doublons et lignes invalides
+}
+
+// ==================== FUSION ====================
+
+/**
+ * Aperçu d'une fusion : la fiche source est vidée dans la fiche conservée (target)
+ */
+export interface PartnerMergePreview {
+  source: Partner;
+  target: Partner;
+  result: Pick<Partner, 'name' | 'type' | 'phone' | 'note'>;  // Fiche conservée après fusion
+  sourceBalance: number;
+  targetBalance: number;
+  balance: number;           // Solde après fusion (somme des deux)
+  transactionCount: number;  // Transactions déplacées
+  paymentCount: number;      // Paiements déplacés
+}
+
+export interface PartnerMergeSummary {
+  targetId: number;
+  transactions: number;
+  payments: number;
+}
@@ -1,11 +1,42 @@
+import type { Transaction } from "./transaction";
+
 // ==================== PAYMENTS ====================
 
+// IN = argent reçu du partner (encaissement), OUT = argent versé au partner (décaissement)
+export type PaymentDirection = 'IN' | 'OUT';
+
 export interface Payment {
   id?: number;
   partnerId: number;
   transactionId?: number; // Optionnel: paiement lié à une transaction
   date: number;
-  amount: number;         // Montant du paiement
+  amount: number;         // Montant du paiement (toujours positif)
+  direction: PaymentDirection;
+  accountId?: number;     // Compte de trésorerie (caisse, mobile money, banque)
+  allocations?: PaymentAllocation[]; // Factures choisies (paiement standalone)
   note?: string;
+  createdBy?: string;     // Profil ayant saisi l'enregistrement
   createdAt: number;
 }
+
+// ==================== ALLOCATION ====================
+
+// Part d'un paiement standalone affectée à une facture choisie
+export interface PaymentAllocation {
+  transactionId: number;
+  amount: number;
+}
+
+export type SettlementStatus = 'PAID' | 'PARTIAL' | 'UNPAID';
+
+// État de règlement d'une transaction après affectation des paiements
+export interface TransactionSettlement {
+  transaction: Transaction;
+  linkedPaid: number;     // Paiements liés (transactionId)
+  credited: number;       // Avoirs imputés (facture) ou part de l'avoir imputée sur sa facture
+  allocated: number;      // Part des paiements standalone affectée
+  allocations: Array<{ paymentId: number; amount: number }>;
+  paidTotal: number;      // paid + linkedPaid + allocated
+  remaining: number;      // Reste à payer (>= 0), avoirs déduits
+  status: SettlementStatus;
+}
@@ -0,0 +1,12 @@
+// ==================== PRODUCTS ====================
+
+export interface Product {
+  id?: number;
+  name: string;            // Unique (nom canonique)
+  salePrice?: number;      // Prix de vente par défaut (SALE)
+  purchasePrice?: number;  // Prix d'achat par défaut (PURCHASE)
+  unit?: string;           // Ex: sac, carton, kg, pièce
+  aliases?: string[];      // Autres façons d'écrire le nom
+  createdAt: number;
+  updatedAt?: number;
+}
@@ -0,0 +1,60 @@
+import type { Partner, PartnerType } from "./partners";
+import type { Transaction } from "./transaction";
+import type { Payment } from "./payments";
+import type { Product } from "./products";
+
+// ==================== RECHERCHE ====================
+
+/**
+ * Textes indexés d'un enregistrement
+ * name   : texte principal (pèse double dans le classement)
+ * fields : textes secondaires (note, articles, texte OCR…)
+ * phones : numéros, comparés chiffre à chiffre
+ * amounts: montants, trouvés par une saisie identique (« 15 000 » = 15000)
+ */
+export interface SearchDocument {
+  name: string;
+  fields?: Array<string | undefined>;
+  phones?: Array<string | undefined>;
+  amounts?: number[];
+}
+
+export interface SearchIndex<T> {
+  search: (query: string, limit?: number) => T[];
+}
+
+// ==================== RECHERCHE GLOBALE ====================
+
+export interface TransactionSearchResult {
+  transaction: Transaction;
+  partnerName: string;
+}
+
+export interface PaymentSearchResult {
+  payment: Payment;
+  partnerName: string;
+  partnerType?: PartnerType;
+}
+
+export interface GlobalSearchResults {
+  actions: QuickAction[];
+  partners: Partner[];
+  transactions: TransactionSearchResult[];
+  payments: PaymentSearchResult[];
+  products: Product[];
+  total: number;         // Enregistrements trouvés (hors actions)
+}
+
+// ==================== ACTIONS RAPIDES ====================
+
+export type QuickActionKind = 'SALE' | 'PURCHASE' | 'PAYMENT_IN' | 'PAYMENT_OUT';
+
+/**
+ * Action proposée par la palette de commandes (formulaire pré-rempli)
+ */
+export interface QuickAction {
+  kind: QuickActionKind;
+  label: string;
+  path: string;
+  partner?: Partner;
+}
@@ -4,4 +4,15 @@ export interface Setting {
   key: string;
   value: any;
   updatedAt: number;
-}
\ No newline at end of file
+}
+
+// ==================== BUSINESS ====================
+
+// Informations de la boutique (en-tête des factures)
+export interface BusinessSettings {
+  businessName: string;
+  businessPhone: string;
+  businessAddress: string;
+  currencyLabel: string;   // Ex: FCFA, F, GNF
+  businessLogo: string;    // Base64 (data URL), vide si aucun logo
+}
@@ -0,0 +1,27 @@
+// ==================== STOCK ====================
+
+/**
+ * IN         : entrée (achat)
+ * OUT        : sortie (vente)
+ * ADJUSTMENT : correction manuelle (inventaire, perte, casse)
+ */
+export type StockMovementType = 'IN' | 'OUT' | 'ADJUSTMENT';
+
+export interface StockMovement {
+  id?: number;
+  productId: number;
+  type: StockMovementType;
+  quantity: number;        // Signé : + entrée, - sortie
+  date: number;            // Timestamp (date de la transaction)
+  transactionId?: number;  // Transaction d'origine (absent pour un ajustement)
+  note?: string;
+  createdAt: number;
+}
+
+// Alerte de stock négatif avant enregistrement
+export interface StockWarning {
+  productId: number;
+  name: string;
+  current: number;         // Stock actuel (hors transaction éditée)
+  after: number;           // Stock après la transaction
+}
@@ -0,0 +1,80 @@
+// ==================== SYNC ====================
+
+// Tables synchronisées entre appareils (profils, audit et paramètres restent locaux)
+export type SyncTable =
+  | 'accounts'
+  | 'products'
+  | 'partners'
+  | 'transactions'
+  | 'payments'
+  | 'stockMovements'
+  | 'transfers'
+  | 'closings';
+
+// PUT = création ou modification (état complet), DELETE = suppression
+export type SyncOperation = 'PUT' | 'DELETE';
+
+// Identité partagée d'un enregistrement local
+export interface SyncRecord {
+  table: SyncTable;
+  syncId: string;          // Identifiant global (UUID), commun à tous les appareils
+  localId?: number;        // Clé locale (++id), différente d'un appareil à l'autre
+                           // (absente pour une suppression reçue d'un enregistrement inconnu)
+  stamp: string;           // Version de la dernière modification connue (voir utils/syncClock)
+  deleted?: boolean;       // Supprimé : conservé pour écarter les modifications plus anciennes
+}
+
+// Modification locale en attente d'envoi (une seule par enregistrement)
+export interface SyncChange {
+  seq?: number;            // Version locale monotone (++seq)
+  table: SyncTable;
+  syncId: string;
+  op: SyncOperation;
+  stamp: string;
+}
+
+// ==================== PROTOCOL ====================
+
+// Modification échangée avec le serveur : références exprimées en syncId
+export interface RemoteChange {
+  table: SyncTable;
+  syncId: string;
+  op: SyncOperation;
+  stamp: string;
+  deviceId: string;
+  data?: Record<string, unknown>;  // PUT uniquement, sans id local
+  version?: number;                // Attribuée par le serveur (ordre global)
+}
+
+export interface PushResponse {
+  version: number;         // Dernière version attribuée
+}
+
+export interface PullResponse {
+  changes: RemoteChange[];
+  version: number;         // Curseur à reprendre au prochain appel
+  hasMore: boolean;
+}
+
+// ==================== CONFIG ====================
+
+export interface SyncConfig {
+  serverUrl: string;       // Ex: http://192.168.1.10:8787
+  shopCode: string;        // Code secret partagé par les appareils de la boutique
+  deviceId: string;
+  lastVersion: number;     // Dernière version reçue du serveur
+}
+
+export interface SyncStatus {
+  enabled: boolean;
+  serverUrl: string;
+  deviceId: string;
+  pending: number;         // Modifications locales non envoyées
+  lastSyncAt?: number;
+  lastError?: string;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;          // Modifications distantes appliquées
+}
@@ -6,6 +6,7 @@ export interface TransactionItem {
   name: string;
   qty: number;
   price: number;          // Prix unitaire
+  productId?: number;     // Produit du catalogue (si reconnu)
 }
 
 export interface Transaction {
@@ -15,10 +16,14 @@ export interface Transaction {
   direction: Direction;   // SALE = vente, PURCHASE = achat
   total: number;          // Total facture
   paid: number;           // Montant payé à cette transaction
+  accountId?: number;     // Compte de trésorerie du montant payé (si paid > 0)
+  dueDate?: number;       // Échéance du reste à payer (vente/achat à crédit)
+  reversalOf?: number;    // Avoir : transaction d'origine (sens inverse, original inchangé)
   items?: TransactionItem[];
   imageUrl?: string;      // Base64 de la photo scannée
   ocrText?: string;       // Texte brut OCR (debug)
   note?: string;
+  createdBy?: string;     // Profil ayant saisi l'enregistrement
   createdAt: number;
   updatedAt?: number;
 }
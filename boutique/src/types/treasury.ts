@@ -0,0 +1,55 @@
+import type { Transaction } from "./transaction";
+import type { Payment } from "./payments";
+import type { CashClosing } from "./closing";
+
+// ==================== ACCOUNTS ====================
+
+export type TreasuryAccountType = 'CASH' | 'MOBILE_MONEY' | 'BANK';
+
+// Compte de trésorerie : où se trouve l'argent (tiroir-caisse, portefeuille mobile, banque)
+export interface TreasuryAccount {
+  id?: number;
+  name: string;            // Unique (ex: Caisse, Orange Money)
+  type: TreasuryAccountType;
+  openingBalance: number;  // Solde de départ (fond de caisse)
+  archived?: boolean;      // Masqué des sélecteurs, conservé pour l'historique
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// ==================== TRANSFERS ====================
+
+// Virement interne (ex: dépôt de la caisse vers la banque)
+export interface Transfer {
+  id?: number;
+  fromAccountId: number;
+  toAccountId: number;
+  amount: number;          // Toujours positif
+  date: number;
+  note?: string;
+  createdAt: number;
+}
+
+// ==================== JOURNAL ====================
+
+// CLOSING = écart de caisse constaté à la clôture (compté - théorique)
+export type AccountMovementKind = 'TRANSACTION' | 'PAYMENT' | 'TRANSFER' | 'CLOSING';
+
+// Ligne du journal d'un compte (montant signé : + entrée, - sortie)
+export interface AccountMovement {
+  kind: AccountMovementKind;
+  date: number;
+  amount: number;
+  balance: number;         // Solde du compte après le mouvement
+  transaction?: Transaction;
+  payment?: Payment;
+  transfer?: Transfer;
+  closing?: CashClosing;
+}
+
+export interface AccountBalance {
+  account: TreasuryAccount;
+  inflows: number;
+  outflows: number;
+  balance: number;         // openingBalance + inflows - outflows
+}
@@ -0,0 +1,29 @@
+// ==================== USERS ====================
+
+// OWNER = propriétaire (tous les droits), CASHIER = caissier (saisie uniquement)
+export type UserRole = 'OWNER' | 'CASHIER';
+
+// Profil local (propre à l'appareil, non inclus dans les sauvegardes)
+export interface UserProfile {
+  id?: number;
+  name: string;           // Unique, inscrit dans createdBy et le journal d'audit
+  role: UserRole;
+  pinHash: string;        // SHA-256 (hex) du sel + code PIN
+  pinSalt: string;
+  failedPinAttempts?: number;   // Codes PIN erronés consécutifs
+  pinLockedUntil?: number;      // Saisie du PIN bloquée jusqu'à (timestamp)
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// ==================== PERMISSIONS ====================
+
+// Actions réservées au propriétaire
+export type Permission =
+  | 'DELETE'              // Supprimer (transactions, paiements, partners, clôtures…)
+  | 'EDIT_PAYMENT'        // Modifier un paiement
+  | 'RESET_DATA'          // Effacer la base (clearAll, restauration complète)
+  | 'OVERRIDE_EDIT_LOCK'  // Modifier une transaction d'un autre jour
+  | 'MANAGE_USERS'        // Gérer les profils
+  | 'MANAGE_SYNC'         // Configurer la synchronisation entre appareils
+  | 'MERGE_PARTNERS';     // Fusionner deux partners (transactions et paiements déplacés)
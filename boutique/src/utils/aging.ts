@@ -0,0 +1,113 @@
+/**
+ * Ancienneté des créances clients (0–30 / 31–60 / 61–90 / 90+ jours)
+ *
+ * MÉTHODE :
+ * - Créance d'un client = solde actuel (> 0), lu dans la table balances
+ * - Reste à payer de chaque vente = état de règlement (utils/allocation) :
+ *   paiements liés, factures choisies (allocations) puis FIFO, avoirs déduits.
+ * - On remonte les ventes de la plus récente à la plus ancienne en
+ *   attribuant à chacune son reste à payer, jusqu'à épuiser la créance
+ *   (une avance non affectée ou un achat dû au client la réduit).
+ * - Âge d'une part = jours écoulés depuis la date de la vente.
+ */
+
+import { db } from '../db/db';
+import type { AgingBucket, AgingReport, AgingRow } from '../types/balances';
+import type { Partner } from '../types/partners';
+import { getPartnerSettlements } from './allocation';
+import { getStoredBalance } from './balance';
+import { isCreditNote } from './creditNote';
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
+
+/**
+ * Tranche d'ancienneté d'une date
+ */
+export function getAgingBucket(date: number, asOf: number = Date.now()): AgingBucket {
+  const days = Math.floor((asOf - date) / DAY_MS);
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '90+';
+}
+
+/**
+ * Répartit la créance d'un client par ancienneté
+ * @returns null si le client ne doit rien
+ */
+export async function getPartnerAging(
+  partner: Partner,
+  asOf: number = Date.now()
+): Promise<AgingRow | null> {
+  const balance = await getStoredBalance(partner.id!);
+  if (balance <= 0) return null;
+
+  const { settlements } = await getPartnerSettlements(partner.id!);
+  const sales = Array.from(settlements.values())
+    // Factures de vente uniquement : un avoir fournisseur est enregistré en SALE
+    .filter(s => s.transaction.direction === 'SALE' && !isCreditNote(s.transaction) && s.remaining > 0);
+
+  // Plus récente d'abord
+  sales.sort((a, b) => b.transaction.date - a.transaction.date);
+
+  const buckets = emptyBuckets();
+  let remaining = balance;
+  let oldestUnpaidDate: number | undefined;
+
+  for (const sale of sales) {
+    if (remaining <= 0) break;
+    const share = Math.min(sale.remaining, remaining);
+    buckets[getAgingBucket(sale.transaction.date, asOf)] += share;
+    remaining -= share;
+    oldestUnpaidDate = sale.transaction.date;
+  }
+
+  // Reliquat sans facture identifiable : classé dans la tranche la plus ancienne
+  if (remaining > 0) {
+    buckets['90+'] += remaining;
+  }
+
+  return { partner, balance, buckets, oldestUnpaidDate };
+}
+
+/**
+ * Rapport complet : une ligne par client débiteur + totaux par tranche
+ * Tri : les créances les plus anciennes d'abord (à relancer en priorité)
+ */
+export async function getReceivablesAging(asOf: number = Date.now()): Promise<AgingReport> {
+  // Seuls les partners débiteurs (index balance de la table balances)
+  const debtorIds = await db.balances.where('balance').above(0).primaryKeys();
+  const partners = (await db.partners.bulkGet(debtorIds))
+    .filter((p): p is Partner => p !== undefined && (p.type === 'CLIENT' || p.type === 'BOTH'));
+
+  const rows = (await Promise.all(partners.map(p => getPartnerAging(p, asOf))))
+    .filter((row): row is AgingRow => row !== null);
+
+  rows.sort((a, b) => {
+    for (const bucket of [...AGING_BUCKETS].reverse()) {
+      const diff = b.buckets[bucket] - a.buckets[bucket];
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+
+  const totals = emptyBuckets();
+  rows.forEach(row => {
+    AGING_BUCKETS.forEach(bucket => {
+      totals[bucket] += row.buckets[bucket];
+    });
+  });
+
+  return {
+    asOf,
+    rows,
+    totals,
+    total: rows.reduce((sum, row) => sum + row.balance, 0)
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Affectation des paiements standalone aux transactions ouvertes
+ *
+ * RÈGLES :
+ * 1. Reste initial d'une transaction = total - paid - paiements liés (transactionId)
+ *    Un avoir (reversalOf) est ensuite imputé sur le reste de sa facture d'origine :
+ *    les deux restes diminuent d'autant, le surplus de l'avoir reste à rembourser
+ * 2. Les paiements standalone sont traités par date croissante :
+ *    a. d'abord les factures choisies dans PaymentForm (Payment.allocations),
+ *       plafonnées au reste de chaque facture
+ *    b. le reliquat solde les factures ouvertes les plus anciennes (FIFO)
+ *       dans le sens du paiement : un encaissement (IN) règle des ventes,
+ *       un décaissement (OUT) règle des achats
+ *    c. ce qui reste encore est une avance (unallocated)
+ * 3. L'affectation est recalculée à la volée : la balance n'est pas modifiée,
+ *    seule la répartition par facture est déduite.
+ */
+
+import { db } from '../db/db';
+import type { PaymentAllocation, SettlementStatus, TransactionSettlement } from '../types/payments';
+import { getTransactionPaymentDirection } from './paymentDirection';
+
+export interface PartnerSettlements {
+  settlements: Map<number, TransactionSettlement>;
+  unallocated: number;    // Avance non affectée
+}
+
+interface SettlementOptions {
+  excludePaymentId?: number;  // Paiement en cours d'édition
+}
+
+function getStatus(paidTotal: number, total: number): SettlementStatus {
+  if (paidTotal >= total) return 'PAID';
+  if (paidTotal > 0) return 'PARTIAL';
+  return 'UNPAID';
+}
+
+/**
+ * Calcule l'état de règlement de toutes les transactions d'un partner
+ */
+export async function getPartnerSettlements(
+  partnerId: number,
+  options: SettlementOptions = {}
+): Promise<PartnerSettlements> {
+  const transactions = await db.transactions
+    .where('partnerId')
+    .equals(partnerId)
+    .toArray();
+
+  const payments = await db.payments
+    .where('partnerId')
+    .equals(partnerId)
+    .filter(p => p.id !== options.excludePaymentId)
+    .toArray();
+
+  // Plus anciennes d'abord
+  transactions.sort((a, b) => a.date - b.date || a.createdAt - b.createdAt || a.id! - b.id!);
+
+  const settlements = new Map<number, TransactionSettlement>();
+
+  transactions.forEach(tx => {
+    const linkedPaid = payments
+      .filter(p => p.transactionId === tx.id)
+      .reduce((sum, p) => sum + p.amount, 0);
+
+    settlements.set(tx.id!, {
+      transaction: tx,
+      linkedPaid,
+      credited: 0,
+      allocated: 0,
+      allocations: [],
+      paidTotal: tx.paid + linkedPaid,
+      remaining: Math.max(0, tx.total - tx.paid - linkedPaid),
+      status: 'UNPAID'
+    });
+  });
+
+  // Avoirs imputés sur la facture d'origine
+  settlements.forEach(settlement => {
+    const { reversalOf } = settlement.transaction;
+    const original = reversalOf != null ? settlements.get(reversalOf) : undefined;
+    if (!original) return;
+    const share = Math.min(settlement.remaining, original.remaining);
+    if (share <= 0) return;
+    original.credited += share;
+    original.remaining -= share;
+    settlement.credited += share;
+    settlement.remaining -= share;
+  });
+
+  const apply = (settlement: TransactionSettlement, paymentId: number, amount: number) => {
+    settlement.allocated += amount;
+    settlement.paidTotal += amount;
+    settlement.remaining -= amount;
+    const existing = settlement.allocations.find(a => a.paymentId === paymentId);
+    if (existing) {
+      existing.amount += amount;
+    } else {
+      settlement.allocations.push({ paymentId, amount });
+    }
+  };
+
+  const standalone = payments
+    .filter(p => !p.transactionId)
+    .sort((a, b) => a.date - b.date || a.createdAt - b.createdAt || a.id! - b.id!);
+
+  let unallocated = 0;
+
+  standalone.forEach(payment => {
+    let left = payment.amount;
+
+    // a. Factures choisies
+    (payment.allocations ?? []).forEach(allocation => {
+      const settlement = settlements.get(allocation.transactionId);
+      if (!settlement || left <= 0) return;
+      const share = Math.min(allocation.amount, settlement.remaining, left);
+      if (share <= 0) return;
+      apply(settlement, payment.id!, share);
+      left -= share;
+    });
+
+    // b. FIFO sur les factures ouvertes du même sens
+    for (const settlement of settlements.values()) {
+      if (left <= 0) break;
+      if (settlement.remaining <= 0) continue;
+      if (getTransactionPaymentDirection(settlement.transaction.direction) !== payment.direction) continue;
+      const share = Math.min(settlement.remaining, left);
+      apply(settlement, payment.id!, share);
+      left -= share;
+    }
+
+    // c. Avance
+    unallocated += left;
+  });
+
+  settlements.forEach(settlement => {
+    settlement.status = getStatus(settlement.paidTotal + settlement.credited, settlement.transaction.total);
+  });
+
+  return { settlements, unallocated };
+}
+
+/**
+ * État de règlement d'une transaction
+ */
+export async function getTransactionSettlement(
+  transactionId: number
+): Promise<TransactionSettlement | undefined> {
+  const tx = await db.transactions.get(transactionId);
+  if (!tx) return undefined;
+
+  const { settlements } = await getPartnerSettlements(tx.partnerId);
+  return settlements.get(transactionId);
+}
+
+/**
+ * États de règlement de toutes les transactions (Map transactionId → état)
+ * @param partnerIds Limite le calcul à ces partners (listes paginées)
+ */
+export async function getAllSettlements(partnerIds?: number[]): Promise<Map<number, TransactionSettlement>> {
+  partnerIds ??= (await db.transactions.orderBy('partnerId').uniqueKeys()) as number[];
+  const all = new Map<number, TransactionSettlement>();
+
+  for (const partnerId of partnerIds) {
+    const { settlements } = await getPartnerSettlements(partnerId);
+    settlements.forEach((settlement, id) => all.set(id, settlement));
+  }
+
+  return all;
+}
+
+/**
+ * Factures ouvertes d'un partner (reste > 0), plus anciennes d'abord
+ * @param excludePaymentId Paiement en cours d'édition (sa part est libérée)
+ */
+export async function getOpenTransactions(
+  partnerId: number,
+  excludePaymentId?: number
+): Promise<TransactionSettlement[]> {
+  const { settlements } = await getPartnerSettlements(partnerId, { excludePaymentId });
+  return Array.from(settlements.values()).filter(s => s.remaining > 0);
+}
+
+/**
+ * Répartit un montant sur les factures choisies, dans l'ordre donné
+ * (chaque facture reçoit au plus son reste à payer)
+ */
+export function distributeAmount(
+  amount: number,
+  selected: TransactionSettlement[]
+): PaymentAllocation[] {
+  let left = amount;
+  const allocations: PaymentAllocation[] = [];
+
+  selected.forEach(settlement => {
+    if (left <= 0) return;
+    const share = Math.min(settlement.remaining, left);
+    allocations.push({ transactionId: settlement.transaction.id!, amount: share });
+    left -= share;
+  });
+
+  return allocations;
+}
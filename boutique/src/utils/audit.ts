@@ -0,0 +1,114 @@
+/**
+ * Journal d'audit : calcul des changements et libellés
+ *
+ * - CREATE : tous les champs, valeur "après" uniquement
+ * - UPDATE : seulement les champs dont la valeur a changé (avant → après)
+ * - DELETE : tous les champs, valeur "avant" uniquement
+ * - Champs ignorés : updatedAt (toujours modifié), imageUrl / ocrText (trop lourds)
+ *
+ * Aucune dépendance à la base : utilisé par le middleware d'audit de db.ts
+ */
+
+import type { AuditAction, AuditChange, AuditTable } from '../types/audit';
+
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'imageUrl', 'ocrText']);
+
+// Champs contenant un timestamp (affichés comme des dates)
+const DATE_FIELDS = new Set(['date', 'dueDate', 'createdAt']);
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  partners: 'Partner',
+  transactions: 'Transaction',
+  payments: 'Paiement'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Création',
+  UPDATE: 'Modification',
+  DELETE: 'Suppression'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nom',
+  type: 'Type',
+  phone: 'Téléphone',
+  address: 'Adresse',
+  partnerId: 'Partner',
+  transactionId: 'Transaction',
+  accountId: 'Compte',
+  date: 'Date',
+  dueDate: 'Échéance',
+  direction: 'Sens',
+  total: 'Total',
+  paid: 'Payé',
+  amount: 'Montant',
+  items: 'Articles',
+  allocations: 'Affectations',
+  note: 'Note',
+  createdBy: 'Saisi par',
+  createdAt: 'Créé le'
+};
+
+/**
+ * Vrai si deux valeurs (éventuellement objets / tableaux) sont identiques
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Changements d'une création (valeurs après) ou d'une suppression (valeurs avant)
+ */
+export function getSnapshotChanges(record: object, side: 'before' | 'after'): AuditChange[] {
+  return Object.entries(record)
+    .filter(([field, value]) => !IGNORED_FIELDS.has(field) && value !== undefined)
+    .map(([field, value]) => ({ field, [side]: value }));
+}
+
+/**
+ * Changements d'une modification (enregistrement avant / après écriture)
+ */
+export function getUpdateChanges(before: object, after: object): AuditChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .map(field => ({
+      field,
+      before: (before as Record<string, unknown>)[field],
+      after: (after as Record<string, unknown>)[field]
+    }))
+    .filter(change => !isSameValue(change.before, change.after));
+}
+
+/**
+ * Libellé d'un champ
+ */
+export function getFieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * Valeur lisible d'un champ (dates, montants, listes)
+ */
+export function formatAuditValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+
+  if (typeof value === 'number') {
+    return DATE_FIELDS.has(field)
+      ? new Date(value).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric' })
+      : new Intl.NumberFormat('fr-FR').format(value);
+  }
+  if (typeof value === 'boolean') return value ? 'Oui' : 'Non';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    if (field === 'items') {
+      return value.map(item => `${item.qty} × ${item.name} (${new Intl.NumberFormat('fr-FR').format(item.price)})`).join(', ');
+    }
+    if (field === 'allocations') {
+      return value.map(a => `n°${a.transactionId} : ${new Intl.NumberFormat('fr-FR').format(a.amount)}`).join(', ');
+    }
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,629 @@
+/**
+ * Sauvegarde / restauration complète de la base (export JSON versionné)
+ *
+ * FORMAT :
+ *   BackupData = { version, exportedAt, partners, transactions, payments, settings,
+ *                  products, stockMovements, accounts, transfers, closings }
+ *
+ * VERSIONS :
+ *   '1' : partners, transactions, payments (sans settings)
+ *   '2' : + settings
+ *   '3' : + products (catalogue), items[].productId
+ *   '4' : + stockMovements (reconstruits depuis les articles pour les fichiers '3')
+ *   '5' : + payments[].direction (IN / OUT, déduit pour les fichiers '4')
+ *   '6' : + accounts, transfers, payments[].accountId, transactions[].accountId
+ *         (comptes par défaut pour les fichiers '5', l'existant rattaché à la Caisse)
+ *   '7' : + closings (clôtures de caisse journalières)
+ *   Les fichiers anciens sont migrés vers BACKUP_VERSION avant import.
+ *   Le journal d'audit, les profils et les paramètres de synchronisation (sync_*) ne sont pas
+ *   sauvegardés : ils restent propres à l'appareil, y compris lors d'une restauration complète.
+ *
+ * CHIFFREMENT (facultatif) :
+ *   Le fichier peut être chiffré par une phrase secrète (EncryptedBackup, voir backupCrypto).
+ *   À la lecture, un fichier chiffré est reconnu et doit être déchiffré avant validation.
+ *
+ * MODES D'IMPORT :
+ *   - replace : vide toutes les tables puis restaure avec les ids d'origine.
+ *               Synchronisation : les enregistrements vidés sont envoyés comme supprimés,
+ *               les données restaurées comme de nouveaux enregistrements (un id restauré
+ *               peut désigner un autre enregistrement qu'avant, voir db.logSyncChange)
+ *   - merge   : ajoute à l'existant, les ids auto-incrémentés sont réattribués
+ *               et partnerId / transactionId (y compris allocations[]) / productId /
+ *               accountId / reversalOf (avoirs) sont remappés en conséquence.
+ *               Un partner de même [name+type] est réutilisé (pas de doublon),
+ *               de même qu'un produit ou un compte de même nom.
+ *               Une clôture déjà présente pour le même [compte+jour] est ignorée.
+ */
+
+import { db, DEFAULT_TREASURY_ACCOUNTS } from '../db/db';
+import type { BackupData, EncryptedBackup, ImportMode, ImportSummary } from '../types/backupData';
+import type { Partner } from '../types/partners';
+import type { Transaction } from '../types/transaction';
+import type { Payment } from '../types/payments';
+import type { Setting } from '../types/settings';
+import type { Product } from '../types/products';
+import type { StockMovement } from '../types/stock';
+import type { TreasuryAccount, Transfer } from '../types/treasury';
+import type { CashClosing } from '../types/closing';
+import { buildStockMovements } from './stock';
+import { inferPaymentDirection } from './paymentDirection';
+import { decryptBackup, encryptBackup, isEncryptedBackup, validateEncryptedBackup } from './backupCrypto';
+import { isSyncSetting } from './syncClock';
+
+export const BACKUP_VERSION = '7';
+
+type RawBackup = Record<string, unknown>;
+
+/**
+ * Migrations successives : chaque entrée transforme la version N en N+1
+ */
+const MIGRATIONS: Record<string, (data: RawBackup) => RawBackup> = {
+  '1': (data) => ({ ...data, version: '2', settings: [] }),
+  '2': (data) => ({ ...data, version: '3', products: [] }),
+  '3': (data) => ({ ...data, version: '4', stockMovements: rebuildStockMovements(data.transactions) }),
+  '4': (data) => ({ ...data, version: '5', payments: inferPaymentDirections(data) }),
+  '5': (data) => ({ ...data, version: '6', ...addDefaultAccounts(data) }),
+  '6': (data) => ({ ...data, version: '7', closings: [] })
+};
+
+/**
+ * Reconstruit le journal de stock depuis les articles des transactions
+ * (les éléments invalides sont ignorés ici, rejetés ensuite par validateBackup)
+ */
+function rebuildStockMovements(transactions: unknown): StockMovement[] {
+  if (!Array.isArray(transactions)) return [];
+
+  return transactions.flatMap(tx => {
+    if (!isObject(tx) || !isNumber(tx.id) || !Array.isArray(tx.items)) return [];
+    return buildStockMovements(tx as unknown as Transaction, tx.id)
+      .map(movement => ({ ...movement, createdAt: Date.now() }));
+  });
+}
+
+/**
+ * Renseigne le sens des paiements d'une sauvegarde antérieure au champ direction
+ * (même règle que la migration Dexie version 5)
+ */
+function inferPaymentDirections(data: RawBackup): unknown {
+  const { payments, transactions, partners } = data;
+  if (!Array.isArray(payments) || !Array.isArray(transactions) || !Array.isArray(partners)) {
+    return payments;
+  }
+
+  const validTransactions = transactions.filter(
+    tx => isObject(tx) && isNumber(tx.partnerId) && isNumber(tx.date)
+  ) as unknown as Transaction[];
+  const partnerTypes = new Map(
+    partners.filter(isObject).map(p => [p.id, p.type as Partner['type']])
+  );
+
+  return payments.map(p => {
+    if (!isObject(p) || p.direction != null) return p;
+    return {
+      ...p,
+      direction: inferPaymentDirection(
+        p as unknown as Payment,
+        validTransactions,
+        partnerTypes.get(p.partnerId)
+      )
+    };
+  });
+}
+
+/**
+ * Ajoute les comptes par défaut et rattache l'existant à la Caisse
+ * (même règle que la migration Dexie version 6)
+ */
+function addDefaultAccounts(data: RawBackup): RawBackup {
+  const now = Date.now();
+  const accounts = DEFAULT_TREASURY_ACCOUNTS.map((account, i) => ({ ...account, id: i + 1, createdAt: now }));
+  const cashId = accounts[0].id;
+
+  const withAccount = (records: unknown, hasPaid: (record: RawBackup) => boolean) =>
+    Array.isArray(records)
+      ? records.map(r => (isObject(r) && r.accountId == null && hasPaid(r) ? { ...r, accountId: cashId } : r))
+      : records;
+
+  return {
+    accounts,
+    transfers: [],
+    payments: withAccount(data.payments, () => true),
+    transactions: withAccount(data.transactions, tx => isNumber(tx.paid) && tx.paid > 0)
+  };
+}
+
+// ==================== EXPORT ====================
+
+/**
+ * Tables incluses dans la sauvegarde
+ */
+function backupTables() {
+  return [
+    db.partners, db.transactions, db.payments, db.settings,
+    db.products, db.stockMovements, db.accounts, db.transfers, db.closings
+  ];
+}
+
+/**
+ * Lit toutes les tables et construit l'objet de sauvegarde
+ */
+export async function exportDatabase(): Promise<BackupData> {
+  return db.transaction('r', backupTables(), async () => {
+    const [partners, transactions, payments, settings, products, stockMovements, accounts, transfers, closings] = await Promise.all([
+      db.partners.toArray(),
+      db.transactions.toArray(),
+      db.payments.toArray(),
+      db.settings.toArray(),
+      db.products.toArray(),
+      db.stockMovements.toArray(),
+      db.accounts.toArray(),
+      db.transfers.toArray(),
+      db.closings.toArray()
+    ]);
+
+    return {
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      partners,
+      transactions,
+      payments,
+      settings: settings.filter(setting => !isSyncSetting(setting.key)),
+      products,
+      stockMovements,
+      accounts,
+      transfers,
+      closings
+    };
+  });
+}
+
+/**
+ * Nom de fichier par défaut : ma-boutique-AAAA-MM-JJ.json (ou -chiffre.json)
+ */
+export function getBackupFileName(date: number = Date.now(), encrypted = false): string {
+  return `ma-boutique-${new Date(date).toISOString().slice(0, 10)}${encrypted ? '-chiffre' : ''}.json`;
+}
+
+/**
+ * Déclenche le téléchargement d'un fichier dans le navigateur
+ */
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Télécharge la sauvegarde au format JSON
+ */
+export function downloadBackup(data: BackupData): void {
+  downloadFile(JSON.stringify(data, null, 2), getBackupFileName(data.exportedAt), 'application/json');
+}
+
+/**
+ * Chiffre puis télécharge la sauvegarde
+ */
+export async function downloadEncryptedBackup(data: BackupData, passphrase: string): Promise<void> {
+  const envelope = await encryptBackup(data, passphrase);
+  downloadFile(JSON.stringify(envelope), getBackupFileName(data.exportedAt, true), 'application/json');
+}
+
+// ==================== VALIDATION & MIGRATION ====================
+
+function isObject(value: unknown): value is RawBackup {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function assertArray(data: RawBackup, key: string): unknown[] {
+  const value = data[key];
+  if (!Array.isArray(value)) {
+    throw new Error(`Sauvegarde invalide : "${key}" manquant`);
+  }
+  return value;
+}
+
+/**
+ * Applique les migrations jusqu'à BACKUP_VERSION
+ */
+export function migrateBackup(data: RawBackup): RawBackup {
+  let current = data;
+  let version = String(current.version ?? '');
+
+  while (version !== BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Version de sauvegarde non supportée : ${version || 'inconnue'}`);
+    }
+    current = migrate(current);
+    version = String(current.version);
+  }
+
+  return current;
+}
+
+/**
+ * Valide la structure d'une sauvegarde (après migration)
+ * Vérifie aussi que les références partnerId / transactionId sont cohérentes
+ */
+export function validateBackup(raw: unknown): BackupData {
+  if (!isObject(raw)) {
+    throw new Error('Sauvegarde invalide : format inattendu');
+  }
+
+  const data = migrateBackup(raw);
+
+  const partners = assertArray(data, 'partners');
+  const transactions = assertArray(data, 'transactions');
+  const payments = assertArray(data, 'payments');
+  const settings = assertArray(data, 'settings');
+  const products = assertArray(data, 'products');
+  const stockMovements = assertArray(data, 'stockMovements');
+  const accounts = assertArray(data, 'accounts');
+  const transfers = assertArray(data, 'transfers');
+  const closings = assertArray(data, 'closings');
+
+  const accountIds = new Set<number>();
+  accounts.forEach((a, i) => {
+    if (!isObject(a) || !isNumber(a.id) || typeof a.name !== 'string' || !isNumber(a.openingBalance)
+      || !['CASH', 'MOBILE_MONEY', 'BANK'].includes(a.type as string)) {
+      throw new Error(`Sauvegarde invalide : compte n°${i + 1} incorrect`);
+    }
+    accountIds.add(a.id);
+  });
+  const isAccountRef = (value: unknown) => value == null || (isNumber(value) && accountIds.has(value));
+
+  const productIds = new Set<number>();
+  products.forEach((p, i) => {
+    if (!isObject(p) || !isNumber(p.id) || typeof p.name !== 'string') {
+      throw new Error(`Sauvegarde invalide : produit n°${i + 1} incorrect`);
+    }
+    productIds.add(p.id);
+  });
+
+  const partnerIds = new Set<number>();
+  partners.forEach((p, i) => {
+    if (!isObject(p) || !isNumber(p.id) || typeof p.name !== 'string'
+      || !['CLIENT', 'SUPPLIER', 'BOTH'].includes(p.type as string)) {
+      throw new Error(`Sauvegarde invalide : partner n°${i + 1} incorrect`);
+    }
+    partnerIds.add(p.id);
+  });
+
+  const transactionIds = new Set<number>();
+  transactions.forEach((tx, i) => {
+    if (!isObject(tx) || !isNumber(tx.id) || !isNumber(tx.date)
+      || !isNumber(tx.total) || !isNumber(tx.paid)
+      || !['SALE', 'PURCHASE'].includes(tx.direction as string)) {
+      throw new Error(`Sauvegarde invalide : transaction n°${i + 1} incorrecte`);
+    }
+    if (!isNumber(tx.partnerId) || !partnerIds.has(tx.partnerId)) {
+      throw new Error(`Sauvegarde invalide : transaction n°${i + 1} sans partner`);
+    }
+    if (tx.items != null && !Array.isArray(tx.items)) {
+      throw new Error(`Sauvegarde invalide : articles de la transaction n°${i + 1} incorrects`);
+    }
+    if (!isAccountRef(tx.accountId)) {
+      throw new Error(`Sauvegarde invalide : transaction n°${i + 1} liée à un compte inconnu`);
+    }
+    transactionIds.add(tx.id);
+  });
+
+  // Un avoir doit référencer une transaction de la sauvegarde
+  transactions.forEach((tx, i) => {
+    if (isObject(tx) && tx.reversalOf != null
+      && !(isNumber(tx.reversalOf) && transactionIds.has(tx.reversalOf))) {
+      throw new Error(`Sauvegarde invalide : avoir n°${i + 1} lié à une transaction inconnue`);
+    }
+  });
+
+  payments.forEach((p, i) => {
+    if (!isObject(p) || !isNumber(p.date) || !isNumber(p.amount)) {
+      throw new Error(`Sauvegarde invalide : paiement n°${i + 1} incorrect`);
+    }
+    if (!isNumber(p.partnerId) || !partnerIds.has(p.partnerId)) {
+      throw new Error(`Sauvegarde invalide : paiement n°${i + 1} sans partner`);
+    }
+    if (p.direction !== 'IN' && p.direction !== 'OUT') {
+      throw new Error(`Sauvegarde invalide : paiement n°${i + 1} sans sens (encaissement / décaissement)`);
+    }
+    if (p.transactionId != null && !(isNumber(p.transactionId) && transactionIds.has(p.transactionId))) {
+      throw new Error(`Sauvegarde invalide : paiement n°${i + 1} lié à une transaction inconnue`);
+    }
+    if (p.allocations != null && !(Array.isArray(p.allocations) && p.allocations.every(
+      a => isObject(a) && isNumber(a.amount) && isNumber(a.transactionId) && transactionIds.has(a.transactionId)
+    ))) {
+      throw new Error(`Sauvegarde invalide : paiement n°${i + 1} affecté à une transaction inconnue`);
+    }
+    if (!isAccountRef(p.accountId)) {
+      throw new Error(`Sauvegarde invalide : paiement n°${i + 1} lié à un compte inconnu`);
+    }
+  });
+
+  transfers.forEach((t, i) => {
+    if (!isObject(t) || !isNumber(t.amount) || !isNumber(t.date)
+      || !isNumber(t.fromAccountId) || !accountIds.has(t.fromAccountId)
+      || !isNumber(t.toAccountId) || !accountIds.has(t.toAccountId)) {
+      throw new Error(`Sauvegarde invalide : virement n°${i + 1} incorrect`);
+    }
+  });
+
+  closings.forEach((c, i) => {
+    if (!isObject(c) || !isNumber(c.date) || !isNumber(c.counted) || !isNumber(c.expected)
+      || !isNumber(c.difference) || !isObject(c.summary)
+      || !isNumber(c.accountId) || !accountIds.has(c.accountId)) {
+      throw new Error(`Sauvegarde invalide : clôture de caisse n°${i + 1} incorrecte`);
+    }
+  });
+
+  stockMovements.forEach((m, i) => {
+    if (!isObject(m) || !isNumber(m.quantity) || !isNumber(m.date)
+      || !['IN', 'OUT', 'ADJUSTMENT'].includes(m.type as string)) {
+      throw new Error(`Sauvegarde invalide : mouvement de stock n°${i + 1} incorrect`);
+    }
+    if (!isNumber(m.productId) || !productIds.has(m.productId)) {
+      throw new Error(`Sauvegarde invalide : mouvement de stock n°${i + 1} sans produit`);
+    }
+    if (m.transactionId != null && !(isNumber(m.transactionId) && transactionIds.has(m.transactionId))) {
+      throw new Error(`Sauvegarde invalide : mouvement de stock n°${i + 1} lié à une transaction inconnue`);
+    }
+  });
+
+  settings.forEach((s, i) => {
+    if (!isObject(s) || typeof s.key !== 'string') {
+      throw new Error(`Sauvegarde invalide : paramètre n°${i + 1} incorrect`);
+    }
+  });
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: isNumber(data.exportedAt) ? data.exportedAt : Date.now(),
+    partners: partners as Partner[],
+    transactions: transactions as Transaction[],
+    payments: payments as Payment[],
+    settings: (settings as Setting[]).filter(setting => !isSyncSetting(setting.key)),
+    products: products as Product[],
+    stockMovements: stockMovements as StockMovement[],
+    accounts: accounts as TreasuryAccount[],
+    transfers: transfers as Transfer[],
+    closings: closings as CashClosing[]
+  };
+}
+
+/**
+ * Lit et valide un fichier de sauvegarde JSON
+ * Un fichier chiffré est renvoyé tel quel (en-tête vérifié) : voir openEncryptedBackup
+ */
+export async function readBackupFile(file: File): Promise<BackupData | EncryptedBackup> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Fichier illisible : ce n\'est pas une sauvegarde JSON');
+  }
+  if (isEncryptedBackup(raw)) {
+    return validateEncryptedBackup(raw);
+  }
+  return validateBackup(raw);
+}
+
+/**
+ * Déchiffre et valide une sauvegarde chiffrée
+ */
+export async function openEncryptedBackup(envelope: EncryptedBackup, passphrase: string): Promise<BackupData> {
+  return validateBackup(await decryptBackup(envelope, passphrase));
+}
+
+// ==================== IMPORT ====================
+
+/**
+ * Copie d'un enregistrement sans son id (laisse Dexie en attribuer un nouveau)
+ */
+function withoutId<T extends { id?: number }>(record: T): T {
+  const copy = { ...record };
+  delete copy.id;
+  return copy;
+}
+
+/**
+ * Remplace toute la base par le contenu de la sauvegarde
+ */
+async function replaceDatabase(data: BackupData): Promise<ImportSummary> {
+  await Promise.all(backupTables()
+    .filter(table => table !== db.settings)
+    .map(table => table.clear()));
+  await db.settings.filter(setting => !isSyncSetting(setting.key)).delete();
+
+  await db.partners.bulkAdd(data.partners);
+  await db.transactions.bulkAdd(data.transactions);
+  await db.payments.bulkAdd(data.payments);
+  await db.settings.bulkAdd(data.settings);
+  await db.products.bulkAdd(data.products);
+  await db.stockMovements.bulkAdd(data.stockMovements);
+  await db.accounts.bulkAdd(data.accounts);
+  await db.transfers.bulkAdd(data.transfers);
+  await db.closings.bulkAdd(data.closings);
+
+  return {
+    mode: 'replace',
+    partners: data.partners.length,
+    mergedPartners: 0,
+    transactions: data.transactions.length,
+    payments: data.payments.length,
+    settings: data.settings.length,
+    products: data.products.length,
+    stockMovements: data.stockMovements.length,
+    accounts: data.accounts.length,
+    transfers: data.transfers.length,
+    closings: data.closings.length
+  };
+}
+
+/**
+ * Fusionne la sauvegarde avec la base existante
+ * Les ids d'origine sont remplacés, les références suivent via des tables de correspondance
+ */
+async function mergeDatabase(data: BackupData): Promise<ImportSummary> {
+  const partnerIdMap = new Map<number, number>();
+  const transactionIdMap = new Map<number, number>();
+  const productIdMap = new Map<number, number>();
+  const accountIdMap = new Map<number, number>();
+  let addedPartners = 0;
+  let mergedPartners = 0;
+  let addedSettings = 0;
+  let addedProducts = 0;
+  let addedAccounts = 0;
+  let addedClosings = 0;
+
+  for (const account of data.accounts) {
+    const existing = await db.accounts.where('name').equals(account.name).first();
+
+    if (existing) {
+      accountIdMap.set(account.id!, existing.id!);
+    } else {
+      const newId = await db.accounts.add(withoutId(account));
+      accountIdMap.set(account.id!, newId);
+      addedAccounts++;
+    }
+  }
+
+  const mapAccount = (accountId?: number) => accountId != null ? accountIdMap.get(accountId) : undefined;
+
+  for (const product of data.products) {
+    const existing = await db.products.where('name').equals(product.name).first();
+
+    if (existing) {
+      productIdMap.set(product.id!, existing.id!);
+    } else {
+      const newId = await db.products.add(withoutId(product));
+      productIdMap.set(product.id!, newId);
+      addedProducts++;
+    }
+  }
+
+  for (const partner of data.partners) {
+    const existing = await db.partners
+      .where('[name+type]')
+      .equals([partner.name, partner.type])
+      .first();
+
+    if (existing) {
+      partnerIdMap.set(partner.id!, existing.id!);
+      mergedPartners++;
+    } else {
+      const newId = await db.partners.add(withoutId(partner));
+      partnerIdMap.set(partner.id!, newId);
+      addedPartners++;
+    }
+  }
+
+  for (const tx of data.transactions) {
+    const newId = await db.transactions.add({
+      ...withoutId(tx),
+      partnerId: partnerIdMap.get(tx.partnerId)!,
+      accountId: mapAccount(tx.accountId),
+      items: tx.items?.map(item => ({
+        ...item,
+        productId: item.productId != null ? productIdMap.get(item.productId) : undefined
+      }))
+    });
+    transactionIdMap.set(tx.id!, newId);
+  }
+
+  // Avoirs : la transaction d'origine n'a son nouvel id qu'une fois toutes ajoutées
+  for (const tx of data.transactions) {
+    if (tx.reversalOf == null) continue;
+    await db.transactions.update(transactionIdMap.get(tx.id!)!, {
+      reversalOf: transactionIdMap.get(tx.reversalOf)
+    });
+  }
+
+  for (const payment of data.payments) {
+    await db.payments.add({
+      ...withoutId(payment),
+      partnerId: partnerIdMap.get(payment.partnerId)!,
+      accountId: mapAccount(payment.accountId),
+      transactionId: payment.transactionId != null
+        ? transactionIdMap.get(payment.transactionId)
+        : undefined,
+      allocations: payment.allocations?.map(a => ({
+        ...a,
+        transactionId: transactionIdMap.get(a.transactionId)!
+      }))
+    });
+  }
+
+  for (const movement of data.stockMovements) {
+    await db.stockMovements.add({
+      ...withoutId(movement),
+      productId: productIdMap.get(movement.productId)!,
+      transactionId: movement.transactionId != null
+        ? transactionIdMap.get(movement.transactionId)
+        : undefined
+    });
+  }
+
+  for (const transfer of data.transfers) {
+    await db.transfers.add({
+      ...withoutId(transfer),
+      fromAccountId: accountIdMap.get(transfer.fromAccountId)!,
+      toAccountId: accountIdMap.get(transfer.toAccountId)!
+    });
+  }
+
+  for (const closing of data.closings) {
+    const accountId = accountIdMap.get(closing.accountId)!;
+    const existing = await db.closings
+      .where('[accountId+date]')
+      .equals([accountId, closing.date])
+      .first();
+
+    if (!existing) {
+      await db.closings.add({ ...withoutId(closing), accountId });
+      addedClosings++;
+    }
+  }
+
+  // Paramètres : on conserve ceux de l'appareil, on ajoute seulement les manquants
+  for (const setting of data.settings) {
+    const existing = await db.settings.get(setting.key);
+    if (!existing) {
+      await db.settings.add(setting);
+      addedSettings++;
+    }
+  }
+
+  return {
+    mode: 'merge',
+    partners: addedPartners,
+    mergedPartners,
+    transactions: data.transactions.length,
+    payments: data.payments.length,
+    settings: addedSettings,
+    products: addedProducts,
+    stockMovements: data.stockMovements.length,
+    accounts: addedAccounts,
+    transfers: data.transfers.length,
+    closings: addedClosings
+  };
+}
+
+/**
+ * Importe une sauvegarde validée (transaction Dexie : tout ou rien)
+ */
+export async function importBackup(data: BackupData, mode: ImportMode): Promise<ImportSummary> {
+  return db.transaction('rw', backupTables(), () =>
+    mode === 'replace' ? replaceDatabase(data) : mergeDatabase(data)
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Chiffrement des sauvegardes par phrase secrète (WebCrypto)
+ *
+ * FORMAT (EncryptedBackup, version '1') :
+ *   - PBKDF2-SHA-256 (sel aléatoire 16 octets) dérive 512 bits :
+ *       256 premiers = clé AES-GCM, 256 suivants = contrôle de la phrase secrète
+ *   - check = SHA-256 des bits de contrôle : distingue une phrase secrète incorrecte
+ *     d'un fichier altéré sans rien révéler de la clé
+ *   - AES-GCM (iv aléatoire 12 octets) chiffre le JSON de la sauvegarde ;
+ *     l'en-tête (format, version, exportedAt, kdf, cipher, check) est authentifié
+ *     comme donnée associée : toute modification fait échouer le déchiffrement
+ *   - Limite : un sel ou un nombre d'itérations modifié change la clé dérivée,
+ *     l'erreur est alors « phrase secrète incorrecte »
+ */
+
+import type { BackupData, EncryptedBackup } from '../types/backupData';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'ma-boutique-chiffre';
+export const ENCRYPTED_BACKUP_VERSION = '1';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 600_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;  // Fichier modifié : évite de bloquer l'appareil
+
+// ==================== ENCODAGE ====================
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Par blocs : String.fromCharCode(...) est limité en nombre d'arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ==================== CLÉS ====================
+
+/**
+ * Dérive la clé AES-GCM et l'empreinte de contrôle depuis la phrase secrète
+ */
+async function deriveKeys(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<{ key: CryptoKey; check: string }> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    512
+  ));
+
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  const check = bytesToBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', bits.slice(32))));
+
+  return { key, check };
+}
+
+/**
+ * Donnée associée AES-GCM : en-tête sérialisé dans un ordre fixe
+ */
+function getAssociatedData(envelope: Omit<EncryptedBackup, 'data'>): Uint8Array<ArrayBuffer> {
+  const { format, version, exportedAt, kdf, cipher, check } = envelope;
+  return new TextEncoder().encode(JSON.stringify([
+    format,
+    version,
+    exportedAt,
+    [kdf.name, kdf.hash, kdf.iterations, kdf.salt],
+    [cipher.name, cipher.iv],
+    check
+  ]));
+}
+
+// ==================== CHIFFREMENT ====================
+
+/**
+ * Le fichier lu est-il une sauvegarde chiffrée ? (structure vérifiée par validateEncryptedBackup)
+ */
+export function isEncryptedBackup(raw: unknown): raw is EncryptedBackup {
+  return typeof raw === 'object' && raw !== null
+    && (raw as Record<string, unknown>).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+/**
+ * Vérifie la structure d'une sauvegarde chiffrée (avant déchiffrement)
+ */
+export function validateEncryptedBackup(raw: unknown): EncryptedBackup {
+  const envelope = raw as EncryptedBackup;
+  const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+
+  if (!isEncryptedBackup(raw)
+    || envelope.version !== ENCRYPTED_BACKUP_VERSION
+    || typeof envelope.exportedAt !== 'number'
+    || envelope.kdf?.name !== 'PBKDF2' || envelope.kdf.hash !== 'SHA-256'
+    || !Number.isInteger(envelope.kdf.iterations) || envelope.kdf.iterations <= 0
+    || envelope.kdf.iterations > MAX_PBKDF2_ITERATIONS
+    || !isString(envelope.kdf.salt)
+    || envelope.cipher?.name !== 'AES-GCM' || !isString(envelope.cipher.iv)
+    || !isString(envelope.check) || !isString(envelope.data)) {
+    throw new Error('Sauvegarde chiffrée invalide : format inattendu ou version non supportée');
+  }
+
+  return envelope;
+}
+
+/**
+ * Chiffre une sauvegarde avec une phrase secrète
+ */
+export async function encryptBackup(data: BackupData, passphrase: string): Promise<EncryptedBackup> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`La phrase secrète doit comporter au moins ${MIN_PASSPHRASE_LENGTH} caractères`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { key, check } = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const header: Omit<EncryptedBackup, 'data'> = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    exportedAt: data.exportedAt,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: bytesToBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+    check
+  };
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: getAssociatedData(header) },
+    key,
+    new TextEncoder().encode(JSON.stringify(data))
+  );
+
+  return { ...header, data: bytesToBase64(new Uint8Array(encrypted)) };
+}
+
+/**
+ * Déchiffre une sauvegarde : renvoie le JSON brut (à valider par validateBackup)
+ * Erreurs distinctes pour une phrase secrète incorrecte et un fichier altéré
+ */
+export async function decryptBackup(envelope: EncryptedBackup, passphrase: string): Promise<unknown> {
+  let salt: Uint8Array<ArrayBuffer>, iv: Uint8Array<ArrayBuffer>, ciphertext: Uint8Array<ArrayBuffer>;
+  try {
+    salt = base64ToBytes(envelope.kdf.salt);
+    iv = base64ToBytes(envelope.cipher.iv);
+    ciphertext = base64ToBytes(envelope.data);
+  } catch {
+    throw new Error('Fichier altéré ou endommagé : contenu chiffré illisible');
+  }
+
+  const { key, check } = await deriveKeys(passphrase, salt, envelope.kdf.iterations);
+  if (check !== envelope.check) {
+    throw new Error('Phrase secrète incorrecte');
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: getAssociatedData(envelope) },
+      key,
+      ciphertext
+    );
+  } catch {
+    throw new Error('Fichier altéré ou endommagé : la vérification d\'intégrité a échoué');
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new Error('Sauvegarde chiffrée invalide : contenu déchiffré illisible');
+  }
+}
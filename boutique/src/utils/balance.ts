@@ -14,7 +14,10 @@
  * 
  * 3. Payments ultérieurs (standalone) :
  *    - Payment.transactionId = null ou undefined
- *    - Réduisent la balance vers 0
+ *    - Sens explicite (Payment.direction, cf. utils/paymentDirection) :
+ *      IN (reçu du partner) → balance - montant
+ *      OUT (versé au partner) → balance + montant
+ *    - Un paiement excédentaire inverse donc le solde, y compris pour BOTH
  * 
  * EXEMPLE COMPLET :
  * T0 : Balance = 0
@@ -28,30 +31,29 @@
  * T3 : Client paie 5,000 F
  *      → Payment: amount=5000, transactionId=null
  *      → Balance = 5000 - 5000 = 0 F ✓ SOLDÉ
+ *
+ * SOLDES MATÉRIALISÉS :
+ * La table balances garde le solde courant de chaque partner, mis à jour dans la
+ * transaction même de l'écriture (voir db.writeBalances). Listes et tableau de bord
+ * la lisent ; verifyBalances la compare à un recalcul complet et peut la reconstruire.
+ * Les soldes à une date (relevés, factures) restent calculés depuis les données.
  */
 
 import { db } from '../db/db';
-import type { Transaction } from '../types/transaction';
-import type { Payment } from '../types/payments';
-import type { PartnerBalance } from '../types/balances';
+import type { Payment, PaymentDirection } from '../types/payments';
+import type { BalanceCheckResult, BalanceMismatch, BalanceRecord, PartnerBalance } from '../types/balances';
 import type { Partner } from '../types/partners';
+import { getPaymentImpact } from './paymentDirection';
+import { calculatePosition, computeBalances } from './balanceDelta';
 
-/**
- * Calcule la position NETTE d'une transaction
- * (après paiement initial Transaction.paid)
- * @returns Positif = partner nous doit, Négatif = on doit au partner
- */
-export function calculatePosition(tx: Transaction): number {
-  const unpaid = tx.total - tx.paid;
-  return tx.direction === 'SALE' ? unpaid : -unpaid;
-}
+export { calculatePosition };
 
 /**
  * Calcule le solde d'un partner AVANT une date donnée
  * 
  * MÉTHODE :
  * 1. Somme positions NETTES des transactions (total - paid)
- * 2. Soustraire les Payments standalone (non liés aux transactions)
+ * 2. Ajouter l'impact signé des Payments standalone (non liés aux transactions)
  * 
  * @param partnerId ID du partner
  * @param beforeDate Timestamp (exclusif)
@@ -72,7 +74,7 @@ export async function getPreviousBalance(
     )
     .toArray();
 
-  let balance = transactions.reduce((sum, tx) => sum + calculatePosition(tx), 0);
+  const balance = transactions.reduce((sum, tx) => sum + calculatePosition(tx), 0);
 
   // 2. Paiements standalone (ultérieurs, non liés aux transactions)
   // On exclut les Payments avec transactionId car déjà comptés dans Transaction.paid
@@ -82,20 +84,8 @@ export async function getPreviousBalance(
     .filter(p => !p.transactionId && p.date < beforeDate)
     .toArray();
 
-  // ✅ CORRIGÉ : Les paiements réduisent TOUJOURS la valeur absolue (vers 0)
-  // Si balance > 0 (client nous doit) : on reçoit le paiement → balance diminue
-  // Si balance < 0 (on doit au fournisseur) : on paie → balance augmente (vers 0)
-  const totalPayments = standalonePayments.reduce((sum, p) => sum + p.amount, 0);
-  
-  if (balance >= 0) {
-    // CLIENT nous doit : paiement RÉDUIT la créance
-    balance -= totalPayments;
-  } else {
-    // FOURNISSEUR on lui doit : paiement RÉDUIT la dette (augmente balance vers 0)
-    balance += totalPayments;
-  }
-
-  return balance;
+  // Encaissement (IN) : balance diminue / Décaissement (OUT) : balance augmente
+  return standalonePayments.reduce((sum, p) => sum + getPaymentImpact(p), balance);
 }
 
 /**
@@ -134,32 +124,43 @@ export async function getPartnerBalance(partnerId: number): Promise<PartnerBalan
 }
 
 /**
- * Récupère toutes les balances
+ * Solde enregistré d'un partner (table balances, 0 sans ligne)
+ */
+export async function getStoredBalance(partnerId: number): Promise<number> {
+  const record = await db.balances.get(partnerId);
+  return record?.balance ?? 0;
+}
+
+/**
+ * Soldes enregistrés de tous les partners, par id
+ */
+export async function getStoredBalances(): Promise<Map<number, BalanceRecord>> {
+  const records = await db.balances.toArray();
+  return new Map(records.map(r => [r.partnerId, r]));
+}
+
+/**
+ * Récupère toutes les balances (table balances : deux lectures, quel que soit le nombre de partners)
  */
 export async function getAllBalances(
   type?: Partner['type']
 ): Promise<PartnerBalance[]> {
-  let partners: Partner[];
-  
-  if (type) {
-    partners = await db.partners.where('type').equals(type).toArray();
-  } else {
-    partners = await db.partners.toArray();
-  }
-
-  const balances = await Promise.all(
-    partners.map(p => getPartnerBalance(p.id!))
-  );
+  const [partners, records] = await Promise.all([
+    type ? db.partners.where('type').equals(type).toArray() : db.partners.toArray(),
+    getStoredBalances()
+  ]);
 
-  return balances.filter((b): b is PartnerBalance => b !== null);
+  return partners.map(partner => ({
+    partner,
+    balance: records.get(partner.id!)?.balance ?? 0,
+    transactionCount: records.get(partner.id!)?.transactionCount ?? 0
+  }));
 }
 
 /**
- * Calcule les totaux globaux
+ * Totaux d'une liste de balances
  */
-export async function getGlobalSummary() {
-  const balances = await getAllBalances();
-  
+export function summarizeBalances(balances: PartnerBalance[]) {
   const creances = balances
     .filter(b => b.balance > 0)
     .reduce((sum, b) => sum + b.balance, 0);
@@ -182,6 +183,72 @@ export async function getGlobalSummary() {
   };
 }
 
+/**
+ * Calcule les totaux globaux
+ */
+export async function getGlobalSummary() {
+  return summarizeBalances(await getAllBalances());
+}
+
+// ==================== VÉRIFICATION DES SOLDES ====================
+
+// Écart ignoré (arrondis des montants décimaux additionnés)
+const BALANCE_TOLERANCE = 0.01;
+
+/**
+ * Compare la table balances à un recalcul complet depuis les transactions et paiements
+ * @param repair Réécrit la table avec les valeurs recalculées (même sans écart)
+ */
+export async function verifyBalances(repair = false): Promise<BalanceCheckResult> {
+  return db.transaction(repair ? 'rw' : 'r', [db.partners, db.transactions, db.payments, db.balances], async () => {
+    const [partners, transactions, payments, records] = await Promise.all([
+      db.partners.toArray(),
+      db.transactions.toArray(),
+      db.payments.toArray(),
+      db.balances.toArray()
+    ]);
+
+    const actual = computeBalances(transactions, payments);
+    const stored = new Map(records.map(r => [r.partnerId, r]));
+    const partnerNames = new Map(partners.map(p => [p.id!, p.name]));
+    const partnerIds = new Set([...actual.keys(), ...stored.keys()]);
+
+    const mismatches: BalanceMismatch[] = [];
+    partnerIds.forEach(partnerId => {
+      const expected = actual.get(partnerId) ?? { balance: 0, transactionCount: 0 };
+      const record = stored.get(partnerId);
+      const current = { balance: record?.balance ?? 0, transactionCount: record?.transactionCount ?? 0 };
+
+      const balanceGap = Math.abs(current.balance - expected.balance);
+      if (balanceGap > BALANCE_TOLERANCE || current.transactionCount !== expected.transactionCount) {
+        mismatches.push({
+          partnerId,
+          partnerName: partnerNames.get(partnerId) ?? 'Inconnu',
+          stored: current,
+          actual: expected
+        });
+      }
+    });
+
+    if (repair) {
+      const now = Date.now();
+      await db.balances.clear();
+      await db.balances.bulkAdd(
+        [...actual]
+          .filter(([, delta]) => delta.balance !== 0 || delta.transactionCount !== 0)
+          .map(([partnerId, delta]) => ({ partnerId, ...delta, updatedAt: now }))
+      );
+    }
+
+    return {
+      checkedAt: Date.now(),
+      partnerCount: partners.length,
+      mismatches,
+      repaired: repair
+    };
+  });
+}
+
 // ==================== HELPERS POUR FORMULAIRES ====================
 
 /**
@@ -213,18 +280,12 @@ export function previewNewBalance(
 
 /**
  * Preview nouvelle balance après paiement
- * Un paiement réduit TOUJOURS la valeur absolue de la balance (vers 0)
  * Utilisé dans PaymentForm
  */
 export function previewBalanceAfterPayment(
   currentBalance: number,
-  paymentAmount: number
+  paymentAmount: number,
+  direction: PaymentDirection
 ): number {
-  if (currentBalance >= 0) {
-    // Partner nous doit → paiement réduit la créance
-    return currentBalance - paymentAmount;
-  } else {
-    // On doit au partner → paiement réduit la dette
-    return currentBalance + paymentAmount;
-  }
+  return currentBalance + getPaymentImpact({ amount: paymentAmount, direction });
 }
\ No newline at end of file
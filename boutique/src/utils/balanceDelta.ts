@@ -0,0 +1,94 @@
+/**
+ * Variations des soldes matérialisés (table balances)
+ *
+ * RÈGLES :
+ * 1. Une transaction pèse sa position nette (total - paid, signée selon le sens)
+ *    et compte pour 1 dans le nombre de transactions du partner
+ * 2. Seuls les paiements standalone pèsent sur le solde (un paiement lié est
+ *    déjà compté dans Transaction.paid)
+ * 3. Modification = retrait de l'ancienne version + ajout de la nouvelle
+ *    (un changement de partner déplace donc le montant d'une fiche à l'autre)
+ * 4. Les variations s'additionnent dans n'importe quel ordre : pas besoin
+ *    d'appliquer les écritures dans l'ordre où elles ont été validées
+ *
+ * Module sans accès à la base : utilisé aussi par le middleware des soldes et la migration Dexie.
+ */
+
+import type { Transaction } from '../types/transaction';
+import type { Payment } from '../types/payments';
+import type { BalanceDelta } from '../types/balances';
+import { getPaymentImpact } from './paymentDirection';
+
+/**
+ * Calcule la position NETTE d'une transaction
+ * (après paiement initial Transaction.paid)
+ * @returns Positif = partner nous doit, Négatif = on doit au partner
+ */
+export function calculatePosition(tx: Pick<Transaction, 'direction' | 'total' | 'paid'>): number {
+  const unpaid = tx.total - tx.paid;
+  return tx.direction === 'SALE' ? unpaid : -unpaid;
+}
+
+/**
+ * Ajoute une variation à celles déjà accumulées pour un partner
+ */
+export function addBalanceDelta(
+  deltas: Map<number, BalanceDelta>,
+  partnerId: number,
+  delta: BalanceDelta
+): void {
+  const current = deltas.get(partnerId) ?? { balance: 0, transactionCount: 0 };
+  deltas.set(partnerId, {
+    balance: current.balance + delta.balance,
+    transactionCount: current.transactionCount + delta.transactionCount
+  });
+}
+
+/**
+ * Variations dues à une transaction (before absent = création, after absent = suppression)
+ */
+export function addTransactionDeltas(
+  deltas: Map<number, BalanceDelta>,
+  before: Transaction | undefined,
+  after: Transaction | undefined
+): void {
+  if (before) {
+    addBalanceDelta(deltas, before.partnerId, { balance: -calculatePosition(before), transactionCount: -1 });
+  }
+  if (after) {
+    addBalanceDelta(deltas, after.partnerId, { balance: calculatePosition(after), transactionCount: 1 });
+  }
+}
+
+/**
+ * Variations dues à un paiement (seuls les paiements standalone comptent)
+ */
+export function addPaymentDeltas(
+  deltas: Map<number, BalanceDelta>,
+  before: Payment | undefined,
+  after: Payment | undefined
+): void {
+  if (before && !before.transactionId) {
+    addBalanceDelta(deltas, before.partnerId, { balance: -getPaymentImpact(before), transactionCount: 0 });
+  }
+  if (after && !after.transactionId) {
+    addBalanceDelta(deltas, after.partnerId, { balance: getPaymentImpact(after), transactionCount: 0 });
+  }
+}
+
+/**
+ * Soldes complets recalculés depuis toutes les transactions et tous les paiements
+ */
+export function computeBalances(transactions: Transaction[], payments: Payment[]): Map<number, BalanceDelta> {
+  const balances = new Map<number, BalanceDelta>();
+  transactions.forEach(tx => addTransactionDeltas(balances, undefined, tx));
+  payments.forEach(p => addPaymentDeltas(balances, undefined, p));
+  return balances;
+}
+
+/**
+ * Vrai si la variation ne change rien
+ */
+export function isEmptyDelta(delta: BalanceDelta): boolean {
+  return delta.balance === 0 && delta.transactionCount === 0;
+}
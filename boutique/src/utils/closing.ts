@@ -0,0 +1,112 @@
+/**
+ * Clôture de caisse journalière (Z)
+ *
+ * - Journée = [minuit, minuit + 24h[ selon la convention des formulaires
+ *   (une date saisie "AAAA-MM-JJ" est enregistrée à minuit UTC)
+ * - Théorique = solde du compte en début de journée
+ *               + entrées - sorties du jour (cf. utils/treasury)
+ * - L'écart (compté - théorique) devient un mouvement du compte :
+ *   le lendemain repart du montant réellement compté
+ * - Une journée clôturée est FIGÉE : aucune transaction, paiement ou virement
+ *   daté de ce jour ne peut être créé, modifié ou supprimé
+ */
+
+import { db } from '../db/db';
+import type { ClosingPreview, DailySummary } from '../types/closing';
+import { getAccountJournal, getTransactionCashFlow, getPaymentCashFlow } from './treasury';
+import { getDocumentDirection, getSignedTotal, isCreditNote } from './creditNote';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Début de la journée contenant un timestamp
+ */
+export function getDayStart(timestamp: number): number {
+  return timestamp - (((timestamp % DAY_MS) + DAY_MS) % DAY_MS);
+}
+
+/**
+ * Vrai si une clôture (quel que soit le compte) existe pour la journée
+ */
+export async function isDayClosed(timestamp: number): Promise<boolean> {
+  const count = await db.closings.where('date').equals(getDayStart(timestamp)).count();
+  return count > 0;
+}
+
+/**
+ * Refuse toute écriture datée d'une journée clôturée
+ */
+export async function assertDayOpen(...timestamps: Array<number | undefined>): Promise<void> {
+  for (const timestamp of timestamps) {
+    if (timestamp === undefined) continue;
+    if (await isDayClosed(timestamp)) {
+      const label = new Date(getDayStart(timestamp)).toLocaleDateString('fr-FR', {
+        day: '2-digit',
+        month: 'long',
+        year: 'numeric'
+      });
+      throw new Error(`La journée du ${label} est clôturée : ses chiffres ne peuvent plus être modifiés`);
+    }
+  }
+}
+
+/**
+ * Ventes, achats, encaissements et décaissements de la journée (tous comptes)
+ * Les avoirs du jour viennent en déduction des ventes / achats
+ */
+export async function getDailySummary(dayStart: number): Promise<DailySummary> {
+  const dayEnd = dayStart + DAY_MS - 1;
+
+  const [transactions, payments] = await Promise.all([
+    db.transactions.where('date').between(dayStart, dayEnd, true, true).toArray(),
+    db.payments.where('date').between(dayStart, dayEnd, true, true).toArray()
+  ]);
+
+  const sales = transactions.filter(tx => getDocumentDirection(tx) === 'SALE');
+  const purchases = transactions.filter(tx => getDocumentDirection(tx) === 'PURCHASE');
+  const flows = [
+    ...transactions.map(getTransactionCashFlow),
+    ...payments.map(getPaymentCashFlow)
+  ];
+
+  return {
+    sales: sales.reduce((sum, tx) => sum + getSignedTotal(tx), 0),
+    salesCount: sales.filter(tx => !isCreditNote(tx)).length,
+    purchases: purchases.reduce((sum, tx) => sum + getSignedTotal(tx), 0),
+    purchasesCount: purchases.filter(tx => !isCreditNote(tx)).length,
+    collections: flows.filter(f => f > 0).reduce((sum, f) => sum + f, 0),
+    disbursements: flows.filter(f => f < 0).reduce((sum, f) => sum - f, 0)
+  };
+}
+
+/**
+ * Calcule les chiffres de clôture d'un compte pour une journée
+ */
+export async function getClosingPreview(accountId: number, timestamp: number): Promise<ClosingPreview> {
+  const dayStart = getDayStart(timestamp);
+  const dayEnd = dayStart + DAY_MS;
+
+  const account = await db.accounts.get(accountId);
+  if (!account) {
+    throw new Error('Compte de trésorerie introuvable');
+  }
+
+  // Journal du plus récent au plus ancien : on sépare avant / pendant la journée
+  const journal = await getAccountJournal(accountId);
+  const before = journal.filter(m => m.date < dayStart);
+  const during = journal.filter(m => m.date >= dayStart && m.date < dayEnd && m.kind !== 'CLOSING');
+
+  const openingCash = before.length > 0 ? before[0].balance : account.openingBalance;
+  const cashIn = during.filter(m => m.amount > 0).reduce((sum, m) => sum + m.amount, 0);
+  const cashOut = during.filter(m => m.amount < 0).reduce((sum, m) => sum - m.amount, 0);
+
+  return {
+    accountId,
+    date: dayStart,
+    openingCash,
+    cashIn,
+    cashOut,
+    expected: openingCash + cashIn - cashOut,
+    summary: await getDailySummary(dayStart)
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Avoirs (contre-passation) d'une transaction
+ *
+ * RÈGLES :
+ * - Un avoir est une transaction de sens INVERSE liée à l'originale (reversalOf) :
+ *   avoir sur vente = retour client (stock +, créance -, remboursement = sortie de caisse)
+ *   avoir sur achat = retour fournisseur (stock -, dette -, remboursement = entrée de caisse)
+ *   → balance, stock et trésorerie s'appliquent sans cas particulier
+ * - L'originale n'est jamais modifiée : elle ne peut plus être éditée ni supprimée
+ *   tant qu'elle a des avoirs
+ * - Cumul des avoirs <= total de l'originale ; quantité reprise par article
+ *   <= quantité facturée
+ * - Dans les rapports, un avoir vient en déduction des ventes (ou achats) d'origine
+ */
+
+import { db } from '../db/db';
+import type { Direction, Transaction, TransactionItem } from '../types/transaction';
+
+export interface CreditableItem {
+  item: TransactionItem;   // Article de la facture d'origine
+  credited: number;        // Quantité déjà reprise par des avoirs
+  remaining: number;       // Quantité encore reprenable
+}
+
+export interface CreditableState {
+  creditedTotal: number;   // Montant déjà annulé
+  remainingTotal: number;  // Montant encore annulable
+  items: CreditableItem[];
+}
+
+/**
+ * Vrai si la transaction est un avoir
+ */
+export function isCreditNote(tx: Pick<Transaction, 'reversalOf'>): boolean {
+  return tx.reversalOf != null;
+}
+
+/**
+ * Sens d'un avoir : inverse de la transaction d'origine
+ */
+export function getReversedDirection(direction: Direction): Direction {
+  return direction === 'SALE' ? 'PURCHASE' : 'SALE';
+}
+
+/**
+ * Sens "commercial" : une vente et ses avoirs relèvent des ventes
+ */
+export function getDocumentDirection(tx: Pick<Transaction, 'direction' | 'reversalOf'>): Direction {
+  return isCreditNote(tx) ? getReversedDirection(tx.direction) : tx.direction;
+}
+
+/**
+ * Montant signé pour les totaux de ventes / achats (avoir = négatif)
+ */
+export function getSignedTotal(tx: Pick<Transaction, 'total' | 'reversalOf'>): number {
+  return isCreditNote(tx) ? -tx.total : tx.total;
+}
+
+/**
+ * Numéro du document : FAC-12-2025 (facture) ou AV-13-2025 (avoir)
+ */
+export function getDocumentNumber(tx: Pick<Transaction, 'id' | 'date' | 'reversalOf'>): string {
+  const prefix = isCreditNote(tx) ? 'AV' : 'FAC';
+  return `${prefix}-${tx.id}-${new Date(tx.date).getFullYear()}`;
+}
+
+/**
+ * Identifie un article d'une facture à l'autre (produit ou nom, au même prix)
+ */
+function getItemKey(item: TransactionItem): string {
+  return `${item.productId ?? item.name.trim().toLowerCase()}|${item.price}`;
+}
+
+/**
+ * Ce qui peut encore être annulé sur une transaction, compte tenu de ses avoirs
+ */
+export function getCreditableState(original: Transaction, creditNotes: Transaction[]): CreditableState {
+  const creditedTotal = creditNotes.reduce((sum, note) => sum + note.total, 0);
+
+  const creditedQty = new Map<string, number>();
+  creditNotes.forEach(note => {
+    (note.items ?? []).forEach(item => {
+      const key = getItemKey(item);
+      creditedQty.set(key, (creditedQty.get(key) ?? 0) + item.qty);
+    });
+  });
+
+  // Une quantité reprise est imputée sur les lignes d'origine dans l'ordre
+  const items = (original.items ?? []).map(item => {
+    const key = getItemKey(item);
+    const available = creditedQty.get(key) ?? 0;
+    const credited = Math.min(available, item.qty);
+    creditedQty.set(key, available - credited);
+    return { item, credited, remaining: item.qty - credited };
+  });
+
+  return {
+    creditedTotal,
+    remainingTotal: Math.max(0, original.total - creditedTotal),
+    items
+  };
+}
+
+/**
+ * Avoirs d'une transaction, plus anciens d'abord
+ */
+export async function getCreditNotes(transactionId: number): Promise<Transaction[]> {
+  return db.transactions.where('reversalOf').equals(transactionId).sortBy('date');
+}
+
+/**
+ * Vérifie un avoir avant enregistrement (montant et quantités reprenables)
+ */
+export async function assertValidCreditNote(
+  original: Transaction,
+  total: number,
+  items: TransactionItem[] = []
+): Promise<void> {
+  if (isCreditNote(original)) {
+    throw new Error('Impossible de créer un avoir sur un avoir');
+  }
+  if (!(total > 0)) {
+    throw new Error('Le montant de l\'avoir doit être positif');
+  }
+
+  const state = getCreditableState(original, await getCreditNotes(original.id!));
+  if (total > state.remainingTotal) {
+    throw new Error(
+      `L'avoir ne peut pas dépasser ${new Intl.NumberFormat('fr-FR').format(state.remainingTotal)} F (reste annulable)`
+    );
+  }
+
+  // Quantités : chaque article repris doit figurer sur la facture d'origine
+  const remainingQty = new Map<string, number>();
+  state.items.forEach(({ item, remaining }) => {
+    const key = getItemKey(item);
+    remainingQty.set(key, (remainingQty.get(key) ?? 0) + remaining);
+  });
+
+  items.forEach(item => {
+    const key = getItemKey(item);
+    const available = remainingQty.get(key) ?? 0;
+    if (item.qty <= 0 || item.qty > available) {
+      throw new Error(`Quantité reprise invalide pour "${item.name}" (maximum ${available})`);
+    }
+    remainingQty.set(key, available - item.qty);
+  });
+}
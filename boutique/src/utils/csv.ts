@@ -0,0 +1,233 @@
+/**
+ * Export CSV pour tableur (partners, transactions, paiements)
+ *
+ * RÈGLES :
+ * 1. Format Excel français : séparateur « ; », fin de ligne CRLF, BOM UTF-8
+ *    (sans BOM, Excel lit les accents en Windows-1252)
+ * 2. Nombres au format français sans séparateur de milliers (1234,5) : reconnus
+ *    comme nombres par le tableur ; dates JJ/MM/AAAA
+ * 3. Un champ contenant ; " ou un retour à la ligne est entre guillemets (" doublés)
+ * 4. Un texte commençant par = + - @ est préfixé d'une apostrophe :
+ *    le tableur ne l'exécute pas comme une formule
+ * 5. Les listes exportées sont celles affichées (filtres actifs) ;
+ *    noms de partners et de comptes résolus, avoirs signalés
+ */
+
+import { db } from '../db/db';
+import type { Partner } from '../types/partners';
+import type { Transaction } from '../types/transaction';
+import type { Payment, TransactionSettlement } from '../types/payments';
+import { getAllSettlements } from './allocation';
+import { getStoredBalances } from './balance';
+import { getDocumentDirection, isCreditNote } from './creditNote';
+import { downloadFile } from './backup';
+
+export type CsvCell = string | number | undefined | null;
+
+const SEPARATOR = ';';
+const LINE_BREAK = '\r\n';
+const BOM = '\uFEFF';
+
+const PARTNER_TYPE_LABELS: Record<Partner['type'], string> = {
+  CLIENT: 'Client',
+  SUPPLIER: 'Fournisseur',
+  BOTH: 'Client & Fournisseur'
+};
+
+// ==================== FORMAT ====================
+
+/**
+ * Nombre au format français, sans séparateur de milliers (ex: 1234,5)
+ */
+export function formatCsvNumber(value: number): string {
+  return value.toLocaleString('fr-FR', { useGrouping: false, maximumFractionDigits: 2 });
+}
+
+/**
+ * Date au format JJ/MM/AAAA
+ */
+export function formatCsvDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+  });
+}
+
+/**
+ * Cellule échappée (nombres formatés, textes protégés)
+ */
+function formatCell(cell: CsvCell): string {
+  if (cell == null) return '';
+  if (typeof cell === 'number') return formatCsvNumber(cell);
+
+  const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Contenu CSV complet (BOM + en-tête + lignes)
+ */
+export function toCsv(headers: string[], rows: CsvCell[][]): string {
+  const lines = [headers, ...rows].map(row => row.map(formatCell).join(SEPARATOR));
+  return BOM + lines.join(LINE_BREAK) + LINE_BREAK;
+}
+
+/**
+ * Nom de fichier : <nom>-AAAA-MM-JJ.csv
+ */
+export function getCsvFileName(name: string, date: number = Date.now()): string {
+  return `${name}-${new Date(date).toISOString().slice(0, 10)}.csv`;
+}
+
+/**
+ * Télécharge un contenu CSV
+ */
+export function downloadCsv(content: string, name: string): void {
+  downloadFile(content, getCsvFileName(name), 'text/csv;charset=utf-8');
+}
+
+// ==================== CONTENU ====================
+
+/**
+ * Libellé du type de document (vente, achat, avoir)
+ */
+function getTransactionTypeLabel(tx: Transaction): string {
+  const direction = getDocumentDirection(tx);
+  if (isCreditNote(tx)) {
+    return direction === 'SALE' ? 'Avoir client' : 'Avoir fournisseur';
+  }
+  return direction === 'SALE' ? 'Vente' : 'Achat';
+}
+
+/**
+ * Partners avec leur solde (> 0 : le partner nous doit)
+ */
+export function buildPartnersCsv(partners: Partner[], balances: Map<number, number>): string {
+  const headers = ['Nom', 'Type', 'Téléphone', 'Note', 'Solde', 'Créé le'];
+  const rows = partners.map(partner => [
+    partner.name,
+    PARTNER_TYPE_LABELS[partner.type],
+    partner.phone,
+    partner.note,
+    balances.get(partner.id!) ?? 0,
+    formatCsvDate(partner.createdAt)
+  ]);
+
+  return toCsv(headers, rows);
+}
+
+/**
+ * Transactions : une ligne par transaction, ou une ligne par article (perItem)
+ * Une transaction sans article garde une ligne (colonnes article vides)
+ */
+export function buildTransactionsCsv(
+  transactions: Transaction[],
+  partnerNames: Map<number, string>,
+  settlements: Map<number, TransactionSettlement>,
+  perItem = false
+): string {
+  const common = (tx: Transaction): CsvCell[] => [
+    tx.id,
+    formatCsvDate(tx.date),
+    getTransactionTypeLabel(tx),
+    partnerNames.get(tx.partnerId) ?? 'Inconnu'
+  ];
+
+  if (perItem) {
+    const headers = ['N°', 'Date', 'Type', 'Partner', 'Article', 'Quantité', 'Prix unitaire', 'Montant', 'Total facture', 'Avoir du n°'];
+    const rows = transactions.flatMap(tx => {
+      const items = tx.items ?? [];
+      if (items.length === 0) {
+        return [[...common(tx), undefined, undefined, undefined, undefined, tx.total, tx.reversalOf]];
+      }
+      return items.map(item => [
+        ...common(tx),
+        item.name,
+        item.qty,
+        item.price,
+        item.qty * item.price,
+        tx.total,
+        tx.reversalOf
+      ]);
+    });
+    return toCsv(headers, rows);
+  }
+
+  const headers = ['N°', 'Date', 'Type', 'Partner', 'Total', 'Payé', 'Reste', 'Échéance', 'Avoir du n°', 'Note', 'Saisi par'];
+  const rows = transactions.map(tx => {
+    const settlement = settlements.get(tx.id!);
+    return [
+      ...common(tx),
+      tx.total,
+      settlement?.paidTotal ?? tx.paid,
+      settlement?.remaining ?? Math.max(0, tx.total - tx.paid),
+      tx.dueDate != null ? formatCsvDate(tx.dueDate) : undefined,
+      tx.reversalOf,
+      tx.note,
+      tx.createdBy
+    ];
+  });
+
+  return toCsv(headers, rows);
+}
+
+/**
+ * Paiements avec partner et compte de trésorerie
+ */
+export function buildPaymentsCsv(
+  payments: Payment[],
+  partnerNames: Map<number, string>,
+  accountNames: Map<number, string>
+): string {
+  const headers = ['N°', 'Date', 'Sens', 'Partner', 'Montant', 'Compte', 'Transaction n°', 'Note', 'Saisi par'];
+  const rows = payments.map(payment => [
+    payment.id,
+    formatCsvDate(payment.date),
+    payment.direction === 'IN' ? 'Encaissement' : 'Décaissement',
+    partnerNames.get(payment.partnerId) ?? 'Inconnu',
+    payment.amount,
+    payment.accountId != null ? accountNames.get(payment.accountId) : undefined,
+    payment.transactionId,
+    payment.note,
+    payment.createdBy
+  ]);
+
+  return toCsv(headers, rows);
+}
+
+// ==================== EXPORT ====================
+
+async function getPartnerNames(): Promise<Map<number, string>> {
+  const partners = await db.partners.toArray();
+  return new Map(partners.map(p => [p.id!, p.name]));
+}
+
+/**
+ * Exporte les partners affichés (soldes de la table balances)
+ */
+export async function exportPartnersCsv(partners: Partner[], name: string): Promise<void> {
+  const records = await getStoredBalances();
+  const balances = new Map(partners.map(p => [p.id!, records.get(p.id!)?.balance ?? 0]));
+  downloadCsv(buildPartnersCsv(partners, balances), name);
+}
+
+/**
+ * Exporte les transactions affichées
+ */
+export async function exportTransactionsCsv(transactions: Transaction[], perItem = false): Promise<void> {
+  const [partnerNames, settlements] = await Promise.all([getPartnerNames(), getAllSettlements()]);
+  downloadCsv(
+    buildTransactionsCsv(transactions, partnerNames, settlements, perItem),
+    perItem ? 'articles' : 'transactions'
+  );
+}
+
+/**
+ * Exporte les paiements affichés
+ */
+export async function exportPaymentsCsv(payments: Payment[]): Promise<void> {
+  const [partnerNames, accounts] = await Promise.all([getPartnerNames(), db.accounts.toArray()]);
+  const accountNames = new Map(accounts.map(a => [a.id!, a.name]));
+  downloadCsv(buildPaymentsCsv(payments, partnerNames, accountNames), 'paiements');
+}
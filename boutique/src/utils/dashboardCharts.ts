@@ -0,0 +1,191 @@
+/**
+ * Séries des graphiques du tableau de bord
+ *
+ * RÈGLES :
+ * 1. Intervalles en jours UTC, même convention que les formulaires (cf. utils/closing) :
+ *    semaine du lundi au dimanche, mois calendaire ; le dernier contient aujourd'hui
+ * 2. Ventes / achats : sens commercial, avoirs déduits (comme le Z de caisse)
+ * 3. Encaissements : paid des ventes + paiements reçus ; crédit accordé : part
+ *    non payée d'une vente au moment de la facturation
+ * 4. Créances / dettes : somme des soldes positifs / négatifs des partners à la fin
+ *    de chaque intervalle. Calcul à rebours depuis la table balances : seules les
+ *    écritures de la période sont lues
+ */
+
+import { db } from '../db/db';
+import type { ActivityPoint, BalancePoint, ChartBucket, ChartGranularity, ChartPeriod } from '../types/dashboard';
+import { calculatePosition } from './balanceDelta';
+import { getDayStart } from './closing';
+import { getDocumentDirection, getSignedTotal, isCreditNote } from './creditNote';
+import { getPaymentImpact } from './paymentDirection';
+import { getPaymentCashFlow, getTransactionCashFlow } from './treasury';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CHART_PERIODS: Record<ChartPeriod, { label: string; granularity: ChartGranularity; count: number }> = {
+  '7d': { label: '7 jours', granularity: 'day', count: 7 },
+  '30d': { label: '30 jours', granularity: 'day', count: 30 },
+  '12w': { label: '12 semaines', granularity: 'week', count: 12 },
+  '12m': { label: '12 mois', granularity: 'month', count: 12 }
+};
+
+/**
+ * Début de l'intervalle contenant un timestamp
+ */
+function getBucketStart(timestamp: number, granularity: ChartGranularity): number {
+  const dayStart = getDayStart(timestamp);
+  const date = new Date(dayStart);
+
+  switch (granularity) {
+    case 'day':
+      return dayStart;
+    case 'week':
+      // getUTCDay : 0 = dimanche → la semaine commence le lundi
+      return dayStart - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+}
+
+/**
+ * Décale un début d'intervalle de n intervalles
+ */
+function shiftBucket(start: number, granularity: ChartGranularity, n: number): number {
+  switch (granularity) {
+    case 'day':
+      return start + n * DAY_MS;
+    case 'week':
+      return start + n * 7 * DAY_MS;
+    case 'month': {
+      const date = new Date(start);
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + n, 1);
+    }
+  }
+}
+
+function formatBucketLabel(start: number, granularity: ChartGranularity): string {
+  return new Date(start).toLocaleDateString('fr-FR', granularity === 'month'
+    ? { month: 'short', year: '2-digit', timeZone: 'UTC' }
+    : { day: '2-digit', month: 'short', timeZone: 'UTC' });
+}
+
+/**
+ * Intervalles de la période, du plus ancien au plus récent
+ */
+export function getChartBuckets(period: ChartPeriod, asOf: number = Date.now()): ChartBucket[] {
+  const { granularity, count } = CHART_PERIODS[period];
+  const current = getBucketStart(asOf, granularity);
+
+  return Array.from({ length: count }, (_, i) => {
+    const start = shiftBucket(current, granularity, i - count + 1);
+    return {
+      start,
+      end: shiftBucket(start, granularity, 1),
+      label: formatBucketLabel(start, granularity)
+    };
+  });
+}
+
+/**
+ * Index de l'intervalle contenant une date (dates hors période exclues en amont)
+ */
+function findBucketIndex(buckets: ChartBucket[], date: number): number {
+  return buckets.findIndex(bucket => date >= bucket.start && date < bucket.end);
+}
+
+/**
+ * Ventes / achats et encaissements / crédit accordé par intervalle
+ */
+export async function getActivitySeries(period: ChartPeriod, asOf: number = Date.now()): Promise<ActivityPoint[]> {
+  const buckets = getChartBuckets(period, asOf);
+  const start = buckets[0].start;
+  const end = buckets[buckets.length - 1].end;
+
+  const [transactions, payments] = await Promise.all([
+    db.transactions.where('date').between(start, end, true, false).toArray(),
+    db.payments.where('date').between(start, end, true, false).toArray()
+  ]);
+
+  const points: ActivityPoint[] = buckets.map(bucket => ({
+    ...bucket,
+    sales: 0,
+    purchases: 0,
+    collections: 0,
+    creditGiven: 0
+  }));
+
+  transactions.forEach(tx => {
+    const point = points[findBucketIndex(buckets, tx.date)];
+
+    if (getDocumentDirection(tx) === 'SALE') {
+      point.sales += getSignedTotal(tx);
+      if (!isCreditNote(tx)) {
+        point.creditGiven += Math.max(0, tx.total - tx.paid);
+      }
+    } else {
+      point.purchases += getSignedTotal(tx);
+    }
+
+    const flow = getTransactionCashFlow(tx);
+    if (flow > 0) point.collections += flow;
+  });
+
+  payments.forEach(payment => {
+    const flow = getPaymentCashFlow(payment);
+    if (flow > 0) points[findBucketIndex(buckets, payment.date)].collections += flow;
+  });
+
+  return points;
+}
+
+/**
+ * Évolution des créances et dettes totales (fin de chaque intervalle)
+ */
+export async function getBalanceHistory(period: ChartPeriod, asOf: number = Date.now()): Promise<BalancePoint[]> {
+  const buckets = getChartBuckets(period, asOf);
+  const since = buckets[0].end;
+
+  // Soldes actuels + écritures postérieures à la fin du premier intervalle
+  const [stored, transactions, payments] = await Promise.all([
+    db.balances.toArray(),
+    db.transactions.where('date').aboveOrEqual(since).toArray(),
+    db.payments.where('date').aboveOrEqual(since).toArray()
+  ]);
+
+  const balances = new Map(stored.map(b => [b.partnerId, b.balance]));
+  let receivables = 0;
+  let debts = 0;
+  balances.forEach(balance => {
+    if (balance > 0) receivables += balance;
+    else debts -= balance;
+  });
+
+  // Effet de chaque écriture sur le solde de son partner, plus récente en premier
+  const events = [
+    ...transactions.map(tx => ({ date: tx.date, partnerId: tx.partnerId, amount: calculatePosition(tx) })),
+    ...payments
+      .filter(p => !p.transactionId)
+      .map(p => ({ date: p.date, partnerId: p.partnerId, amount: getPaymentImpact(p) }))
+  ].sort((a, b) => b.date - a.date);
+
+  const points: BalancePoint[] = [];
+  let next = 0;
+
+  // À rebours : on retire les écritures datées après la fin de l'intervalle
+  for (let i = buckets.length - 1; i >= 0; i--) {
+    const bucket = buckets[i];
+
+    while (next < events.length && events[next].date >= bucket.end) {
+      const { partnerId, amount } = events[next++];
+      const before = balances.get(partnerId) ?? 0;
+      const after = before - amount;
+      balances.set(partnerId, after);
+      receivables += Math.max(after, 0) - Math.max(before, 0);
+      debts += Math.max(-after, 0) - Math.max(-before, 0);
+    }
+
+    points.unshift({ ...bucket, receivables, debts });
+  }
+
+  return points;
+}
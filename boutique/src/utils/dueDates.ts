@@ -0,0 +1,77 @@
+/**
+ * Échéances des transactions à crédit
+ *
+ * - dueDate : date limite de paiement du reste (total - paid)
+ * - Conditions de paiement proposées : 7 / 15 / 30 / 60 jours après la date
+ * - Une transaction est EN RETARD si :
+ *     échéance dépassée
+ *   + reste à payer > 0 après paiements liés ET paiements standalone
+ *     affectés (cf. utils/allocation) : une facture soldée par un
+ *     paiement sans facture précise n'est pas en retard
+ */
+
+import { db } from '../db/db';
+import type { Transaction } from '../types/transaction';
+import type { OverdueTransaction } from '../types/balances';
+import { getPartnerSettlements, getTransactionSettlement } from './allocation';
+
+export const PAYMENT_TERMS = [7, 15, 30, 60];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date + N jours
+ */
+export function addDays(date: number, days: number): number {
+  return date + days * DAY_MS;
+}
+
+/**
+ * Jours de retard à une date (0 si l'échéance n'est pas passée)
+ */
+export function getDaysOverdue(dueDate: number, asOf: number = Date.now()): number {
+  return Math.max(0, Math.floor((asOf - dueDate) / DAY_MS));
+}
+
+/**
+ * Reste à payer d'une transaction (paid, paiements liés et affectés déduits)
+ */
+export async function getTransactionRemaining(tx: Transaction): Promise<number> {
+  const settlement = await getTransactionSettlement(tx.id!);
+  return settlement?.remaining ?? Math.max(0, tx.total - tx.paid);
+}
+
+/**
+ * Transactions en retard de paiement, les plus anciennes échéances d'abord
+ */
+export async function getOverdueTransactions(asOf: number = Date.now()): Promise<OverdueTransaction[]> {
+  const candidates = await db.transactions
+    .where('dueDate')
+    .below(asOf)
+    .filter(tx => tx.total > tx.paid)
+    .toArray();
+
+  const remainingByTx = new Map<number, number>();
+  const overdue: OverdueTransaction[] = [];
+
+  for (const tx of candidates) {
+    if (!remainingByTx.has(tx.id!)) {
+      const { settlements } = await getPartnerSettlements(tx.partnerId);
+      settlements.forEach((settlement, id) => remainingByTx.set(id, settlement.remaining));
+    }
+    const remaining = remainingByTx.get(tx.id!) ?? 0;
+    if (remaining <= 0) continue;
+
+    const partner = await db.partners.get(tx.partnerId);
+    if (!partner) continue;
+
+    overdue.push({
+      transaction: tx,
+      partner,
+      remaining,
+      daysOverdue: getDaysOverdue(tx.dueDate!, asOf)
+    });
+  }
+
+  return overdue.sort((a, b) => a.transaction.dueDate! - b.transaction.dueDate!);
+}
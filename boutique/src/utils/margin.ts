@@ -0,0 +1,233 @@
+/**
+ * Marge brute à partir des prix d'achat et de vente des articles
+ *
+ * RÈGLES :
+ * 1. Un article = produit du catalogue (productId, ou nom / alias reconnu),
+ *    sinon nom saisi normalisé (casse, espaces)
+ * 2. Coût moyen pondéré (CMP) recalculé à chaque achat :
+ *    (stock × CMP + qté achetée × prix) / (stock + qté achetée) ;
+ *    stock épuisé (ou négatif) → le CMP repart du prix du nouvel achat
+ * 3. Une vente est valorisée au CMP à sa date : tout l'historique est rejoué dans
+ *    l'ordre chronologique, même si le rapport ne couvre qu'une période
+ * 4. Avoirs : un retour client annule vente et coût au CMP du moment (montants
+ *    négatifs) ; un retour fournisseur sort du stock sans changer le CMP
+ * 5. Article vendu sans aucun achat antérieur : coût inconnu, exclu de la marge
+ *    (chiffre d'affaires compté à part)
+ * 6. Alerte : prix de vente inférieur au dernier prix d'achat connu à la date de la vente
+ * 7. Transactions sans articles ignorées (pas de prix unitaires)
+ */
+
+import { db } from '../db/db';
+import type { Product } from '../types/products';
+import type { TransactionItem } from '../types/transaction';
+import type { ChartPeriod } from '../types/dashboard';
+import type { ItemMargin, MarginPoint, MarginReport, SaleLineMargin, SaleMargin } from '../types/margin';
+import { getDocumentDirection, isCreditNote } from './creditNote';
+import { getChartBuckets } from './dashboardCharts';
+import { normalizeProductName } from './products';
+
+interface ItemIdentity {
+  key: string;
+  name: string;
+  productId?: number;
+}
+
+// État d'un article au fil de l'historique
+interface ItemState extends ItemIdentity {
+  stock: number;
+  averageCost: number | null;
+  lastPurchasePrice?: number;
+  lastSalePrice?: number;
+}
+
+/**
+ * Identifie l'article d'une ligne (catalogue d'abord, puis nom saisi)
+ */
+function createItemResolver(products: Product[]): (item: TransactionItem) => ItemIdentity {
+  const byId = new Map(products.map(p => [p.id!, p]));
+  const byName = new Map<string, Product>();
+  products.forEach(p => {
+    [p.name, ...(p.aliases ?? [])].forEach(name => byName.set(normalizeProductName(name), p));
+  });
+
+  return item => {
+    const product = (item.productId != null ? byId.get(item.productId) : undefined)
+      ?? byName.get(normalizeProductName(item.name));
+
+    return product
+      ? { key: `product:${product.id}`, name: product.name, productId: product.id }
+      : { key: `name:${normalizeProductName(item.name)}`, name: item.name.trim() };
+  };
+}
+
+/**
+ * Nouveau coût moyen pondéré après un achat
+ */
+export function getWeightedAverageCost(
+  stock: number,
+  averageCost: number | null,
+  qty: number,
+  price: number
+): number {
+  if (averageCost === null || stock <= 0) return price;
+  return (stock * averageCost + qty * price) / (stock + qty);
+}
+
+/**
+ * Rapport de marge brute sur une période (ventes, articles, intervalles)
+ */
+export async function getMarginReport(period: ChartPeriod, asOf: number = Date.now()): Promise<MarginReport> {
+  const buckets = getChartBuckets(period, asOf);
+  const start = buckets[0].start;
+  const end = buckets[buckets.length - 1].end;
+
+  // Historique complet jusqu'à la fin de la période (cf. règle 3)
+  const [transactions, products, partners] = await Promise.all([
+    db.transactions.where('date').below(end).toArray(),
+    db.products.toArray(),
+    db.partners.toArray()
+  ]);
+  transactions.sort((a, b) => a.date - b.date || a.createdAt - b.createdAt || a.id! - b.id!);
+
+  const resolveItem = createItemResolver(products);
+  const partnerNames = new Map(partners.map(p => [p.id!, p.name]));
+  const states = new Map<string, ItemState>();
+  const items = new Map<string, ItemMargin>();
+  const sales: SaleMargin[] = [];
+  const points: MarginPoint[] = buckets.map(bucket => ({ ...bucket, revenue: 0, cost: 0, margin: 0 }));
+
+  const getState = (item: TransactionItem): ItemState => {
+    const identity = resolveItem(item);
+    let state = states.get(identity.key);
+    if (!state) {
+      state = { ...identity, stock: 0, averageCost: null };
+      states.set(identity.key, state);
+    }
+    return state;
+  };
+
+  for (const tx of transactions) {
+    const lines = (tx.items ?? []).filter(item => item.qty > 0);
+    if (lines.length === 0) continue;
+
+    const isReturn = isCreditNote(tx);
+
+    // Achat : met à jour le CMP ; retour fournisseur : sortie de stock
+    if (getDocumentDirection(tx) === 'PURCHASE') {
+      lines.forEach(item => {
+        const state = getState(item);
+        if (isReturn) {
+          state.stock -= item.qty;
+        } else {
+          state.averageCost = getWeightedAverageCost(state.stock, state.averageCost, item.qty, item.price);
+          state.stock += item.qty;
+          state.lastPurchasePrice = item.price;
+        }
+      });
+      continue;
+    }
+
+    // Vente (ou retour client, signe négatif) valorisée au CMP du moment
+    const sign = isReturn ? -1 : 1;
+    const inPeriod = tx.date >= start && tx.date < end;
+    const saleLines: SaleLineMargin[] = lines.map(item => {
+      const state = getState(item);
+      const line: SaleLineMargin = {
+        key: state.key,
+        name: state.name,
+        qty: item.qty,
+        price: item.price,
+        unitCost: state.averageCost,
+        lastPurchasePrice: state.lastPurchasePrice,
+        belowLastPurchase: !isReturn
+          && state.lastPurchasePrice !== undefined
+          && item.price < state.lastPurchasePrice
+      };
+      state.stock -= sign * item.qty;
+      if (!isReturn) state.lastSalePrice = item.price;
+      return line;
+    });
+
+    if (!inPeriod) continue;
+
+    const point = points.find(p => tx.date >= p.start && tx.date < p.end)!;
+    const sale: SaleMargin = {
+      transaction: tx,
+      partnerName: partnerNames.get(tx.partnerId) ?? 'Inconnu',
+      revenue: 0,
+      cost: 0,
+      margin: 0,
+      hasUnknownCost: false,
+      lines: saleLines
+    };
+
+    saleLines.forEach(line => {
+      const revenue = sign * line.qty * line.price;
+      let item = items.get(line.key);
+      if (!item) {
+        item = {
+          key: line.key,
+          name: line.name,
+          productId: states.get(line.key)!.productId,
+          qtySold: 0,
+          revenue: 0,
+          cost: 0,
+          margin: 0,
+          unknownCostRevenue: 0,
+          averageCost: null,
+          belowCostSales: 0
+        };
+        items.set(line.key, item);
+      }
+
+      item.qtySold += sign * line.qty;
+      if (line.belowLastPurchase) item.belowCostSales++;
+      sale.revenue += revenue;
+
+      if (line.unitCost === null) {
+        item.unknownCostRevenue += revenue;
+        sale.hasUnknownCost = true;
+        return;
+      }
+
+      const cost = sign * line.qty * line.unitCost;
+      item.revenue += revenue;
+      item.cost += cost;
+      item.margin += revenue - cost;
+      sale.cost += cost;
+      sale.margin += revenue - cost;
+      point.revenue += revenue;
+      point.cost += cost;
+      point.margin += revenue - cost;
+    });
+
+    sales.push(sale);
+  }
+
+  // Prix actuels des articles vendus sur la période
+  items.forEach(item => {
+    const state = states.get(item.key)!;
+    item.averageCost = state.averageCost;
+    item.lastPurchasePrice = state.lastPurchasePrice;
+    item.lastSalePrice = state.lastSalePrice;
+  });
+
+  const revenue = points.reduce((sum, p) => sum + p.revenue, 0);
+  const cost = points.reduce((sum, p) => sum + p.cost, 0);
+  const itemList = Array.from(items.values());
+
+  return {
+    period,
+    start,
+    end,
+    revenue,
+    cost,
+    margin: revenue - cost,
+    rate: revenue !== 0 ? (revenue - cost) / revenue : null,
+    unknownCostRevenue: itemList.reduce((sum, i) => sum + i.unknownCostRevenue, 0),
+    sales: sales.reverse(),
+    items: itemList.sort((a, b) => b.margin - a.margin),
+    points,
+    generatedAt: Date.now()
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Requêtes paginées des listes de transactions et de paiements
+ *
+ * RÈGLES :
+ * 1. Lecture par plage sur l'index date, ou [partnerId+date] quand un partner est
+ *    choisi : seules les lignes de la période sont lues, jamais toute la table
+ * 2. Ordre : plus récent en premier, id décroissant à date égale (ordre naturel
+ *    de l'index parcouru à l'envers) → un curseur (date, id) repère une ligne sans ambiguïté
+ * 3. Page suivante = lignes strictement avant le curseur de la dernière ligne affichée ;
+ *    pas de décalage (offset) qui glisserait quand une ligne est ajoutée en tête
+ * 4. Critères sans index (sens d'un avoir, recherche, retard) filtrés pendant le
+ *    parcours, avant la limite : une page contient toujours `limit` lignes retenues
+ * 5. Totaux (nombre, montant) calculés par un parcours séparé, sans garder les lignes
+ */
+
+import type { Table } from 'dexie';
+import { db } from '../db/db';
+import type { Transaction } from '../types/transaction';
+import type { Payment } from '../types/payments';
+import type {
+  DateRangeQuery,
+  ListCursor,
+  ListTotals,
+  PageRequest,
+  PaymentListFilters,
+  TransactionListFilters
+} from '../types/pagination';
+import { getDocumentDirection } from './creditNote';
+import { getOverdueTransactions } from './dueDates';
+import { getPaymentSearchDocument, getTransactionSearchDocument, matchesSearch } from './search';
+
+// Lignes par page (listes à défilement infini)
+export const PAGE_SIZE = 50;
+
+interface DatedRow {
+  id?: number;
+  partnerId: number;
+  date: number;
+}
+
+/**
+ * Curseur d'une ligne (point de départ de la page suivante)
+ */
+export function getListCursor(row: DatedRow): ListCursor {
+  return { date: row.date, id: row.id! };
+}
+
+/**
+ * Vrai si la ligne vient après le curseur dans la liste (plus ancienne)
+ */
+function isAfterCursor(row: DatedRow, cursor: ListCursor): boolean {
+  return row.date < cursor.date || (row.date === cursor.date && row.id! < cursor.id);
+}
+
+/**
+ * Collection triée du plus récent au plus ancien, bornée par la période et la page
+ */
+function getDateRangeCollection<T extends DatedRow>(
+  table: Table<T, number>,
+  query: DateRangeQuery<T>,
+  page: PageRequest = {}
+) {
+  const { before, from } = page;
+  const lower = Math.max(query.startDate ?? -Infinity, from?.date ?? -Infinity);
+  const upper = Math.min(query.endDate ?? Infinity, before?.date ?? Infinity);
+
+  const range = query.partnerId !== undefined
+    ? table.where('[partnerId+date]').between([query.partnerId, lower], [query.partnerId, upper], true, true)
+    : table.where('date').between(lower, upper, true, true);
+
+  const predicates: ((row: T) => boolean)[] = [];
+  if (before) predicates.push(row => isAfterCursor(row, before));
+  if (from) predicates.push(row => !isAfterCursor(row, from));
+  if (query.filter) predicates.push(query.filter);
+
+  const collection = range.reverse();
+  return predicates.length > 0
+    ? collection.filter(row => predicates.every(predicate => predicate(row)))
+    : collection;
+}
+
+/**
+ * Lignes d'une page (toute la période si aucune limite)
+ */
+export async function queryDateRange<T extends DatedRow>(
+  table: Table<T, number>,
+  query: DateRangeQuery<T>,
+  page: PageRequest = {}
+): Promise<T[]> {
+  const collection = getDateRangeCollection(table, query, page);
+  return page.limit !== undefined
+    ? collection.limit(page.limit).toArray()
+    : collection.toArray();
+}
+
+/**
+ * Nombre de lignes et montant cumulé sur toute la période
+ */
+export async function getDateRangeTotals<T extends DatedRow>(
+  table: Table<T, number>,
+  query: DateRangeQuery<T>,
+  getAmount?: (row: T) => number
+): Promise<ListTotals> {
+  const collection = getDateRangeCollection(table, query);
+
+  // Sans montant : simple comptage de l'index
+  if (!getAmount) {
+    return { count: await collection.count(), amount: 0 };
+  }
+
+  const totals: ListTotals = { count: 0, amount: 0 };
+  await collection.each(row => {
+    totals.count++;
+    totals.amount += getAmount(row);
+  });
+  return totals;
+}
+
+/**
+ * Noms des partners (recherche par nom)
+ */
+async function getPartnerNames(): Promise<Map<number, string>> {
+  const partners = await db.partners.toArray();
+  return new Map(partners.map(p => [p.id!, p.name]));
+}
+
+/**
+ * Combine des critères (tous doivent être vrais)
+ */
+function combinePredicates<T>(predicates: ((row: T) => boolean)[]): ((row: T) => boolean) | undefined {
+  if (predicates.length === 0) return undefined;
+  return row => predicates.every(predicate => predicate(row));
+}
+
+/**
+ * Requête de la liste des transactions
+ * (sens commercial : un avoir suit le sens de sa facture d'origine)
+ */
+export async function getTransactionListQuery(
+  filters: TransactionListFilters
+): Promise<DateRangeQuery<Transaction>> {
+  const { partnerId, direction, startDate, endDate, search, overdue } = filters;
+  const predicates: ((tx: Transaction) => boolean)[] = [];
+
+  if (direction) {
+    predicates.push(tx => getDocumentDirection(tx) === direction);
+  }
+
+  if (overdue) {
+    const overdueIds = new Set((await getOverdueTransactions()).map(o => o.transaction.id!));
+    predicates.push(tx => overdueIds.has(tx.id!));
+  }
+
+  if (search?.trim()) {
+    const partnerNames = await getPartnerNames();
+    predicates.push(tx => matchesSearch(getTransactionSearchDocument(tx, partnerNames.get(tx.partnerId)), search));
+  }
+
+  return { partnerId, startDate, endDate, filter: combinePredicates(predicates) };
+}
+
+/**
+ * Requête de la liste des paiements
+ */
+export async function getPaymentListQuery(
+  filters: PaymentListFilters
+): Promise<DateRangeQuery<Payment>> {
+  const { partnerId, transactionId, startDate, endDate, search } = filters;
+  const predicates: ((p: Payment) => boolean)[] = [];
+
+  if (transactionId !== undefined) {
+    predicates.push(p => p.transactionId === transactionId);
+  }
+
+  if (search?.trim()) {
+    const partnerNames = await getPartnerNames();
+    predicates.push(p => matchesSearch(getPaymentSearchDocument(p, partnerNames.get(p.partnerId)), search));
+  }
+
+  return { partnerId, startDate, endDate, filter: combinePredicates(predicates) };
+}
+
+/**
+ * Page de transactions (toutes les transactions filtrées si aucune limite : export)
+ */
+export async function queryTransactions(
+  filters: TransactionListFilters,
+  page: PageRequest = {}
+): Promise<Transaction[]> {
+  return queryDateRange(db.transactions, await getTransactionListQuery(filters), page);
+}
+
+/**
+ * Page de paiements (tous les paiements filtrés si aucune limite : export)
+ */
+export async function queryPayments(
+  filters: PaymentListFilters,
+  page: PageRequest = {}
+): Promise<Payment[]> {
+  return queryDateRange(db.payments, await getPaymentListQuery(filters), page);
+}
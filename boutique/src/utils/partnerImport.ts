@@ -0,0 +1,448 @@
+/**
+ * Import de partners en masse (CSV ou vCard)
+ *
+ * RÈGLES :
+ * 1. CSV : séparateur détecté sur la première ligne (; , ou tabulation), BOM ignoré,
+ *    champs entre guillemets (" doublés) ; l'apostrophe ajoutée par l'export CSV
+ *    devant = + - @ est retirée
+ * 2. vCard (.vcf, contacts du téléphone) : un contact = une ligne (Nom, Téléphone, Note) ;
+ *    nom lu dans FN, sinon N, sinon ORG ; premier TEL ; encodage quoted-printable décodé
+ * 3. Validation identique à PartnerForm : nom d'au moins 2 caractères,
+ *    téléphone facultatif d'au moins 8 chiffres
+ * 4. Conflit = même nom + même type déjà en base (index unique &[name+type], via partnerExists) :
+ *    la ligne est ignorée, créée sous un autre nom ou fusionnée avec le partner existant
+ * 5. Fusion : le téléphone n'est repris que s'il manque, la note est ajoutée à la suite ;
+ *    le type et le solde du partner existant ne changent pas
+ * 6. Un nom déjà présent plus haut dans le fichier est un doublon : ligne ignorée
+ * 7. L'import est atomique : une erreur annule toutes les créations et fusions
+ */
+
+import { db } from '../db/db';
+import { normalizeSearchText } from './search';
+import type {
+  Partner,
+  PartnerType,
+  PartnerColumnMapping,
+  PartnerImportField,
+  PartnerImportRow,
+  PartnerImportSource,
+  PartnerImportSummary
+} from '../types/partners';
+
+const MIN_NAME_LENGTH = 2;
+const MIN_PHONE_DIGITS = 8;
+
+const VCARD_HEADERS = ['Nom', 'Téléphone', 'Note'];
+
+// En-têtes reconnus (minuscules, sans accents)
+const HEADER_PATTERNS: Record<PartnerImportField, RegExp> = {
+  name: /^(nom|name|client|fournisseur|contact|partner|partenaire|raison sociale)/,
+  phone: /^(tel|phone|portable|mobile|gsm|cell|numero)/,
+  note: /^(note|remarque|commentaire|comment|observation)/
+};
+
+// ==================== LECTURE ====================
+
+/**
+ * Séparateur le plus fréquent sur la première ligne (hors guillemets)
+ */
+function detectSeparator(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const candidates = [';', ',', '\t'];
+  const counts = candidates.map(sep => firstLine.split(sep).length - 1);
+  const best = Math.max(...counts);
+  return best > 0 ? candidates[counts.indexOf(best)] : ';';
+}
+
+/**
+ * Cellule nettoyée (espaces, protection anti-formule de l'export CSV)
+ */
+function cleanCell(value: string): string {
+  const text = value.trim();
+  return /^'[=+\-@]/.test(text) ? text.slice(1) : text;
+}
+
+/**
+ * Contenu CSV → lignes de cellules (lignes vides ignorées)
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = detectSeparator(content);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(cleanCell))
+    .filter(cells => cells.some(cell => cell !== ''));
+}
+
+/**
+ * Décode une valeur quoted-printable (UTF-8)
+ */
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * Retire les échappements vCard (\n \, \; \\)
+ */
+function unescapeVCard(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Contenu vCard → lignes [Nom, Téléphone, Note] (en-tête compris)
+ */
+export function parseVCard(text: string): string[][] {
+  const rawLines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+
+  // Dépliage : ligne commençant par un espace = suite ; « = » final en quoted-printable = suite
+  const lines: string[] = [];
+  for (const rawLine of rawLines) {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && /^[ \t]/.test(rawLine)) {
+      lines[lines.length - 1] = previous + rawLine.slice(1);
+    } else if (previous !== undefined && /QUOTED-PRINTABLE/i.test(previous) && previous.endsWith('=')) {
+      lines[lines.length - 1] = previous.slice(0, -1) + rawLine;
+    } else {
+      lines.push(rawLine);
+    }
+  }
+
+  const rows: string[][] = [VCARD_HEADERS];
+  let card: Partial<Record<'FN' | 'N' | 'ORG' | 'TEL' | 'NOTE', string>> | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+
+    const [key, ...params] = line.slice(0, colon).split(';');
+    const property = key.replace(/^.*\./, '').toUpperCase();   // item1.TEL → TEL
+    let value = line.slice(colon + 1);
+
+    if (property === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      card = {};
+      continue;
+    }
+    if (property === 'END' && card) {
+      const name = card.FN || card.N || card.ORG || '';
+      if (name || card.TEL) rows.push([name, card.TEL ?? '', card.NOTE ?? '']);
+      card = null;
+      continue;
+    }
+    if (!card || !(property === 'FN' || property === 'N' || property === 'ORG' || property === 'TEL' || property === 'NOTE')) {
+      continue;
+    }
+    if (card[property]) continue;   // Premier TEL, premier NOTE…
+
+    if (params.some(param => /QUOTED-PRINTABLE/i.test(param))) {
+      value = decodeQuotedPrintable(value);
+    }
+
+    if (property === 'N') {
+      // Nom;Prénom;Autres prénoms;Civilité;Suffixe → Civilité Prénom Autres Nom Suffixe
+      const [family = '', given = '', middle = '', prefix = '', suffix = ''] = value.split(/(?<!\\);/);
+      value = [prefix, given, middle, family, suffix].filter(part => part.trim()).join(' ');
+    } else if (property === 'ORG') {
+      value = value.split(/(?<!\\);/)[0];
+    }
+
+    value = unescapeVCard(value);
+    card[property] = (property === 'NOTE' ? value : value.replace(/\s+/g, ' ')).trim();
+  }
+
+  return rows;
+}
+
+/**
+ * Colonnes devinées d'après l'en-tête, sinon d'après le contenu
+ * (sans en-tête : nom en première colonne, téléphone = première colonne de chiffres)
+ */
+export function guessColumnMapping(source: PartnerImportSource): PartnerColumnMapping {
+  const mapping: PartnerColumnMapping = { name: null, phone: null, note: null };
+  const [firstRow = []] = source.rows;
+
+  if (source.hasHeader) {
+    const headers = firstRow.map(normalizeSearchText);
+    for (const field of Object.keys(HEADER_PATTERNS) as PartnerImportField[]) {
+      const index = headers.findIndex((header, i) =>
+        HEADER_PATTERNS[field].test(header) && !Object.values(mapping).includes(i)
+      );
+      if (index >= 0) mapping[field] = index;
+    }
+    if (mapping.name === null) mapping.name = 0;
+    return mapping;
+  }
+
+  mapping.name = 0;
+  const phoneIndex = firstRow.findIndex((cell, i) =>
+    i > 0 && /^[\d\s+().-]+$/.test(cell) && cell.replace(/\D/g, '').length >= MIN_PHONE_DIGITS
+  );
+  if (phoneIndex >= 0) mapping.phone = phoneIndex;
+  return mapping;
+}
+
+/**
+ * Lit un fichier CSV ou vCard (sans rien écrire en base)
+ */
+export async function readPartnerImportFile(file: File): Promise<PartnerImportSource> {
+  const text = await file.text();
+  const isVCard = /\.vcf$/i.test(file.name) || /^\s*BEGIN:VCARD/i.test(text.replace(/^\uFEFF/, ''));
+
+  if (isVCard) {
+    const rows = parseVCard(text);
+    if (rows.length <= 1) {
+      throw new Error('Aucun contact trouvé dans le fichier');
+    }
+    return { format: 'vcard', fileName: file.name, rows, hasHeader: true };
+  }
+
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    throw new Error('Fichier vide ou illisible');
+  }
+
+  // Première ligne = en-tête si au moins une colonne est reconnue
+  const headers = rows[0].map(normalizeSearchText);
+  const hasHeader = headers.some(header =>
+    Object.values(HEADER_PATTERNS).some(pattern => pattern.test(header))
+  );
+
+  return { format: 'csv', fileName: file.name, rows, hasHeader };
+}
+
+// ==================== APERÇU ====================
+
+/**
+ * Téléphone valide (facultatif, au moins 8 chiffres)
+ */
+function isValidPhone(phone: string): boolean {
+  return !phone || phone.replace(/\D/g, '').length >= MIN_PHONE_DIGITS;
+}
+
+/**
+ * Nom libre proposé pour un conflit : « Nom (2) », « Nom (3) »…
+ */
+async function suggestPartnerName(name: string, type: PartnerType, taken: Set<string>): Promise<string> {
+  for (let n = 2; ; n++) {
+    const candidate = `${name} (${n})`;
+    if (!taken.has(candidate) && !(await db.partnerExists(candidate, type))) {
+      taken.add(candidate);
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Lignes à importer, avec statut (nouveau, conflit, doublon, invalide)
+ * Les conflits sont ignorés par défaut
+ */
+export async function previewPartnerImport(
+  source: PartnerImportSource,
+  mapping: PartnerColumnMapping,
+  type: PartnerType
+): Promise<PartnerImportRow[]> {
+  if (mapping.name === null) {
+    throw new Error('Choisissez la colonne du nom');
+  }
+
+  const dataRows = source.hasHeader ? source.rows.slice(1) : source.rows;
+  const firstLine = source.hasHeader && source.format === 'csv' ? 2 : 1;
+  const read = (cells: string[], field: PartnerImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (cells[index] ?? '').trim();
+  };
+
+  const seen = new Map<string, number>();   // Nom → ligne de première apparition
+  const taken = new Set(dataRows.map(cells => read(cells, 'name').replace(/\s+/g, ' ')));
+  const rows: PartnerImportRow[] = [];
+
+  for (const [index, cells] of dataRows.entries()) {
+    const line = index + firstLine;
+    const name = read(cells, 'name').replace(/\s+/g, ' ');
+    const phone = read(cells, 'phone');
+    const note = read(cells, 'note');
+    if (!name && !phone && !note) continue;
+
+    const row: PartnerImportRow = {
+      line,
+      name,
+      phone: phone || undefined,
+      note: note || undefined,
+      status: 'new',
+      resolution: 'skip',
+      renameTo: ''
+    };
+
+    if (!name) {
+      row.status = 'invalid';
+      row.error = 'Nom manquant';
+    } else if (name.length < MIN_NAME_LENGTH) {
+      row.status = 'invalid';
+      row.error = 'Nom trop court';
+    } else if (!isValidPhone(phone)) {
+      row.status = 'invalid';
+      row.error = `Téléphone invalide (minimum ${MIN_PHONE_DIGITS} chiffres)`;
+    } else if (seen.has(name)) {
+      row.status = 'duplicate';
+      row.error = `Doublon de la ligne ${seen.get(name)}`;
+    } else {
+      seen.set(name, line);
+      if (await db.partnerExists(name, type)) {
+        row.status = 'conflict';
+        row.renameTo = await suggestPartnerName(name, type, taken);
+      }
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Erreur sur le nouveau nom d'un conflit à renommer (vérifiée avant import)
+ */
+export function getRenameError(row: PartnerImportRow, rows: PartnerImportRow[]): string | undefined {
+  if (row.status !== 'conflict' || row.resolution !== 'rename') return undefined;
+
+  const name = row.renameTo.trim();
+  if (name.length < MIN_NAME_LENGTH) return 'Nom trop court';
+  if (name === row.name) return 'Choisissez un autre nom';
+
+  const clash = rows.some(other =>
+    other !== row &&
+    (other.status === 'new' || other.status === 'conflict') &&
+    (other.status === 'new' ? other.name : other.resolution === 'rename' ? other.renameTo.trim() : null) === name
+  );
+  return clash ? 'Nom déjà utilisé dans le fichier' : undefined;
+}
+
+// ==================== IMPORT ====================
+
+/**
+ * Complète un partner existant (téléphone manquant, note ajoutée)
+ */
+function getMergeUpdates(existing: Partner, row: PartnerImportRow): Partial<Partner> {
+  const updates: Partial<Partner> = {};
+
+  if (row.phone && !existing.phone) {
+    updates.phone = row.phone;
+  }
+  if (row.note && !(existing.note ?? '').includes(row.note)) {
+    updates.note = existing.note ? `${existing.note}\n${row.note}` : row.note;
+  }
+
+  return updates;
+}
+
+/**
+ * Crée et fusionne les partners (transaction unique)
+ */
+export async function importPartnerRows(
+  rows: PartnerImportRow[],
+  type: PartnerType
+): Promise<PartnerImportSummary> {
+  return db.transaction('rw', db.partners, async () => {
+    const summary: PartnerImportSummary = { created: 0, renamed: 0, merged: 0, skipped: 0 };
+    const now = Date.now();
+
+    for (const row of rows) {
+      const importable = row.status === 'new' || (row.status === 'conflict' && row.resolution !== 'skip');
+      if (!importable) {
+        summary.skipped++;
+        continue;
+      }
+
+      const existing = await db.partners.where('[name+type]').equals([row.name, type]).first();
+
+      if (row.status === 'conflict' && row.resolution === 'merge' && existing) {
+        const updates = getMergeUpdates(existing, row);
+        if (Object.keys(updates).length > 0) {
+          await db.partners.update(existing.id!, { ...updates, updatedAt: now });
+        }
+        summary.merged++;
+        continue;
+      }
+
+      const isRename = row.status === 'conflict' && row.resolution === 'rename';
+      const name = isRename ? row.renameTo.trim() : row.name;
+
+      if (isRename) {
+        const renameError = getRenameError(row, rows);
+        if (renameError) {
+          throw new Error(`Ligne ${row.line} : ${renameError.toLowerCase()}`);
+        }
+        if (await db.partnerExists(name, type)) {
+          throw new Error(`Ligne ${row.line} : « ${name} » existe déjà`);
+        }
+      } else if (existing && row.status === 'new') {
+        // Créé entre l'aperçu et l'import
+        summary.skipped++;
+        continue;
+      }
+
+      await db.partners.add({
+        name,
+        type,
+        phone: row.phone,
+        note: row.note,
+        createdAt: now
+      });
+
+      summary.created++;
+      if (isRename) summary.renamed++;
+    }
+
+    return summary;
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Fusion de deux partners (doublons, client + fournisseur pour la même personne)
+ *
+ * RÈGLES :
+ * 1. Toutes les transactions et tous les paiements de la fiche source passent
+ *    sur la fiche conservée (target) ; la fiche source, vidée, peut ensuite être supprimée
+ * 2. Le nom de la fiche conservée est gardé ; CLIENT + SUPPLIER (ou un type différent) → BOTH
+ * 3. Téléphone : celui de la fiche conservée, sinon celui de la source ;
+ *    un second numéro différent est ajouté à la note
+ * 4. Notes différentes mises bout à bout
+ * 5. Solde après fusion = somme des deux soldes (les paiements gardent leur sens)
+ * 6. Fusion atomique : en cas d'erreur rien n'est déplacé
+ */
+
+import { db } from '../db/db';
+import type { Partner, PartnerMergePreview, PartnerMergeSummary } from '../types/partners';
+import { getStoredBalance } from './balance';
+
+const TYPE_LABELS: Record<Partner['type'], string> = {
+  CLIENT: 'client',
+  SUPPLIER: 'fournisseur',
+  BOTH: 'client & fournisseur'
+};
+
+/**
+ * Type de la fiche fusionnée
+ */
+export function getMergedPartnerType(source: Partner, target: Partner): Partner['type'] {
+  return source.type === target.type ? target.type : 'BOTH';
+}
+
+/**
+ * Fiche conservée après fusion (nom, type, téléphone, note)
+ */
+export function getMergedPartnerFields(source: Partner, target: Partner): PartnerMergePreview['result'] {
+  const phone = target.phone || source.phone;
+  const digits = (value?: string) => value?.replace(/\D/g, '') ?? '';
+  const otherPhone = source.phone && target.phone && digits(source.phone) !== digits(target.phone)
+    ? `Autre téléphone : ${source.phone}`
+    : undefined;
+
+  const notes = [target.note, source.note, otherPhone]
+    .map(note => note?.trim())
+    .filter((note): note is string => !!note)
+    .filter((note, index, list) => list.indexOf(note) === index);
+
+  return {
+    name: target.name,
+    type: getMergedPartnerType(source, target),
+    phone: phone || undefined,
+    note: notes.length > 0 ? notes.join('\n') : undefined
+  };
+}
+
+/**
+ * Aperçu de la fusion (vérifie qu'elle est possible)
+ */
+export async function previewPartnerMerge(sourceId: number, targetId: number): Promise<PartnerMergePreview> {
+  if (sourceId === targetId) {
+    throw new Error('Choisissez deux partners différents');
+  }
+
+  const [source, target] = await Promise.all([db.partners.get(sourceId), db.partners.get(targetId)]);
+  if (!source || !target) {
+    throw new Error('Partner introuvable');
+  }
+
+  const result = getMergedPartnerFields(source, target);
+
+  // Index unique [name+type] : le nouveau type ne doit pas créer de doublon
+  if (result.type !== target.type && await db.partnerExists(result.name, result.type, target.id)) {
+    throw new Error(
+      `Un ${TYPE_LABELS[result.type]} « ${result.name} » existe déjà : conservez plutôt cette fiche`
+    );
+  }
+
+  const [sourceBalance, targetBalance, transactionCount, paymentCount] = await Promise.all([
+    getStoredBalance(sourceId),
+    getStoredBalance(targetId),
+    db.transactions.where('partnerId').equals(sourceId).count(),
+    db.payments.where('partnerId').equals(sourceId).count()
+  ]);
+
+  return {
+    source,
+    target,
+    result,
+    sourceBalance,
+    targetBalance,
+    balance: sourceBalance + targetBalance,
+    transactionCount,
+    paymentCount
+  };
+}
+
+/**
+ * Déplace transactions et paiements de la source vers la fiche conservée
+ * et met à jour celle-ci (la source reste, vide, à supprimer)
+ */
+export async function mergePartners(sourceId: number, targetId: number): Promise<PartnerMergeSummary> {
+  // balances : lue par l'aperçu (soldes des deux fiches)
+  return db.transaction('rw', [db.partners, db.transactions, db.payments, db.balances], async () => {
+    const { result } = await previewPartnerMerge(sourceId, targetId);
+
+    const transactions = await db.transactions
+      .where('partnerId')
+      .equals(sourceId)
+      .modify({ partnerId: targetId });
+
+    const payments = await db.payments
+      .where('partnerId')
+      .equals(sourceId)
+      .modify({ partnerId: targetId });
+
+    await db.partners.update(targetId, {
+      ...result,
+      updatedAt: Date.now()
+    });
+
+    return { targetId, transactions, payments };
+  });
+}
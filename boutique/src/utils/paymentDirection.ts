@@ -0,0 +1,67 @@
+/**
+ * Sens des paiements (encaissement / décaissement)
+ *
+ * - IN  : argent reçu du partner → le solde DIMINUE (il nous doit moins)
+ * - OUT : argent versé au partner → le solde AUGMENTE (on lui doit moins)
+ *
+ * Module sans accès à la base : utilisé aussi par la migration Dexie
+ * et par la migration des sauvegardes.
+ */
+
+import type { Payment, PaymentDirection } from '../types/payments';
+import type { Partner } from '../types/partners';
+import type { Direction, Transaction } from '../types/transaction';
+
+/**
+ * Impact d'un paiement sur le solde du partner
+ * @returns Négatif pour un encaissement, positif pour un décaissement
+ */
+export function getPaymentImpact(payment: Pick<Payment, 'amount' | 'direction'>): number {
+  return payment.direction === 'IN' ? -payment.amount : payment.amount;
+}
+
+/**
+ * Sens d'un paiement lié à une transaction
+ * (une vente est encaissée, un achat est décaissé)
+ */
+export function getTransactionPaymentDirection(direction: Direction): PaymentDirection {
+  return direction === 'SALE' ? 'IN' : 'OUT';
+}
+
+/**
+ * Sens proposé par défaut dans PaymentForm
+ * - le partner nous doit → on encaisse
+ * - on doit au partner → on décaisse
+ * - compte soldé → selon le type (avance fournisseur = décaissement)
+ */
+export function getDefaultPaymentDirection(
+  balance: number,
+  partnerType?: Partner['type']
+): PaymentDirection {
+  if (balance > 0) return 'IN';
+  if (balance < 0) return 'OUT';
+  return partnerType === 'SUPPLIER' ? 'OUT' : 'IN';
+}
+
+/**
+ * Déduit le sens des paiements enregistrés avant l'ajout du champ
+ * - paiement lié : sens de sa transaction
+ * - paiement standalone : ancienne règle (signe des positions du partner
+ *   à la date du paiement), puis type du partner si le compte était soldé
+ */
+export function inferPaymentDirection(
+  payment: Pick<Payment, 'partnerId' | 'transactionId' | 'date'>,
+  transactions: Transaction[],
+  partnerType?: Partner['type']
+): PaymentDirection {
+  if (payment.transactionId != null) {
+    const linked = transactions.find(tx => tx.id === payment.transactionId);
+    if (linked) return getTransactionPaymentDirection(linked.direction);
+  }
+
+  const positions = transactions
+    .filter(tx => tx.partnerId === payment.partnerId && tx.date <= payment.date)
+    .reduce((sum, tx) => sum + (tx.direction === 'SALE' ? 1 : -1) * (tx.total - tx.paid), 0);
+
+  return getDefaultPaymentDirection(positions, partnerType);
+}
@@ -0,0 +1,10 @@
+/**
+ * Utilitaires du catalogue Produits
+ */
+
+/**
+ * Forme normalisée d'un nom pour comparaison (casse, espaces)
+ */
+export function normalizeProductName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
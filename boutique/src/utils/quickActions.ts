@@ -0,0 +1,130 @@
+/**
+ * Actions rapides de la palette de commandes
+ *
+ * RÈGLES :
+ * 1. Une saisie commençant par un verbe choisit l'action :
+ *    « vente », « vendre » → vente ; « achat », « acheter » → achat ;
+ *    « encaisser » → encaissement ; « payer », « décaisser » → décaissement
+ *    (« pour », « à », « chez », « de » qui suivent sont ignorés)
+ * 2. Le reste de la saisie cherche le partner ; seuls les partners du bon type
+ *    sont proposés (vente/encaissement : clients, achat/décaissement : fournisseurs)
+ * 3. Verbe seul : formulaire vide ; sans verbe : actions des premiers partners trouvés
+ * 4. Chaque action ouvre le formulaire pré-rempli (partner, sens)
+ */
+
+import type { Partner } from '../types/partners';
+import type { QuickAction, QuickActionKind } from '../types/search';
+import { normalizeSearchText, searchItems, getPartnerSearchDocument } from './search';
+
+// Actions proposées au plus
+const MAX_ACTIONS = 4;
+// Partners dont on propose les actions quand aucun verbe n'est saisi
+const MAX_IMPLICIT_PARTNERS = 2;
+
+const KEYWORDS: Record<string, QuickActionKind> = {
+  vente: 'SALE',
+  vendre: 'SALE',
+  achat: 'PURCHASE',
+  acheter: 'PURCHASE',
+  encaisser: 'PAYMENT_IN',
+  encaissement: 'PAYMENT_IN',
+  payer: 'PAYMENT_OUT',
+  decaisser: 'PAYMENT_OUT'
+};
+
+const LINK_WORDS = new Set(['nouvelle', 'nouvel', 'nouveau', 'pour', 'a', 'au', 'chez', 'de', 'du']);
+
+const PARTNER_TYPES: Record<QuickActionKind, Array<Partner['type']>> = {
+  SALE: ['CLIENT', 'BOTH'],
+  PAYMENT_IN: ['CLIENT', 'BOTH'],
+  PURCHASE: ['SUPPLIER', 'BOTH'],
+  PAYMENT_OUT: ['SUPPLIER', 'BOTH']
+};
+
+// Ordre des actions proposées pour un partner
+const KIND_ORDER: QuickActionKind[] = ['SALE', 'PAYMENT_IN', 'PURCHASE', 'PAYMENT_OUT'];
+
+/**
+ * Libellé d'une action (avec ou sans partner)
+ */
+export function getQuickActionLabel(kind: QuickActionKind, partnerName?: string): string {
+  switch (kind) {
+    case 'SALE':
+      return partnerName ? `Nouvelle vente pour ${partnerName}` : 'Nouvelle vente';
+    case 'PURCHASE':
+      return partnerName ? `Nouvel achat chez ${partnerName}` : 'Nouvel achat';
+    case 'PAYMENT_IN':
+      return partnerName ? `Encaisser ${partnerName}` : 'Encaisser un paiement';
+    case 'PAYMENT_OUT':
+      return partnerName ? `Payer ${partnerName}` : 'Payer un fournisseur';
+  }
+}
+
+/**
+ * Adresse de la fiche d'un partner (les fiches « les deux » sont rangées avec les clients)
+ */
+export function getPartnerPath(partnerId: number, partnerType?: Partner['type']): string {
+  return partnerType === 'SUPPLIER' ? `/fournisseurs/${partnerId}` : `/clients/${partnerId}`;
+}
+
+/**
+ * Adresse du formulaire pré-rempli
+ */
+export function getQuickActionPath(kind: QuickActionKind, partnerId?: number): string {
+  const params = new URLSearchParams();
+  if (partnerId !== undefined) params.set('partnerId', String(partnerId));
+
+  if (kind === 'SALE' || kind === 'PURCHASE') {
+    params.set('direction', kind);
+    return `/transactions/new?${params}`;
+  }
+
+  params.set('new', '1');
+  params.set('direction', kind === 'PAYMENT_IN' ? 'IN' : 'OUT');
+  return `/payments?${params}`;
+}
+
+function createAction(kind: QuickActionKind, partner?: Partner): QuickAction {
+  return {
+    kind,
+    label: getQuickActionLabel(kind, partner?.name),
+    path: getQuickActionPath(kind, partner?.id),
+    partner
+  };
+}
+
+/**
+ * Verbe d'action en tête de saisie (et reste de la saisie)
+ */
+export function parseQuickActionQuery(query: string): { kind?: QuickActionKind; rest: string } {
+  const words = normalizeSearchText(query).split(' ').filter(Boolean);
+  const verbIndex = words.findIndex(word => !LINK_WORDS.has(word));
+  const kind = verbIndex >= 0 ? KEYWORDS[words[verbIndex]] : undefined;
+  if (!kind) return { rest: query };
+
+  let start = verbIndex + 1;
+  while (start < words.length && LINK_WORDS.has(words[start])) start++;
+  return { kind, rest: words.slice(start).join(' ') };
+}
+
+/**
+ * Actions rapides correspondant à la saisie
+ */
+export function getQuickActions(query: string, partners: Partner[]): QuickAction[] {
+  if (!query.trim()) return [];
+
+  const { kind, rest } = parseQuickActionQuery(query);
+
+  if (kind) {
+    if (!rest) return [createAction(kind)];
+    const candidates = partners.filter(p => PARTNER_TYPES[kind].includes(p.type));
+    return searchItems(candidates, rest, getPartnerSearchDocument, MAX_ACTIONS)
+      .map(partner => createAction(kind, partner));
+  }
+
+  return searchItems(partners, query, getPartnerSearchDocument, MAX_IMPLICIT_PARTNERS)
+    .flatMap(partner => KIND_ORDER
+      .filter(k => PARTNER_TYPES[k].includes(partner.type))
+      .map(k => createAction(k, partner)))
+    .slice(0, MAX_ACTIONS);
+}
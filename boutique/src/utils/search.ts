@@ -0,0 +1,279 @@
+/**
+ * Recherche tolérante (accents, casse, fautes de frappe), partagée par toute l'application
+ *
+ * RÈGLES :
+ * 1. Textes normalisés : sans accents ni casse, ligatures développées (œ → oe),
+ *    ponctuation remplacée par des espaces → « Aïssa » est trouvée par « aissa »
+ * 2. Chaque mot de la recherche doit correspondre à un mot indexé (ET logique) :
+ *    mot identique > début de mot > contenu dans un mot > mot à une faute près
+ * 3. Fautes tolérées selon la longueur du mot cherché : aucune sous 4 lettres,
+ *    1 de 4 à 7 lettres, 2 au-delà (lettre en trop, en moins, remplacée ou inversée)
+ * 4. Téléphones comparés chiffre à chiffre : « 90 12 » trouve « +228 90-12-34-56 »
+ *    (à partir de 3 chiffres) ; montants trouvés par une saisie identique
+ *    (« 15 000 » trouve une facture de 15000)
+ * 5. Résultats classés par pertinence (texte principal compté double),
+ *    ordre d'origine conservé à égalité ; recherche vide = liste inchangée
+ */
+
+import type { Partner } from '../types/partners';
+import type { Transaction } from '../types/transaction';
+import type { Payment } from '../types/payments';
+import type { Product } from '../types/products';
+import type { SearchDocument, SearchIndex } from '../types/search';
+import { getDocumentNumber } from './creditNote';
+
+const MIN_PHONE_QUERY_DIGITS = 3;
+
+// Scores de correspondance d'un mot
+const SCORE_EXACT = 4;
+const SCORE_PREFIX = 3;
+const SCORE_SUBSTRING = 2;
+const SCORE_TYPO = 1;
+
+// Score d'une recherche par numéro ou montant (prioritaire sur le texte)
+const SCORE_PHONE = 10;
+const SCORE_AMOUNT = 10;
+
+interface IndexedDocument {
+  nameTokens: string[];
+  fieldTokens: string[];
+  phoneDigits: string[];
+  amounts: string[];
+}
+
+// ==================== NORMALISATION ====================
+
+/**
+ * Texte comparable : sans accents, minuscules, mots séparés par un espace
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/œ/g, 'oe')
+    .replace(/æ/g, 'ae')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Mots normalisés (sans doublon)
+ */
+export function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+  const normalized = normalizeSearchText(text);
+  return normalized ? [...new Set(normalized.split(' '))] : [];
+}
+
+/**
+ * Fautes tolérées pour un mot cherché de cette longueur
+ */
+function getMaxTypos(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Distance d'édition (insertion, suppression, substitution, inversion de deux lettres)
+ * Arrêt dès que `max` est dépassé : retourne alors max + 1
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, current[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = current;
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Score d'un mot cherché face à un mot indexé (0 = aucune correspondance)
+ */
+function scoreToken(query: string, token: string): number {
+  if (token === query) return SCORE_EXACT;
+  if (token.startsWith(query)) return SCORE_PREFIX;
+  if (query.length >= 2 && token.includes(query)) return SCORE_SUBSTRING;
+
+  // Pas de faute tolérée sur un nombre (numéro, montant)
+  const maxTypos = /^\d+$/.test(query) ? 0 : getMaxTypos(query.length);
+  if (maxTypos === 0) return 0;
+
+  // Mot entier, ou début de mot (saisie en cours : « moussq » → « moussa »)
+  if (editDistance(query, token, maxTypos) <= maxTypos) return SCORE_TYPO;
+  if (token.length > query.length && editDistance(query, token.slice(0, query.length), maxTypos) <= maxTypos) {
+    return SCORE_TYPO;
+  }
+  return 0;
+}
+
+/**
+ * Meilleur score d'un mot cherché parmi des mots indexés
+ */
+function bestTokenScore(query: string, tokens: string[]): number {
+  let best = 0;
+  for (const token of tokens) {
+    best = Math.max(best, scoreToken(query, token));
+    if (best === SCORE_EXACT) break;
+  }
+  return best;
+}
+
+// ==================== INDEX ====================
+
+function indexDocument(document: SearchDocument): IndexedDocument {
+  const phoneDigits = (document.phones ?? [])
+    .map(phone => phone?.replace(/\D/g, '') ?? '')
+    .filter(Boolean);
+
+  return {
+    nameTokens: tokenize(document.name),
+    fieldTokens: [...new Set([...(document.fields ?? []).flatMap(tokenize), ...phoneDigits])],
+    phoneDigits,
+    amounts: (document.amounts ?? []).map(amount => String(Math.round(amount)))
+  };
+}
+
+/**
+ * Score d'un document (0 = ne correspond pas)
+ */
+function scoreDocument(document: IndexedDocument, queryTokens: string[], queryDigits: string): number {
+  if (queryDigits.length >= MIN_PHONE_QUERY_DIGITS && document.phoneDigits.some(p => p.includes(queryDigits))) {
+    return SCORE_PHONE;
+  }
+  if (queryDigits && document.amounts.includes(queryDigits.replace(/^0+(?=\d)/, ''))) {
+    return SCORE_AMOUNT;
+  }
+
+  let total = 0;
+  for (const query of queryTokens) {
+    const score = Math.max(
+      bestTokenScore(query, document.nameTokens) * 2,
+      bestTokenScore(query, document.fieldTokens)
+    );
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total;
+}
+
+/**
+ * Index de recherche d'une liste (à mémoriser : la normalisation est faite une fois)
+ */
+export function createSearchIndex<T>(
+  items: T[],
+  toDocument: (item: T) => SearchDocument
+): SearchIndex<T> {
+  const documents = items.map(item => indexDocument(toDocument(item)));
+
+  return {
+    search(query: string, limit?: number): T[] {
+      const queryTokens = tokenize(query);
+      if (queryTokens.length === 0) {
+        return limit === undefined ? items : items.slice(0, limit);
+      }
+
+      // Recherche uniquement numérique (espaces, tirets, +) : comparée aux téléphones
+      const queryDigits = /^[\d\s+().-]+$/.test(query.trim()) ? query.replace(/\D/g, '') : '';
+
+      const matches = items
+        .map((item, index) => ({ item, index, score: scoreDocument(documents[index], queryTokens, queryDigits) }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(match => match.item);
+
+      return limit === undefined ? matches : matches.slice(0, limit);
+    }
+  };
+}
+
+/**
+ * Recherche ponctuelle (sans index mémorisé)
+ */
+export function searchItems<T>(
+  items: T[],
+  query: string,
+  toDocument: (item: T) => SearchDocument,
+  limit?: number
+): T[] {
+  if (!query.trim()) return limit === undefined ? items : items.slice(0, limit);
+  return createSearchIndex(items, toDocument).search(query, limit);
+}
+
+/**
+ * Vrai si un document correspond à la recherche
+ */
+export function matchesSearch(document: SearchDocument, query: string): boolean {
+  return searchItems([document], query, doc => doc).length > 0;
+}
+
+// ==================== DOCUMENTS ====================
+
+/**
+ * Partner : nom, note, téléphone
+ */
+export function getPartnerSearchDocument(partner: Partner): SearchDocument {
+  return {
+    name: partner.name,
+    fields: [partner.note],
+    phones: [partner.phone]
+  };
+}
+
+/**
+ * Transaction : partner, numéro de facture, note, articles, texte OCR, montant
+ */
+export function getTransactionSearchDocument(transaction: Transaction, partnerName = ''): SearchDocument {
+  return {
+    name: partnerName,
+    fields: [
+      transaction.id !== undefined ? getDocumentNumber(transaction) : undefined,
+      transaction.note,
+      ...(transaction.items ?? []).map(item => item.name),
+      transaction.ocrText
+    ],
+    amounts: [transaction.total]
+  };
+}
+
+/**
+ * Paiement : partner, note, montant
+ */
+export function getPaymentSearchDocument(payment: Payment, partnerName = ''): SearchDocument {
+  return {
+    name: partnerName,
+    fields: [payment.note],
+    amounts: [payment.amount]
+  };
+}
+
+/**
+ * Produit : nom, alias
+ */
+export function getProductSearchDocument(product: Product): SearchDocument {
+  return {
+    name: product.name,
+    fields: product.aliases ?? []
+  };
+}
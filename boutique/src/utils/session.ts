@@ -0,0 +1,95 @@
+/**
+ * Session en cours : profil déverrouillé et permissions
+ *
+ * RÈGLES :
+ * 1. La session vit en mémoire uniquement : au démarrage l'application est verrouillée
+ *    (dès qu'au moins un profil existe)
+ * 2. Aucun profil créé : l'utilisateur est le propriétaire, tous les droits. Dès qu'un
+ *    profil existe, sans session ouverte (verrouillé) tout est refusé, y compris au
+ *    démarrage tant que la présence de profils n'est pas connue
+ * 3. Le nom du profil ouvert est l'auteur inscrit dans createdBy et dans le journal d'audit
+ * 4. Le verrouillage « même jour » des transactions ne s'applique pas au propriétaire
+ *    connecté (sans profil, la règle du jour même reste en vigueur)
+ */
+
+import { db, DEFAULT_AUDIT_ACTOR } from '../db/db';
+import type { Transaction } from '../types/transaction';
+import type { Permission, UserProfile } from '../types/users';
+import { PERMISSION_LABELS, ROLE_LABELS, ROLE_PERMISSIONS } from './users';
+
+let currentUser: UserProfile | null = null;
+// Des profils existent-ils ? (null = pas encore lu au démarrage)
+let profilesExist: boolean | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Abonnement aux changements de session (useSyncExternalStore)
+ */
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Profil déverrouillé (null = verrouillé ou aucun profil)
+ */
+export function getSessionUser(): UserProfile | null {
+  return currentUser;
+}
+
+/**
+ * Présence de profils sur l'appareil (suivie par useSession)
+ */
+export function setProfilesExist(exist: boolean): void {
+  if (profilesExist === exist) return;
+  profilesExist = exist;
+  notify();
+}
+
+/**
+ * Ouvre la session d'un profil (après vérification du PIN)
+ */
+export function openSession(user: UserProfile): void {
+  currentUser = user;
+  profilesExist = true;
+  db.auditActor = user.name;
+  notify();
+}
+
+/**
+ * Ferme la session (verrouillage)
+ */
+export function closeSession(): void {
+  currentUser = null;
+  profilesExist = true;       // Il reste toujours un propriétaire
+  db.auditActor = DEFAULT_AUDIT_ACTOR;
+  notify();
+}
+
+/**
+ * Le profil en cours a-t-il la permission ?
+ */
+export function hasPermission(permission: Permission): boolean {
+  if (!currentUser) return profilesExist === false;
+  return ROLE_PERMISSIONS[currentUser.role].includes(permission);
+}
+
+/**
+ * Lève une erreur si le profil en cours n'a pas la permission
+ */
+export function assertPermission(permission: Permission): void {
+  if (!hasPermission(permission)) {
+    throw new Error(`${PERMISSION_LABELS[permission]} : réservé au ${ROLE_LABELS.OWNER.toLowerCase()}`);
+  }
+}
+
+/**
+ * Transaction modifiable : le jour même, ou à tout moment pour le propriétaire connecté
+ * (les jours clôturés restent figés, voir assertDayOpen)
+ */
+export function canEditTransaction(tx: Transaction): boolean {
+  if (db.canEditTransaction(tx)) return true;
+  return currentUser !== null && hasPermission('OVERRIDE_EDIT_LOCK');
+}
@@ -0,0 +1,109 @@
+/**
+ * Relevé de compte d'un partner sur une période
+ *
+ * - Solde d'ouverture = getPreviousBalance(partnerId, startDate)
+ * - Lignes : transactions + paiements standalone, par date croissante
+ *   (à date égale : transaction avant paiement, puis ordre de saisie)
+ * - Solde progressif : positions des transactions + impact signé des paiements
+ *   (IN / OUT) cumulés depuis le début du compte, donc le solde de clôture
+ *   est identique à getPreviousBalance(partnerId, fin de période)
+ * - Totaux ventes / achats nets des avoirs (un avoir sur vente réduit les ventes)
+ */
+
+import { db } from '../db/db';
+import type { PartnerStatement, StatementLine } from '../types/balances';
+import { getPreviousBalance, calculatePosition } from './balance';
+import { getPaymentImpact } from './paymentDirection';
+import { getDocumentDirection, getSignedTotal } from './creditNote';
+
+/**
+ * Construit le relevé de compte
+ * @param startDate Timestamp de début (inclus)
+ * @param endDate Timestamp de fin (inclus)
+ */
+export async function getPartnerStatement(
+  partnerId: number,
+  startDate: number,
+  endDate: number
+): Promise<PartnerStatement | null> {
+  const partner = await db.partners.get(partnerId);
+  if (!partner) return null;
+
+  const opening = await getPreviousBalance(partnerId, startDate);
+
+  // Historique complet jusqu'à la fin de période (cumuls du solde progressif)
+  const transactions = await db.transactions
+    .where('[partnerId+date]')
+    .between([partnerId, 0], [partnerId, endDate], true, true)
+    .toArray();
+
+  const payments = await db.payments
+    .where('partnerId')
+    .equals(partnerId)
+    .filter(p => !p.transactionId && p.date <= endDate)
+    .toArray();
+
+  // Un avoir est toujours postérieur à sa facture d'origine : elle est dans l'historique
+  const byId = new Map(transactions.map(tx => [tx.id!, tx]));
+
+  type Entry = Omit<StatementLine, 'balance'> & { order: number; createdAt: number };
+
+  const entries: Entry[] = [
+    ...transactions.map(tx => ({
+      date: tx.date,
+      transaction: tx,
+      original: tx.reversalOf != null ? byId.get(tx.reversalOf) : undefined,
+      amount: tx.total,
+      paid: tx.paid,
+      order: 0,
+      createdAt: tx.createdAt
+    })),
+    ...payments.map(p => ({
+      date: p.date,
+      payment: p,
+      amount: 0,
+      paid: p.amount,
+      order: 1,
+      createdAt: p.createdAt
+    }))
+  ].sort((a, b) => a.date - b.date || a.order - b.order || a.createdAt - b.createdAt);
+
+  let balance = 0;
+  const lines: StatementLine[] = [];
+
+  entries.forEach(entry => {
+    if (entry.transaction) {
+      balance += calculatePosition(entry.transaction);
+    } else if (entry.payment) {
+      balance += getPaymentImpact(entry.payment);
+    }
+
+    if (entry.date >= startDate) {
+      lines.push({
+        date: entry.date,
+        transaction: entry.transaction,
+        original: entry.original,
+        payment: entry.payment,
+        amount: entry.amount,
+        paid: entry.paid,
+        balance
+      });
+    }
+  });
+
+  const sumBy = (predicate: (line: StatementLine) => boolean, value: (line: StatementLine) => number) =>
+    lines.filter(predicate).reduce((sum, line) => sum + value(line), 0);
+
+  return {
+    partner,
+    startDate,
+    endDate,
+    opening,
+    lines,
+    closing: lines.length > 0 ? lines[lines.length - 1].balance : opening,
+    totalSales: sumBy(l => !!l.transaction && getDocumentDirection(l.transaction) === 'SALE', l => getSignedTotal(l.transaction!)),
+    totalPurchases: sumBy(l => !!l.transaction && getDocumentDirection(l.transaction) === 'PURCHASE', l => getSignedTotal(l.transaction!)),
+    totalPaid: sumBy(() => true, l => l.paid),
+    generatedAt: Date.now()
+  };
+}
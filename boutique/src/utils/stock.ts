@@ -0,0 +1,128 @@
+/**
+ * Utilitaires de gestion du stock
+ *
+ * LOGIQUE :
+ * - Chaque article lié au catalogue (productId) génère un mouvement :
+ *     PURCHASE → IN  (+qty)
+ *     SALE     → OUT (-qty)
+ * - Les mouvements d'une transaction sont régénérés à chaque modification
+ *   et supprimés avec elle (le journal reste cohérent avec les factures)
+ * - Ajustements manuels (inventaire) : type ADJUSTMENT, sans transaction
+ * - Stock actuel = somme des quantités signées
+ *
+ * À appeler dans une transaction Dexie 'rw' incluant db.stockMovements
+ */
+
+import { db } from '../db/db';
+import type { Transaction, TransactionItem, Direction } from '../types/transaction';
+import type { StockMovement, StockWarning } from '../types/stock';
+
+/**
+ * Regroupe les quantités par produit (articles liés au catalogue uniquement)
+ */
+function quantitiesByProduct(items: TransactionItem[] = []): Map<number, number> {
+  const quantities = new Map<number, number>();
+
+  items.forEach(item => {
+    if (item.productId == null || !(item.qty > 0)) return;
+    quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.qty);
+  });
+
+  return quantities;
+}
+
+/**
+ * Construit les mouvements de stock d'une transaction
+ */
+export function buildStockMovements(
+  tx: Pick<Transaction, 'direction' | 'date' | 'items'>,
+  transactionId: number
+): Omit<StockMovement, 'id' | 'createdAt'>[] {
+  const sign = tx.direction === 'PURCHASE' ? 1 : -1;
+
+  return Array.from(quantitiesByProduct(tx.items)).map(([productId, qty]) => ({
+    productId,
+    type: tx.direction === 'PURCHASE' ? 'IN' : 'OUT',
+    quantity: sign * qty,
+    date: tx.date,
+    transactionId
+  }));
+}
+
+/**
+ * Remplace les mouvements d'une transaction
+ * @param tx Transaction à jour, ou undefined si elle est supprimée
+ */
+export async function syncTransactionStock(
+  transactionId: number,
+  tx?: Pick<Transaction, 'direction' | 'date' | 'items'>
+): Promise<void> {
+  await db.stockMovements.where('transactionId').equals(transactionId).delete();
+
+  if (!tx) return;
+
+  const movements = buildStockMovements(tx, transactionId);
+  if (movements.length > 0) {
+    await db.stockMovements.bulkAdd(movements.map(m => ({ ...m, createdAt: Date.now() })));
+  }
+}
+
+/**
+ * Stock actuel de tous les produits
+ * @returns Map productId → quantité
+ */
+export async function getStockLevels(): Promise<Map<number, number>> {
+  const movements = await db.stockMovements.toArray();
+  const levels = new Map<number, number>();
+
+  movements.forEach(m => {
+    levels.set(m.productId, (levels.get(m.productId) ?? 0) + m.quantity);
+  });
+
+  return levels;
+}
+
+/**
+ * Stock actuel d'un produit
+ */
+export async function getProductStock(productId: number): Promise<number> {
+  const movements = await db.stockMovements.where('productId').equals(productId).toArray();
+  return movements.reduce((sum, m) => sum + m.quantity, 0);
+}
+
+/**
+ * Prévisualise les stocks négatifs qu'entraînerait une transaction
+ * Les mouvements de la transaction éditée sont ignorés (remplacés)
+ *
+ * @param excludeTransactionId Transaction en cours d'édition
+ */
+export async function previewStockWarnings(
+  items: TransactionItem[],
+  direction: Direction,
+  excludeTransactionId?: number
+): Promise<StockWarning[]> {
+  if (direction !== 'SALE') return [];
+
+  const quantities = quantitiesByProduct(items);
+  const warnings: StockWarning[] = [];
+
+  for (const [productId, qty] of quantities) {
+    const movements = await db.stockMovements.where('productId').equals(productId).toArray();
+    const current = movements
+      .filter(m => excludeTransactionId === undefined || m.transactionId !== excludeTransactionId)
+      .reduce((sum, m) => sum + m.quantity, 0);
+    const after = current - qty;
+
+    if (after < 0) {
+      const product = await db.products.get(productId);
+      warnings.push({
+        productId,
+        name: product?.name ?? items.find(i => i.productId === productId)?.name ?? '',
+        current,
+        after
+      });
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,644 @@
+/**
+ * Synchronisation entre appareils par journal de modifications
+ *
+ * RÈGLES :
+ * 1. Toute écriture locale sur une table partagée est inscrite dans syncChanges
+ *    (voir db.registerSyncHooks) ; seq est la version locale monotone, stamp la version
+ *    de l'enregistrement (voir utils/syncClock)
+ * 2. Envoi (push) : état courant de chaque enregistrement modifié, références traduites
+ *    en syncId ; suppressions d'abord (ordre inverse des dépendances), puis le reste
+ *    dans l'ordre des dépendances (SYNC_TABLES)
+ * 3. Réception (pull) : le serveur renvoie les modifications des autres appareils depuis
+ *    la dernière version reçue ; elles sont appliquées sans être renvoyées
+ * 4. Conflit : la modification au stamp le plus grand gagne (suppression comprise),
+ *    quel que soit l'ordre d'arrivée → tous les appareils convergent
+ * 5. Doublon à la création (ex: compte « Caisse » créé sur deux appareils) :
+ *    l'enregistrement local est conservé et associé aux deux syncId
+ * 6. Les enregistrements antérieurs à l'activation sont envoyés à la première synchronisation ;
+ *    changer de serveur ou de code renvoie tout
+ * 7. Serveur injoignable : le premier lot est confié au service worker (background sync),
+ *    qui l'envoie au retour du réseau, même application fermée
+ */
+
+import Dexie from 'dexie';
+import { db } from '../db/db';
+import type {
+  PullResponse,
+  PushResponse,
+  RemoteChange,
+  SyncChange,
+  SyncConfig,
+  SyncRecord,
+  SyncResult,
+  SyncStatus,
+  SyncTable
+} from '../types/sync';
+import {
+  createStamp,
+  isValidStamp,
+  observeStamp,
+  SYNC_DEVICE_KEY,
+  SYNC_LAST_ERROR_KEY,
+  SYNC_LAST_SYNC_KEY,
+  SYNC_LAST_VERSION_KEY,
+  SYNC_SERVER_URL_KEY,
+  SYNC_SETTING_PREFIX,
+  SYNC_SHOP_CODE_KEY,
+  SYNC_TABLES
+} from './syncClock';
+
+export const MIN_SHOP_CODE_LENGTH = 8;
+
+// Tag background sync écouté par public/sw.js
+export const SYNC_TAG = 'sync-transactions';
+
+// Lot confié au service worker (Cache Storage partagé avec public/sw.js)
+const SYNC_CACHE = 'ledger-sync-v1';
+const PENDING_PUSH_URL = '/__sync/pending-push';
+const PUSH_RECEIPT_URL = '/__sync/push-receipt';
+
+const UNREACHABLE_MESSAGE = 'Serveur de synchronisation injoignable (vérifiez la connexion)';
+
+const PUSH_BATCH_SIZE = 200;
+const PULL_LIMIT = 500;
+
+type SyncRow = Record<string, unknown> & { id?: number };
+
+interface Reference {
+  field: string;
+  table: SyncTable;
+  required?: boolean;
+}
+
+// Références entre tables (ids locaux ↔ syncId)
+const REFERENCES: Record<SyncTable, Reference[]> = {
+  accounts: [],
+  products: [],
+  partners: [],
+  transactions: [
+    { field: 'partnerId', table: 'partners', required: true },
+    { field: 'accountId', table: 'accounts' },
+    { field: 'reversalOf', table: 'transactions', required: true }
+  ],
+  payments: [
+    { field: 'partnerId', table: 'partners', required: true },
+    { field: 'transactionId', table: 'transactions', required: true },
+    { field: 'accountId', table: 'accounts' }
+  ],
+  stockMovements: [
+    { field: 'productId', table: 'products', required: true },
+    { field: 'transactionId', table: 'transactions', required: true }
+  ],
+  transfers: [
+    { field: 'fromAccountId', table: 'accounts', required: true },
+    { field: 'toAccountId', table: 'accounts', required: true }
+  ],
+  closings: [
+    { field: 'accountId', table: 'accounts', required: true }
+  ]
+};
+
+// ==================== CONFIGURATION ====================
+
+/**
+ * Adresse du serveur normalisée (sans / final)
+ */
+export function normalizeServerUrl(value: string): string {
+  const trimmed = value.trim().replace(/\/+$/, '');
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error('Adresse du serveur invalide (ex: http://192.168.1.10:8787)');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('L\'adresse du serveur doit commencer par http:// ou https://');
+  }
+  return trimmed;
+}
+
+/**
+ * Configuration de la synchronisation (null = désactivée)
+ */
+export async function getSyncConfig(): Promise<SyncConfig | null> {
+  const rows = await db.settings
+    .where('key')
+    .anyOf([SYNC_SERVER_URL_KEY, SYNC_SHOP_CODE_KEY, SYNC_LAST_VERSION_KEY])
+    .toArray();
+  const value = (key: string) => rows.find(r => r.key === key)?.value;
+
+  const serverUrl = value(SYNC_SERVER_URL_KEY);
+  const shopCode = value(SYNC_SHOP_CODE_KEY);
+  if (typeof serverUrl !== 'string' || !serverUrl || typeof shopCode !== 'string' || !shopCode) {
+    return null;
+  }
+
+  return {
+    serverUrl,
+    shopCode,
+    deviceId: await db.getSyncDeviceId(),
+    lastVersion: Number(value(SYNC_LAST_VERSION_KEY)) || 0
+  };
+}
+
+/**
+ * État affiché (lecture seule, utilisable dans useLiveQuery)
+ */
+export async function getSyncStatus(): Promise<SyncStatus> {
+  const rows = await db.settings.where('key').startsWith(SYNC_SETTING_PREFIX).toArray();
+  const value = (key: string) => rows.find(r => r.key === key)?.value;
+
+  const serverUrl = value(SYNC_SERVER_URL_KEY);
+  const lastSyncAt = value(SYNC_LAST_SYNC_KEY);
+  const lastError = value(SYNC_LAST_ERROR_KEY);
+
+  return {
+    enabled: typeof serverUrl === 'string' && serverUrl !== '' && !!value(SYNC_SHOP_CODE_KEY),
+    serverUrl: typeof serverUrl === 'string' ? serverUrl : '',
+    deviceId: String(value(SYNC_DEVICE_KEY) ?? ''),
+    pending: await db.syncChanges.count(),
+    lastSyncAt: typeof lastSyncAt === 'number' ? lastSyncAt : undefined,
+    lastError: typeof lastError === 'string' ? lastError : undefined
+  };
+}
+
+/**
+ * Active la synchronisation après vérification du serveur et du code boutique
+ */
+export async function saveSyncConfig(serverUrl: string, shopCode: string): Promise<void> {
+  const url = normalizeServerUrl(serverUrl);
+  const code = shopCode.trim();
+  if (code.length < MIN_SHOP_CODE_LENGTH) {
+    throw new Error(`Le code boutique doit comporter au moins ${MIN_SHOP_CODE_LENGTH} caractères`);
+  }
+
+  const previous = await getSyncConfig();
+  const deviceId = await db.getSyncDeviceId();
+  await request({ serverUrl: url, shopCode: code, deviceId, lastVersion: 0 }, '/api/sync/status');
+
+  if (previous?.serverUrl === url && previous.shopCode === code) return;
+
+  const now = Date.now();
+  await db.settings.bulkPut([
+    { key: SYNC_SERVER_URL_KEY, value: url, updatedAt: now },
+    { key: SYNC_SHOP_CODE_KEY, value: code, updatedAt: now },
+    { key: SYNC_LAST_VERSION_KEY, value: 0, updatedAt: now }
+  ]);
+  await db.settings.delete(SYNC_LAST_ERROR_KEY);
+
+  // Nouveau serveur : il ne connaît encore rien de cet appareil
+  await enqueueAllRecords(deviceId);
+}
+
+/**
+ * Désactive la synchronisation (les données locales sont conservées)
+ */
+export async function disableSync(): Promise<void> {
+  await db.settings.bulkDelete([
+    SYNC_SERVER_URL_KEY,
+    SYNC_SHOP_CODE_KEY,
+    SYNC_LAST_VERSION_KEY,
+    SYNC_LAST_SYNC_KEY,
+    SYNC_LAST_ERROR_KEY
+  ]);
+  await clearPendingPush();
+}
+
+// ==================== SERVEUR ====================
+
+/**
+ * Appel du serveur de synchronisation (réponse JSON)
+ */
+async function request<T>(config: SyncConfig, path: string, body?: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${config.serverUrl}${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${config.shopCode}`
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  } catch {
+    throw new Error(UNREACHABLE_MESSAGE);
+  }
+
+  if (response.status === 401) {
+    throw new Error('Code boutique refusé par le serveur');
+  }
+  if (!response.ok) {
+    throw new Error(`Erreur du serveur de synchronisation (${response.status})`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+// ==================== JOURNAL ====================
+
+/**
+ * Identité partagée des enregistrements jamais inscrits au journal
+ * (données antérieures à la synchronisation)
+ */
+async function trackUntrackedRecords(deviceId: string): Promise<void> {
+  for (const table of SYNC_TABLES) {
+    await db.transaction('rw', [db.table(table), db.syncRecords, db.syncChanges], async () => {
+      const localIds = await db.table<SyncRow, number>(table).toCollection().primaryKeys();
+      const tracked = new Set(
+        (await db.syncRecords
+          .where('[table+localId]')
+          .between([table, Dexie.minKey], [table, Dexie.maxKey])
+          .toArray()
+        ).map(record => record.localId)
+      );
+
+      const records: SyncRecord[] = localIds
+        .filter(localId => !tracked.has(localId))
+        .map(localId => ({ table, syncId: crypto.randomUUID(), localId, stamp: createStamp(deviceId) }));
+      if (records.length === 0) return;
+
+      await db.syncRecords.bulkAdd(records);
+      await db.syncChanges.bulkAdd(records.map(({ table, syncId, stamp }) => ({ table, syncId, op: 'PUT', stamp })));
+    });
+  }
+}
+
+/**
+ * Remet tous les enregistrements en attente d'envoi (changement de serveur)
+ */
+async function enqueueAllRecords(deviceId: string): Promise<void> {
+  await trackUntrackedRecords(deviceId);
+
+  await db.transaction('rw', db.syncRecords, db.syncChanges, async () => {
+    const records = await db.syncRecords.filter(record => !record.deleted).toArray();
+    await db.syncChanges.clear();
+    await db.syncChanges.bulkAdd(records.map(({ table, syncId, stamp }) => ({ table, syncId, op: 'PUT', stamp })));
+  });
+}
+
+/**
+ * syncId d'un enregistrement local (undefined si inconnu ou supprimé)
+ */
+async function toSyncId(table: SyncTable, localId: unknown): Promise<string | undefined> {
+  if (typeof localId !== 'number') return undefined;
+  const record = await db.syncRecords
+    .where('[table+localId]')
+    .equals([table, localId])
+    .filter(r => !r.deleted)
+    .first();
+  return record?.syncId;
+}
+
+/**
+ * Id local d'un syncId reçu (undefined si inconnu ou supprimé)
+ */
+async function toLocalId(table: SyncTable, syncId: unknown): Promise<number | undefined> {
+  if (typeof syncId !== 'string') return undefined;
+  const record = await db.syncRecords.get([table, syncId]);
+  return record && !record.deleted ? record.localId : undefined;
+}
+
+/**
+ * Traduit les références d'un enregistrement (sans son id)
+ * null : une référence obligatoire est introuvable
+ */
+async function mapReferences(
+  table: SyncTable,
+  row: SyncRow,
+  resolve: (table: SyncTable, value: unknown) => Promise<unknown>
+): Promise<SyncRow | null> {
+  const result: SyncRow = { ...row };
+  delete result.id;
+
+  for (const reference of REFERENCES[table]) {
+    const value = row[reference.field];
+    if (value == null) continue;
+
+    const mapped = await resolve(reference.table, value);
+    if (mapped === undefined) {
+      if (reference.required) return null;
+      delete result[reference.field];
+    } else {
+      result[reference.field] = mapped;
+    }
+  }
+
+  // Articles : produit du catalogue facultatif
+  if (table === 'transactions' && Array.isArray(row.items)) {
+    result.items = await Promise.all(row.items.map(async (item: SyncRow) => {
+      if (item.productId == null) return item;
+      const { productId, ...rest } = item;
+      const mapped = await resolve('products', productId);
+      return mapped === undefined ? rest : { ...rest, productId: mapped };
+    }));
+  }
+
+  // Affectations : facture obligatoire
+  if (table === 'payments' && Array.isArray(row.allocations)) {
+    const allocations: SyncRow[] = [];
+    for (const allocation of row.allocations as SyncRow[]) {
+      const transactionId = await resolve('transactions', allocation.transactionId);
+      if (transactionId === undefined) return null;
+      allocations.push({ ...allocation, transactionId });
+    }
+    result.allocations = allocations;
+  }
+
+  return result;
+}
+
+// ==================== ENVOI ====================
+
+interface PendingPush {
+  url: string;
+  authorization: string;
+  body: string;
+  seqs: number[];
+}
+
+/**
+ * Lot envoyé par le service worker pendant l'absence de l'application :
+ * ses modifications sont retirées du journal
+ */
+async function settlePushReceipt(): Promise<void> {
+  if (typeof caches === 'undefined') return;
+
+  const cache = await caches.open(SYNC_CACHE);
+  const receipt = await cache.match(PUSH_RECEIPT_URL);
+  if (!receipt) return;
+
+  const { seqs } = await receipt.json() as { seqs: number[] };
+  await db.syncChanges.bulkDelete(seqs);
+  await cache.delete(PUSH_RECEIPT_URL);
+}
+
+/**
+ * Confie un lot au service worker, envoyé au retour du réseau
+ */
+async function requestBackgroundSync(pending: PendingPush): Promise<void> {
+  if (typeof caches === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  const cache = await caches.open(SYNC_CACHE);
+  await cache.put(PENDING_PUSH_URL, new Response(JSON.stringify(pending), {
+    headers: { 'Content-Type': 'application/json' }
+  }));
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const syncManager = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync;
+  await syncManager?.register(SYNC_TAG);
+}
+
+/**
+ * Lot en attente du service worker devenu inutile
+ */
+async function clearPendingPush(): Promise<void> {
+  if (typeof caches === 'undefined') return;
+  const cache = await caches.open(SYNC_CACHE);
+  await cache.delete(PENDING_PUSH_URL);
+}
+
+/**
+ * Envoie le journal local, par lots, dans l'ordre des dépendances
+ */
+async function pushChanges(config: SyncConfig): Promise<number> {
+  await settlePushReceipt();
+
+  const changes = await db.syncChanges.toArray();
+  if (changes.length === 0) {
+    await clearPendingPush();
+    return 0;
+  }
+
+  const records = await db.syncRecords.bulkGet(changes.map(change => [change.table, change.syncId]));
+  const localIds = new Map(changes.map((change, i) => [change.seq!, records[i]?.localId ?? 0]));
+  // Suppressions d'abord (dépendants avant référencés) : un enregistrement recréé sous le même
+  // nom (restauration complète) ne doit pas être rapproché de l'ancien puis supprimé avec lui
+  const rank = (change: SyncChange) => change.op === 'DELETE'
+    ? SYNC_TABLES.length - 1 - SYNC_TABLES.indexOf(change.table)
+    : SYNC_TABLES.length + SYNC_TABLES.indexOf(change.table);
+
+  changes.sort((a, b) => rank(a) - rank(b) || localIds.get(a.seq!)! - localIds.get(b.seq!)! || a.seq! - b.seq!);
+
+  // Modifications à envoyer + modifications périmées (enregistrement disparu entre-temps)
+  const outgoing: Array<{ seq: number; change: RemoteChange }> = [];
+  const stale: number[] = [];
+
+  for (const change of changes) {
+    const remote: RemoteChange = {
+      table: change.table,
+      syncId: change.syncId,
+      op: change.op,
+      stamp: change.stamp,
+      deviceId: config.deviceId
+    };
+
+    if (change.op === 'PUT') {
+      const row = await db.table<SyncRow, number>(change.table).get(localIds.get(change.seq!)!);
+      const data = row && await mapReferences(change.table, row, toSyncId);
+      if (!data) {
+        stale.push(change.seq!);
+        continue;
+      }
+      remote.data = data;
+    }
+
+    outgoing.push({ seq: change.seq!, change: remote });
+  }
+
+  for (let i = 0; i < outgoing.length; i += PUSH_BATCH_SIZE) {
+    const batch = outgoing.slice(i, i + PUSH_BATCH_SIZE);
+    const body = { deviceId: config.deviceId, changes: batch.map(entry => entry.change) };
+    const seqs = batch.map(entry => entry.seq);
+
+    try {
+      await request<PushResponse>(config, '/api/sync/push', body);
+    } catch (err) {
+      if (err instanceof Error && err.message === UNREACHABLE_MESSAGE) {
+        await requestBackgroundSync({
+          url: `${config.serverUrl}/api/sync/push`,
+          authorization: `Bearer ${config.shopCode}`,
+          body: JSON.stringify(body),
+          seqs
+        }).catch(syncErr => console.error('Background sync error:', syncErr));
+      }
+      throw err;
+    }
+
+    await db.syncChanges.bulkDelete(seqs);
+  }
+
+  await db.syncChanges.bulkDelete(stale);
+  await clearPendingPush();
+  return outgoing.length;
+}
+
+// ==================== RÉCEPTION ====================
+
+/**
+ * Modification reçue bien formée ?
+ */
+function isRemoteChange(raw: unknown): raw is RemoteChange {
+  const change = raw as RemoteChange;
+  return typeof raw === 'object' && raw !== null
+    && SYNC_TABLES.includes(change.table)
+    && typeof change.syncId === 'string' && change.syncId !== ''
+    && (change.op === 'DELETE' || (change.op === 'PUT' && typeof change.data === 'object' && change.data !== null))
+    && isValidStamp(change.stamp);
+}
+
+/**
+ * Enregistrement local identique selon la contrainte d'unicité de la table
+ */
+async function findDuplicate(table: SyncTable, data: SyncRow): Promise<number | undefined> {
+  switch (table) {
+    case 'partners':
+      return (await db.partners.where('[name+type]').equals([data.name as string, data.type as string]).first())?.id;
+    case 'products':
+      return (await db.products.where('name').equals(data.name as string).first())?.id;
+    case 'accounts':
+      return (await db.accounts.where('name').equals(data.name as string).first())?.id;
+    case 'closings':
+      return (await db.closings.where('[accountId+date]').equals([data.accountId as number, data.date as number]).first())?.id;
+    default:
+      return undefined;
+  }
+}
+
+type ApplyResult = 'APPLIED' | 'SKIPPED' | 'DEFERRED';
+
+/**
+ * Applique une modification distante (dans la transaction de applyRemoteChanges)
+ */
+async function applyRemoteChange(change: RemoteChange): Promise<ApplyResult> {
+  const table = db.table<SyncRow, number>(change.table);
+  const key: [SyncTable, string] = [change.table, change.syncId];
+
+  const existing = await db.syncRecords.get(key);
+  if (existing && existing.stamp >= change.stamp) return 'SKIPPED';  // Version locale plus récente
+  const alive = existing && !existing.deleted && existing.localId != null;
+
+  let localId: number | undefined;
+
+  if (change.op === 'DELETE') {
+    if (alive) await table.delete(existing.localId!);
+    localId = existing?.localId;
+  } else {
+    const data = await mapReferences(change.table, change.data as SyncRow, toLocalId);
+    if (!data) return 'DEFERRED';
+
+    if (alive) {
+      localId = existing.localId!;
+      await table.put({ ...data, id: localId });
+    } else {
+      localId = await findDuplicate(change.table, data) ?? await table.add(data);
+    }
+  }
+
+  await db.syncRecords.put({
+    table: change.table,
+    syncId: change.syncId,
+    localId,
+    stamp: change.stamp,
+    ...(change.op === 'DELETE' && { deleted: true })
+  });
+  // La modification locale en attente est dépassée
+  await db.syncChanges.where('[table+syncId]').equals(key).delete();
+
+  return 'APPLIED';
+}
+
+/**
+ * Applique une page de modifications distantes et avance le curseur
+ * Une référence peut arriver plus loin dans la page : plusieurs passes
+ */
+async function applyRemoteChanges(raw: unknown[], version: number): Promise<number> {
+  const tables = [...SYNC_TABLES.map(table => db.table(table)), db.syncRecords, db.syncChanges, db.settings];
+
+  return db.transaction('rw', tables, async (trans) => {
+    db.markSyncTransaction(trans);
+
+    let pending = raw.filter(isRemoteChange);
+    let applied = 0;
+    pending.forEach(change => observeStamp(change.stamp));
+
+    while (pending.length > 0) {
+      const deferred: RemoteChange[] = [];
+
+      for (const change of pending) {
+        try {
+          const result = await applyRemoteChange(change);
+          if (result === 'APPLIED') applied++;
+          if (result === 'DEFERRED') deferred.push(change);
+        } catch (err) {
+          // Contrainte locale (ex: renommage vers un nom déjà pris) : modification ignorée
+          console.error('Sync apply error:', change, err);
+        }
+      }
+
+      if (deferred.length === pending.length) {
+        console.warn('Sync: références introuvables, modifications ignorées', deferred);
+        break;
+      }
+      pending = deferred;
+    }
+
+    await db.settings.put({ key: SYNC_LAST_VERSION_KEY, value: version, updatedAt: Date.now() });
+    return applied;
+  });
+}
+
+/**
+ * Reçoit les modifications des autres appareils depuis la dernière version
+ */
+async function pullChanges(config: SyncConfig): Promise<number> {
+  let since = config.lastVersion;
+  let applied = 0;
+
+  for (;;) {
+    const params = new URLSearchParams({ since: String(since), device: config.deviceId, limit: String(PULL_LIMIT) });
+    const page = await request<PullResponse>(config, `/api/sync/pull?${params}`);
+
+    applied += await applyRemoteChanges(Array.isArray(page.changes) ? page.changes : [], page.version);
+    since = page.version;
+
+    if (!page.hasMore) break;
+  }
+
+  return applied;
+}
+
+// ==================== SYNCHRONISATION ====================
+
+let running: Promise<SyncResult> | null = null;
+
+async function runSync(): Promise<SyncResult> {
+  const config = await getSyncConfig();
+  if (!config) {
+    throw new Error('Synchronisation non configurée');
+  }
+
+  try {
+    await trackUntrackedRecords(config.deviceId);
+    const pushed = await pushChanges(config);
+    const pulled = await pullChanges(config);
+
+    await db.settings.put({ key: SYNC_LAST_SYNC_KEY, value: Date.now(), updatedAt: Date.now() });
+    await db.settings.delete(SYNC_LAST_ERROR_KEY);
+
+    return { pushed, pulled };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Erreur de synchronisation';
+    await db.settings.put({ key: SYNC_LAST_ERROR_KEY, value: message, updatedAt: Date.now() });
+    throw err;
+  }
+}
+
+/**
+ * Envoie puis reçoit les modifications (un seul passage à la fois)
+ */
+export function syncNow(): Promise<SyncResult> {
+  running ??= runSync().finally(() => {
+    running = null;
+  });
+  return running;
+}
@@ -0,0 +1,100 @@
+/**
+ * Horloge de synchronisation : versions des modifications et identité de l'appareil
+ *
+ * RÈGLES :
+ * 1. Chaque modification locale reçoit un stamp « horloge hybride » :
+ *      <heure ms sur 15 chiffres>-<compteur sur 6 chiffres>-<appareil>
+ *    les stamps se comparent comme des chaînes (largeur fixe)
+ * 2. Les stamps sont monotones : jamais inférieurs à un stamp déjà émis ou reçu,
+ *    même si l'horloge du téléphone recule
+ * 3. Conflit : le stamp le plus grand gagne ; à la même milliseconde et au même
+ *    compteur, l'identifiant d'appareil départage → même résultat sur tous les appareils
+ * 4. Les paramètres sync_* sont propres à l'appareil (exclus des sauvegardes)
+ */
+
+import type { SyncTable } from '../types/sync';
+
+/**
+ * Tables synchronisées, dans l'ordre des dépendances
+ * (un enregistrement est envoyé après ceux qu'il référence)
+ */
+export const SYNC_TABLES: SyncTable[] = [
+  'accounts',
+  'products',
+  'partners',
+  'transactions',
+  'payments',
+  'stockMovements',
+  'transfers',
+  'closings'
+];
+
+// Clés settings (propres à l'appareil)
+export const SYNC_SETTING_PREFIX = 'sync_';
+export const SYNC_DEVICE_KEY = 'sync_device_id';
+export const SYNC_SERVER_URL_KEY = 'sync_server_url';
+export const SYNC_SHOP_CODE_KEY = 'sync_shop_code';
+export const SYNC_LAST_VERSION_KEY = 'sync_last_version';
+export const SYNC_LAST_SYNC_KEY = 'sync_last_sync_at';
+export const SYNC_LAST_ERROR_KEY = 'sync_last_error';
+
+const STAMP_PATTERN = /^(\d{15})-(\d{6})-([a-z0-9]+)$/;
+
+let lastTime = 0;
+let lastCounter = 0;
+
+/**
+ * Paramètre propre à l'appareil (non sauvegardé, non restauré)
+ */
+export function isSyncSetting(key: string): boolean {
+  return key.startsWith(SYNC_SETTING_PREFIX);
+}
+
+/**
+ * Identifiant court et aléatoire d'un appareil (12 caractères hexadécimaux)
+ */
+export function createDeviceId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Stamp bien formé ?
+ */
+export function isValidStamp(stamp: unknown): stamp is string {
+  return typeof stamp === 'string' && STAMP_PATTERN.test(stamp);
+}
+
+/**
+ * Avance l'horloge locale au-delà d'un stamp émis ou reçu
+ */
+export function observeStamp(stamp: string): void {
+  const match = STAMP_PATTERN.exec(stamp);
+  if (!match) return;
+
+  const time = Number(match[1]);
+  const counter = Number(match[2]);
+  if (time > lastTime || (time === lastTime && counter > lastCounter)) {
+    lastTime = time;
+    lastCounter = counter;
+  }
+}
+
+/**
+ * Nouveau stamp, supérieur à tous les stamps connus et à `previous`
+ * (version précédente de l'enregistrement modifié)
+ */
+export function createStamp(deviceId: string, previous?: string): string {
+  if (previous) observeStamp(previous);
+
+  const now = Date.now();
+  if (now > lastTime) {
+    lastTime = now;
+    lastCounter = 0;
+  } else {
+    lastCounter++;
+  }
+
+  return `${String(lastTime).padStart(15, '0')}-${String(lastCounter).padStart(6, '0')}-${deviceId}`;
+}
+
@@ -0,0 +1,192 @@
+/**
+ * Trésorerie : soldes et journal des comptes (caisse, mobile money, banque)
+ *
+ * RÈGLES (montants signés, + = entrée d'argent sur le compte) :
+ * - Transaction avec paid > 0 : vente → +paid, achat → -paid
+ * - Payment : encaissement (IN) → +amount, décaissement (OUT) → -amount
+ * - Transfer : -amount sur le compte source, +amount sur le compte destination
+ * - Clôture de caisse : +difference (écart compté - théorique), en fin de journée
+ * - Solde = openingBalance + entrées - sorties
+ *
+ * Indépendant des balances partners : la trésorerie dit OÙ est l'argent,
+ * la balance dit QUI doit quoi.
+ */
+
+import { db } from '../db/db';
+import type { Transaction } from '../types/transaction';
+import type { Payment } from '../types/payments';
+import type { AccountBalance, AccountMovement, Transfer, TreasuryAccount, TreasuryAccountType } from '../types/treasury';
+
+export const ACCOUNT_TYPE_LABELS: Record<TreasuryAccountType, string> = {
+  CASH: 'Caisse (espèces)',
+  MOBILE_MONEY: 'Mobile money',
+  BANK: 'Banque'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Montant encaissé (+) ou décaissé (-) lors d'une transaction
+ */
+export function getTransactionCashFlow(tx: Pick<Transaction, 'direction' | 'paid'>): number {
+  return tx.direction === 'SALE' ? tx.paid : -tx.paid;
+}
+
+/**
+ * Montant encaissé (+) ou décaissé (-) par un paiement
+ */
+export function getPaymentCashFlow(payment: Pick<Payment, 'direction' | 'amount'>): number {
+  return payment.direction === 'IN' ? payment.amount : -payment.amount;
+}
+
+/**
+ * Mouvements d'un compte, sans solde progressif
+ */
+async function getAccountFlows(accountId: number): Promise<Array<Omit<AccountMovement, 'balance'> & { createdAt: number }>> {
+  const [transactions, payments, transfersOut, transfersIn, closings] = await Promise.all([
+    db.transactions.where('accountId').equals(accountId).filter(tx => tx.paid > 0).toArray(),
+    db.payments.where('accountId').equals(accountId).toArray(),
+    db.transfers.where('fromAccountId').equals(accountId).toArray(),
+    db.transfers.where('toAccountId').equals(accountId).toArray(),
+    db.closings.where('accountId').equals(accountId).filter(c => c.difference !== 0).toArray()
+  ]);
+
+  return [
+    ...transactions.map(transaction => ({
+      kind: 'TRANSACTION' as const,
+      date: transaction.date,
+      amount: getTransactionCashFlow(transaction),
+      transaction,
+      createdAt: transaction.createdAt
+    })),
+    ...payments.map(payment => ({
+      kind: 'PAYMENT' as const,
+      date: payment.date,
+      amount: getPaymentCashFlow(payment),
+      payment,
+      createdAt: payment.createdAt
+    })),
+    ...transfersOut.map(transfer => ({
+      kind: 'TRANSFER' as const,
+      date: transfer.date,
+      amount: -transfer.amount,
+      transfer,
+      createdAt: transfer.createdAt
+    })),
+    ...transfersIn.map(transfer => ({
+      kind: 'TRANSFER' as const,
+      date: transfer.date,
+      amount: transfer.amount,
+      transfer,
+      createdAt: transfer.createdAt
+    })),
+    ...closings.map(closing => ({
+      kind: 'CLOSING' as const,
+      date: closing.date + DAY_MS - 1, // Après les mouvements de la journée
+      amount: closing.difference,
+      closing,
+      createdAt: closing.createdAt
+    }))
+  ];
+}
+
+/**
+ * Solde d'un compte avec total des entrées / sorties
+ */
+export async function getAccountBalance(account: TreasuryAccount): Promise<AccountBalance> {
+  const flows = await getAccountFlows(account.id!);
+
+  const inflows = flows.filter(f => f.amount > 0).reduce((sum, f) => sum + f.amount, 0);
+  const outflows = flows.filter(f => f.amount < 0).reduce((sum, f) => sum - f.amount, 0);
+
+  return {
+    account,
+    inflows,
+    outflows,
+    balance: account.openingBalance + inflows - outflows
+  };
+}
+
+/**
+ * Soldes de tous les comptes (archivés exclus sauf demande)
+ */
+export async function getAccountBalances(includeArchived = false): Promise<AccountBalance[]> {
+  const accounts = await db.accounts.toArray();
+  return Promise.all(
+    accounts
+      .filter(a => includeArchived || !a.archived)
+      .map(getAccountBalance)
+  );
+}
+
+/**
+ * Journal d'un compte, plus récents d'abord, avec solde après chaque mouvement
+ */
+export async function getAccountJournal(accountId: number): Promise<AccountMovement[]> {
+  const account = await db.accounts.get(accountId);
+  if (!account) return [];
+
+  const flows = await getAccountFlows(accountId);
+  flows.sort((a, b) => a.date - b.date || a.createdAt - b.createdAt);
+
+  let balance = account.openingBalance;
+  const movements: AccountMovement[] = flows.map(flow => {
+    balance += flow.amount;
+    return {
+      kind: flow.kind,
+      date: flow.date,
+      amount: flow.amount,
+      balance,
+      transaction: flow.transaction,
+      payment: flow.payment,
+      transfer: flow.transfer,
+      closing: flow.closing
+    };
+  });
+
+  return movements.reverse();
+}
+
+/**
+ * Vérifie qu'un compte existe et est actif (saisie d'un paiement ou d'une transaction)
+ */
+export async function assertActiveAccount(accountId: number | undefined): Promise<TreasuryAccount> {
+  if (accountId == null) {
+    throw new Error('Choisissez le compte de trésorerie (caisse, mobile money, banque)');
+  }
+  const account = await db.accounts.get(accountId);
+  if (!account) {
+    throw new Error('Compte de trésorerie introuvable');
+  }
+  if (account.archived) {
+    throw new Error(`Le compte "${account.name}" est archivé`);
+  }
+  return account;
+}
+
+/**
+ * Nombre de mouvements rattachés à un compte (suppression impossible si > 0)
+ */
+export async function countAccountUsage(accountId: number): Promise<number> {
+  const counts = await Promise.all([
+    db.transactions.where('accountId').equals(accountId).count(),
+    db.payments.where('accountId').equals(accountId).count(),
+    db.transfers.where('fromAccountId').equals(accountId).count(),
+    db.transfers.where('toAccountId').equals(accountId).count(),
+    db.closings.where('accountId').equals(accountId).count()
+  ]);
+  return counts.reduce((sum, c) => sum + c, 0);
+}
+
+/**
+ * Libellé d'un virement vu depuis un compte
+ */
+export function getTransferLabel(
+  transfer: Transfer,
+  accountId: number,
+  accountNames: Map<number, string>
+): string {
+  return transfer.fromAccountId === accountId
+    ? `Virement vers ${accountNames.get(transfer.toAccountId) ?? 'compte supprimé'}`
+    : `Virement depuis ${accountNames.get(transfer.fromAccountId) ?? 'compte supprimé'}`;
+}
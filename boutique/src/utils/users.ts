@@ -0,0 +1,160 @@
+/**
+ * Profils utilisateurs et codes PIN
+ *
+ * RÈGLES :
+ * 1. Sans aucun profil, l'application fonctionne comme avant (propriétaire unique, pas de verrouillage)
+ * 2. Le premier profil créé est obligatoirement un propriétaire
+ * 3. Il reste toujours au moins un propriétaire
+ * 4. Le code PIN (4 à 6 chiffres) n'est jamais stocké en clair : SHA-256(sel + PIN)
+ * 5. Verrouillage automatique après LOCK_DELAY_KEY minutes d'inactivité
+ * 6. Après MAX_PIN_ATTEMPTS codes erronés, la saisie du PIN est bloquée 30 s, puis le
+ *    délai double à chaque nouvel échec (1 h au plus) ; un code correct remet à zéro
+ */
+
+import { db } from '../db/db';
+import type { Permission, UserProfile, UserRole } from '../types/users';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  OWNER: 'Propriétaire',
+  CASHIER: 'Caissier'
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  OWNER: ['DELETE', 'EDIT_PAYMENT', 'RESET_DATA', 'OVERRIDE_EDIT_LOCK', 'MANAGE_USERS', 'MANAGE_SYNC', 'MERGE_PARTNERS'],
+  CASHIER: []
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  DELETE: 'Suppression',
+  EDIT_PAYMENT: 'Modification des paiements',
+  RESET_DATA: 'Effacement des données',
+  OVERRIDE_EDIT_LOCK: 'Modification d\'une transaction d\'un autre jour',
+  MANAGE_USERS: 'Gestion des profils',
+  MANAGE_SYNC: 'Configuration de la synchronisation',
+  MERGE_PARTNERS: 'Fusion de partners'
+};
+
+// Clé settings du délai de verrouillage (minutes)
+export const LOCK_DELAY_KEY = 'lock_delay_minutes';
+export const DEFAULT_LOCK_DELAY = 5;
+export const LOCK_DELAY_OPTIONS = [1, 2, 5, 10, 15, 30];
+
+// Codes PIN erronés tolérés avant blocage, puis délai de blocage (doublé à chaque échec)
+export const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_BASE_MS = 30_000;
+const PIN_LOCKOUT_MAX_MS = 60 * 60_000;
+
+/**
+ * Code PIN valide : 4 à 6 chiffres
+ */
+export function isValidPin(pin: string): boolean {
+  return /^\d{4,6}$/.test(pin);
+}
+
+/**
+ * Sel aléatoire (hex) d'un code PIN
+ */
+export function createPinSalt(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Empreinte SHA-256 (hex) du sel + code PIN
+ */
+export async function hashPin(pin: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(salt + pin));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Vérifie le code PIN d'un profil
+ */
+export async function verifyPin(user: UserProfile, pin: string): Promise<boolean> {
+  return (await hashPin(pin, user.pinSalt)) === user.pinHash;
+}
+
+/**
+ * Durée de blocage après `failedAttempts` codes erronés consécutifs (0 = pas de blocage)
+ */
+export function getPinLockoutDuration(failedAttempts: number): number {
+  if (failedAttempts < MAX_PIN_ATTEMPTS) return 0;
+  return Math.min(PIN_LOCKOUT_BASE_MS * 2 ** (failedAttempts - MAX_PIN_ATTEMPTS), PIN_LOCKOUT_MAX_MS);
+}
+
+/**
+ * Attente restante avant de pouvoir saisir le PIN d'un profil (ms, 0 = aucune)
+ */
+export function getPinLockoutRemaining(user: UserProfile, now: number = Date.now()): number {
+  return Math.max(0, (user.pinLockedUntil ?? 0) - now);
+}
+
+/**
+ * Attente lisible : « 45 s », « 2 min 30 s »
+ */
+export function formatPinLockout(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  const rest = seconds % 60;
+  return `${Math.floor(seconds / 60)} min${rest ? ` ${rest} s` : ''}`;
+}
+
+/**
+ * Vérifie le code PIN d'un profil en comptant les échecs (cf. règle 6)
+ * Retourne le profil à jour si le code est correct, lève une erreur sinon
+ */
+export async function attemptPin(userId: number, pin: string): Promise<UserProfile> {
+  const user = await db.users.get(userId);
+  if (!user) {
+    throw new Error('Profil introuvable');
+  }
+
+  const remaining = getPinLockoutRemaining(user);
+  if (remaining > 0) {
+    throw new Error(`Trop de tentatives : réessayez dans ${formatPinLockout(remaining)}`);
+  }
+
+  if (await verifyPin(user, pin)) {
+    if (user.failedPinAttempts || user.pinLockedUntil) {
+      await db.users.update(userId, { failedPinAttempts: 0, pinLockedUntil: undefined });
+    }
+    return (await db.users.get(userId))!;
+  }
+
+  // Compteur incrémenté sur la valeur stockée (tentatives simultanées)
+  let failedAttempts = 0;
+  await db.users.where('id').equals(userId).modify(profile => {
+    failedAttempts = (profile.failedPinAttempts ?? 0) + 1;
+    profile.failedPinAttempts = failedAttempts;
+    const lockout = getPinLockoutDuration(failedAttempts);
+    if (lockout > 0) profile.pinLockedUntil = Date.now() + lockout;
+  });
+
+  const lockout = getPinLockoutDuration(failedAttempts);
+  if (lockout > 0) {
+    throw new Error(`Code PIN incorrect. Trop de tentatives : réessayez dans ${formatPinLockout(lockout)}`);
+  }
+  const left = MAX_PIN_ATTEMPTS - failedAttempts;
+  throw new Error(`Code PIN incorrect (${left} essai${left > 1 ? 's' : ''} avant blocage)`);
+}
+
+/**
+ * Délai de verrouillage automatique (minutes)
+ */
+export async function getLockDelay(): Promise<number> {
+  const row = await db.settings.get(LOCK_DELAY_KEY);
+  return typeof row?.value === 'number' && row.value > 0 ? row.value : DEFAULT_LOCK_DELAY;
+}
+
+/**
+ * Vérifie qu'il restera un propriétaire après la modification / suppression d'un profil
+ */
+export async function assertOwnerRemains(userId: number, nextRole?: UserRole): Promise<void> {
+  const user = await db.users.get(userId);
+  if (user?.role !== 'OWNER' || nextRole === 'OWNER') return;
+
+  const owners = await db.users.where('role').equals('OWNER').count();
+  if (owners <= 1) {
+    throw new Error('Il doit rester au moins un propriétaire');
+  }
+}